@@ -9,6 +9,7 @@ import React, { useEffect, useState } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
+import { ScriptProvider } from './src/contexts/ScriptContext';
 import firebase from '@react-native-firebase/app';
 import { ActivityIndicator, View, Text } from 'react-native';
 import { Provider as PaperProvider, Button } from 'react-native-paper';
@@ -19,6 +20,8 @@ import { SignInScreen } from './src/screens/auth/SignInScreen';
 import { SignUpScreen } from './src/screens/auth/SignUpScreen';
 import { ScriptReaderScreen } from './src/screens/script/ScriptReaderScreen';
 import PracticeScript from './src/screens/script/PracticeScript';
+import EditScriptLines from './src/screens/script/EditScriptLines';
+import ScriptProgress from './src/screens/script/ScriptProgress';
 import { RootStackParamList, AuthStackParamList, MainStackParamList } from './src/navigation/types';
 import ErrorBoundary from './src/components/ErrorBoundary';
 import firebaseService from './src/services/firebase';
@@ -97,6 +100,11 @@ const MainNavigator = () => (
       component={EditScript}
       options={{ title: 'Edit Script' }}
     />
+    <MainStack.Screen 
+      name="EditScriptLines" 
+      component={EditScriptLines}
+      options={{ title: 'Edit Lines' }}
+    />
     <MainStack.Screen 
       name="PracticeScript" 
       component={PracticeScript}
@@ -106,6 +114,11 @@ const MainNavigator = () => (
         headerBackTitleVisible: false,
       })}
     />
+    <MainStack.Screen 
+      name="ScriptProgress" 
+      component={ScriptProgress}
+      options={{ title: 'Progress' }}
+    />
   </MainStack.Navigator>
 );
 
@@ -226,9 +239,11 @@ const App = () => {
       <PaperProvider theme={theme}>
         <SafeAreaProvider>
           <AuthProvider>
-            <NavigationContainer theme={navigationTheme}>
-              <NavigationContent />
-            </NavigationContainer>
+            <ScriptProvider>
+              <NavigationContainer theme={navigationTheme}>
+                <NavigationContent />
+              </NavigationContainer>
+            </ScriptProvider>
           </AuthProvider>
         </SafeAreaProvider>
       </PaperProvider>
@@ -9,13 +9,18 @@
 
 import * as admin from "firebase-admin";
 import { onObjectFinalized } from "firebase-functions/v2/storage";
-import { processUploadedScript } from "./scripts/processScript";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { processScriptObject, processUploadedScript, reprocessScriptSection } from "./scripts/processScript";
+import { getScriptFormat } from "./scripts/formats";
+import { isProcessingStale } from "./scripts/processingLease";
+import { EXPORT_FORMATS, ExportFormat, buildScriptExport } from "./scripts/exportScript";
+import { CHARACTER_CHANGE_ACTIONS, CharacterChange, updateScriptCharacters } from "./scripts/characters";
+import { MAX_CUE_WORDS, generateCueVoices } from "./scripts/cues";
+import { VoiceJob, planVoiceJob, requeueStalledVoiceJobs, runVoiceJob } from "./scripts/voiceJobs";
+import { VOICE_CATALOGUE, findVoice } from "./scripts/voices";
+import { createTtsResolver } from "./scripts/tts";
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { OpenAI } from 'openai';
-import * as os from 'os';
-import * as path from 'path';
-import * as fs from 'fs';
-import { writeFileSync } from 'fs';
 import { defineSecret } from 'firebase-functions/params';
 
 // Add these interfaces at the top of the file after imports
@@ -46,18 +51,26 @@ admin.initializeApp();
 // Define secrets
 const OPENAI_API_KEY = defineSecret('OPENAI_API_KEY');
 
+// Speech for each catalogue voice; the local engine reads OpenAI voices when
+// there is no key, as in the emulator
+const createTts = () => {
+  const apiKey = OPENAI_API_KEY.value();
+  return createTtsResolver(apiKey ? new OpenAI({ apiKey }) : null);
+};
+
 // Export functions
 export const processScript = onObjectFinalized(
   { 
     timeoutSeconds: 540,
+    // Scanned PDFs are rendered and OCR'd page by page.
+    memory: "2GiB",
     secrets: [OPENAI_API_KEY],
     eventFilters: {
-      contentType: 'application/pdf',
-      pathPattern: 'scripts/{userId}/upload/*.pdf'
+      pathPattern: "scripts/{userId}/upload/*",
     }
   },
   async (event) => {
-    // Multiple validation checks to ensure we only process PDF uploads
+    // Multiple validation checks to ensure we only process script uploads
     const fileName = event.data.name;
     const contentType = event.data.contentType;
 
@@ -85,12 +98,13 @@ export const processScript = onObjectFinalized(
     }
 
     // Then check file type (these might involve more processing)
-    if (!fileName.toLowerCase().endsWith('.pdf')) {
-      console.log('Skipping - File is not a PDF:', fileName);
+    const format = getScriptFormat(fileName);
+    if (!format) {
+      console.log("Skipping - File is not a supported script format:", fileName);
       return;
     }
 
-    if (contentType !== 'application/pdf') {
+    if (format === "pdf" && contentType !== "application/pdf") {
       console.log('Skipping - Content type is not PDF:', contentType);
       return;
     }
@@ -107,6 +121,13 @@ export const processScript = onObjectFinalized(
   }
 );
 
+// The voices the app offers for scene partners
+export const getVoiceCatalogue = onCall({
+  maxInstances: 10,
+}, async () => {
+  return { voices: VOICE_CATALOGUE };
+});
+
 export const generateVoiceTest = onCall({ 
   maxInstances: 10,
   secrets: [OPENAI_API_KEY]
@@ -125,59 +146,35 @@ export const generateVoiceTest = onCall({
     throw new HttpsError('invalid-argument', error);
   }
 
-  const validVoices = ['alloy', 'ash', 'coral', 'echo', 'fable', 'onyx', 'nova', 'sage', 'shimmer'];
-  if (!validVoices.includes(voice)) {
-    const error = `Invalid voice option: ${voice}. Valid options are: ${validVoices.join(', ')}`;
+  if (!findVoice(voice)) {
+    const valid = VOICE_CATALOGUE.map((item) => item.id).join(", ");
+    const error = `Invalid voice option: ${voice}. Valid options are: ${valid}`;
     console.error("Voice test validation error:", error);
     throw new HttpsError('invalid-argument', error);
   }
 
   try {
-    const openai = new OpenAI({
-      apiKey: OPENAI_API_KEY.value(),
-    });
+    const { provider, voice: providerVoice } = createTts()(voice);
 
-    console.log("Creating speech with OpenAI...");
-    const response = await openai.audio.speech.create({
-      model: "tts-1",
-      voice: voice,
-      input: text,
-    });
-    console.log("OpenAI speech creation successful");
-
-    // Create a temporary file
-    const tempFilePath = path.join(os.tmpdir(), `voice-test-${Date.now()}.mp3`);
-    console.log("Temporary file path:", tempFilePath);
-    
-    // Get the audio data as an ArrayBuffer
-    console.log("Getting audio data...");
-    const audioData = await response.arrayBuffer();
-    console.log("Audio data received, size:", audioData.byteLength);
-    
-    // Write the audio data to the temporary file
-    console.log("Writing audio data to temporary file...");
-    writeFileSync(tempFilePath, Buffer.from(audioData));
+    console.log(`Creating speech with the ${provider.id} provider...`);
+    const audio = await provider.synthesize({ text, voice: providerVoice });
+    console.log("Speech creation successful, size:", audio.length);
 
     // Upload to Firebase Storage
     const bucket = admin.storage().bucket();
-    const fileName = `voice-tests/${Date.now()}-${voice}-test.mp3`;
+    const fileName = `voice-tests/${Date.now()}-${voice}-test.${provider.extension}`;
     console.log("Uploading to Firebase Storage:", fileName);
-    
-    await bucket.upload(tempFilePath, {
-      destination: fileName,
+
+    const file = bucket.file(fileName);
+    await file.save(audio, {
       metadata: {
-        contentType: 'audio/mpeg',
+        contentType: provider.contentType,
       },
     });
     console.log("Upload successful");
 
-    // Delete the temporary file
-    fs.unlinkSync(tempFilePath);
-    console.log("Temporary file deleted");
-
     // Get the public URL
     console.log("Getting download URL...");
-    const file = bucket.file(fileName);
     const [downloadUrl] = await file.getSignedUrl({
       action: 'read',
       expires: Date.now() + 24 * 60 * 60 * 1000, // URL expires in 24 hours
@@ -212,259 +209,472 @@ export const generateVoiceTest = onCall({
   }
 });
 
-export const generateVoiceLines = onCall({ 
+export const startVoiceGeneration = onCall({
   maxInstances: 10,
-  secrets: [OPENAI_API_KEY]
 }, async (request) => {
-  console.log("Starting bulk voice line generation with params:", {
-    scriptId: request.data.scriptId,
-    practiceCharacter: request.data.practiceCharacter,
-    auth: request.auth?.uid || 'unauthenticated'
-  });
-
   if (!request.auth) {
     throw new HttpsError('unauthenticated', 'User must be authenticated');
   }
 
-  const { scriptId, practiceCharacter, characterVoices } = request.data;
-  
+  const { scriptId, practiceCharacter, characterVoices, startLine } = request.data as {
+    scriptId?: string;
+    practiceCharacter?: string;
+    characterVoices?: Record<string, { voice?: string }>;
+    startLine?: number;
+  };
+
   if (!scriptId || !practiceCharacter || !characterVoices) {
     throw new HttpsError('invalid-argument', 'Missing required parameters');
   }
 
-  // Track success and failure counts
-  const stats = {
-    totalLines: 0,
-    successfulLines: 0,
-    failedLines: 0,
-    errors: [] as string[]
+  const scriptRef = admin.firestore().collection("scripts").doc(scriptId);
+  const scriptDoc = await scriptRef.get();
+  if (!scriptDoc.exists) {
+    throw new HttpsError("not-found", `Script document not found. ID: ${scriptId}`);
+  }
+  const scriptData = scriptDoc.data();
+  if (scriptData?.userId !== request.auth.uid) {
+    throw new HttpsError("permission-denied", "You do not have access to this script");
+  }
+  if (!scriptData?.analysis?.processedLines?.length) {
+    throw new HttpsError("failed-precondition", "Script is missing analysis or processed lines data");
+  }
+
+  const voices: Record<string, string> = {};
+  Object.entries(characterVoices).forEach(([character, settings]) => {
+    if (settings?.voice) voices[character] = settings.voice;
+  });
+  const from = typeof startLine === "number" ? startLine : 0;
+
+  // Runs stopped by the function timeout pick up where they left off; one
+  // voicing the same partners serves this rehearsal too
+  const stalled = await requeueStalledVoiceJobs(scriptRef, request.auth.uid);
+  const resumed = stalled.find(({ job }) =>
+    job.practiceCharacter === practiceCharacter &&
+    Object.keys(job.voices).length === Object.keys(voices).length &&
+    Object.entries(job.voices).every(([character, voice]) => voices[character] === voice));
+  if (resumed) {
+    console.log(`[${scriptId}] Voice job ${resumed.id} resumed after its run stopped`);
+    return { jobId: resumed.id, total: resumed.job.total, pending: resumed.job.order.length };
+  }
+
+  const { order, total } = planVoiceJob(scriptData.analysis.processedLines, practiceCharacter, voices, from);
+
+  const job: VoiceJob = {
+    userId: request.auth.uid,
+    practiceCharacter,
+    startLine: from,
+    // Nothing to generate: the job only reports the lines already voiced
+    status: order.length > 0 ? "queued" : "completed",
+    voices,
+    order,
+    total,
+    ready: total - order.length,
+    failed: 0,
+    runs: 0,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
   };
+  const jobRef = await scriptRef.collection("voiceJobs").add(job);
+
+  console.log(`[${scriptId}] Voice job ${jobRef.id} created:`, {
+    practiceCharacter,
+    startLine: from,
+    total,
+    toGenerate: order.length,
+  });
+  return { jobId: jobRef.id, total, pending: order.length };
+});
 
+// Runs a voice job each time it is queued, by startVoiceGeneration or by the
+// previous run handing over
+export const processVoiceJob = onDocumentWritten({
+  document: "scripts/{scriptId}/voiceJobs/{jobId}",
+  timeoutSeconds: 540,
+  secrets: [OPENAI_API_KEY],
+}, async (event) => {
+  if (!event.data) return;
+  const before = event.data.before.data() as VoiceJob | undefined;
+  const after = event.data.after.data() as VoiceJob | undefined;
+  if (after?.status !== "queued" || before?.status === "queued") return;
+
+  const { scriptId } = event.params;
+  const jobRef = event.data.after.ref;
   try {
-    console.log('Initializing OpenAI with API key...');
-    const openai = new OpenAI({
-      apiKey: OPENAI_API_KEY.value(),
+    await runVoiceJob(scriptId, jobRef, createTts());
+  } catch (error) {
+    console.error(`[${scriptId}] Voice job ${event.params.jobId} failed:`, error);
+    await jobRef.update({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     });
+  }
+});
 
-    const bucket = admin.storage().bucket();
-    const db = admin.firestore();
+export const generateCueLines = onCall({
+  maxInstances: 10,
+  timeoutSeconds: 300,
+  secrets: [OPENAI_API_KEY],
+}, async (request) => {
+  console.log("Starting cue line generation with params:", {
+    scriptId: request.data.scriptId,
+    practiceCharacter: request.data.practiceCharacter,
+    words: request.data.words,
+    auth: request.auth?.uid || "unauthenticated",
+  });
 
-    console.log(`Attempting to fetch script document with ID: ${scriptId}`);
-    const scriptDoc = await db.collection('scripts').doc(scriptId).get();
-    if (!scriptDoc.exists) {
-      console.error(`Script document not found. ID: ${scriptId}`);
-      throw new HttpsError('not-found', `Script document not found. ID: ${scriptId}`);
-    }
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
 
-    console.log('Script document found, checking for analysis data...');
-    const scriptData = scriptDoc.data();
-    if (!scriptData?.analysis?.processedLines) {
-      console.error('Script data invalid. Structure:', JSON.stringify({
-        hasScriptData: !!scriptData,
-        hasAnalysis: !!scriptData?.analysis,
-        hasProcessedLines: !!scriptData?.analysis?.processedLines
-      }));
-      throw new HttpsError('failed-precondition', 'Script is missing analysis or processed lines data');
-    }
+  const { scriptId, practiceCharacter, characterVoices, words } = request.data as {
+    scriptId?: string;
+    practiceCharacter?: string;
+    characterVoices?: Record<string, { voice?: string }>;
+    words?: number;
+  };
 
-    console.log(`Found ${scriptData.analysis.processedLines.length} processed lines in script`);
-    const processedLines = scriptData.analysis.processedLines;
-    const updatedProcessedLines = [...processedLines];
-
-    // Process each line except action lines and practicing character's lines
-    for (let i = 0; i < processedLines.length; i++) {
-      const line = processedLines[i];
-      
-      // Skip action lines and practicing character's lines
-      if (line.isAction || line.characterName === practiceCharacter) {
-        console.log(`Skipping line: ${line.isAction ? 'action line' : 'practice character line'}`);
-        continue;
-      }
+  if (!scriptId || !practiceCharacter || !characterVoices || typeof words !== "number") {
+    throw new HttpsError("invalid-argument", "Missing required parameters");
+  }
+  if (!Number.isInteger(words) || words < 1 || words > MAX_CUE_WORDS) {
+    throw new HttpsError("invalid-argument", `Cue length must be between 1 and ${MAX_CUE_WORDS} words`);
+  }
 
-      const characterVoice = characterVoices[line.characterName];
-      if (!characterVoice?.voice) {
-        console.log(`Skipping line with no voice settings for character: ${line.characterName}`);
-        continue;
-      }
+  const scriptRef = admin.firestore().collection("scripts").doc(scriptId);
+  const scriptDoc = await scriptRef.get();
+  if (!scriptDoc.exists) {
+    throw new HttpsError("not-found", `Script document not found. ID: ${scriptId}`);
+  }
+  const scriptData = scriptDoc.data();
+  if (scriptData?.userId !== request.auth.uid) {
+    throw new HttpsError("permission-denied", "You do not have access to this script");
+  }
+  if (!scriptData?.analysis?.processedLines?.length) {
+    throw new HttpsError("failed-precondition", "Script is missing analysis or processed lines data");
+  }
 
-      stats.totalLines++;
-      console.log(`Processing voice line for character: ${line.characterName}`, {
-        voice: characterVoice.voice,
-        lineNumber: line.originalLineNumber,
-        sequentialNumber: line.sequentialNumber
-      });
-
-      const fileName = `scripts/${scriptId}/analysis/${line.characterName}/voices/${characterVoice.voice}/${scriptId}_${line.characterName}_${line.originalLineNumber}_${characterVoice.voice}.mp3`;
-      
-      try {
-        // Check if file already exists
-        const fileExists = await bucket.file(fileName).exists();
-        if (fileExists[0]) {
-          console.log(`Audio file already exists for line ${line.originalLineNumber}, skipping generation`);
-          stats.successfulLines++;
-          continue;
-        }
-
-        // Generate speech using OpenAI
-        const response = await openai.audio.speech.create({
-          model: "tts-1",
-          voice: characterVoice.voice,
-          input: line.text,
-        });
-
-        // Get the audio data
-        const audioData = await response.arrayBuffer();
-        console.log(`Generated audio data for line ${line.originalLineNumber}, size: ${audioData.byteLength} bytes`);
-
-        // Upload to Firebase Storage with retry logic
-        const file = bucket.file(fileName);
-        let uploadSuccess = false;
-        let uploadAttempts = 0;
-        const maxUploadAttempts = 3;
-
-        while (!uploadSuccess && uploadAttempts < maxUploadAttempts) {
-          try {
-            await file.save(Buffer.from(audioData), {
-              metadata: {
-                contentType: 'audio/mpeg',
-                metadata: {
-                  scriptId,
-                  characterName: line.characterName,
-                  lineNumber: line.originalLineNumber,
-                  voice: characterVoice.voice
-                }
-              }
-            });
-            uploadSuccess = true;
-          } catch (uploadError) {
-            uploadAttempts++;
-            if (uploadAttempts === maxUploadAttempts) {
-              throw uploadError;
-            }
-            await new Promise(resolve => setTimeout(resolve, 1000 * uploadAttempts));
-          }
-        }
-
-        // Get the download URL
-        const [url] = await file.getSignedUrl({
-          action: 'read',
-          expires: '3000-01-01'
-        });
-
-        // Update the line with the voice URL
-        updatedProcessedLines[i] = {
-          ...line,
-          voices: {
-            ...(line.voices || {}),
-            [characterVoice.voice]: url
-          }
-        };
-
-        stats.successfulLines++;
-        console.log(`Added voice URL for line ${line.originalLineNumber}, voice ${characterVoice.voice}`);
-      } catch (error) {
-        stats.failedLines++;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`Error generating audio for line ${line.originalLineNumber}:`, error);
-        
-        if (error instanceof Error) {
-          if (error.message.includes('rate limit')) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            continue;
-          }
-          if (error.message.includes('API key')) {
-            throw new HttpsError('unauthenticated', 'Authentication failed with voice service. Please try again later.');
-          }
-        }
-        
-        stats.errors.push(`Failed to generate audio for ${line.characterName}, line ${line.originalLineNumber}: ${errorMessage}`);
-        continue;
-      }
+  try {
+    const voices: Record<string, string> = {};
+    Object.entries(characterVoices).forEach(([character, settings]) => {
+      if (settings?.voice) voices[character] = settings.voice;
+    });
+    const { lines, result } = await generateCueVoices(
+      scriptId,
+      scriptData.analysis.processedLines,
+      practiceCharacter,
+      voices,
+      words,
+      createTts()
+    );
+    if (result.generated > 0) {
+      await scriptRef.update({ "analysis.processedLines": lines });
     }
 
-    // Apply the update to the processedLines array in a single operation
-    if (stats.successfulLines > 0) {
-      try {
-        // Validate that we haven't lost any lines
-        console.log('Final processed lines count:', updatedProcessedLines.length);
-        if (updatedProcessedLines.length !== processedLines.length) {
-          const error = `Processed lines count mismatch: started with ${processedLines.length}, ended with ${updatedProcessedLines.length}`;
-          console.error(error);
-          throw new HttpsError('internal', error);
-        }
-
-        await scriptDoc.ref.update({
-          'analysis.processedLines': updatedProcessedLines
-        });
-        console.log('Successfully updated all processed lines with voice URLs');
-      } catch (updateError) {
-        console.error('Error updating processed lines:', updateError);
-        throw new HttpsError('data-loss', 'Failed to save voice line updates');
-      }
-    }
+    console.log(`[${scriptId}] Cue line generation completed:`, result);
+    return { success: result.failed === 0, ...result };
+  } catch (error) {
+    console.error(`[${scriptId}] Error generating cue lines:`, {
+      error: error instanceof Error ? {
+        message: error.message,
+        stack: error.stack,
+      } : error,
+      practiceCharacter,
+      words,
+    });
+    throw new HttpsError("internal",
+      `Failed to generate cue lines: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+});
 
-    if (stats.successfulLines === 0) {
-      throw new HttpsError('failed-precondition', 'No voice lines were generated. Please check character settings and try again.');
-    }
+export const exportScript = onCall({
+  maxInstances: 10,
+}, async (request) => {
+  console.log("Starting script export with params:", {
+    scriptId: request.data.scriptId,
+    format: request.data.format,
+    character: request.data.character,
+    auth: request.auth?.uid || "unauthenticated",
+  });
 
-    console.log('Voice line generation completed with stats:', stats);
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
 
-    // Collect all generated audio URLs
-    const audioFiles: Record<string, string[]> = {};
-    updatedProcessedLines.forEach(line => {
-      if (line.voices && !line.isAction && line.characterName !== practiceCharacter) {
-        const lineId = `${scriptId}_${line.characterName}_${line.originalLineNumber}`;
-        audioFiles[lineId] = Object.values(line.voices);
-      }
-    });
+  const { scriptId, format, character } = request.data as {
+    scriptId?: string;
+    format?: ExportFormat;
+    character?: string;
+  };
+
+  if (!scriptId || !format) {
+    throw new HttpsError("invalid-argument", "Missing required parameters");
+  }
 
-    return {
-      success: true,
-      stats: {
-        totalLines: stats.totalLines,
-        successfulLines: stats.successfulLines,
-        failedLines: stats.failedLines,
-        errors: stats.errors
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new HttpsError("invalid-argument",
+      `Invalid export format: ${format}. Valid options are: ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  if (format === "sides" && !character) {
+    throw new HttpsError("invalid-argument", "A character is required to export sides");
+  }
+
+  const scriptDoc = await admin.firestore().collection("scripts").doc(scriptId).get();
+  if (!scriptDoc.exists) {
+    throw new HttpsError("not-found", `Script document not found. ID: ${scriptId}`);
+  }
+
+  const scriptData = scriptDoc.data();
+  if (scriptData?.userId !== request.auth.uid) {
+    throw new HttpsError("permission-denied", "You do not have access to this script");
+  }
+
+  if (!scriptData?.analysis?.processedLines?.length) {
+    throw new HttpsError("failed-precondition", "Script is missing analysis or processed lines data");
+  }
+
+  if (format === "sides" &&
+      !scriptData.analysis.processedLines.some((line: { characterName: string }) => line.characterName === character)) {
+    throw new HttpsError("invalid-argument", `${character} has no lines in this script`);
+  }
+
+  try {
+    const title = scriptData.title || "Untitled Script";
+    const result = await buildScriptExport(format, title, scriptData.analysis, character);
+
+    const safeTitle = title.replace(/[^a-zA-Z0-9 _-]/g, "").trim() || "script";
+    const baseName = format === "sides" ? `${safeTitle} - ${character} sides` : safeTitle;
+    const fileName = `${baseName}.${result.extension}`;
+
+    const bucket = admin.storage().bucket();
+    const file = bucket.file(`scripts/${scriptId}/exports/${Date.now()}_${fileName}`);
+    await file.save(result.content, {
+      metadata: {
+        contentType: result.contentType,
+        contentDisposition: `attachment; filename="${fileName}"`,
+        metadata: {
+          scriptId,
+          format,
+        },
       },
-      audioFiles
-    };
+    });
+
+    const [url] = await file.getSignedUrl({
+      action: "read",
+      expires: Date.now() + 24 * 60 * 60 * 1000, // URL expires in 24 hours
+    });
 
+    console.log(`[${scriptId}] Export completed:`, { format, fileName, size: result.content.length });
+    return { url, fileName, format };
   } catch (error) {
-    console.error("Error in voice line generation:", {
+    console.error(`[${scriptId}] Error exporting script:`, {
       error: error instanceof Error ? {
         message: error.message,
-        name: error.name,
-        stack: error.stack
+        stack: error.stack,
       } : error,
-      scriptId,
-      practiceCharacter,
-      stats
+      format,
+      character,
     });
+    throw new HttpsError("internal",
+      `Failed to export script: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+});
 
-    // If it's already a HttpsError, rethrow it
-    if (error instanceof HttpsError) {
-      throw error;
-    }
+export const manageCharacters = onCall({
+  maxInstances: 10,
+  timeoutSeconds: 300,
+}, async (request) => {
+  console.log("Starting character update with params:", {
+    scriptId: request.data.scriptId,
+    action: request.data.action,
+    sources: request.data.sources,
+    target: request.data.target,
+    auth: request.auth?.uid || "unauthenticated",
+  });
 
-    // Handle specific error types
-    if (error instanceof Error) {
-      if (error.message.includes('API key')) {
-        throw new HttpsError('unauthenticated', 'Authentication failed with voice service. Please try again later.');
-      }
-      if (error.message.includes('rate limit')) {
-        throw new HttpsError('resource-exhausted', 'Voice service is currently busy. Please try again in a few moments.');
-      }
-      if (error.message.includes('quota')) {
-        throw new HttpsError('resource-exhausted', 'Voice generation quota exceeded. Please try again later.');
-      }
-      if (error.message.includes('network')) {
-        throw new HttpsError('unavailable', 'Network error occurred. Please check your connection and try again.');
-      }
-    }
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
 
-    throw new HttpsError(
-      'internal', 
-      `Failed to generate voice lines: ${error instanceof Error ? error.message : 'Unknown error'}. ${stats.successfulLines} lines were successfully generated.`
-    );
+  const { scriptId, action, sources, target } = request.data as {
+    scriptId?: string;
+    action?: CharacterChange["action"];
+    sources?: string[];
+    target?: string;
+  };
+  const targetName = target?.trim();
+
+  if (!scriptId || !action || !Array.isArray(sources) || sources.length === 0 || !targetName) {
+    throw new HttpsError("invalid-argument", "Missing required parameters");
+  }
+
+  if (!CHARACTER_CHANGE_ACTIONS.includes(action)) {
+    throw new HttpsError("invalid-argument",
+      `Invalid action: ${action}. Valid options are: ${CHARACTER_CHANGE_ACTIONS.join(", ")}`);
+  }
+
+  if (action === "rename" && sources.length !== 1) {
+    throw new HttpsError("invalid-argument", "Rename takes exactly one character");
+  }
+
+  if (targetName.includes("/")) {
+    throw new HttpsError("invalid-argument", "Character names cannot contain \"/\"");
+  }
+
+  const scriptDoc = await admin.firestore().collection("scripts").doc(scriptId).get();
+  if (!scriptDoc.exists) {
+    throw new HttpsError("not-found", `Script document not found. ID: ${scriptId}`);
+  }
+  if (scriptDoc.data()?.userId !== request.auth.uid) {
+    throw new HttpsError("permission-denied", "You do not have access to this script");
+  }
+
+  try {
+    return await updateScriptCharacters(scriptId, {
+      action,
+      sources: sources.filter((source) => source !== targetName),
+      target: targetName,
+    });
+  } catch (error) {
+    console.error(`[${scriptId}] Error updating characters:`, {
+      error: error instanceof Error ? {
+        message: error.message,
+        stack: error.stack,
+      } : error,
+      action,
+      sources,
+      target,
+    });
+    throw new HttpsError("internal",
+      `Failed to update characters: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+});
+
+export const retryScriptProcessing = onCall({
+  maxInstances: 10,
+  timeoutSeconds: 540,
+  memory: "2GiB",
+  secrets: [OPENAI_API_KEY],
+}, async (request) => {
+  console.log("Retrying script processing with params:", {
+    scriptId: request.data.scriptId,
+    auth: request.auth?.uid || "unauthenticated",
+  });
+
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const { scriptId } = request.data as { scriptId?: string };
+  if (!scriptId) {
+    throw new HttpsError("invalid-argument", "Missing required parameters");
+  }
+
+  const [scriptDoc, processingDoc] = await Promise.all([
+    admin.firestore().collection("scripts").doc(scriptId).get(),
+    admin.firestore().collection("scriptProcessing").doc(scriptId).get(),
+  ]);
+  if (!scriptDoc.exists) {
+    throw new HttpsError("not-found", `Script document not found. ID: ${scriptId}`);
+  }
+  const scriptData = scriptDoc.data();
+  if (scriptData?.userId !== request.auth.uid) {
+    throw new HttpsError("permission-denied", "You do not have access to this script");
+  }
+  // A run stopped by the function timeout never records its failure, so one
+  // that has gone quiet can be retried too
+  if (scriptData?.uploadStatus !== "error" && !isProcessingStale(processingDoc.data())) {
+    throw new HttpsError("failed-precondition", "Only scripts that failed or stopped processing can be retried");
+  }
+  if (!scriptData?.originalFileName) {
+    throw new HttpsError("failed-precondition", "Script has no uploaded file to process");
+  }
+
+  const file = admin.storage().bucket().file(`scripts/${scriptData.userId}/upload/${scriptData.originalFileName}`);
+  const [exists] = await file.exists();
+  if (!exists) {
+    throw new HttpsError("not-found", "The uploaded script file no longer exists. Please upload it again.");
+  }
+  const [metadata] = await file.getMetadata();
+
+  try {
+    // Runs with the same generation as the original upload, so chunks that
+    // were already analyzed are picked up from their saved batches.
+    await processScriptObject({
+      bucket: file.bucket.name,
+      name: file.name,
+      generation: metadata.generation,
+      metadata: {
+        ...metadata.metadata,
+        uploadedBy: scriptData.userId,
+        originalName: scriptData.originalFileName,
+        scriptId,
+      },
+    });
+    return { success: true };
+  } catch (error) {
+    console.error(`[${scriptId}] Error retrying script processing:`, {
+      error: error instanceof Error ? {
+        message: error.message,
+        stack: error.stack,
+      } : error,
+    });
+    throw new HttpsError("internal",
+      `Failed to process script: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+});
+
+export const reprocessSection = onCall({
+  maxInstances: 10,
+  timeoutSeconds: 300,
+  secrets: [OPENAI_API_KEY],
+}, async (request) => {
+  console.log("Reprocessing script section with params:", {
+    scriptId: request.data.scriptId,
+    startLine: request.data.startLine,
+    endLine: request.data.endLine,
+    auth: request.auth?.uid || "unauthenticated",
+  });
+
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const { scriptId, startLine, endLine } = request.data as {
+    scriptId?: string;
+    startLine?: number;
+    endLine?: number;
+  };
+
+  if (!scriptId || typeof startLine !== "number" || typeof endLine !== "number") {
+    throw new HttpsError("invalid-argument", "Missing required parameters");
+  }
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 0 || endLine < startLine) {
+    throw new HttpsError("invalid-argument", `Invalid line range: ${startLine}-${endLine}`);
+  }
+
+  const scriptDoc = await admin.firestore().collection("scripts").doc(scriptId).get();
+  if (!scriptDoc.exists) {
+    throw new HttpsError("not-found", `Script document not found. ID: ${scriptId}`);
+  }
+  if (scriptDoc.data()?.userId !== request.auth.uid) {
+    throw new HttpsError("permission-denied", "You do not have access to this script");
+  }
+
+  try {
+    return await reprocessScriptSection(scriptId, startLine, endLine);
+  } catch (error) {
+    console.error(`[${scriptId}] Error reprocessing section:`, {
+      error: error instanceof Error ? {
+        message: error.message,
+        stack: error.stack,
+      } : error,
+      startLine,
+      endLine,
+    });
+    throw new HttpsError("internal",
+      `Failed to reprocess section: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 });
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "@jest/globals";
+import { CharacterChange, applyVoiceChange, rebuildCharacters, reassignLines } from "../characters";
+
+type Line = Parameters<typeof reassignLines>[0][number];
+type Analysis = Parameters<typeof rebuildCharacters>[0];
+
+const line = (originalLineNumber: number, characterName: string, extra: Partial<Line> = {}): Line => ({
+  characterId: characterName,
+  characterName,
+  text: `Line ${originalLineNumber}`,
+  originalLineNumber,
+  sequentialNumber: originalLineNumber,
+  ...extra,
+});
+
+const LINES = [
+  line(1, "ACTION", { isAction: true }),
+  line(2, "BERNARDO"),
+  line(3, "FRANCISCO", { voices: { alloy: "https://example.com/3.mp3" } }),
+  line(4, "BERNARDO"),
+  line(5, "HORATIO", { dualGroup: 1 }),
+];
+
+const ANALYSIS: Analysis = {
+  characters: [
+    { name: "BERNARDO", lines: 2, firstAppearance: 2, dialogue: [], aliases: ["BARNARDO"], gender: "male" },
+    { name: "FRANCISCO", lines: 1, firstAppearance: 3, dialogue: [], renamedFrom: ["FRAN"] },
+    { name: "HORATIO", lines: 1, firstAppearance: 5, dialogue: [] },
+  ],
+  processedLines: LINES,
+  scenes: [{ name: "EXT. BATTLEMENTS - NIGHT", startLine: 1, endLine: 5 }],
+};
+
+const apply = (change: CharacterChange) => rebuildCharacters(ANALYSIS, reassignLines(LINES, change), change);
+
+describe("reassignLines", () => {
+  it("moves the sources' lines to the target, leaving action and other speakers", () => {
+    const moved = reassignLines(LINES, { action: "merge", sources: ["BERNARDO", "ACTION"], target: "HORATIO" });
+
+    expect(moved.map((item) => item.characterName)).toEqual(["ACTION", "HORATIO", "FRANCISCO", "HORATIO", "HORATIO"]);
+    expect(moved[1].characterId).toBe("HORATIO");
+    expect(moved[1].cueName).toBeUndefined();
+    expect(moved[2]).toBe(LINES[2]);
+  });
+
+  it("keeps the printed name on lines given to an alias target", () => {
+    const moved = reassignLines(
+      [line(2, "BERNARDO"), line(4, "BARNARDO", { cueName: "BERNARDO" })],
+      { action: "alias", sources: ["BERNARDO", "BARNARDO"], target: "SENTRY" }
+    );
+
+    expect(moved.map((item) => [item.characterName, item.cueName])).toEqual([
+      ["SENTRY", "BERNARDO"],
+      ["SENTRY", "BERNARDO"],
+    ]);
+  });
+});
+
+describe("rebuildCharacters", () => {
+  it("gives a renamed character its old name as an alias and keeps its other details", () => {
+    const updated = apply({ action: "rename", sources: ["BERNARDO"], target: "BARNABY" });
+    const renamed = updated.characters[0];
+
+    expect(updated.characters.map((character) => character.name)).toEqual(["BARNABY", "FRANCISCO", "HORATIO"]);
+    expect(renamed).toMatchObject({ lines: 2, firstAppearance: 2, gender: "male", renamedFrom: ["BERNARDO"] });
+    expect(renamed.aliases).toEqual(["BARNARDO", "BERNARDO"]);
+    expect(renamed.dialogue.map((item) => item.lineNumber)).toEqual([2, 4]);
+  });
+
+  it("merges into an existing character, which keeps its own details", () => {
+    const updated = apply({ action: "merge", sources: ["FRANCISCO", "HORATIO"], target: "BERNARDO" });
+
+    expect(updated.characters).toHaveLength(1);
+    expect(updated.characters[0]).toMatchObject({
+      name: "BERNARDO",
+      lines: 4,
+      gender: "male",
+      aliases: ["BARNARDO"],
+      renamedFrom: ["FRANCISCO", "HORATIO", "FRAN"],
+    });
+    expect(updated.characters[0].dialogue[1].voices).toEqual({ alloy: "https://example.com/3.mp3" });
+    expect(updated.characters[0].dialogue[3].dualGroup).toBe(1);
+    expect(updated.scenes?.[0].cast).toEqual([{ name: "BERNARDO", lines: 4 }]);
+  });
+
+  it("records an alias without treating it as a rename", () => {
+    const updated = apply({ action: "alias", sources: ["FRANCISCO"], target: "HORATIO" });
+    const horatio = updated.characters.find((character) => character.name === "HORATIO");
+
+    expect(horatio).toMatchObject({ lines: 2, firstAppearance: 3, aliases: ["FRANCISCO"] });
+    expect(horatio?.renamedFrom).toEqual(["FRAN"]);
+  });
+});
+
+describe("applyVoiceChange", () => {
+  const VOICES = { BERNARDO: { voice: "echo" }, FRANCISCO: { voice: "alloy", speed: 1.1 } };
+
+  it("passes the first source's voice to a target without one", () => {
+    expect(applyVoiceChange(VOICES, { action: "rename", sources: ["FRANCISCO"], target: "FRAN" }))
+      .toEqual({ BERNARDO: { voice: "echo" }, FRAN: { voice: "alloy", speed: 1.1 } });
+  });
+
+  it("keeps the target's own voice", () => {
+    expect(applyVoiceChange(VOICES, { action: "merge", sources: ["FRANCISCO"], target: "BERNARDO" }))
+      .toEqual({ BERNARDO: { voice: "echo" } });
+  });
+
+  it("leaves the target without a voice when no source had one", () => {
+    expect(applyVoiceChange(VOICES, { action: "merge", sources: ["HORATIO"], target: "MARCELLUS" })).toEqual(VOICES);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "@jest/globals";
+import { chunkText } from "../chunks";
+import { classifyScreenplayLines } from "../screenplayParser";
+
+const SCENE = [
+  "INT. ELSINORE - GREAT HALL - NIGHT",
+  "",
+  "The court is assembled.",
+  "",
+  "",
+  "                    CLAUDIUS",
+  "          Though yet of Hamlet our dear brother's death",
+  "          The memory be green.",
+  "",
+  "                    HAMLET",
+  "          (aside)",
+  "          A little more than kin, and less than kind.",
+  "",
+];
+
+// Several chunks, with a line longer than a chunk and a run of blank lines
+// where chunks are cut
+const SOURCE = [
+  ...SCENE,
+  ...SCENE,
+  `The lights fade on ${"a long and winding speech ".repeat(12).trim()}.`,
+  "",
+  "",
+  "",
+  ...SCENE,
+].join("\n");
+const SOURCE_LINES = SOURCE.split("\n");
+
+describe("chunkText", () => {
+  it.each([60, 97, 150, 400])("starts every chunk on the source line it came from (size %i)", (size) => {
+    const chunks = chunkText(SOURCE, size);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => {
+      chunk.text.split("\n").forEach((text, index) => expect(text).toBe(SOURCE_LINES[chunk.startLine + index]));
+    });
+  });
+
+  it("gives every classified line the number of its source line", () => {
+    const classified = chunkText(SOURCE, 400).flatMap((chunk) => classifyScreenplayLines(chunk.text, chunk.startLine));
+
+    expect(classified.filter((line) => line.type === "dialogue").length).toBeGreaterThan(0);
+    classified.forEach((line) => expect(line.text).toBe(SOURCE_LINES[line.lineNumber].trim()));
+  });
+
+  it("covers every non-blank line exactly once", () => {
+    const covered = chunkText(SOURCE, 60).flatMap((chunk) =>
+      chunk.text.split("\n").map((text, index) => ({ text, lineNumber: chunk.startLine + index })));
+    const nonBlank = covered.filter((line) => line.text.trim().length > 0).map((line) => line.lineNumber);
+
+    expect(nonBlank).toEqual(SOURCE_LINES.flatMap((text, index) => text.trim().length > 0 ? [index] : []));
+  });
+
+  it("keeps a short script in one chunk", () => {
+    expect(chunkText("HAMLET\nWho's there?")).toEqual([{ text: "HAMLET\nWho's there?", startLine: 0 }]);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { isRateLimitError, mapWithConcurrency, withRateLimitRetry } from "../concurrency";
+
+const rateLimited = () => Object.assign(new Error("429 Too Many Requests"), { status: 429 });
+
+describe("mapWithConcurrency", () => {
+  it("runs at most the limit at once and keeps results in item order", async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const delays = [30, 5, 20, 1, 10, 2];
+
+    const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return `${index}:${delay}`;
+    });
+
+    expect(mostRunning).toBe(2);
+    expect(results).toEqual(["0:30", "1:5", "2:20", "3:1", "4:10", "5:2"]);
+  });
+
+  it("handles no items and a limit above the item count", async () => {
+    expect(await mapWithConcurrency([], 4, async (item) => item)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 10, async (item) => item * 2)).toEqual([2, 4]);
+  });
+});
+
+describe("withRateLimitRetry", () => {
+  let delays: number[];
+
+  beforeEach(() => {
+    delays = [];
+    jest.useFakeTimers();
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const setTimer = setTimeout;
+    jest.spyOn(global, "setTimeout").mockImplementation(((callback: () => void, ms?: number) => {
+      delays.push(ms ?? 0);
+      return setTimer(callback, ms);
+    }) as typeof setTimeout);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("retries 429s with delays that double up to the cap", async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(rateLimited())
+      .mockRejectedValueOnce(rateLimited())
+      .mockRejectedValueOnce(rateLimited())
+      .mockResolvedValue("done");
+
+    const result = withRateLimitRetry(fn, { baseDelayMs: 100, maxDelayMs: 300 });
+    await jest.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("done");
+    expect(fn).toHaveBeenCalledTimes(4);
+    expect(delays).toEqual([100, 200, 300]);
+  });
+
+  it("waits as long as the server asks", async () => {
+    const error = Object.assign(rateLimited(), { headers: { "retry-after": "2" } });
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValueOnce(error).mockResolvedValue("done");
+
+    const result = withRateLimitRetry(fn, { baseDelayMs: 100 });
+    await jest.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("done");
+    expect(delays).toEqual([2000]);
+  });
+
+  it("gives up after the last retry", async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(rateLimited());
+
+    const result = withRateLimitRetry(fn, { retries: 2, baseDelayMs: 100 });
+    const settled = expect(result).rejects.toMatchObject({ status: 429 });
+    await jest.runAllTimersAsync();
+
+    await settled;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("throws other errors straight away", async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(new Error("Invalid API key"));
+
+    await expect(withRateLimitRetry(fn)).rejects.toThrow("Invalid API key");
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(delays).toEqual([]);
+  });
+});
+
+describe("isRateLimitError", () => {
+  it("recognises 429s, the rate-limit code and rate-limit messages", () => {
+    expect(isRateLimitError({ status: 429 })).toBe(true);
+    expect(isRateLimitError({ code: "rate_limit_exceeded" })).toBe(true);
+    expect(isRateLimitError(new Error("Rate limit reached for requests"))).toBe(true);
+    expect(isRateLimitError({ status: 500 })).toBe(false);
+    expect(isRateLimitError("429")).toBe(false);
+  });
+});
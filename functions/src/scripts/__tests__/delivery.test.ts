@@ -0,0 +1,41 @@
+import { describe, expect, it } from "@jest/globals";
+import { buildDelivery } from "../delivery";
+
+describe("buildDelivery", () => {
+  it("reads a line without directions as it is", () => {
+    expect(buildDelivery("Who's there?")).toEqual({ input: "Who's there?", speed: 1, volume: 1 });
+  });
+
+  it("puts pauses where their directions sit in the speech", () => {
+    const { input } = buildDelivery("Nay, answer me. Stand, and unfold yourself.", [
+      { text: "beat", position: 0 },
+      { text: "a long pause", position: 16 },
+    ]);
+
+    expect(input).toBe("... Nay, answer me. ... ... Stand, and unfold yourself.");
+  });
+
+  it("ignores a pause after the last word", () => {
+    expect(buildDelivery("Long live the king!", [{ text: "beat", position: 19 }]).input).toBe("Long live the king!");
+  });
+
+  it("turns whispered lines down and slows them a little", () => {
+    expect(buildDelivery("'Tis now struck twelve.", [{ text: "whispering", position: 0 }]))
+      .toMatchObject({ speed: 0.9, volume: 0.5 });
+    expect(buildDelivery("Get thee to bed.", [{ text: "under her breath", position: 0 }]).volume).toBe(0.5);
+  });
+
+  it("changes the pace, which wins over a quiet direction's", () => {
+    expect(buildDelivery("Tis bitter cold.", [{ text: "quickly", position: 0 }]).speed).toBe(1.2);
+    expect(buildDelivery("Tis bitter cold.", [{ text: "slowly", position: 0 }]).speed).toBe(0.85);
+    expect(buildDelivery("Tis bitter cold.", [
+      { text: "softly", position: 0 },
+      { text: "rushing", position: 4 },
+    ])).toMatchObject({ speed: 1.2, volume: 0.5 });
+  });
+
+  it("leaves directions that are neither pace, volume nor pause out of the reading", () => {
+    expect(buildDelivery("Peace, break thee off.", [{ text: "to Horatio", position: 0 }]))
+      .toEqual({ input: "Peace, break thee off.", speed: 1, volume: 1 });
+  });
+});
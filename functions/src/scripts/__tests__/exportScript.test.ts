@@ -0,0 +1,74 @@
+import { describe, expect, it } from "@jest/globals";
+import { ExportableAnalysis, toFdx, toFountain, toSidesPdf } from "../exportScript";
+import { parseFdx } from "../fdx";
+import { parseFountain } from "../fountain";
+
+const analysis: ExportableAnalysis = {
+  processedLines: [
+    { characterName: "McCLANE", text: "Yippee & co.", originalLineNumber: 6, sequentialNumber: 3 },
+    { characterName: "", text: "He drops in.", originalLineNumber: 2, sequentialNumber: 1, isAction: true },
+    { characterName: "", text: "BANG", originalLineNumber: 3, sequentialNumber: 2, isAction: true },
+  ],
+  scenes: [
+    { name: "INT. TOWER - NIGHT", startLine: 0, endLine: 5, sceneNumber: "12" },
+    { name: "THE ROOF", startLine: 5, endLine: 8 },
+  ],
+};
+
+describe("toFountain", () => {
+  it("writes scenes and lines in script order, forcing what would read back wrongly", () => {
+    expect(toFountain("Die Hard", analysis)).toBe([
+      "Title: Die Hard",
+      "",
+      "INT. TOWER - NIGHT #12#",
+      "",
+      "He drops in.",
+      "",
+      "!BANG",
+      "",
+      ".THE ROOF",
+      "",
+      "@McCLANE",
+      "Yippee & co.",
+      "",
+    ].join("\n"));
+  });
+
+  it("reads back through the Fountain parser", () => {
+    const lines = parseFountain(toFountain("Die Hard", analysis)).filter((line) => line.type !== "blank");
+
+    expect(lines.map(({ type, text }) => [type, text])).toEqual([
+      ["omitted", "Title: Die Hard"],
+      ["scene_heading", "INT. TOWER - NIGHT"],
+      ["action", "He drops in."],
+      ["action", "BANG"],
+      ["scene_heading", "THE ROOF"],
+      ["character", "McCLANE"],
+      ["dialogue", "Yippee & co."],
+    ]);
+  });
+});
+
+describe("toFdx", () => {
+  it("reads back through the FDX parser", () => {
+    const lines = parseFdx(toFdx("Die Hard", analysis));
+
+    expect(lines.map(({ type, text }) => [type, text])).toEqual([
+      ["scene_heading", "INT. TOWER - NIGHT"],
+      ["action", "He drops in."],
+      ["action", "BANG"],
+      ["scene_heading", "THE ROOF"],
+      ["character", "McCLANE"],
+      ["dialogue", "Yippee & co."],
+    ]);
+    expect(lines[0].sceneNumber).toBe("12");
+  });
+});
+
+describe("toSidesPdf", () => {
+  it("renders a PDF", async () => {
+    const pdf = await toSidesPdf("Die Hard", analysis, "McCLANE");
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
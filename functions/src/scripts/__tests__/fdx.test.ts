@@ -0,0 +1,61 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseFdx } from "../fdx";
+
+const fdx = (paragraphs: string, revisions = "") => `<?xml version="1.0" encoding="UTF-8"?>
+<FinalDraft DocumentType="Script" Version="5">
+  <Content>${paragraphs}</Content>
+  ${revisions}
+</FinalDraft>`;
+
+describe("parseFdx", () => {
+  it("maps paragraph types and attaches speech to its cue", () => {
+    const lines = parseFdx(fdx(`
+      <Paragraph Type="Scene Heading" Number="4A"><Text>INT. HALL - NIGHT</Text></Paragraph>
+      <Paragraph Type="Action" Alignment="Center"><Text>THE END</Text></Paragraph>
+      <Paragraph Type="Character"><Text>JOHN</Text></Paragraph>
+      <Paragraph Type="Parenthetical"><Text>(beat)</Text></Paragraph>
+      <Paragraph Type="Dialogue"><Text Style="Bold">Get </Text><Text>out.</Text></Paragraph>
+      <Paragraph Type="Transition"><Text>CUT TO:</Text></Paragraph>
+      <Paragraph Type="Dialogue"><Text>Stray line.</Text></Paragraph>
+    `), 3);
+
+    expect(lines).toEqual([
+      { lineNumber: 3, text: "INT. HALL - NIGHT", type: "scene_heading", sceneNumber: "4A" },
+      { lineNumber: 4, text: "THE END", type: "action", centered: true },
+      { lineNumber: 5, text: "JOHN", type: "character", characterName: "JOHN" },
+      { lineNumber: 6, text: "(beat)", type: "parenthetical", characterName: "JOHN" },
+      { lineNumber: 7, text: "Get out.", type: "dialogue", characterName: "JOHN" },
+      { lineNumber: 8, text: "CUT TO:", type: "transition" },
+      { lineNumber: 9, text: "Stray line.", type: "action" },
+    ]);
+  });
+
+  it("marks only the second cue of a dual dialogue block", () => {
+    const lines = parseFdx(fdx(`
+      <Paragraph>
+        <DualDialogue>
+          <Paragraph Type="Character"><Text>BRICK</Text></Paragraph>
+          <Paragraph Type="Dialogue"><Text>Now!</Text></Paragraph>
+          <Paragraph Type="Character"><Text>STEEL</Text></Paragraph>
+          <Paragraph Type="Dialogue"><Text>Now!</Text></Paragraph>
+        </DualDialogue>
+      </Paragraph>
+    `));
+
+    expect(lines.map((line) => line.dual)).toEqual([undefined, undefined, true, undefined]);
+    expect(lines[3].characterName).toBe("STEEL");
+  });
+
+  it("names the revision sets a paragraph was changed in", () => {
+    const lines = parseFdx(fdx(
+      "<Paragraph Type=\"Action\"><Text RevisionID=\"2\">He runs.</Text></Paragraph>",
+      "<Revisions><Revision ID=\"1\" Name=\"Blue\"/><Revision ID=\"2\" Color=\"Pink\"/></Revisions>"
+    ));
+
+    expect(lines[0].revisions).toEqual(["Pink"]);
+  });
+
+  it("rejects documents without content", () => {
+    expect(() => parseFdx("<FinalDraft></FinalDraft>")).toThrow("Invalid FDX file");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseFountain } from "../fountain";
+
+describe("parseFountain", () => {
+  it("keeps one entry per source line", () => {
+    const source = [
+      "Title: The Visit",
+      "Author: A. Writer",
+      "",
+      "INT. KITCHEN - DAY #12A#",
+      "",
+      "Mary pours the *tea*.",
+      "",
+      "MARY",
+      "(quietly)",
+      "Is he _gone_?",
+    ].join("\n");
+
+    const lines = parseFountain(source, 5);
+
+    expect(lines.map((line) => line.type)).toEqual([
+      "omitted", "omitted", "blank", "scene_heading", "blank",
+      "action", "blank", "character", "parenthetical", "dialogue",
+    ]);
+    expect(lines.map((line) => line.lineNumber)).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+    expect(lines[3]).toMatchObject({ text: "INT. KITCHEN - DAY", sceneNumber: "12A" });
+    expect(lines[5].text).toBe("Mary pours the tea.");
+    expect(lines[9]).toMatchObject({ text: "Is he gone?", characterName: "MARY" });
+  });
+
+  it("reads forced elements", () => {
+    const source = [".flashback", "", "@McCLANE", "Yippee.", "", "!ACTION IN CAPS", "", "> THE END <"].join("\n");
+
+    const lines = parseFountain(source);
+
+    expect(lines[0]).toMatchObject({ type: "scene_heading", text: "FLASHBACK" });
+    expect(lines[2]).toMatchObject({ type: "character", characterName: "McCLANE" });
+    expect(lines[5]).toMatchObject({ type: "action", text: "ACTION IN CAPS" });
+    expect(lines[7]).toMatchObject({ type: "action", text: "THE END", centered: true });
+  });
+
+  it("marks dual dialogue", () => {
+    const lines = parseFountain("BRICK\nScrew retirement.\n\nSTEEL ^\nScrew retirement.");
+
+    expect(lines[3]).toMatchObject({ type: "character", characterName: "STEEL", dual: true });
+  });
+
+  it("blanks notes and boneyard comments without shifting lines", () => {
+    const source = ["JOHN", "Hello.", "[[a note]]", "/* cut", "this */", "Goodbye."].join("\n");
+
+    const lines = parseFountain(source);
+
+    expect(lines.map((line) => line.type)).toEqual([
+      "character", "dialogue", "omitted", "omitted", "omitted", "dialogue",
+    ]);
+    expect(lines[5]).toMatchObject({ lineNumber: 5, text: "Goodbye.", characterName: "JOHN" });
+  });
+
+  it("keeps a speech going across a line of two spaces", () => {
+    const lines = parseFountain("JOHN\nFirst verse.\n  \nSecond verse.");
+
+    expect(lines[3]).toMatchObject({ type: "dialogue", characterName: "JOHN" });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "@jest/globals";
+import { validateLineNumbers } from "../lineValidation";
+
+const CONTENT = [
+  "INT. HALL - NIGHT", "", "HAMLET", "Who's there?", "", "HORATIO", "Friends to this ground.",
+].join("\n");
+
+const line = (originalLineNumber: number, text: string, sequentialNumber = 1) =>
+  ({ characterName: "HAMLET", text, originalLineNumber, sequentialNumber });
+
+describe("validateLineNumbers", () => {
+  it("accepts lines whose text starts with their source line", () => {
+    expect(validateLineNumbers(CONTENT, [line(3, "Who's there?"), line(6, "Friends to this ground. And more.")]))
+      .toEqual({ checkedLines: 2, mismatchCount: 0, mismatches: [] });
+  });
+
+  it("reports lines that point at the wrong source line or past the end", () => {
+    const report = validateLineNumbers(CONTENT, [line(2, "Who's there?", 1), line(40, "Stand, ho!", 2)]);
+
+    expect(report.mismatchCount).toBe(2);
+    expect(report.mismatches.map((mismatch) => mismatch.reason)).toEqual(["text_mismatch", "out_of_range"]);
+  });
+
+  it("skips lines split or added in the line editor", () => {
+    const report = validateLineNumbers(CONTENT, [
+      line(6, "Friends to this ground.", 1),
+      { ...line(3, "Who's", 1), editedFrom: 3 },
+      { ...line(3.5, "there?", 2), editedFrom: 3 },
+      { ...line(0.5, "A new line", 3), userInserted: true },
+    ]);
+
+    expect(report).toEqual({ checkedLines: 1, mismatchCount: 0, mismatches: [] });
+  });
+});
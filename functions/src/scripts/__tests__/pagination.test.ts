@@ -0,0 +1,80 @@
+import { describe, expect, it } from "@jest/globals";
+import { assignPageNumbers, removePagination } from "../pagination";
+
+describe("removePagination", () => {
+  it("stitches a speech split by MORE and CONT'D across pages", () => {
+    const result = removePagination([
+      {
+        pageNumber: 1,
+        text: "1.\nINT. HALL - NIGHT\n\nJOHN\nI never thought I'd see\n(MORE)\n(CONTINUED)",
+      },
+      {
+        pageNumber: 2,
+        text: "CONTINUED:\n2.\nJOHN (CONT'D)\nthis place again.\n\nMary laughs.",
+      },
+    ]);
+
+    expect(result.text.split("\n")).toEqual([
+      "INT. HALL - NIGHT",
+      "",
+      "JOHN",
+      "I never thought I'd see",
+      "this place again.",
+      "",
+      "Mary laughs.",
+    ]);
+    expect(result.pages).toEqual([{ pageNumber: 1, startLine: 0 }, { pageNumber: 2, startLine: 4 }]);
+    expect(result.stitchedSpeeches).toBe(1);
+    expect(result.removedLines).toBe(6);
+  });
+
+  it("keeps the cue when the next page opens with someone else", () => {
+    const result = removePagination([
+      { pageNumber: 1, text: "JOHN\nWait for me\n(MORE)" },
+      { pageNumber: 2, text: "MARY\nNo." },
+    ]);
+
+    expect(result.text).toBe("JOHN\nWait for me\n\nMARY\nNo.");
+    expect(result.stitchedSpeeches).toBe(0);
+  });
+
+  it("drops revision headers and margin asterisks", () => {
+    const result = removePagination([
+      { pageNumber: 7, text: "Blue Rev. 3/14/24\nHe runs. *\n**\nShe follows." },
+    ]);
+
+    expect(result.text).toBe("He runs.\nShe follows.");
+    expect(result.removedLines).toBe(2);
+  });
+
+  it("drops a header carrying the script's title and page number", () => {
+    const result = removePagination([
+      { pageNumber: 12, text: "THE HEIST - Pink Pages - 4/2/24   (12)\nINT. VAULT - NIGHT" },
+    ]);
+
+    expect(result.text).toBe("INT. VAULT - NIGHT");
+  });
+
+  it("keeps action near a page edge that mentions a revision or a date", () => {
+    const text = [
+      "She revised the plan.",
+      "Rev. Green hums.",
+      "The letter is dated 3/14/24 in his hand.",
+      "He runs.",
+      "The blue draft is revised again and again by the whole room.",
+    ].join("\n");
+
+    expect(removePagination([{ pageNumber: 3, text }]).text).toBe(text);
+  });
+});
+
+describe("assignPageNumbers", () => {
+  it("numbers each line by the page it starts on", () => {
+    const pages = [{ pageNumber: 1, startLine: 0 }, { pageNumber: 2, startLine: 4 }];
+    const lines: { originalLineNumber: number; pageNumber?: number }[] =
+      [0, 3, 4, 9].map((originalLineNumber) => ({ originalLineNumber }));
+
+    expect(assignPageNumbers(lines, pages).map((line) => line.pageNumber)).toEqual([1, 1, 2, 2]);
+    expect(assignPageNumbers(lines, [])).toBe(lines);
+  });
+});
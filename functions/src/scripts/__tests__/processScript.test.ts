@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { ClassifiedLine } from "../screenplayParser";
+import { buildChunkAnalysis } from "../processScript";
+import { parseFountain } from "../fountain";
+import { parseFdx } from "../fdx";
+
+const speeches = (classified: ClassifiedLine[]) =>
+  buildChunkAnalysis(classified, classified.length - 1).characters
+    .flatMap((character) => character.dialogue.map((line) => ({ name: character.name, ...line })))
+    .sort((a, b) => a.lineNumber - b.lineNumber)
+    .map(({ name, lineNumber, dualGroup }) => ({ name, lineNumber, dualGroup }));
+
+describe("buildChunkAnalysis", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  it("groups a Fountain ^ cue with the speech before it", () => {
+    const classified = parseFountain([
+      "BRICK",
+      "Screw retirement.",
+      "",
+      "STEEL ^",
+      "Screw retirement.",
+      "",
+      "Gunfire.",
+      "",
+      "BRICK",
+      "Go!",
+    ].join("\n"));
+
+    expect(speeches(classified)).toEqual([
+      { name: "BRICK", lineNumber: 1, dualGroup: 1 },
+      { name: "STEEL", lineNumber: 4, dualGroup: 1 },
+      { name: "BRICK", lineNumber: 9, dualGroup: undefined },
+    ]);
+  });
+
+  it("groups the speeches of an FDX DualDialogue block", () => {
+    const classified = parseFdx(`<?xml version="1.0" encoding="UTF-8"?>
+<FinalDraft DocumentType="Script" Version="5">
+  <Content>
+    <Paragraph Type="Character"><Text>MARY</Text></Paragraph>
+    <Paragraph Type="Dialogue"><Text>Who goes there?</Text></Paragraph>
+    <Paragraph>
+      <DualDialogue>
+        <Paragraph Type="Character"><Text>BRICK</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Now!</Text></Paragraph>
+        <Paragraph Type="Character"><Text>STEEL</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Now!</Text></Paragraph>
+      </DualDialogue>
+    </Paragraph>
+  </Content>
+</FinalDraft>`);
+
+    expect(speeches(classified)).toEqual([
+      { name: "MARY", lineNumber: 1, dualGroup: undefined },
+      { name: "BRICK", lineNumber: 3, dualGroup: 3 },
+      { name: "STEEL", lineNumber: 5, dualGroup: 3 },
+    ]);
+  });
+
+  it("doesn't group a dual cue across action", () => {
+    const classified = parseFountain("BRICK\nNow!\n\nA pause.\n\nSTEEL ^\nNow!");
+
+    expect(speeches(classified).map((speech) => speech.dualGroup)).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "@jest/globals";
+import { PROCESSING_LEASE_MS, isProcessingStale, planProcessingClaim } from "../processingLease";
+
+const NOW = 1_700_000_000_000;
+const at = (millis: number) => ({ toMillis: () => millis });
+
+describe("planProcessingClaim", () => {
+  it("claims a processing run with an expired lease and resumes its batches", () => {
+    const state = { status: "processing", generation: "7", attempts: 1, timestamp: at(NOW - PROCESSING_LEASE_MS) };
+
+    expect(planProcessingClaim(state, "7", NOW)).toEqual({ resume: true, attempt: 2 });
+  });
+
+  it("leaves a run that still holds the lease alone", () => {
+    const state = { status: "processing", generation: "7", attempts: 1, timestamp: at(NOW - 1000) };
+
+    expect(planProcessingClaim(state, "7", NOW)).toBeNull();
+  });
+
+  it("skips a completed generation however old", () => {
+    const state = { status: "completed", generation: "7", timestamp: at(0) };
+
+    expect(planProcessingClaim(state, "7", NOW)).toBeNull();
+  });
+
+  it("retries a failed run straight away", () => {
+    const state = { status: "error", generation: "7", attempts: 2, timestamp: at(NOW) };
+
+    expect(planProcessingClaim(state, "7", NOW)).toEqual({ resume: true, attempt: 3 });
+  });
+
+  it("starts a new upload afresh", () => {
+    const state = { status: "processing", generation: "7", attempts: 2, timestamp: at(NOW) };
+
+    expect(planProcessingClaim(state, "8", NOW)).toEqual({ resume: false, attempt: 1 });
+    expect(planProcessingClaim(undefined, "8", NOW)).toEqual({ resume: false, attempt: 1 });
+  });
+});
+
+describe("isProcessingStale", () => {
+  it("goes by the app's upload time before any run has claimed the script", () => {
+    expect(isProcessingStale({ status: "starting", updatedAt: at(NOW - 1000) }, NOW)).toBe(false);
+    expect(isProcessingStale({ status: "starting", updatedAt: at(NOW - PROCESSING_LEASE_MS) }, NOW)).toBe(true);
+  });
+
+  it("is false for completed scripts and scripts never processed", () => {
+    expect(isProcessingStale({ status: "completed", timestamp: at(0) }, NOW)).toBe(false);
+    expect(isProcessingStale(undefined, NOW)).toBe(false);
+  });
+});
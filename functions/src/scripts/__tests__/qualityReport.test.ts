@@ -0,0 +1,69 @@
+import { describe, expect, it } from "@jest/globals";
+import { QualityReport, applyReprocessedSection, hasQualityIssues, sampleList } from "../qualityReport";
+
+const unattributed = (lineNumber: number) => ({ lineNumber, text: `Line ${lineNumber}` });
+const dropped = (lineNumber: number) => ({ characterName: "HAMLET", lineNumber, text: `Line ${lineNumber}` });
+const range = (from: number, count: number) => Array.from({ length: count }, (_, index) => from + index);
+
+const EMPTY: QualityReport = {
+  failedChunks: [],
+  rejectedCharacters: [],
+  droppedDialogue: sampleList([]),
+  unattributedLines: sampleList([]),
+};
+
+describe("applyReprocessedSection", () => {
+  it("counts out every replaced entry, not only the sampled ones", () => {
+    // 120 unattributed lines, of which the report only samples the first 50
+    const report = { ...EMPTY, unattributedLines: sampleList(range(0, 120).map(unattributed)) };
+
+    const updated = applyReprocessedSection(report, 60, 99, {
+      droppedDialogue: [],
+      unattributedLines: [unattributed(70)],
+    });
+
+    expect(updated.unattributedLines.count).toBe(81);
+    expect(updated.unattributedLines.lineNumbers).toEqual([...range(0, 60), 70, ...range(100, 20)]);
+    expect(updated.unattributedLines.items).toHaveLength(50);
+  });
+
+  it("replaces the section's entries and clears failed chunks inside it", () => {
+    const report: QualityReport = {
+      ...EMPTY,
+      failedChunks: [
+        { chunkIndex: 0, startLine: 0, endLine: 40, error: "timeout" },
+        { chunkIndex: 1, startLine: 41, endLine: 80, error: "timeout" },
+      ],
+      droppedDialogue: sampleList([dropped(10), dropped(50), dropped(60)]),
+    };
+
+    const updated = applyReprocessedSection(report, 41, 80, { droppedDialogue: [dropped(45)], unattributedLines: [] });
+
+    expect(updated.failedChunks.map((chunk) => chunk.chunkIndex)).toEqual([0]);
+    expect(updated.droppedDialogue.items.map((item) => item.lineNumber)).toEqual([10, 45]);
+    expect(updated.droppedDialogue.count).toBe(2);
+  });
+
+  it("counts out the sampled entries of a report without line numbers", () => {
+    const report = { ...EMPTY, unattributedLines: { count: 80, items: range(0, 50).map(unattributed) } };
+
+    const updated = applyReprocessedSection(report, 40, 59, { droppedDialogue: [], unattributedLines: [] });
+
+    expect(updated.unattributedLines.count).toBe(70);
+    expect(updated.unattributedLines.lineNumbers).toBeUndefined();
+  });
+});
+
+describe("hasQualityIssues", () => {
+  it("is false for an empty report", () => {
+    expect(hasQualityIssues(EMPTY)).toBe(false);
+  });
+
+  it("is true for any kind of issue", () => {
+    expect(hasQualityIssues({ ...EMPTY, failedChunks: [{ chunkIndex: 0, startLine: 0, endLine: 9, error: "" }] }))
+      .toBe(true);
+    expect(hasQualityIssues({ ...EMPTY, rejectedCharacters: [{ name: "CUT TO", lines: 1 }] })).toBe(true);
+    expect(hasQualityIssues({ ...EMPTY, droppedDialogue: sampleList([dropped(3)]) })).toBe(true);
+    expect(hasQualityIssues({ ...EMPTY, unattributedLines: { count: 4, items: [] } })).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "@jest/globals";
+import { BreakdownScene, buildSceneBreakdown, parseSceneHeading, updateSceneCast } from "../scenes";
+
+const line = (originalLineNumber: number, characterName: string, text = "Speak.") =>
+  ({ characterName, text, originalLineNumber, ...(characterName === "ACTION" ? { isAction: true } : {}) });
+
+describe("parseSceneHeading", () => {
+  it("splits a heading into setting, location and time of day", () => {
+    expect(parseSceneHeading("INT. ELSINORE - GREAT HALL - NIGHT")).toEqual({
+      name: "INT. ELSINORE - GREAT HALL - NIGHT",
+      setting: "INT",
+      location: "ELSINORE - GREAT HALL",
+      timeOfDay: "NIGHT",
+    });
+    expect(parseSceneHeading("EXT. BATTLEMENTS -- LATE EVENING")).toMatchObject({
+      setting: "EXT",
+      location: "BATTLEMENTS",
+      timeOfDay: "LATE EVENING",
+    });
+  });
+
+  it("reads every way of writing a scene both inside and out", () => {
+    ["I/E CAR - NIGHT", "INT./EXT. CAR - NIGHT", "EXT/INT CAR - NIGHT"].forEach((heading) => {
+      expect(parseSceneHeading(heading)).toMatchObject({ setting: "INT/EXT", location: "CAR", timeOfDay: "NIGHT" });
+    });
+  });
+
+  it("takes scene numbers off both ends of the heading", () => {
+    expect(parseSceneHeading("12A INT. HALL - DAY 12A")).toEqual({
+      name: "INT. HALL - DAY",
+      sceneNumber: "12A",
+      setting: "INT",
+      location: "HALL",
+      timeOfDay: "DAY",
+    });
+    expect(parseSceneHeading("7. EXT. PLATFORM - DAWN"))
+      .toMatchObject({ name: "EXT. PLATFORM - DAWN", sceneNumber: "7" });
+  });
+
+  it("keeps a number that belongs to the time of day", () => {
+    expect(parseSceneHeading("INT. HALL - DAY 2")).toEqual({
+      name: "INT. HALL - DAY 2",
+      setting: "INT",
+      location: "HALL",
+      timeOfDay: "DAY 2",
+    });
+  });
+
+  it("keeps what follows the time of day with it, and reads headings without a setting", () => {
+    expect(parseSceneHeading("INT. HALL - NIGHT - (FLASHBACK)").timeOfDay).toBe("NIGHT - (FLASHBACK)");
+    expect(parseSceneHeading("EST. ELSINORE - DAWN")).toEqual({
+      name: "EST. ELSINORE - DAWN",
+      location: "ELSINORE",
+      timeOfDay: "DAWN",
+    });
+    expect(parseSceneHeading(".FLASHBACK")).toEqual({ name: ".FLASHBACK", location: "FLASHBACK" });
+  });
+});
+
+describe("buildSceneBreakdown", () => {
+  const PAGES = [
+    { pageNumber: 1, startLine: 0 },
+    { pageNumber: 2, startLine: 10 },
+    { pageNumber: 3, startLine: 20 },
+  ];
+
+  it("measures scenes in eighths of the pages they run across", () => {
+    const scenes = buildSceneBreakdown<BreakdownScene>([
+      { name: "EXT. PLATFORM - NIGHT", startLine: 15, endLine: 16 },
+      { name: "INT. HALL - DAY", startLine: 0, endLine: 3 },
+      { name: "INT. CHAMBER - NIGHT", startLine: 29, endLine: 29 },
+    ], [], 29, PAGES);
+
+    expect(scenes.map((scene) => [scene.startLine, scene.endLine, scene.eighths])).toEqual([
+      [0, 14, 12],
+      [15, 28, 11],
+      [29, 29, 1],
+    ]);
+  });
+
+  it("fills in each scene's heading details and cast in order of first line", () => {
+    const [scene] = buildSceneBreakdown<BreakdownScene>([{ name: "3 INT. HALL - NIGHT 3", startLine: 0, endLine: 0 }], [
+      line(1, "ACTION", "Enter the ghost."),
+      line(2, "HORATIO"),
+      line(3, "HAMLET"),
+      line(4, "HORATIO"),
+    ], 4);
+
+    expect(scene).toMatchObject({
+      name: "INT. HALL - NIGHT",
+      sceneNumber: "3",
+      setting: "INT",
+      location: "HALL",
+      timeOfDay: "NIGHT",
+      endLine: 4,
+      cast: [{ name: "HORATIO", lines: 2 }, { name: "HAMLET", lines: 1 }],
+    });
+  });
+
+  it("estimates the length from the text when there are no pages", () => {
+    // 920 characters: 27 printed lines, a cue and a blank line
+    const speech = line(3, "HAMLET", "O that this too too sullied flesh would melt, ".repeat(20));
+    const [short, long] = buildSceneBreakdown<BreakdownScene>([
+      { name: "INT. HALL - DAY", startLine: 0, endLine: 0 },
+      { name: "INT. CHAMBER - DAY", startLine: 2, endLine: 2 },
+    ], [line(1, "ACTION", "A hall."), speech], 3);
+
+    expect(short.eighths).toBe(1);
+    expect(long.eighths).toBe(5);
+  });
+});
+
+describe("updateSceneCast", () => {
+  it("recounts each scene's cast after lines change speaker, keeping the rest", () => {
+    const scenes = [
+      { name: "INT. HALL - DAY", startLine: 0, endLine: 4, eighths: 3, cast: [{ name: "BERNARDO", lines: 2 }] },
+      { name: "EXT. PLATFORM - NIGHT", startLine: 5, endLine: 9, cast: [{ name: "BERNARDO", lines: 1 }] },
+    ];
+
+    const updated = updateSceneCast(scenes, [
+      line(6, "HORATIO"),
+      line(1, "FRANCISCO"),
+      line(2, "ACTION"),
+      line(3, "FRANCISCO"),
+      line(12, "HAMLET"),
+    ]);
+
+    expect(updated).toEqual([
+      { ...scenes[0], cast: [{ name: "FRANCISCO", lines: 2 }] },
+      { ...scenes[1], cast: [{ name: "HORATIO", lines: 1 }] },
+    ]);
+  });
+});
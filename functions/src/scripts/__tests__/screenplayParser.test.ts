@@ -0,0 +1,108 @@
+import { describe, expect, it } from "@jest/globals";
+import { classifyScreenplayLines, isCharacterCue, splitCharacterCue } from "../screenplayParser";
+
+const types = (text: string) => classifyScreenplayLines(text, 0).map((line) => line.type);
+
+describe("isCharacterCue", () => {
+  it("accepts upper-case names with extensions", () => {
+    expect(isCharacterCue("JOHN")).toBe(true);
+    expect(isCharacterCue("MRS. O'NEILL (V.O.)")).toBe(true);
+  });
+
+  it("rejects headings, transitions and page numbers", () => {
+    expect(isCharacterCue("INT. KITCHEN - DAY")).toBe(false);
+    expect(isCharacterCue("CUT TO:")).toBe(false);
+    expect(isCharacterCue("12.")).toBe(false);
+  });
+});
+
+describe("splitCharacterCue", () => {
+  it("normalises extensions", () => {
+    expect(splitCharacterCue("JOHN (VO) (cont'd)")).toEqual({ name: "JOHN", extensions: ["V.O.", "CONT'D"] });
+  });
+
+  it("reads a continuation marker printed without parentheses", () => {
+    expect(splitCharacterCue("JOHN CONT'D")).toEqual({ name: "JOHN", extensions: ["CONT'D"] });
+  });
+});
+
+describe("classifyScreenplayLines", () => {
+  it("classifies a formatted scene", () => {
+    const text = [
+      "INT. KITCHEN - DAY",
+      "",
+      "Mary pours the tea.",
+      "",
+      "MARY",
+      "(quietly)",
+      "Is he gone?",
+      "",
+      "CUT TO:",
+    ].join("\n");
+
+    expect(types(text)).toEqual([
+      "scene_heading", "blank", "action", "blank", "character", "parenthetical", "dialogue", "blank", "transition",
+    ]);
+    expect(classifyScreenplayLines(text, 10)[6]).toMatchObject({ lineNumber: 16, characterName: "MARY" });
+  });
+
+  it("keeps a wrapped parenthetical together", () => {
+    const text = ["JOHN", "(looking out of", "the window)", "It's late."].join("\n");
+
+    expect(types(text)).toEqual(["character", "parenthetical", "parenthetical", "dialogue"]);
+  });
+
+  it("marks a cue with nothing spoken after it as ambiguous action", () => {
+    const [line] = classifyScreenplayLines("THUNDER\n\nINT. HALL - NIGHT", 0);
+
+    expect(line).toMatchObject({ type: "action", ambiguous: true });
+  });
+
+  it("marks a Fountain-style dual cue", () => {
+    const lines = classifyScreenplayLines("JOHN\nNow!\n\nMARY ^\nNow!", 0);
+
+    expect(lines[3]).toMatchObject({ type: "character", dual: true });
+  });
+
+  it("ends an indented speech at the first unindented line", () => {
+    const text = [
+      "                    JOHN",
+      "          I said I'd come",
+      "          and I did.",
+      "He sits down.",
+    ].join("\n");
+
+    expect(types(text)).toEqual(["character", "dialogue", "dialogue", "action"]);
+  });
+
+  it("flags speech continuations when the text has no spacing or indentation", () => {
+    const lines = classifyScreenplayLines("JOHN\nI said I'd come\nand I did.", 0);
+
+    expect(lines[2]).toMatchObject({ type: "dialogue", ambiguous: true });
+  });
+
+  it("flags indented speech with no cue above it as dialogue without a speaker", () => {
+    const lines = classifyScreenplayLines([
+      "          and I did.",
+      "He sits down.",
+      "",
+      "                    MARY",
+      "          Good.",
+    ].join("\n"), 0);
+
+    expect(lines[0]).toEqual({ lineNumber: 0, text: "and I did.", type: "dialogue", ambiguous: true });
+    expect(lines[4]).toMatchObject({ type: "dialogue", characterName: "MARY" });
+  });
+
+  it("goes by block spacing when only the cues are indented", () => {
+    const text = [
+      "                    JOHN",
+      "I said I'd come",
+      "and I did.",
+      "",
+      "He sits down.",
+    ].join("\n");
+
+    expect(types(text)).toEqual(["character", "dialogue", "dialogue", "blank", "action"]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "@jest/globals";
+import { MIN_TEXT_LAYER_CHARS, layoutTextItems, pagesNeedingOcr } from "../textLayer";
+
+const item = (str: string, x: number, y: number) => ({ str, transform: [1, 0, 0, 1, x, y], width: str.length * 7.2 });
+
+describe("layoutTextItems", () => {
+  it("starts a line at each new baseline and indents it from the left-most line", () => {
+    const text = layoutTextItems([
+      item("He sits down.", 108, 700),
+      item("JOHN", 266.4, 676),
+      item("I said I'd come", 180, 664),
+      item(" and I did.", 288, 664),
+    ]);
+
+    expect(text).toBe([
+      "He sits down.",
+      "                      JOHN",
+      "          I said I'd come and I did.",
+    ].join("\n"));
+  });
+
+  it("measures columns in the page's own character width", () => {
+    const small = (str: string, x: number, y: number) => ({ ...item(str, x, y), width: str.length * 6 });
+
+    expect(layoutTextItems([small("Action.", 90, 700), small("Speech.", 150, 688)])).toBe("Action.\n          Speech.");
+  });
+
+  it("keeps blank lines and pages without text as they are", () => {
+    expect(layoutTextItems([item("One", 72, 700), item("", 0, 688), item("Two", 72, 676)])).toBe("One\n\nTwo");
+    expect(layoutTextItems([])).toBe("");
+  });
+});
+
+describe("pagesNeedingOcr", () => {
+  it("picks out pages with no text layer or only a stray page number", () => {
+    const layers = ["INT. HALL - NIGHT\n\nA ghost appears.", "", "   12.  \n", "HORATIO\nLook where it comes!"];
+
+    expect(pagesNeedingOcr(layers)).toEqual([2, 3]);
+  });
+
+  it("counts only visible characters against the threshold", () => {
+    const justEnough = "x".repeat(MIN_TEXT_LAYER_CHARS);
+    const spaced = justEnough.slice(1).split("").join(" \n ");
+
+    expect(pagesNeedingOcr([justEnough, spaced])).toEqual([2]);
+  });
+
+  it("needs nothing for a PDF with a text layer throughout", () => {
+    expect(pagesNeedingOcr(["INT. HALL - NIGHT\nA ghost appears.", "EXT. PLATFORM - DAWN\nThe cock crows."]))
+      .toEqual([]);
+  });
+});
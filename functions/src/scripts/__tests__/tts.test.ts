@@ -0,0 +1,95 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { OpenAI } from "openai";
+import { createLocalProvider, createTtsResolver, isAuthenticationError } from "../tts";
+
+describe("createTtsResolver", () => {
+  const openai = {} as OpenAI;
+
+  afterEach(() => {
+    delete process.env.TTS_PROVIDER;
+  });
+
+  it("sends OpenAI voices to OpenAI and local voices to the local engine", () => {
+    const resolve = createTtsResolver(openai);
+
+    expect(resolve("nova")).toMatchObject({ provider: { id: "openai" }, voice: "nova" });
+    expect(resolve("local-male")).toMatchObject({ provider: { id: "local" }, voice: "local-male" });
+  });
+
+  it("reads OpenAI voices locally, keeping their gender, without a client", () => {
+    const resolve = createTtsResolver(null);
+
+    expect(resolve("onyx")).toMatchObject({ provider: { id: "local" }, voice: "local-male" });
+    expect(resolve("shimmer")).toMatchObject({ provider: { id: "local" }, voice: "local-female" });
+  });
+
+  it("reads every voice locally with TTS_PROVIDER=local", () => {
+    process.env.TTS_PROVIDER = "local";
+
+    expect(createTtsResolver(openai)("alloy")).toMatchObject({ provider: { id: "local" }, voice: "local-female" });
+  });
+
+  it("rejects voices that are not in the catalogue", () => {
+    expect(() => createTtsResolver(openai)("robot")).toThrow("Unknown voice: robot");
+  });
+});
+
+describe("isAuthenticationError", () => {
+  it("recognises 401s and invalid keys only", () => {
+    expect(isAuthenticationError({ status: 401 })).toBe(true);
+    expect(isAuthenticationError({ code: "invalid_api_key" })).toBe(true);
+    expect(isAuthenticationError({ status: 429 })).toBe(false);
+    expect(isAuthenticationError(new Error("401"))).toBe(false);
+    expect(isAuthenticationError(null)).toBe(false);
+  });
+});
+
+describe("createLocalProvider", () => {
+  let directory: string;
+  // Stands in for espeak-ng, printing the arguments it was given
+  let command: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "tts-test-"));
+    command = path.join(directory, "espeak-ng");
+    fs.writeFileSync(command, "#!/bin/sh\nprintf '%s\\n' \"$@\"\n", { mode: 0o755 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("runs espeak-ng with the voice's variant and the speed in words per minute", async () => {
+    const provider = createLocalProvider(command);
+
+    const audio = await provider.synthesize({ text: "-- Who's there?", voice: "local-male", speed: 1.2 });
+
+    expect(audio.toString().split("\n"))
+      .toEqual(["-v", "en-us+m3", "-s", "210", "--stdout", "--", "-- Who's there?", ""]);
+    expect(provider).toMatchObject({ id: "local", contentType: "audio/wav", extension: "wav" });
+  });
+
+  it("falls back to the female variant for a voice it doesn't know", async () => {
+    const audio = await createLocalProvider(command).synthesize({ text: "Stand.", voice: "alloy" });
+
+    expect(audio.toString().split("\n").slice(0, 4)).toEqual(["-v", "en-us+f3", "-s", "175"]);
+  });
+
+  it("reports what the engine wrote to stderr when it fails", async () => {
+    const failing = path.join(directory, "failing");
+    fs.writeFileSync(failing, "#!/bin/sh\necho 'voice not found' >&2\nexit 1\n", { mode: 0o755 });
+
+    await expect(createLocalProvider(failing).synthesize({ text: "Stand.", voice: "local-male" }))
+      .rejects.toThrow("Local speech engine failed: voice not found");
+  });
+
+  it("fails clearly when the binary is missing", async () => {
+    const missing = path.join(directory, "missing-espeak-ng");
+
+    await expect(createLocalProvider(missing).synthesize({ text: "Stand.", voice: "local-male" }))
+      .rejects.toThrow(/^Local speech engine failed: .*ENOENT/);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "@jest/globals";
+import * as admin from "firebase-admin";
+import { VoiceJobSource, isVoiceJobStalled, planVoiceJob } from "../voiceJobs";
+
+const line = (
+  originalLineNumber: number,
+  characterName: string,
+  extra: Partial<VoiceJobSource> = {}
+): VoiceJobSource => ({
+  characterName,
+  text: `Line ${originalLineNumber}`,
+  originalLineNumber,
+  sequentialNumber: originalLineNumber,
+  ...extra,
+});
+
+const VOICES = { HORATIO: "alloy", GHOST: "onyx" };
+
+const LINES = [
+  line(2, "HORATIO"),
+  line(4, "HAMLET"),
+  line(6, "GHOST"),
+  line(8, "ACTION", { isAction: true }),
+  line(10, "MARCELLUS"),
+  line(12, "HORATIO"),
+  line(14, "GHOST"),
+];
+
+describe("planVoiceJob", () => {
+  it("puts the lines from the start point first, then wraps round to the ones before it", () => {
+    expect(planVoiceJob(LINES, "HAMLET", VOICES, 7)).toEqual({ order: ["12", "14", "2", "6"], total: 4 });
+    expect(planVoiceJob(LINES, "HAMLET", VOICES, 0).order).toEqual(["2", "6", "12", "14"]);
+  });
+
+  it("follows the script order rather than the order lines are stored in", () => {
+    const moved = [line(20, "HORATIO", { sequentialNumber: 1 }), line(3, "GHOST", { sequentialNumber: 2 })];
+
+    expect(planVoiceJob(moved, "HAMLET", VOICES, 0).order).toEqual(["20", "3"]);
+  });
+
+  it("leaves out the practised character, action and partners without a voice", () => {
+    expect(planVoiceJob(LINES, "HORATIO", VOICES, 0)).toEqual({ order: ["6", "14"], total: 2 });
+  });
+
+  it("counts lines already voiced without generating them again", () => {
+    const voiced = LINES.map((item) =>
+      item.originalLineNumber === 6 ? { ...item, voices: { onyx: "https://example.com/6.mp3" } } : item);
+
+    expect(planVoiceJob(voiced, "HAMLET", VOICES, 0)).toEqual({ order: ["2", "12", "14"], total: 4 });
+  });
+
+  it("regenerates a line voiced only with another voice", () => {
+    const voiced = LINES.map((item) =>
+      item.originalLineNumber === 6 ? { ...item, voices: { echo: "https://example.com/6.mp3" } } : item);
+
+    expect(planVoiceJob(voiced, "HAMLET", VOICES, 0).order).toContain("6");
+  });
+});
+
+describe("isVoiceJobStalled", () => {
+  const NOW = 1_700_000_000_000;
+  const lease = (millis: number) => admin.firestore.Timestamp.fromMillis(millis);
+
+  it("is true once a running job's lease has run out", () => {
+    expect(isVoiceJobStalled({ status: "running", leaseExpiresAt: lease(NOW - 1) }, NOW)).toBe(true);
+    expect(isVoiceJobStalled({ status: "running" }, NOW)).toBe(true);
+  });
+
+  it("is false while the run holds the lease, and for jobs not running", () => {
+    expect(isVoiceJobStalled({ status: "running", leaseExpiresAt: lease(NOW + 1000) }, NOW)).toBe(false);
+    expect(isVoiceJobStalled({ status: "queued", leaseExpiresAt: lease(NOW - 1) }, NOW)).toBe(false);
+    expect(isVoiceJobStalled({ status: "completed" }, NOW)).toBe(false);
+  });
+});
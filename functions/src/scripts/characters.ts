@@ -0,0 +1,395 @@
+/**
+ * Character merge, rename and alias management for processed scripts.
+ *
+ * A change moves every line spoken by the source characters to the target
+ * character and then rewrites everything keyed by character name: the
+ * analysis in `scripts/{id}` and `scriptAnalysis/{id}`, the voice
+ * assignments in `settings/voices`, generated voice-line files, and the
+ * rehearsal progress in `scripts/{id}/mastery` and `readingSessions`.
+ */
+
+import * as admin from "firebase-admin";
+import { Parenthetical } from "./screenplayParser";
+import { BreakdownScene, updateSceneCast } from "./scenes";
+import { AUDIO_EXTENSIONS } from "./tts";
+import { findVoice } from "./voices";
+
+export type CharacterChangeAction = "rename" | "merge" | "alias";
+
+export const CHARACTER_CHANGE_ACTIONS: CharacterChangeAction[] = ["rename", "merge", "alias"];
+
+export interface CharacterChange {
+  action: CharacterChangeAction;
+  sources: string[];
+  target: string;
+}
+
+interface ProcessedLine {
+  characterId: string;
+  characterName: string;
+  text: string;
+  originalLineNumber: number;
+  sequentialNumber: number;
+  isUser?: boolean;
+  isAction?: boolean;
+  voices?: Record<string, string>;
+  /** Cue recordings, keyed by voice and cue length. */
+  cueVoices?: Record<string, string>;
+  extensions?: string[];
+  /** Name printed in the script when the line now belongs to an alias target. */
+  cueName?: string;
+  parentheticals?: Parenthetical[];
+  /** Shared by speeches spoken at the same time. */
+  dualGroup?: number;
+}
+
+interface AnalysisCharacter {
+  name: string;
+  lines: number;
+  firstAppearance: number;
+  dialogue: Array<{
+    text: string;
+    lineNumber: number;
+    sequentialNumber?: number;
+    voices?: Record<string, string>;
+    extensions?: string[];
+    cueName?: string;
+    parentheticals?: Parenthetical[];
+    dualGroup?: number;
+  }>;
+  aliases?: string[];
+  /** Names the character had before a rename or merge, so reprocessing can map them back. */
+  renamedFrom?: string[];
+  [key: string]: unknown;
+}
+
+interface CharacterAnalysis {
+  characters: AnalysisCharacter[];
+  processedLines: ProcessedLine[];
+  scenes?: BreakdownScene[];
+  [key: string]: unknown;
+}
+
+type VoiceAssignments = Record<string, { voice: string; [key: string]: unknown }>;
+
+// Leaves room under Firestore's 500 writes per batch
+const SESSION_BATCH_SIZE = 400;
+// Values allowed in one Firestore "in" filter
+const IN_FILTER_LIMIT = 30;
+
+/**
+ * Storage path of a generated voice line, as written by voice jobs.
+ * @param {string} scriptId Script ID.
+ * @param {string} characterName Speaking character.
+ * @param {number} lineNumber Original line number.
+ * @param {string} voice Voice ID.
+ * @param {string} extension Audio file extension of the voice's provider.
+ * @return {string} Storage object path.
+ */
+export function voiceLinePath(
+  scriptId: string,
+  characterName: string,
+  lineNumber: number,
+  voice: string,
+  extension = "mp3"
+): string {
+  return `scripts/${scriptId}/analysis/${characterName}/voices/${voice}/` +
+    `${scriptId}_${characterName}_${lineNumber}_${voice}.${extension}`;
+}
+
+/**
+ * Extension of a stored voice line. The URL names the file that was written,
+ * which matters when a voice was read by a fallback provider; otherwise it is
+ * the voice's own provider's.
+ * @param {string} voice Voice ID.
+ * @param {string} url Signed URL of the stored file.
+ * @return {string} Audio file extension.
+ */
+export function voiceLineExtension(voice: string, url: string): string {
+  const stored = url.split(/[?#]/)[0].match(/\.(mp3|wav)$/i)?.[1];
+  return stored ? stored.toLowerCase() : AUDIO_EXTENSIONS[findVoice(voice)?.provider || "openai"];
+}
+
+/**
+ * Moves the source characters' lines to the target character. Alias
+ * changes remember the printed name on each line.
+ * @param {ProcessedLine[]} lines Current processed lines.
+ * @param {CharacterChange} change Change to apply.
+ * @return {ProcessedLine[]} Lines with speakers updated, in the same order.
+ */
+export function reassignLines(lines: ProcessedLine[], change: CharacterChange): ProcessedLine[] {
+  const sources = new Set(change.sources);
+  return lines.map((line) => {
+    if (line.isAction || !sources.has(line.characterName)) return line;
+    const moved: ProcessedLine = { ...line, characterId: change.target, characterName: change.target };
+    if (change.action === "alias") {
+      moved.cueName = line.cueName || line.characterName;
+    }
+    return moved;
+  });
+}
+
+/**
+ * Rebuilds the per-character dialogue arrays and line counts from the
+ * processed lines after a change. Renamed and merged names are remembered on
+ * the target, and a rename also keeps the old name as an alias.
+ * @param {CharacterAnalysis} analysis Analysis before the change.
+ * @param {ProcessedLine[]} processedLines Lines after the change.
+ * @param {CharacterChange} change Change that was applied.
+ * @return {CharacterAnalysis} Updated analysis.
+ */
+export function rebuildCharacters<T extends CharacterAnalysis>(
+  analysis: T,
+  processedLines: ProcessedLine[],
+  change: CharacterChange
+): T {
+  const existing = new Map(analysis.characters.map((character) => [character.name, character]));
+
+  const targetBase = existing.get(change.target) || existing.get(change.sources[0]);
+  const aliases = new Set(targetBase?.aliases || []);
+  const renamedFrom = new Set(targetBase?.renamedFrom || []);
+  // A renamed character is still printed under its old name in the script
+  if (change.action === "alias" || change.action === "rename") {
+    change.sources.forEach((source) => aliases.add(source));
+  }
+  if (change.action !== "alias") {
+    change.sources.forEach((source) => renamedFrom.add(source));
+  }
+  change.sources.forEach((source) => {
+    existing.get(source)?.aliases?.forEach((alias) => aliases.add(alias));
+    existing.get(source)?.renamedFrom?.forEach((name) => renamedFrom.add(name));
+  });
+  aliases.delete(change.target);
+  renamedFrom.delete(change.target);
+
+  const characters = new Map<string, AnalysisCharacter>();
+  [...processedLines]
+    .sort((a, b) => a.sequentialNumber - b.sequentialNumber)
+    .forEach((line) => {
+      if (line.isAction) return;
+
+      let character = characters.get(line.characterName);
+      if (!character) {
+        const base = line.characterName === change.target ? targetBase : existing.get(line.characterName);
+        character = {
+          ...base,
+          name: line.characterName,
+          lines: 0,
+          firstAppearance: line.originalLineNumber,
+          dialogue: [],
+        };
+        if (line.characterName === change.target) {
+          if (aliases.size > 0) {
+            character.aliases = Array.from(aliases);
+          } else {
+            delete character.aliases;
+          }
+          if (renamedFrom.size > 0) {
+            character.renamedFrom = Array.from(renamedFrom);
+          } else {
+            delete character.renamedFrom;
+          }
+        }
+        characters.set(line.characterName, character);
+      }
+
+      character.firstAppearance = Math.min(character.firstAppearance, line.originalLineNumber);
+      character.dialogue.push({
+        text: line.text,
+        lineNumber: line.originalLineNumber,
+        sequentialNumber: line.sequentialNumber,
+        ...(line.voices ? { voices: line.voices } : {}),
+        ...(line.extensions ? { extensions: line.extensions } : {}),
+        ...(line.cueName ? { cueName: line.cueName } : {}),
+        ...(line.parentheticals ? { parentheticals: line.parentheticals } : {}),
+        ...(line.dualGroup !== undefined ? { dualGroup: line.dualGroup } : {}),
+      });
+      character.lines++;
+    });
+
+  return {
+    ...analysis,
+    characters: Array.from(characters.values()),
+    ...(analysis.scenes ? { scenes: updateSceneCast(analysis.scenes, processedLines) } : {}),
+    processedLines,
+  };
+}
+
+/**
+ * Moves voice assignments from the source characters to the target. The
+ * target keeps its own voice if it has one; otherwise it takes the first
+ * source's.
+ * @param {VoiceAssignments} voices Current assignments.
+ * @param {CharacterChange} change Change to apply.
+ * @return {VoiceAssignments} Updated assignments.
+ */
+export function applyVoiceChange(voices: VoiceAssignments, change: CharacterChange): VoiceAssignments {
+  const updated = { ...voices };
+  const inherited = change.sources.map((source) => voices[source]).find((assignment) => !!assignment);
+  change.sources.forEach((source) => delete updated[source]);
+  if (!updated[change.target] && inherited) {
+    updated[change.target] = inherited;
+  }
+  return updated;
+}
+
+/**
+ * Moves generated voice-line files for lines that changed speaker and
+ * returns the lines with their voice URLs rewritten. Voices whose file no
+ * longer exists are dropped so they get regenerated.
+ * @param {string} scriptId Script ID.
+ * @param {ProcessedLine[]} before Lines before the change.
+ * @param {ProcessedLine[]} after Lines after the change.
+ * @return {Promise<ProcessedLine[]>} Lines with updated voice URLs.
+ */
+async function moveVoiceLines(
+  scriptId: string,
+  before: ProcessedLine[],
+  after: ProcessedLine[]
+): Promise<ProcessedLine[]> {
+  const bucket = admin.storage().bucket();
+
+  return Promise.all(after.map(async (line, index) => {
+    const previous = before[index];
+    if (previous.characterName === line.characterName) return line;
+    // Cues are regenerated on demand, and who a line cues changes with its speaker
+    if (line.cueVoices) {
+      const { cueVoices: _previousCues, ...uncued } = line;
+      line = uncued;
+    }
+    if (!line.voices) return line;
+
+    const voices: Record<string, string> = {};
+    for (const [voice, url] of Object.entries(line.voices)) {
+      const extension = voiceLineExtension(voice, url);
+      const source = bucket.file(
+        voiceLinePath(scriptId, previous.characterName, previous.originalLineNumber, voice, extension)
+      );
+      const destination = voiceLinePath(scriptId, line.characterName, line.originalLineNumber, voice, extension);
+      try {
+        const [exists] = await source.exists();
+        if (!exists) continue;
+        await source.move(destination);
+        const [url] = await bucket.file(destination).getSignedUrl({
+          action: "read",
+          expires: "3000-01-01",
+        });
+        voices[voice] = url;
+      } catch (error) {
+        console.error(`[${scriptId}] Failed to move voice line ${line.originalLineNumber} (${voice}):`,
+          error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const { voices: _previousVoices, ...rest } = line;
+    return Object.keys(voices).length > 0 ? { ...rest, voices } : rest;
+  }));
+}
+
+/**
+ * Adds the move of rehearsal progress from the source characters to the
+ * target to a batch: their line mastery joins the target's, which wins for
+ * any line both have, and their sessions are relabelled. Sessions that don't
+ * fit in the batch are relabelled before it is committed, so a change that
+ * fails part way can be applied again to finish them.
+ * @param {string} scriptId Script ID.
+ * @param {CharacterChange} change Change being applied.
+ * @param {admin.firestore.WriteBatch} batch Batch applying the change.
+ * @return {Promise<{sessions: number}>} Number of sessions relabelled.
+ */
+async function moveCharacterProgress(
+  scriptId: string,
+  change: CharacterChange,
+  batch: admin.firestore.WriteBatch
+): Promise<{ sessions: number }> {
+  const db = admin.firestore();
+  const masteryRef = db.collection("scripts").doc(scriptId).collection("mastery");
+  const sources = change.sources.filter((source) => source !== change.target);
+  if (sources.length === 0) return { sessions: 0 };
+
+  const [targetDoc, ...sourceDocs] = await Promise.all(
+    [change.target, ...sources].map((name) => masteryRef.doc(name).get())
+  );
+  const moved = sourceDocs.filter((doc) => doc.exists);
+  if (moved.length > 0) {
+    const lines = Object.assign({}, ...moved.map((doc) => doc.data()?.lines || {}), targetDoc.data()?.lines || {});
+    batch.set(masteryRef.doc(change.target), {
+      lines,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    moved.forEach((doc) => batch.delete(doc.ref));
+  }
+
+  const queries: Array<Promise<admin.firestore.QuerySnapshot>> = [];
+  for (let i = 0; i < sources.length; i += IN_FILTER_LIMIT) {
+    queries.push(db.collection("readingSessions")
+      .where("scriptId", "==", scriptId)
+      .where("character", "in", sources.slice(i, i + IN_FILTER_LIMIT))
+      .get());
+  }
+  const sessions = (await Promise.all(queries)).flatMap((snapshot) => snapshot.docs);
+  const relabel = (target: admin.firestore.WriteBatch, doc: admin.firestore.QueryDocumentSnapshot) => {
+    const lineScores: Array<{ characterName: string }> = doc.data().lineScores || [];
+    target.update(doc.ref, {
+      character: change.target,
+      lineScores: lineScores.map((score) =>
+        sources.includes(score.characterName) ? { ...score, characterName: change.target } : score),
+    });
+  };
+
+  const room = Math.max(0, SESSION_BATCH_SIZE - (moved.length > 0 ? moved.length + 1 : 0));
+  for (let i = room; i < sessions.length; i += SESSION_BATCH_SIZE) {
+    const overflow = db.batch();
+    sessions.slice(i, i + SESSION_BATCH_SIZE).forEach((doc) => relabel(overflow, doc));
+    await overflow.commit();
+  }
+  sessions.slice(0, room).forEach((doc) => relabel(batch, doc));
+
+  return { sessions: sessions.length };
+}
+
+/**
+ * Applies a character change to a stored script.
+ * @param {string} scriptId Script ID.
+ * @param {CharacterChange} change Change to apply.
+ * @return {Promise<{characters: string[]}>} Character names after the change.
+ */
+export async function updateScriptCharacters(
+  scriptId: string,
+  change: CharacterChange
+): Promise<{ characters: string[] }> {
+  const db = admin.firestore();
+  const scriptRef = db.collection("scripts").doc(scriptId);
+  const analysisRef = db.collection("scriptAnalysis").doc(scriptId);
+  const voicesRef = scriptRef.collection("settings").doc("voices");
+
+  const [scriptDoc, voicesDoc] = await Promise.all([scriptRef.get(), voicesRef.get()]);
+  const analysis = scriptDoc.data()?.analysis as CharacterAnalysis | undefined;
+  if (!analysis?.processedLines) {
+    throw new Error("Script is missing analysis or processed lines data");
+  }
+
+  const reassigned = reassignLines(analysis.processedLines, change);
+  const processedLines = await moveVoiceLines(scriptId, analysis.processedLines, reassigned);
+  const updated = rebuildCharacters(analysis, processedLines, change);
+  const voices = applyVoiceChange((voicesDoc.data() || {}) as VoiceAssignments, change);
+
+  const batch = db.batch();
+  batch.update(scriptRef, {
+    analysis: updated,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.set(analysisRef, { analysis: updated }, { merge: true });
+  batch.set(voicesRef, voices);
+  const progress = await moveCharacterProgress(scriptId, change, batch);
+  await batch.commit();
+
+  console.log(`[${scriptId}] Character ${change.action} applied:`, {
+    sources: change.sources,
+    target: change.target,
+    characters: updated.characters.length,
+    sessions: progress.sessions,
+  });
+
+  return { characters: updated.characters.map((character) => character.name) };
+}
@@ -0,0 +1,49 @@
+/**
+ * Splitting script text into chunks small enough to analyse one at a time.
+ */
+
+export interface TextChunk {
+  text: string;
+  // Line number of the chunk's first line within the full text
+  startLine: number;
+}
+
+/**
+ * Splits text into chunks of whole lines, each at most `maxChunkSize`
+ * characters unless a single line is longer. Every chunk records the exact
+ * line it starts on, so line numbers within chunks map back to the source.
+ * @param {string} text Full script text.
+ * @param {number} maxChunkSize Largest chunk, in characters.
+ * @return {TextChunk[]} Chunks in order.
+ */
+export function chunkText(text: string, maxChunkSize = 5000): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  let startLine = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + maxChunkSize, text.length);
+
+    // If we're not at the end, cut after the last newline before maxChunkSize,
+    // or after the end of the current line if it is longer than that
+    if (end < text.length) {
+      const lastNewline = text.lastIndexOf("\n", end);
+      if (lastNewline > start) {
+        end = lastNewline;
+      } else {
+        const nextNewline = text.indexOf("\n", end);
+        end = nextNewline === -1 ? text.length : nextNewline;
+      }
+    }
+
+    const chunk = text.slice(start, end);
+    if (chunk.trim().length > 0) {
+      chunks.push({ text: chunk, startLine });
+    }
+    // Skip the newline the chunk was cut at
+    startLine += chunk.split("\n").length;
+    start = end + 1;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,106 @@
+/**
+ * Helpers for running script analysis work in parallel without tripping
+ * OpenAI rate limits.
+ */
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries: number;
+  /** Delay cap for the first retry; doubles for each one after. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Label used in log messages. */
+  label?: string;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ * Results keep the order of `items`, whatever order the calls finish in.
+ * @param {T[]} items Items to process.
+ * @param {number} limit Maximum number of concurrent calls.
+ * @param {Function} worker Called with each item and its index.
+ * @return {Promise<R[]>} Results in item order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Whether an error is a rate-limit response from the OpenAI API.
+ * @param {unknown} error Error thrown by the client.
+ * @return {boolean} True for 429s and rate-limit error codes.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const { status, code } = error as { status?: number; code?: string };
+  if (status === 429 || code === "rate_limit_exceeded") return true;
+  return error instanceof Error && /rate limit/i.test(error.message);
+}
+
+/**
+ * Reads the server's suggested wait from a rate-limit error, if it sent one.
+ * @param {unknown} error Error thrown by the client.
+ * @return {number | null} Delay in milliseconds.
+ */
+function retryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: Record<string, string | undefined> })?.headers;
+  const retryAfter = headers?.["retry-after-ms"] ?? headers?.["retry-after"];
+  if (!retryAfter) return null;
+  const value = Number(retryAfter);
+  if (!Number.isFinite(value)) return null;
+  return headers?.["retry-after-ms"] ? value : value * 1000;
+}
+
+/**
+ * Calls `fn`, retrying rate-limit errors with exponential backoff and full
+ * jitter so parallel callers do not retry in lockstep. Other errors are
+ * thrown straight away.
+ * @param {Function} fn Call to make.
+ * @param {Partial<RetryOptions>} options Retry settings.
+ * @return {Promise<T>} Result of the first successful call.
+ */
+export async function withRateLimitRetry<T>(
+  fn: () => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, label } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRateLimitError(error)) {
+        throw error;
+      }
+      const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = Math.max(retryAfterMs(error) ?? 0, Math.random() * cap);
+      console.warn(`${label ? `[${label}] ` : ""}Rate limited, retrying in ${Math.round(delay)}ms ` +
+        `(attempt ${attempt + 1}/${retries})`);
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Cue lines for cue-only rehearsal: the partner line just before each of the
+ * practising character's lines, cut down to its last few words.
+ *
+ * The trimmed text is voiced on its own rather than cut out of the full
+ * recording, so the cue reads as a natural phrase instead of starting
+ * mid-word. Cue audio is stored per voice and cue length in `cueVoices`,
+ * next to the line's full `voices`.
+ */
+import * as admin from "firebase-admin";
+import { Parenthetical } from "./screenplayParser";
+import { buildDelivery } from "./delivery";
+import { mapWithConcurrency, withRateLimitRetry } from "./concurrency";
+import { TtsResolver } from "./tts";
+
+export interface CueLine {
+  characterName: string;
+  text: string;
+  originalLineNumber: number;
+  sequentialNumber: number;
+  isAction?: boolean;
+  parentheticals?: Parenthetical[];
+  cueVoices?: Record<string, string>;
+}
+
+export interface CueGenerationResult {
+  cueLines: number;
+  generated: number;
+  failed: number;
+}
+
+/** Longest cue that can be requested; past this it is the whole line anyway. */
+export const MAX_CUE_WORDS = 30;
+
+const CUE_CONCURRENCY = 4;
+
+/**
+ * Key of a cue recording in `cueVoices`.
+ * @param {string} voice Voice the cue was read in.
+ * @param {number} words Cue length in words.
+ * @return {string} Key, e.g. "nova_5w".
+ */
+export const cueVoiceKey = (voice: string, words: number): string => `${voice}_${words}w`;
+
+/**
+ * The last `words` words of a line, with where they start in it.
+ * @param {string} text Line text.
+ * @param {number} words Cue length in words.
+ * @return {{text: string, start: number}} Cue text and its offset in `text`.
+ */
+export function cueText(text: string, words: number): { text: string; start: number } {
+  const matches = Array.from(text.matchAll(/\S+/g));
+  if (matches.length <= words) return { text: text.trim(), start: 0 };
+  const start = matches[matches.length - words].index ?? 0;
+  return { text: text.slice(start).trim(), start };
+}
+
+/**
+ * Indexes of the lines that cue the practising character: the last spoken
+ * line before each of theirs, when someone else speaks it.
+ * @param {CueLine[]} lines Lines in reading order.
+ * @param {string} practiceCharacter Character being practised.
+ * @return {number[]} Indexes into `lines`.
+ */
+export function findCueLines(lines: CueLine[], practiceCharacter: string): number[] {
+  const cues = new Set<number>();
+  let previousSpoken = -1;
+  lines.forEach((line, index) => {
+    if (line.isAction) return;
+    if (line.characterName === practiceCharacter && previousSpoken !== -1 &&
+        lines[previousSpoken].characterName !== practiceCharacter) {
+      cues.add(previousSpoken);
+    }
+    previousSpoken = index;
+  });
+  return Array.from(cues).sort((a, b) => a - b);
+}
+
+/**
+ * Storage path of a cue recording.
+ * @param {string} scriptId Script ID.
+ * @param {CueLine} line Line the cue is cut from.
+ * @param {string} voice Voice name.
+ * @param {number} words Cue length in words.
+ * @param {string} extension Audio file extension of the voice's provider.
+ * @return {string} Object path in the default bucket.
+ */
+const cueLinePath = (scriptId: string, line: CueLine, voice: string, words: number, extension: string): string =>
+  `scripts/${scriptId}/analysis/${line.characterName}/voices/${voice}/cues/${words}/` +
+  `${scriptId}_${line.characterName}_${line.originalLineNumber}_${voice}.${extension}`;
+
+/**
+ * Voices the cue for every line that cues the practising character, skipping
+ * cues already recorded at this length.
+ * @param {string} scriptId Script ID.
+ * @param {T[]} lines Processed lines; updated copies are returned.
+ * @param {string} practiceCharacter Character being practised.
+ * @param {Record<string, string>} voices Voice name for each partner character.
+ * @param {number} words Cue length in words.
+ * @param {TtsResolver} resolveTts Speech provider for each voice.
+ * @return {Promise<{lines: T[], result: CueGenerationResult}>} Updated lines and counts.
+ */
+export async function generateCueVoices<T extends CueLine>(
+  scriptId: string,
+  lines: T[],
+  practiceCharacter: string,
+  voices: Record<string, string>,
+  words: number,
+  resolveTts: TtsResolver
+): Promise<{ lines: T[]; result: CueGenerationResult }> {
+  const bucket = admin.storage().bucket();
+  const ordered = [...lines].sort((a, b) => a.sequentialNumber - b.sequentialNumber);
+  const cueIndexes = findCueLines(ordered, practiceCharacter)
+    .filter((index) => !!voices[ordered[index].characterName]);
+  const result: CueGenerationResult = { cueLines: cueIndexes.length, generated: 0, failed: 0 };
+  const updated = new Map<T, T>();
+
+  await mapWithConcurrency(cueIndexes, CUE_CONCURRENCY, async (index) => {
+    const line = ordered[index];
+    const voice = voices[line.characterName];
+    const key = cueVoiceKey(voice, words);
+    if (line.cueVoices?.[key]) return;
+
+    const cue = cueText(line.text, words);
+    // Directions before the cue still set its tone, but their pauses fall outside it
+    const directions = (line.parentheticals || []).map((direction) => ({
+      ...direction,
+      position: direction.position >= cue.start ? direction.position - cue.start : cue.text.length,
+    }));
+    const delivery = buildDelivery(cue.text, directions);
+
+    try {
+      const { provider, voice: providerVoice } = resolveTts(voice);
+      const audio = await withRateLimitRetry(() => provider.synthesize({
+        text: delivery.input,
+        voice: providerVoice,
+        speed: delivery.speed,
+      }), { label: scriptId });
+      const file = bucket.file(cueLinePath(scriptId, line, voice, words, provider.extension));
+      await file.save(audio, {
+        metadata: { contentType: provider.contentType },
+      });
+      const [url] = await file.getSignedUrl({ action: "read", expires: "3000-01-01" });
+      updated.set(line, { ...line, cueVoices: { ...(line.cueVoices || {}), [key]: url } });
+      result.generated++;
+    } catch (error) {
+      result.failed++;
+      console.error(`[${scriptId}] Failed to voice cue for line ${line.originalLineNumber}:`,
+        error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  return { lines: lines.map((line) => updated.get(line) || line), result };
+}
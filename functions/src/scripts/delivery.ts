@@ -0,0 +1,85 @@
+/**
+ * Turns a line's parentheticals into text-to-speech delivery settings.
+ *
+ * The speech endpoint only reads plain text, so directions are approximated:
+ * pauses become ellipses where the direction sits in the speech, and pace
+ * directions change the speaking speed. Volume cannot be requested, so quiet
+ * directions return a playback volume for the app to apply instead. Each line
+ * is a single request, so speed and volume apply to the whole line.
+ */
+import { Parenthetical } from "./screenplayParser";
+
+export interface Delivery {
+  /** Text to send to the speech endpoint. */
+  input: string;
+  /** Speaking speed, 1 being normal. */
+  speed: number;
+  /** Playback volume from 0 to 1. */
+  volume: number;
+}
+
+const PAUSE_PATTERN = /\b(?:beats?|pause[sd]?|silence|a moment)\b/i;
+const LONG_PAUSE_PATTERN = /\b(?:long|several|two|three)\b/i;
+const QUIET_PATTERN =
+  /\b(?:whisper\w*|quiet(?:ly)?|soft(?:ly)?|hushed|murmur\w*|sotto voce|under (?:his|her|their) breath)\b/i;
+const FAST_PATTERN = /\b(?:quick(?:ly)?|fast|rapid(?:ly)?|rushed|rushing|hurried(?:ly)?)\b/i;
+const SLOW_PATTERN = /\b(?:slow(?:ly)?|deliberate(?:ly)?|drawn out)\b/i;
+
+const PAUSE = "...";
+const LONG_PAUSE = "... ...";
+
+const QUIET_VOLUME = 0.5;
+const QUIET_SPEED = 0.9;
+const FAST_SPEED = 1.2;
+const SLOW_SPEED = 0.85;
+
+/**
+ * Inserts a pause into the speech at a character offset.
+ * @param {string} text Speech text.
+ * @param {number} position Offset the pause comes before.
+ * @param {string} pause Pause marker.
+ * @return {string} Text with the pause.
+ */
+function insertPause(text: string, position: number, pause: string): string {
+  const before = text.slice(0, position).trimEnd();
+  const after = text.slice(position).trimStart();
+  return [before, pause, after].filter(Boolean).join(" ");
+}
+
+/**
+ * Works out how a line should be read from its parentheticals.
+ * @param {string} text Speech text without directions.
+ * @param {Parenthetical[]} parentheticals Directions positioned in `text`.
+ * @return {Delivery} Text and settings for the speech request.
+ */
+export function buildDelivery(text: string, parentheticals: Parenthetical[] = []): Delivery {
+  let input = text;
+  let speed = 1;
+  let volume = 1;
+
+  // Insert from the end so earlier positions stay valid
+  [...parentheticals]
+    .sort((a, b) => b.position - a.position)
+    .forEach((direction) => {
+      if (PAUSE_PATTERN.test(direction.text) && direction.position < text.length) {
+        const pause = LONG_PAUSE_PATTERN.test(direction.text) ? LONG_PAUSE : PAUSE;
+        input = insertPause(input, Math.max(0, direction.position), pause);
+      }
+    });
+
+  parentheticals.forEach((direction) => {
+    if (QUIET_PATTERN.test(direction.text)) {
+      volume = QUIET_VOLUME;
+      speed = QUIET_SPEED;
+    }
+  });
+  parentheticals.forEach((direction) => {
+    if (FAST_PATTERN.test(direction.text)) {
+      speed = FAST_SPEED;
+    } else if (SLOW_PATTERN.test(direction.text)) {
+      speed = SLOW_SPEED;
+    }
+  });
+
+  return { input, speed, volume };
+}
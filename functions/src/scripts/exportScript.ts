@@ -0,0 +1,289 @@
+/**
+ * Turns a processed script analysis back into files people can use outside
+ * the app: Fountain and Final Draft for writing software, and a "sides" PDF
+ * for a single character.
+ */
+
+import PDFDocument = require("pdfkit");
+
+export type ExportFormat = "fountain" | "fdx" | "sides";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["fountain", "fdx", "sides"];
+
+interface ExportLine {
+  characterName: string;
+  text: string;
+  originalLineNumber: number;
+  sequentialNumber: number;
+  isAction?: boolean;
+}
+
+interface ExportScene {
+  name: string;
+  startLine: number;
+  endLine: number;
+  sceneNumber?: string;
+}
+
+export interface ExportableAnalysis {
+  processedLines: ExportLine[];
+  scenes?: ExportScene[];
+}
+
+export interface ScriptExport {
+  content: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+type ScriptElement =
+  | { kind: "scene"; scene: ExportScene }
+  | { kind: "action"; text: string }
+  | { kind: "dialogue"; characterName: string; text: string };
+
+// Other characters' speeches on sides are cut down to their last few words.
+const SIDES_CUE_WORDS = 8;
+
+/**
+ * Interleaves scene headings with the processed lines in script order.
+ * @param {ExportableAnalysis} analysis Script analysis.
+ * @return {ScriptElement[]} Elements in reading order.
+ */
+function buildElements(analysis: ExportableAnalysis): ScriptElement[] {
+  const lines = [...analysis.processedLines].sort((a, b) => a.sequentialNumber - b.sequentialNumber);
+  const scenes = [...(analysis.scenes || [])].sort((a, b) => a.startLine - b.startLine);
+  const elements: ScriptElement[] = [];
+  let sceneIndex = 0;
+
+  lines.forEach((line) => {
+    while (sceneIndex < scenes.length && scenes[sceneIndex].startLine <= line.originalLineNumber) {
+      elements.push({ kind: "scene", scene: scenes[sceneIndex++] });
+    }
+    if (line.isAction) {
+      elements.push({ kind: "action", text: line.text });
+    } else {
+      elements.push({ kind: "dialogue", characterName: line.characterName, text: line.text });
+    }
+  });
+
+  while (sceneIndex < scenes.length) {
+    elements.push({ kind: "scene", scene: scenes[sceneIndex++] });
+  }
+
+  return elements;
+}
+
+const isUpperCase = (text: string): boolean => /[A-Z]/.test(text) && text === text.toUpperCase();
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Writes a script analysis as Fountain text.
+ * @param {string} title Script title.
+ * @param {ExportableAnalysis} analysis Script analysis.
+ * @return {string} Fountain document.
+ */
+export function toFountain(title: string, analysis: ExportableAnalysis): string {
+  const blocks: string[] = [`Title: ${title}`];
+
+  buildElements(analysis).forEach((element) => {
+    switch (element.kind) {
+    case "scene": {
+      const { name, sceneNumber } = element.scene;
+      const heading = /^(INT|EXT|EST|I\/E)[./\s]/i.test(name) ? name : `.${name}`;
+      blocks.push(sceneNumber ? `${heading} #${sceneNumber}#` : heading);
+      break;
+    }
+    case "action":
+      // An all-caps action line on its own would be read back as a cue.
+      blocks.push(isUpperCase(element.text) ? `!${element.text}` : element.text);
+      break;
+    case "dialogue": {
+      const cue = isUpperCase(element.characterName) ? element.characterName : `@${element.characterName}`;
+      blocks.push(`${cue}\n${element.text}`);
+      break;
+    }
+    }
+  });
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Writes a script analysis as a Final Draft document.
+ * @param {string} title Script title.
+ * @param {ExportableAnalysis} analysis Script analysis.
+ * @return {string} FDX XML.
+ */
+export function toFdx(title: string, analysis: ExportableAnalysis): string {
+  const paragraph = (type: string, text: string, attributes = "") =>
+    `    <Paragraph${attributes} Type="${type}">\n      <Text>${escapeXml(text)}</Text>\n    </Paragraph>`;
+
+  const paragraphs: string[] = [];
+  buildElements(analysis).forEach((element) => {
+    switch (element.kind) {
+    case "scene": {
+      const { name, sceneNumber } = element.scene;
+      paragraphs.push(paragraph("Scene Heading", name, sceneNumber ? ` Number="${escapeXml(sceneNumber)}"` : ""));
+      break;
+    }
+    case "action":
+      paragraphs.push(paragraph("Action", element.text));
+      break;
+    case "dialogue":
+      paragraphs.push(paragraph("Character", element.characterName));
+      paragraphs.push(paragraph("Dialogue", element.text));
+      break;
+    }
+  });
+
+  return [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"no\" ?>",
+    "<FinalDraft DocumentType=\"Script\" Template=\"No\" Version=\"5\">",
+    "  <Content>",
+    ...paragraphs,
+    "  </Content>",
+    "  <TitlePage>",
+    "    <Content>",
+    `      <Paragraph Alignment="Center" Type="General">\n        <Text>${escapeXml(title)}</Text>\n      </Paragraph>`,
+    "    </Content>",
+    "  </TitlePage>",
+    "</FinalDraft>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Renders audition sides for one character: only the scenes they appear in,
+ * with their lines highlighted and everyone else's speeches cut to a cue.
+ * @param {string} title Script title.
+ * @param {ExportableAnalysis} analysis Script analysis.
+ * @param {string} character Character the sides are for.
+ * @return {Promise<Buffer>} PDF file contents.
+ */
+export function toSidesPdf(title: string, analysis: ExportableAnalysis, character: string): Promise<Buffer> {
+  const elements = buildElements(analysis);
+
+  // Group into scenes; lines before the first heading form their own group.
+  const groups: ScriptElement[][] = [[]];
+  elements.forEach((element) => {
+    if (element.kind === "scene") groups.push([]);
+    groups[groups.length - 1].push(element);
+  });
+  const sides = groups.filter((group) =>
+    group.some((element) => element.kind === "dialogue" && element.characterName === character));
+
+  if (sides.length === 0) {
+    throw new Error(`${character} has no lines in this script`);
+  }
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: 72, info: { Title: `${title} - ${character} sides` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+    };
+
+    doc.font("Courier-Bold").fontSize(14).text(title, { align: "center" });
+    doc.font("Courier").fontSize(11).text(`Sides for ${character}`, { align: "center" });
+    doc.moveDown(2);
+
+    sides.forEach((group, groupIndex) => {
+      if (groupIndex > 0) doc.moveDown();
+
+      group.forEach((element) => {
+        switch (element.kind) {
+        case "scene": {
+          const { name, sceneNumber } = element.scene;
+          const heading = sceneNumber ? `${sceneNumber}  ${name}` : name;
+          doc.font("Courier-Bold").fontSize(11).fillColor("black");
+          ensureSpace(doc.heightOfString(heading, { width }) + 12);
+          doc.text(heading, left, doc.y, { width });
+          doc.moveDown(0.5);
+          break;
+        }
+        case "action":
+          doc.font("Courier").fontSize(9).fillColor("#666666");
+          ensureSpace(doc.heightOfString(element.text, { width }));
+          doc.text(element.text, left, doc.y, { width });
+          doc.moveDown(0.5);
+          break;
+        case "dialogue": {
+          if (element.characterName !== character) {
+            const words = element.text.split(/\s+/);
+            const cue = words.length > SIDES_CUE_WORDS ?
+              `... ${words.slice(-SIDES_CUE_WORDS).join(" ")}` :
+              element.text;
+            const condensed = `${element.characterName}: ${cue}`;
+            doc.font("Courier").fontSize(9).fillColor("#666666");
+            ensureSpace(doc.heightOfString(condensed, { width }));
+            doc.text(condensed, left, doc.y, { width });
+            doc.moveDown(0.5);
+            break;
+          }
+
+          const dialogueLeft = left + 72;
+          const dialogueWidth = width - 144;
+          doc.font("Courier").fontSize(11);
+          const height = doc.heightOfString(element.text, { width: dialogueWidth });
+          ensureSpace(height + 16);
+
+          doc.font("Courier-Bold").fillColor("black").text(element.characterName, left + 144, doc.y);
+          const top = doc.y;
+          doc.rect(dialogueLeft - 4, top - 2, dialogueWidth + 8, height + 4).fill("#FFF59D");
+          doc.font("Courier").fillColor("black").text(element.text, dialogueLeft, top, { width: dialogueWidth });
+          doc.moveDown(0.5);
+          break;
+        }
+        }
+      });
+    });
+
+    doc.end();
+  });
+}
+
+/**
+ * Builds an export file for a script analysis.
+ * @param {ExportFormat} format Requested export format.
+ * @param {string} title Script title.
+ * @param {ExportableAnalysis} analysis Script analysis.
+ * @param {string} character Character for sides; required for "sides".
+ * @return {Promise<ScriptExport>} File contents and type.
+ */
+export async function buildScriptExport(
+  format: ExportFormat,
+  title: string,
+  analysis: ExportableAnalysis,
+  character?: string
+): Promise<ScriptExport> {
+  switch (format) {
+  case "fountain":
+    return {
+      content: Buffer.from(toFountain(title, analysis), "utf8"),
+      contentType: "text/plain",
+      extension: "fountain",
+    };
+  case "fdx":
+    return { content: Buffer.from(toFdx(title, analysis), "utf8"), contentType: "application/xml", extension: "fdx" };
+  case "sides":
+    if (!character) {
+      throw new Error("A character is required for sides");
+    }
+    return { content: await toSidesPdf(title, analysis, character), contentType: "application/pdf", extension: "pdf" };
+  }
+}
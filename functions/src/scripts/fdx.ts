@@ -0,0 +1,149 @@
+/**
+ * Final Draft (.fdx) screenplay parser.
+ *
+ * FDX files already tag every paragraph with its element type, so no layout
+ * heuristics are needed. Each paragraph becomes one classified line; the
+ * plain-text rendering of those lines is what gets stored as the script
+ * content, so line numbers stay consistent with the other formats.
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import { ClassifiedLine, ScreenplayLineType } from "./screenplayParser";
+
+type XmlNode = Record<string, unknown>;
+
+const PARAGRAPH_TYPES: Record<string, ScreenplayLineType> = {
+  "Scene Heading": "scene_heading",
+  "Character": "character",
+  "Dialogue": "dialogue",
+  "Parenthetical": "parenthetical",
+  "Action": "action",
+  "General": "action",
+  "Shot": "action",
+  "Transition": "transition",
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  textNodeName: "#text",
+  trimValues: false,
+  parseTagValue: false,
+  isArray: (name) => ["Paragraph", "Text", "Revision"].includes(name),
+});
+
+const asArray = (value: unknown): XmlNode[] =>
+  Array.isArray(value) ? value as XmlNode[] : value ? [value as XmlNode] : [];
+
+const attribute = (node: XmlNode, name: string): string | undefined => {
+  const value = node[name];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+};
+
+/**
+ * Joins the styled text runs of a paragraph.
+ * @param {XmlNode} paragraph Paragraph element.
+ * @return {{text: string, revisionIds: string[]}} Paragraph text and the
+ * revision sets its runs belong to.
+ */
+function readParagraphText(paragraph: XmlNode): { text: string; revisionIds: string[] } {
+  const revisionIds = new Set<string>();
+  const text = asArray(paragraph.Text)
+    .map((run) => {
+      if (typeof run === "string") return run;
+      const revisionId = attribute(run, "RevisionID");
+      if (revisionId) revisionIds.add(revisionId);
+      return typeof run["#text"] === "string" ? run["#text"] : "";
+    })
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return { text, revisionIds: Array.from(revisionIds) };
+}
+
+/**
+ * Parses a Final Draft document into classified screenplay lines.
+ * @param {string} source FDX XML text.
+ * @param {number} startLine Line number assigned to the first paragraph.
+ * @return {ClassifiedLine[]} One entry per paragraph, in document order.
+ */
+export function parseFdx(source: string, startLine = 0): ClassifiedLine[] {
+  const document = parser.parse(source) as XmlNode;
+  const finalDraft = document.FinalDraft as XmlNode | undefined;
+  const content = finalDraft?.Content as XmlNode | undefined;
+  if (!finalDraft || !content) {
+    throw new Error("Invalid FDX file: missing FinalDraft content");
+  }
+
+  // Revision sets are declared once and referenced by id from text runs.
+  const revisionNames = new Map<string, string>();
+  asArray((finalDraft.Revisions as XmlNode | undefined)?.Revision).forEach((revision) => {
+    const id = attribute(revision, "ID");
+    const name = attribute(revision, "Name") || attribute(revision, "Color");
+    if (id && name) revisionNames.set(id, name);
+  });
+
+  const classified: ClassifiedLine[] = [];
+  let speaker: string | null = null;
+
+  // Only the second cue inside a DualDialogue block is marked as dual.
+  let inDualBlock = false;
+  let dualCueSeen = false;
+
+  const addParagraph = (paragraph: XmlNode) => {
+    const dualDialogue = paragraph.DualDialogue as XmlNode | undefined;
+    if (dualDialogue) {
+      inDualBlock = true;
+      dualCueSeen = false;
+      asArray(dualDialogue.Paragraph).forEach(addParagraph);
+      inDualBlock = false;
+      return;
+    }
+
+    const paragraphType = attribute(paragraph, "Type") || "General";
+    const { text, revisionIds } = readParagraphText(paragraph);
+    const type: ScreenplayLineType = text.length === 0 ? "blank" : PARAGRAPH_TYPES[paragraphType] || "omitted";
+    const revisions = revisionIds
+      .map((id) => revisionNames.get(id))
+      .filter((name): name is string => !!name);
+
+    const entry: ClassifiedLine = { lineNumber: startLine + classified.length, text, type };
+    if (revisions.length > 0) entry.revisions = revisions;
+
+    switch (type) {
+    case "scene_heading": {
+      speaker = null;
+      const sceneNumber = attribute(paragraph, "Number");
+      if (sceneNumber) entry.sceneNumber = sceneNumber;
+      break;
+    }
+    case "character":
+      speaker = text;
+      entry.characterName = text;
+      // The second cue of a dual dialogue block speaks alongside the first.
+      if (inDualBlock && dualCueSeen) entry.dual = true;
+      if (inDualBlock) dualCueSeen = true;
+      break;
+    case "dialogue":
+    case "parenthetical":
+      if (speaker) {
+        entry.characterName = speaker;
+      } else if (type === "dialogue") {
+        entry.type = "action";
+      }
+      break;
+    case "action":
+      speaker = null;
+      if (attribute(paragraph, "Alignment") === "Center") entry.centered = true;
+      break;
+    default:
+      speaker = null;
+    }
+
+    classified.push(entry);
+  };
+
+  asArray(content.Paragraph).forEach(addParagraph);
+  return classified;
+}
@@ -0,0 +1,35 @@
+/**
+ * Script file formats accepted by the upload trigger.
+ */
+
+export type ScriptFormat = "pdf" | "fountain" | "fdx";
+
+const FORMAT_EXTENSIONS: Record<string, ScriptFormat> = {
+  ".pdf": "pdf",
+  ".fountain": "fountain",
+  ".spmd": "fountain",
+  ".fdx": "fdx",
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMAT_EXTENSIONS);
+
+/**
+ * Works out the script format from an uploaded file's name.
+ * @param {string} fileName Storage object name or original file name.
+ * @return {ScriptFormat | null} The format, or null when it is not supported.
+ */
+export function getScriptFormat(fileName: string): ScriptFormat | null {
+  const lowerName = fileName.toLowerCase();
+  const extension = SUPPORTED_EXTENSIONS.find((ext) => lowerName.endsWith(ext));
+  return extension ? FORMAT_EXTENSIONS[extension] : null;
+}
+
+/**
+ * Whether the format carries explicit element types (cues, dialogue, action)
+ * rather than text whose structure has to be inferred.
+ * @param {ScriptFormat} format Script format.
+ * @return {boolean} True for structured formats.
+ */
+export function isStructuredFormat(format: ScriptFormat): boolean {
+  return format !== "pdf";
+}
@@ -0,0 +1,166 @@
+/**
+ * Fountain (https://fountain.io) screenplay parser.
+ *
+ * Produces the same classified lines as the rule-based PDF classifier, keeping
+ * one entry per source line so line numbers point straight back into the
+ * uploaded file.
+ */
+
+import { ClassifiedLine } from "./screenplayParser";
+
+const SCENE_HEADING_PATTERN = /^(INT\.?\/EXT|EXT\.?\/INT|INT\/EXT|I\/E|INT|EXT|EST)[.\s]/i;
+const SCENE_NUMBER_PATTERN = /\s*#([A-Za-z0-9.-]+)#\s*$/;
+const TITLE_PAGE_KEY_PATTERN = /^[A-Za-z][A-Za-z ]*:/;
+
+/**
+ * Blanks out boneyard comments and notes while keeping line breaks, so that
+ * the remaining text still lines up with the source.
+ * @param {string} source Raw Fountain text.
+ * @return {string} Text with comments and notes replaced by empty space.
+ */
+function stripComments(source: string): string {
+  const blank = (match: string) => match.replace(/[^\n]/g, "");
+  return source
+    .replace(/\/\*[\s\S]*?\*\//g, blank)
+    .replace(/\[\[[\s\S]*?\]\]/g, blank);
+}
+
+/**
+ * Removes Fountain emphasis markup (*italics*, **bold**, _underline_) and
+ * escape characters from a line of text.
+ * @param {string} text Line text.
+ * @return {string} Plain text.
+ */
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/(\*{1,3}|_)(?=\S)(.+?)(?<=\S)\1/g, "$2")
+    .replace(/\\([*_\\])/g, "$1")
+    .trim();
+}
+
+const isUpperCaseName = (name: string): boolean =>
+  /[A-Z]/.test(name) && name === name.toUpperCase();
+
+/**
+ * Parses a Fountain document into classified screenplay lines.
+ * @param {string} source Raw Fountain text.
+ * @param {number} startLine Line number assigned to the first source line.
+ * @return {ClassifiedLine[]} One entry per source line, in order.
+ */
+export function parseFountain(source: string, startLine = 0): ClassifiedLine[] {
+  const rawLines = source.replace(/\r\n?/g, "\n").split("\n");
+  const lines = stripComments(rawLines.join("\n")).split("\n");
+
+  const classified: ClassifiedLine[] = [];
+  let speaker: string | null = null;
+  let index = 0;
+
+  const isBlank = (i: number) => i < 0 || i >= lines.length || lines[i].trim().length === 0;
+  // A line emptied by a note or boneyard comment neither starts nor ends a block.
+  const isRemoved = (i: number) => rawLines[i].trim().length > 0 && lines[i].trim().length === 0;
+
+  const push = (entry: Omit<ClassifiedLine, "lineNumber">) => {
+    classified.push({ lineNumber: startLine + classified.length, ...entry });
+  };
+
+  // Title page: "Key: value" pairs (with indented continuations) up to the
+  // first blank line at the very top of the document.
+  if (lines.length > 0 && TITLE_PAGE_KEY_PATTERN.test(lines[0].trim()) && !SCENE_HEADING_PATTERN.test(lines[0])) {
+    while (index < lines.length && !isBlank(index)) {
+      push({ text: lines[index].trim(), type: "omitted" });
+      index++;
+    }
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    const previousBlank = isBlank(index - 1);
+    const nextBlank = isBlank(index + 1);
+
+    if (isRemoved(index)) {
+      push({ text: "", type: "omitted" });
+      continue;
+    }
+
+    if (trimmed.length === 0) {
+      // Two spaces on their own keep a speech going across an empty line.
+      if (speaker && line === "  ") {
+        push({ text: "", type: "omitted" });
+        continue;
+      }
+      speaker = null;
+      push({ text: "", type: "blank" });
+      continue;
+    }
+
+    // Page breaks, sections and synopses are structural only.
+    if (/^={3,}$/.test(trimmed) || trimmed.startsWith("#") ||
+        (trimmed.startsWith("=") && !trimmed.startsWith("=="))) {
+      speaker = null;
+      push({ text: trimmed, type: "omitted" });
+      continue;
+    }
+
+    if (trimmed.startsWith("!")) {
+      speaker = null;
+      push({ text: stripEmphasis(trimmed.slice(1)), type: "action" });
+      continue;
+    }
+
+    if ((trimmed.startsWith(".") && !trimmed.startsWith("..")) ||
+        (previousBlank && SCENE_HEADING_PATTERN.test(trimmed))) {
+      speaker = null;
+      let heading = trimmed.startsWith(".") ? trimmed.slice(1) : trimmed;
+      const numberMatch = heading.match(SCENE_NUMBER_PATTERN);
+      if (numberMatch) {
+        heading = heading.replace(SCENE_NUMBER_PATTERN, "");
+      }
+      push({
+        text: stripEmphasis(heading).toUpperCase(),
+        type: "scene_heading",
+        ...(numberMatch ? { sceneNumber: numberMatch[1] } : {}),
+      });
+      continue;
+    }
+
+    if (trimmed.startsWith(">") && trimmed.endsWith("<")) {
+      speaker = null;
+      push({ text: stripEmphasis(trimmed.slice(1, -1)), type: "action", centered: true });
+      continue;
+    }
+
+    if (trimmed.startsWith(">") ||
+        (previousBlank && nextBlank && isUpperCaseName(trimmed) && trimmed.endsWith("TO:"))) {
+      speaker = null;
+      push({ text: stripEmphasis(trimmed.replace(/^>/, "")), type: "transition" });
+      continue;
+    }
+
+    if (speaker) {
+      if (trimmed.startsWith("(") && trimmed.endsWith(")")) {
+        push({ text: trimmed, type: "parenthetical", characterName: speaker });
+      } else {
+        push({ text: stripEmphasis(trimmed.replace(/^~/, "")), type: "dialogue", characterName: speaker });
+      }
+      continue;
+    }
+
+    const forcedCharacter = trimmed.startsWith("@");
+    const cue = forcedCharacter ? trimmed.slice(1) : trimmed;
+    const dual = cue.endsWith("^");
+    const name = cue.replace(/\s*\^$/, "").trim();
+    const namePart = name.split("(")[0].trim();
+
+    if (previousBlank && !nextBlank && name.length > 0 &&
+        (forcedCharacter || isUpperCaseName(namePart))) {
+      speaker = name;
+      push({ text: name, type: "character", characterName: name, ...(dual ? { dual: true } : {}) });
+      continue;
+    }
+
+    push({ text: stripEmphasis(trimmed.replace(/^~/, "")), type: "action" });
+  }
+
+  return classified;
+}
@@ -0,0 +1,95 @@
+/**
+ * Checks that processed lines still point at the source text they came from.
+ *
+ * Every processed line carries the line number of its first source line in
+ * the stored script content. Dialogue spanning several source lines is
+ * joined with spaces, so a processed line matches when its text starts with
+ * the text of that source line. Lines split or added in the line editor no
+ * longer match a source line and are not checked.
+ */
+
+export type LineMismatchReason = "out_of_range" | "text_mismatch";
+
+export interface LineMismatch {
+  sequentialNumber: number;
+  originalLineNumber: number;
+  characterName: string;
+  reason: LineMismatchReason;
+  /** Processed line text, truncated. */
+  text: string;
+  /** Source line the number points at, truncated; absent when out of range. */
+  sourceText?: string;
+}
+
+export interface LineValidationReport {
+  checkedLines: number;
+  mismatchCount: number;
+  /** First mismatches found; capped to keep the processing doc small. */
+  mismatches: LineMismatch[];
+}
+
+interface ValidatedLine {
+  characterName: string;
+  text: string;
+  originalLineNumber: number;
+  sequentialNumber: number;
+  editedFrom?: number;
+  userInserted?: boolean;
+}
+
+const MAX_REPORTED_MISMATCHES = 50;
+const PREVIEW_LENGTH = 80;
+
+const normalize = (text: string): string => text.replace(/\s+/g, " ").trim();
+
+const preview = (text: string): string =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}...` : text;
+
+/**
+ * Compares each processed line with the source line its number points at.
+ * @param {string} content Script content the line numbers index into.
+ * @param {ValidatedLine[]} lines Processed lines.
+ * @return {LineValidationReport} Mismatch summary.
+ */
+export function validateLineNumbers(content: string, lines: ValidatedLine[]): LineValidationReport {
+  const sourceLines = content.split("\n");
+  const mismatches: LineMismatch[] = [];
+  let mismatchCount = 0;
+  const checked = lines.filter((line) => line.editedFrom === undefined && !line.userInserted);
+
+  checked.forEach((line) => {
+    const source = Number.isInteger(line.originalLineNumber) ? sourceLines[line.originalLineNumber] : undefined;
+    let mismatch: LineMismatch | null = null;
+
+    if (source === undefined) {
+      mismatch = {
+        sequentialNumber: line.sequentialNumber,
+        originalLineNumber: line.originalLineNumber,
+        characterName: line.characterName,
+        reason: "out_of_range",
+        text: preview(line.text),
+      };
+    } else {
+      const expected = normalize(source);
+      if (!expected || !normalize(line.text).startsWith(expected)) {
+        mismatch = {
+          sequentialNumber: line.sequentialNumber,
+          originalLineNumber: line.originalLineNumber,
+          characterName: line.characterName,
+          reason: "text_mismatch",
+          text: preview(line.text),
+          sourceText: preview(source.trim()),
+        };
+      }
+    }
+
+    if (mismatch) {
+      mismatchCount++;
+      if (mismatches.length < MAX_REPORTED_MISMATCHES) {
+        mismatches.push(mismatch);
+      }
+    }
+  });
+
+  return { checkedLines: checked.length, mismatchCount, mismatches };
+}
@@ -0,0 +1,248 @@
+/**
+ * Removes pagination artefacts from PDF script text while keeping track of
+ * where each page starts.
+ *
+ * Printed scripts repeat page numbers, revision headers, "(MORE)" and
+ * "(CONTINUED)" markers on every page, and mark changed lines with asterisks
+ * in the margin. Left in, they are read as dialogue or action. A speech
+ * broken across a page ends in "(MORE)" and picks up under a "NAME (CONT'D)"
+ * cue; those two halves are joined back into one speech.
+ */
+import { isCharacterCue, isParenthetical, isSceneHeading, splitCharacterCue } from "./screenplayParser";
+
+export interface PageText {
+  /** 1-based page number. */
+  pageNumber: number;
+  text: string;
+}
+
+/** Where a page starts in the cleaned script content. */
+export interface ScriptPage {
+  pageNumber: number;
+  startLine: number;
+}
+
+export interface PaginatedText {
+  text: string;
+  pages: ScriptPage[];
+  /** Artefact lines dropped. */
+  removedLines: number;
+  /** Speeches joined back together across a page break. */
+  stitchedSpeeches: number;
+}
+
+/** Header and footer lines are only looked for this far from a page edge. */
+const MARGIN_LINES = 4;
+
+const PAGE_NUMBER_PATTERN = /^(?:page\s*)?[-–(]?\s*\d{1,3}[A-Z]?\.?\s*[-–)]?(?:\s*of\s*\d+)?$/i;
+
+const DATE_PATTERN = /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/;
+
+const REVISION_COLORS = "white|blue|pink|yellow|green|goldenrod|buff|salmon|cherry|tan|gr[ae]y|ivory";
+
+const REVISION_HEADER_PATTERN = new RegExp(`\\b(?:(?:${REVISION_COLORS})\\s+(?:rev|pages?|draft)|rev\\.|revised)`, "i");
+
+// Words a running header is made of, apart from the script's title
+const HEADER_WORD_PATTERN = new RegExp(
+  `^(?:${REVISION_COLORS}|rev|revised|revisions?|pages?|draft|final|shooting|production|script|` +
+  "\\(?\\d+[A-Z]?\\)?|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|[-\u2013\u2014/:()*#]+)$",
+  "i"
+);
+
+/** A running header has at most this many words, and this many of the title. */
+const MAX_HEADER_WORDS = 8;
+const MAX_HEADER_TITLE_WORDS = 3;
+
+const CONTINUED_PATTERN = /^(?:\d+[A-Z]?\s+)?\(?CONTINUED\)?:?(?:\s*\(\d+\))?(?:\s+\d+[A-Z]?)?$/i;
+
+const MORE_PATTERN = /^\(MORE\)$/i;
+
+const REVISION_MARK_PATTERN = /\s+\*+$/;
+
+/**
+ * Whether a line is only a running header such as "Blue Rev. 3/14/24" or
+ * "THE HEIST - Pink Pages - 4/2/24", rather than action that mentions a date
+ * or a revision.
+ * @param {string} line Trimmed line.
+ * @return {boolean} True for a revision header.
+ */
+function isRunningHeader(line: string): boolean {
+  if (isSceneHeading(line) || !(DATE_PATTERN.test(line) || REVISION_HEADER_PATTERN.test(line))) {
+    return false;
+  }
+  const words = line.split(/\s+/).map((word) => word.replace(/[.,;!?]+$/, ""));
+  if (words.length > MAX_HEADER_WORDS) return false;
+  // A sentence ending on an ordinary word
+  if (/[.!?]$/.test(line) && !HEADER_WORD_PATTERN.test(words[words.length - 1])) return false;
+  return words.filter((word) => !HEADER_WORD_PATTERN.test(word)).length <= MAX_HEADER_TITLE_WORDS;
+}
+
+/**
+ * Whether a line near the top or bottom of a page is a page number or a
+ * running header.
+ * @param {string} line Trimmed line.
+ * @return {boolean} True for page furniture.
+ */
+function isMarginArtefact(line: string): boolean {
+  return PAGE_NUMBER_PATTERN.test(line) ||
+    CONTINUED_PATTERN.test(line) ||
+    MORE_PATTERN.test(line) ||
+    isRunningHeader(line);
+}
+
+/**
+ * Strips one page down to its script lines.
+ * @param {string} text Page text.
+ * @return {object} Remaining lines, whether the page ended in "(MORE)" and
+ *   how many lines were dropped.
+ */
+function cleanPage(text: string): { lines: string[]; endsWithMore: boolean; removed: number } {
+  let removed = 0;
+  const lines: string[] = [];
+  text.split("\n").forEach((raw) => {
+    const line = raw.replace(REVISION_MARK_PATTERN, "");
+    const trimmed = line.trim();
+    // Markers that are never script text wherever they land on the page;
+    // text layers do not always keep the footer at the bottom.
+    if (/^\*+$/.test(trimmed) || CONTINUED_PATTERN.test(trimmed)) {
+      removed++;
+      return;
+    }
+    lines.push(line);
+  });
+
+  const nonBlank = (index: number) => lines[index].trim().length > 0;
+
+  // Leading and trailing page furniture
+  let seen = 0;
+  while (lines.length > 0 && seen < MARGIN_LINES) {
+    if (!nonBlank(0)) {
+      lines.shift();
+      continue;
+    }
+    if (!isMarginArtefact(lines[0].trim())) break;
+    lines.shift();
+    removed++;
+    seen++;
+  }
+
+  let endsWithMore = false;
+  seen = 0;
+  while (lines.length > 0 && seen < MARGIN_LINES) {
+    const last = lines.length - 1;
+    if (!nonBlank(last)) {
+      lines.pop();
+      continue;
+    }
+    const trimmed = lines[last].trim();
+    if (!isMarginArtefact(trimmed)) break;
+    endsWithMore = endsWithMore || MORE_PATTERN.test(trimmed);
+    lines.pop();
+    removed++;
+    seen++;
+  }
+
+  return { lines, endsWithMore, removed };
+}
+
+/**
+ * Name of the character speaking at the end of a page, if the page ends
+ * inside a speech.
+ * @param {string[]} lines Cleaned page lines.
+ * @return {string | null} Speaker name without cue extensions.
+ */
+function lastSpeaker(lines: string[]): string | null {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const trimmed = lines[i].trim();
+    if (!trimmed) return null;
+    if (isCharacterCue(trimmed)) return splitCharacterCue(trimmed).name;
+  }
+  return null;
+}
+
+/**
+ * Index of the line continuing `speaker`'s speech at the top of a page, or -1
+ * when the page does not open with that character's cue.
+ * @param {string[]} lines Cleaned page lines.
+ * @param {string} speaker Speaker carried over from the previous page.
+ * @return {number} Index of the cue line.
+ */
+function continuationCue(lines: string[], speaker: string): number {
+  const index = lines.findIndex((line) => line.trim().length > 0);
+  if (index === -1) return -1;
+  const trimmed = lines[index].trim();
+  if (isParenthetical(trimmed) || !isCharacterCue(trimmed)) return -1;
+  return splitCharacterCue(trimmed).name === speaker ? index : -1;
+}
+
+/**
+ * Joins the pages of a script into one text without pagination artefacts.
+ * Pages are separated by a blank line, except where a speech continues onto
+ * the next page.
+ * @param {PageText[]} pages Page texts in order.
+ * @return {PaginatedText} Cleaned text and the line each page starts on.
+ */
+export function removePagination(pages: PageText[]): PaginatedText {
+  const output: string[] = [];
+  const scriptPages: ScriptPage[] = [];
+  let removedLines = 0;
+  let stitchedSpeeches = 0;
+  let carriedSpeaker: string | null = null;
+
+  pages.forEach((page) => {
+    const cleaned = cleanPage(page.text);
+    removedLines += cleaned.removed;
+    let lines = cleaned.lines;
+
+    const cueIndex = carriedSpeaker ? continuationCue(lines, carriedSpeaker) : -1;
+    if (cueIndex !== -1) {
+      lines = lines.slice(cueIndex + 1);
+      removedLines++;
+      stitchedSpeeches++;
+    } else if (output.length > 0 && lines.length > 0) {
+      output.push("");
+    }
+
+    scriptPages.push({ pageNumber: page.pageNumber, startLine: output.length });
+    output.push(...lines);
+    carriedSpeaker = cleaned.endsWithMore ? lastSpeaker(lines) : null;
+  });
+
+  return { text: output.join("\n"), pages: scriptPages, removedLines, stitchedSpeeches };
+}
+
+/**
+ * Page a content line falls on.
+ * @param {ScriptPage[]} pages Page starts in order.
+ * @param {number} lineNumber Line in the cleaned content.
+ * @return {number | undefined} Page number, if the script has pages.
+ */
+export function pageNumberForLine(pages: ScriptPage[], lineNumber: number): number | undefined {
+  let low = 0;
+  let high = pages.length - 1;
+  let found: ScriptPage | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pages[mid].startLine <= lineNumber) {
+      found = pages[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found?.pageNumber ?? pages[0]?.pageNumber;
+}
+
+/**
+ * Sets `pageNumber` on every line from where its source line sits.
+ * @param {T[]} lines Processed lines.
+ * @param {ScriptPage[]} pages Page starts; lines are returned unchanged when empty.
+ * @return {T[]} Lines with page numbers.
+ */
+export function assignPageNumbers<T extends { originalLineNumber: number; pageNumber?: number }>(
+  lines: T[],
+  pages: ScriptPage[]
+): T[] {
+  if (pages.length === 0) return lines;
+  return lines.map((line) => ({ ...line, pageNumber: pageNumberForLine(pages, line.originalLineNumber) }));
+}
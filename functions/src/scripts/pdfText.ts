@@ -0,0 +1,223 @@
+/**
+ * Extracts script text from a PDF page by page.
+ *
+ * Pages with an embedded text layer are read as they are. Pages without one
+ * (scans, photographed sides) are rendered and run through Tesseract instead,
+ * and the recognition confidence is kept so the app can point actors at
+ * pages worth checking against the paper copy.
+ */
+import * as path from "path";
+import * as pdfParse from "pdf-parse";
+import { createCanvas, Canvas, DOMMatrix, Path2D, SKRSContext2D } from "@napi-rs/canvas";
+import { createWorker, Worker } from "tesseract.js";
+import { TextItem, layoutTextItems, pagesNeedingOcr } from "./textLayer";
+
+export type PdfPageSource = "text" | "ocr";
+
+export interface PdfPage {
+  /** 1-based page number. */
+  pageNumber: number;
+  text: string;
+  source: PdfPageSource;
+  /** Tesseract's 0-100 confidence; only set for OCR pages. */
+  confidence?: number;
+}
+
+export interface OcrPageReport {
+  pageNumber: number;
+  confidence: number;
+  lowConfidence: boolean;
+}
+
+/** OCR summary stored in `scriptProcessing/{id}.ocr`. */
+export interface OcrReport {
+  pageCount: number;
+  ocrPageCount: number;
+  lowConfidenceThreshold: number;
+  pages: OcrPageReport[];
+  lowConfidencePages: number[];
+}
+
+export interface PdfText {
+  pages: PdfPage[];
+  /** Pages joined in order, separated by a blank line. */
+  text: string;
+  /** Absent when every page had a text layer. */
+  ocr?: OcrReport;
+}
+
+/** Pages recognised with a lower confidence are flagged for review. */
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+/** Render scale for OCR; 3x the 72dpi PDF unit gives roughly 216dpi. */
+const OCR_RENDER_SCALE = 3;
+
+const OCR_LANGUAGE = "eng";
+
+const PAGE_SEPARATOR = "\n\n";
+
+interface PdfParsePage {
+  pageIndex: number;
+  getTextContent: (options: Record<string, boolean>) => Promise<{ items: TextItem[] }>;
+}
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: SKRSContext2D | null;
+}
+
+/** Canvas factory that lets pdf.js render pages without a DOM. */
+const canvasFactory = {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  },
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = width;
+      canvasAndContext.canvas.height = height;
+    }
+  },
+  destroy(canvasAndContext: CanvasAndContext): void {
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  },
+};
+
+/**
+ * Reads a page's text layer, starting a new line whenever the baseline moves
+ * as pdf-parse does by default, but keeping each line's indentation.
+ * @param {PdfParsePage} page Page handed to pdf-parse's page renderer.
+ * @return {Promise<string>} Page text.
+ */
+async function readTextLayer(page: PdfParsePage): Promise<string> {
+  const content = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  return layoutTextItems(content.items);
+}
+
+/**
+ * Renders the given pages to PNG at OCR resolution.
+ * @param {Buffer} buffer PDF file content.
+ * @param {number[]} pageNumbers 1-based pages to render.
+ * @return {AsyncGenerator} Page numbers with their rendered image.
+ */
+async function* renderPages(
+  buffer: Buffer,
+  pageNumbers: number[]
+): AsyncGenerator<{ pageNumber: number; image: Buffer }> {
+  // pdf.js polyfills these from node-canvas when they are missing; provide
+  // the @napi-rs/canvas ones before it loads.
+  const globals = globalThis as Record<string, unknown>;
+  globals.DOMMatrix ??= DOMMatrix;
+  globals.Path2D ??= Path2D;
+  // pdfjs-dist is large; only load it for scanned scripts.
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.js");
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    canvasFactory,
+    disableFontFace: true,
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext("2d");
+      try {
+        // The page is white paper; scans with transparency otherwise OCR as black.
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        const canvasContext = context as unknown as Parameters<typeof page.render>[0]["canvasContext"];
+        await page.render({ canvasContext, viewport }).promise;
+        yield { pageNumber, image: canvas.toBuffer("image/png") };
+      } finally {
+        page.cleanup();
+      }
+    }
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Starts a Tesseract worker using the English model bundled with the
+ * functions, so recognition never downloads language data at runtime.
+ * @return {Promise<Worker>} Ready worker.
+ */
+async function createOcrWorker(): Promise<Worker> {
+  const langPath = path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0");
+  return createWorker(OCR_LANGUAGE, undefined, {
+    langPath,
+    gzip: true,
+    cacheMethod: "none",
+  });
+}
+
+/**
+ * Extracts the text of every page, falling back to OCR for pages without a
+ * usable text layer.
+ * @param {Buffer} buffer PDF file content.
+ * @param {string} label Label used in log messages.
+ * @return {Promise<PdfText>} Page texts, joined text and OCR summary.
+ */
+export async function extractPdfText(buffer: Buffer, label = "pdf"): Promise<PdfText> {
+  const layers: string[] = [];
+  const pagerender = async (page: PdfParsePage): Promise<string> => {
+    const text = await readTextLayer(page);
+    layers[page.pageIndex] = text;
+    return text;
+  };
+  // pdf-parse awaits the renderer, although its typings expect a string.
+  await pdfParse(buffer, { pagerender: pagerender as unknown as (pageData: unknown) => string });
+
+  const pages: PdfPage[] = Array.from(layers, (text, index) => ({
+    pageNumber: index + 1,
+    text: text || "",
+    source: "text" as const,
+  }));
+  const scanned = pagesNeedingOcr(pages.map((page) => page.text));
+
+  if (scanned.length === 0) {
+    return { pages, text: pages.map((page) => page.text).join(PAGE_SEPARATOR) };
+  }
+
+  console.log(`[${label}] No text layer on ${scanned.length}/${pages.length} pages, running OCR`);
+  const worker = await createOcrWorker();
+  try {
+    for await (const { pageNumber, image } of renderPages(buffer, scanned)) {
+      const { data } = await worker.recognize(image);
+      pages[pageNumber - 1] = {
+        pageNumber,
+        text: data.text.replace(/\s+$/, ""),
+        source: "ocr",
+        confidence: Math.round(data.confidence),
+      };
+      console.log(`[${label}] OCR page ${pageNumber}: confidence ${Math.round(data.confidence)}`);
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  const ocrPages: OcrPageReport[] = pages
+    .filter((page) => page.source === "ocr")
+    .map((page) => ({
+      pageNumber: page.pageNumber,
+      confidence: page.confidence ?? 0,
+      lowConfidence: (page.confidence ?? 0) < LOW_CONFIDENCE_THRESHOLD,
+    }));
+
+  return {
+    pages,
+    text: pages.map((page) => page.text).join(PAGE_SEPARATOR),
+    ocr: {
+      pageCount: pages.length,
+      ocrPageCount: ocrPages.length,
+      lowConfidenceThreshold: LOW_CONFIDENCE_THRESHOLD,
+      pages: ocrPages,
+      lowConfidencePages: ocrPages.filter((page) => page.lowConfidence).map((page) => page.pageNumber),
+    },
+  };
+}
@@ -1,11 +1,37 @@
 import * as admin from "firebase-admin";
-import * as pdfParse from "pdf-parse";
 import { CloudEvent } from "firebase-functions/v2";
 import { OpenAI } from 'openai';
-import { defineSecret } from 'firebase-functions/params';
+import { defineInt, defineSecret } from "firebase-functions/params";
+import { ClassifiedLine, Parenthetical, classifyScreenplayLines, splitCharacterCue } from "./screenplayParser";
+import { parseFountain } from "./fountain";
+import { parseFdx } from "./fdx";
+import { ScriptFormat, getScriptFormat, isStructuredFormat } from "./formats";
+import { mapWithConcurrency, withRateLimitRetry } from "./concurrency";
+import { LineValidationReport, validateLineNumbers } from "./lineValidation";
+import {
+  DroppedDialogue,
+  FailedChunk,
+  QualityReport,
+  RejectedCharacter,
+  UnattributedLine,
+  applyReprocessedSection,
+  hasQualityIssues,
+  previewText,
+  sampleList,
+} from "./qualityReport";
+import { OcrReport, PdfText, extractPdfText } from "./pdfText";
+import { ScriptPage, assignPageNumbers, removePagination } from "./pagination";
+import { BreakdownScene, buildSceneBreakdown, parseSceneHeading } from "./scenes";
+import { voicesFor } from "./voices";
+import { TextChunk, chunkText } from "./chunks";
+import { ProcessingLeaseState, planProcessingClaim } from "./processingLease";
 
 const OPENAI_API_KEY = defineSecret('OPENAI_API_KEY');
 
+// How many chunks are analysed at once. Rate-limited calls back off, so this
+// mainly trades speed against how often that happens.
+const CHUNK_CONCURRENCY = defineInt("SCRIPT_CHUNK_CONCURRENCY", { default: 4 });
+
 interface ScriptAnalysis {
   characters: Array<{
     name: string;
@@ -16,7 +42,13 @@ interface ScriptAnalysis {
       lineNumber: number;
       voices?: Record<string, string>;
       sequentialNumber?: number;
+      extensions?: string[];
+      cueName?: string;
+      parentheticals?: Parenthetical[];
+      dualGroup?: number;
     }>;
+    aliases?: string[];
+    renamedFrom?: string[];
   }>;
   scenes: Scene[];
   actionLines: Array<{
@@ -33,6 +65,23 @@ interface ScriptAnalysis {
     isUser?: boolean;
     isAction?: boolean;
     voices?: Record<string, string>;
+    /** Playback volume for quiet deliveries. */
+    voiceVolume?: number;
+    /** Cue recordings, keyed by voice and cue length. */
+    cueVoices?: Record<string, string>;
+    extensions?: string[];
+    cueName?: string;
+    parentheticals?: Parenthetical[];
+    /**
+     * Shared by speeches spoken at the same time (dual dialogue); the line
+     * number of the first speech in the group.
+     */
+    dualGroup?: number;
+    pageNumber?: number;
+    /** Source line the parts of a line split in the editor came from. */
+    editedFrom?: number;
+    /** Added in the editor, with no source line behind it. */
+    userInserted?: boolean;
   }>;
   metadata: {
     totalLines: number;
@@ -42,23 +91,25 @@ interface ScriptAnalysis {
   };
 }
 
-type Scene = {
-  name: string;
-  startLine: number;
-  endLine: number;
-  location?: string;
-  timeOfDay?: string;
-};
+type Scene = BreakdownScene;
 
-type StorageObjectMetadata = CloudEvent<{
+type ScriptObject = {
   bucket: string;
   name: string;
+  generation?: string | number;
   metadata?: {
     uploadedBy?: string;
     originalName?: string;
     scriptId?: string;
   };
-}>;
+};
+
+type StorageObjectMetadata = CloudEvent<ScriptObject>;
+
+// What a single chunk yields; unattributed lines only feed the quality report.
+type ChunkAnalysis = ScriptAnalysis & {
+  unattributedLines: UnattributedLine[];
+};
 
 interface ProcessingState {
   status: 'initializing' | 'processing' | 'validating' | 'completed' | 'error';
@@ -70,6 +121,14 @@ interface ProcessingState {
   scriptId: string;
   batchesProcessed?: number;
   totalBatches?: number;
+  // Storage generation of the file being processed; batches from any other
+  // generation are stale.
+  generation?: string;
+  attempts?: number;
+  lineValidation?: LineValidationReport;
+  qualityReport?: QualityReport;
+  // Set for PDFs where some pages had no text layer and were OCR'd.
+  ocr?: OcrReport;
 }
 
 interface CharacterBatch {
@@ -87,32 +146,20 @@ interface CharacterBatch {
     text: string;
     lineNumber: number;
   }>;
+  scenes: Scene[];
+  metadata: ScriptAnalysis["metadata"];
+  unattributedLines?: UnattributedLine[];
+  // Set once the batch's characters have been validated; `validation` holds
+  // the result so a resumed run does not ask again.
   processed: boolean;
+  validation?: Record<string, boolean>;
   chunkIndex: number;
   totalChunks: number;
+  generation: string;
 }
 
-type VoiceOption = 'alloy' | 'ash' | 'coral' | 'echo' | 'fable' | 'onyx' | 'nova' | 'sage' | 'shimmer';
-
-interface VoiceInfo {
-  description: string;
-  gender: 'Male' | 'Female';
-}
-
-const VOICE_INFO: Record<VoiceOption, VoiceInfo> = {
-  alloy: { description: 'Warm, steady', gender: 'Female' },
-  ash: { description: 'Deep, authoritative', gender: 'Male' },
-  coral: { description: 'Bright, expressive', gender: 'Female' },
-  echo: { description: 'Smooth, refined', gender: 'Male' },
-  fable: { description: 'Soft, lyrical', gender: 'Male' },
-  onyx: { description: 'Bold, resonant', gender: 'Male' },
-  nova: { description: 'Youthful, energetic', gender: 'Female' },
-  sage: { description: 'Calm, wise', gender: 'Female' },
-  shimmer: { description: 'Airy, melodic', gender: 'Female' }
-};
-
 interface CharacterVoiceSettings {
-  voice: VoiceOption;
+  voice: string;
   testText: string;
 }
 
@@ -135,30 +182,36 @@ async function updateProcessingState(
     const stateDoc = await transaction.get(stateRef);
     const currentState = stateDoc.data() as ProcessingState | undefined;
     
+    // Chunks report in as they finish, and their transactions can commit out
+    // of order; within a stage progress only ever moves forward.
+    const sameStage = currentState?.status === update.status && update.status !== "error";
     const newState: ProcessingState = {
       ...currentState,
       ...update,
       timestamp: admin.firestore.FieldValue.serverTimestamp(),
       scriptId,
       status: update.status,
-      progress: update.progress,
+      progress: sameStage ? Math.max(currentState.progress, update.progress) : update.progress,
     };
+    if (sameStage && update.batchesProcessed !== undefined) {
+      newState.batchesProcessed = Math.max(currentState.batchesProcessed ?? 0, update.batchesProcessed);
+    }
 
     transaction.set(stateRef, newState);
     
     // Update script status if needed
     transaction.update(scriptRef, {
-      uploadStatus: update.status === 'completed' ? 'completed' : 'processing',
+      uploadStatus: update.status === "completed" || update.status === "error" ? update.status : "processing",
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       ...(update.error ? { error: update.error } : {}),
     });
   });
 }
 
-const validatePDF = async (buffer: Buffer): Promise<void> => {
-  let debugInfo = {
-    bufferSize: buffer.length,
-    parseSuccess: false,
+const validatePDF = (data: PdfText): void => {
+  const debugInfo = {
+    pageCount: data.pages.length,
+    ocrPageCount: data.ocr?.ocrPageCount || 0,
     textExtracted: false,
     textLength: 0,
     lineCount: 0,
@@ -168,38 +221,13 @@ const validatePDF = async (buffer: Buffer): Promise<void> => {
   };
 
   try {
-    console.log("Starting PDF validation with buffer size:", buffer.length, "bytes");
-    let data;
-    try {
-      data = await pdfParse(buffer);
-      debugInfo.parseSuccess = true;
-      
-      const parseInfo = {
-        version: data.version,
-        numpages: data.numpages,
-        info: data.info,
-        metadata: data.metadata,
-        textLength: data.text?.length || 0,
-        firstFewChars: data.text?.substring(0, 100).replace(/\n/g, "\\n"),
-      };
-      
-      console.log("PDF parse results:", parseInfo);
-      debugInfo = { ...debugInfo, ...parseInfo };
-      
-    } catch (parseError) {
-      debugInfo.error = parseError instanceof Error ? parseError.message : String(parseError);
-      console.error("PDF parsing failed:", {
-        error: debugInfo.error,
-        bufferSize: buffer.length,
-      });
-      throw new Error(`PDF parsing failed: ${debugInfo.error}`);
-    }
+    console.log("Starting PDF validation with page count:", debugInfo.pageCount);
 
-    if (!data.text) {
+    if (!data.text.trim()) {
       debugInfo.error = "No text content found in PDF";
       console.error(debugInfo.error, {
-        info: data.info,
-        metadata: data.metadata,
+        pageCount: debugInfo.pageCount,
+        ocrPageCount: debugInfo.ocrPageCount,
       });
       throw new Error(debugInfo.error);
     }
@@ -284,113 +312,117 @@ const validatePDF = async (buffer: Buffer): Promise<void> => {
   }
 };
 
-const chunkText = (text: string, maxChunkSize = 5000): string[] => {
-  const chunks: string[] = [];
-  let start = 0;
-  
-  while (start < text.length) {
-    let end = start + maxChunkSize;
-    
-    // If we're not at the end, find the last newline before maxChunkSize
-    if (end < text.length) {
-      const lastNewline = text.lastIndexOf("\n", end);
-      if (lastNewline > start) {
-        end = lastNewline;
-      }
-    }
-    
-    chunks.push(text.slice(start, end));
-    start = end + 1;
+/**
+ * Parses a script in a format that carries explicit element types.
+ * @param {ScriptFormat} format Fountain or FDX.
+ * @param {string} source The script file's text.
+ * @return {ClassifiedLine[]} Lines with their element types.
+ */
+const parseStructuredScript = (format: ScriptFormat, source: string): ClassifiedLine[] => {
+  switch (format) {
+  case "fountain":
+    return parseFountain(source);
+  case "fdx":
+    return parseFdx(source);
+  default:
+    throw new Error(`Format ${format} has no structured parser`);
   }
-  
-  return chunks;
 };
 
+/**
+ * Checks that a parsed structured script (Fountain, FDX) contains at least
+ * one character with dialogue.
+ * @param {ClassifiedLine[]} classified Lines from the format's parser.
+ */
+const validateStructuredScript = (classified: ClassifiedLine[]): void => {
+  const characters = new Set(
+    classified
+      .filter((line) => line.type === "dialogue" && line.characterName)
+      .map((line) => line.characterName)
+  );
+
+  console.log("Content analysis:", {
+    lines: classified.length,
+    characterCount: characters.size,
+    dialogueCount: classified.filter((line) => line.type === "dialogue").length,
+    characterSamples: Array.from(characters).slice(0, 10),
+  });
+
+  if (characters.size === 0) {
+    throw new Error("Invalid script format: No character dialogue detected");
+  }
+};
+
+// Chunks are merged in whatever order they finish, so every merge sorts and
+// de-duplicates instead of relying on the order of its inputs.
 const mergeCharacters = (
   existing: ScriptAnalysis["characters"],
   newChars: ScriptAnalysis["characters"],
 ): ScriptAnalysis["characters"] => {
-  const charMap = new Map();
-  
-  // Add existing characters
-  existing.forEach((char) => {
-    charMap.set(char.name.toLowerCase(), char);
-  });
+  const charMap = new Map<string, ScriptAnalysis["characters"][number]>();
   
-  // Merge new characters
-  newChars.forEach((char) => {
+  [...existing, ...newChars].forEach((char) => {
     const key = char.name.toLowerCase();
-    if (charMap.has(key)) {
-      const existing = charMap.get(key);
-      // Merge dialogue arrays and remove duplicates based on lineNumber
-      const mergedDialogue = [...existing.dialogue, ...char.dialogue]
-        .sort((a, b) => a.lineNumber - b.lineNumber);
-      
-      // Validate dialogue line numbers
-      for (let i = 1; i < mergedDialogue.length; i++) {
-        if (mergedDialogue[i].lineNumber <= mergedDialogue[i-1].lineNumber && 
-            !mergedDialogue[i].isMultiLine) {
-          console.error('Non-sequential line numbers detected in dialogue:', {
-            character: char.name,
-            previous: mergedDialogue[i-1],
-            current: mergedDialogue[i]
-          });
-          throw new Error(`Non-sequential line numbers detected in dialogue for character ${char.name}`);
-        }
-      }
-
-      // Remove duplicates while preserving multi-line dialogue relationships
-      const uniqueDialogue = mergedDialogue.filter((line, index, array) => {
-        if (index === 0) return true;
-        return line.lineNumber !== array[index - 1].lineNumber || line.isMultiLine;
-      });
-      
-      charMap.set(key, {
-        ...existing,
-        lines: uniqueDialogue.length,
-        firstAppearance: Math.min(existing.firstAppearance, char.firstAppearance),
-        dialogue: uniqueDialogue,
-      });
-    } else {
+    const current = charMap.get(key);
+    if (!current) {
       charMap.set(key, char);
+      return;
     }
+
+    // Merge dialogue arrays and drop lines seen from both sides
+    const mergedDialogue = [...current.dialogue, ...char.dialogue]
+      .sort((a, b) => a.lineNumber - b.lineNumber || a.text.localeCompare(b.text));
+    const uniqueDialogue = mergedDialogue.filter((line, index, array) =>
+      index === 0 ||
+      line.lineNumber !== array[index - 1].lineNumber ||
+      line.text !== array[index - 1].text
+    );
+
+    // Keep the earliest spelling of the name so the result does not depend
+    // on which chunk finished first.
+    const first = current.firstAppearance <= char.firstAppearance ? current : char;
+    charMap.set(key, {
+      ...first,
+      lines: uniqueDialogue.length,
+      firstAppearance: Math.min(current.firstAppearance, char.firstAppearance),
+      dialogue: uniqueDialogue,
+    });
   });
   
-  return Array.from(charMap.values());
+  return Array.from(charMap.values())
+    .sort((a, b) => a.firstAppearance - b.firstAppearance || a.name.localeCompare(b.name));
 };
 
 const mergeScenes = (
   existing: Scene[],
   newScenes: Scene[],
 ): Scene[] => {
-  return [...existing, ...newScenes].sort((a, b) => a.startLine - b.startLine);
+  return [...existing, ...newScenes]
+    .sort((a, b) => a.startLine - b.startLine || a.name.localeCompare(b.name))
+    .filter((scene, index, array) =>
+      index === 0 ||
+      scene.startLine !== array[index - 1].startLine ||
+      scene.name !== array[index - 1].name
+    );
 };
 
 const mergeActionLines = (
   existing: Array<{ text: string; lineNumber: number }>,
   newLines: Array<{ text: string; lineNumber: number }>,
 ): Array<{ text: string; lineNumber: number }> => {
-  // Validate line numbers are unique
-  const lineNumbers = new Set([...existing, ...newLines].map(line => line.lineNumber));
-  if (lineNumbers.size !== existing.length + newLines.length) {
-    console.error('Duplicate line numbers detected in action lines:', {
-      existingLines: existing.map(l => l.lineNumber),
-      newLines: newLines.map(l => l.lineNumber)
-    });
-    throw new Error('Duplicate line numbers detected in action lines');
-  }
+  const merged = [...existing, ...newLines]
+    .sort((a, b) => a.lineNumber - b.lineNumber || a.text.localeCompare(b.text))
+    .filter((line, index, array) =>
+      index === 0 ||
+      line.lineNumber !== array[index - 1].lineNumber ||
+      line.text !== array[index - 1].text
+    );
 
-  const merged = [...existing, ...newLines].sort((a, b) => a.lineNumber - b.lineNumber);
-  
-  // Validate line numbers are sequential
-  for (let i = 1; i < merged.length; i++) {
-    if (merged[i].lineNumber <= merged[i-1].lineNumber) {
-      console.error('Non-sequential line numbers detected in action lines:', {
-        previous: merged[i-1],
-        current: merged[i]
-      });
-      throw new Error('Non-sequential line numbers detected in action lines');
-    }
+  const conflicts = merged.filter((line, index) =>
+    index > 0 && line.lineNumber === merged[index - 1].lineNumber
+  );
+  if (conflicts.length > 0) {
+    console.warn("Different action lines share a line number:", conflicts.map((line) => line.lineNumber));
   }
 
   console.log(`Merged action lines: ${merged.length} total lines`);
@@ -398,30 +430,32 @@ const mergeActionLines = (
 };
 
 async function analyzeScriptContent(
-  text: string,
-  startLine: number,
+  ambiguousLines: ClassifiedLine[],
   openai: OpenAI
 ): Promise<ActionLineAnalysis[]> {
+  const firstLine = ambiguousLines[0]?.lineNumber ?? 0;
+
   try {
-    console.log(`Starting script content analysis for chunk starting at line ${startLine}`);
+    console.log(`Starting script content analysis for ${ambiguousLines.length} ambiguous lines from line ${firstLine}`);
     
-    if (!text || text.trim().length === 0) {
-      throw new Error('Empty text provided for analysis');
+    if (ambiguousLines.length === 0) {
+      throw new Error("No lines provided for analysis");
     }
 
     // Prepare numbered text
-    const lines = text.split('\n');
-    const numberedText = lines.map((line, index) => 
-      `${startLine + index}: ${line}`
+    const numberedText = ambiguousLines.map((line) =>
+      `${line.lineNumber}: ${line.text}`
     ).join('\n');
 
-    console.log(`Sending chunk to OpenAI (length: ${text.length} characters)`);
-    const response = await openai.chat.completions.create({
+    console.log(`Sending ambiguous lines to OpenAI (length: ${numberedText.length} characters)`);
+    const response = await withRateLimitRetry(() => openai.chat.completions.create({
       model: "gpt-4o-mini",
       messages: [
         {
           role: "system",
-          content: `You are a script analysis expert. Analyze the following script content and identify which lines are action descriptions.
+          content: `You are a script analysis expert.
+          The following lines come from a screenplay and could not be classified by formatting alone.
+          Identify which lines are action descriptions.
           Each line is prefixed with its line number (e.g., "1: Some text").
           
           Return a JSON array where each element has:
@@ -439,6 +473,8 @@ async function analyzeScriptContent(
           ]
 
           Only include action descriptions, not dialogue, character names, or scene headings.
+          Lines in parentheses, such as "(whispering)" or "(beat)", are directions for the actor speaking,
+          not action descriptions.
           DO NOT include markdown formatting or code blocks in your response.
           IMPORTANT: Return ONLY the JSON array.
           Use the exact line numbers from the input.`
@@ -450,11 +486,11 @@ async function analyzeScriptContent(
       ],
       temperature: 0.3,
       max_tokens: 2000
-    }).catch(error => {
+    }), { label: `lines from ${firstLine}` }).catch((error) => {
       console.error('OpenAI API call failed:', {
         error: error instanceof Error ? error.message : String(error),
-        chunk_start: startLine,
-        text_length: text.length
+        first_line: firstLine,
+        line_count: ambiguousLines.length,
       });
       throw new Error(`OpenAI API call failed: ${error instanceof Error ? error.message : String(error)}`);
     });
@@ -462,7 +498,7 @@ async function analyzeScriptContent(
     if (!response.choices[0]?.message?.content) {
       console.error('Empty response from OpenAI:', {
         response,
-        chunk_start: startLine
+        first_line: firstLine,
       });
       throw new Error('Empty response from OpenAI');
     }
@@ -485,7 +521,7 @@ async function analyzeScriptContent(
       if (!Array.isArray(analysis)) {
         console.error('Invalid response format from OpenAI - not an array:', {
           content: cleanedContent,
-          chunk_start: startLine
+          first_line: firstLine,
         });
         throw new Error('Invalid response format from OpenAI - not an array');
       }
@@ -511,15 +547,14 @@ async function analyzeScriptContent(
         };
       });
 
-      console.log(`Successfully analyzed chunk. Found ${convertedAnalysis.length} action lines.`);
+      console.log(`Successfully analyzed ambiguous lines. Found ${convertedAnalysis.length} action lines.`);
       
-      // No need to adjust line numbers since they're now correct from the input
       return convertedAnalysis;
     } catch (parseError) {
       console.error('Failed to parse OpenAI response:', {
         error: parseError instanceof Error ? parseError.message : String(parseError),
         content: response.choices[0].message.content,
-        chunk_start: startLine
+        first_line: firstLine,
       });
       throw new Error(`Failed to parse OpenAI response: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
     }
@@ -529,18 +564,89 @@ async function analyzeScriptContent(
         message: error.message,
         stack: error.stack
       } : String(error),
-      chunk_start: startLine,
-      text_length: text.length
+      first_line: firstLine,
+      line_count: ambiguousLines.length,
     });
     throw error;
   }
 }
 
+/**
+ * Settles lines the rule-based classifier marked as ambiguous. When an OpenAI
+ * client is available only those lines are sent to the model; otherwise, or if
+ * the call fails, the classifier's fallback type is kept.
+ * @param {ClassifiedLine[]} classified Lines from the rule-based classifier.
+ * @param {OpenAI | null} openai API client, if there is a key.
+ * @return {Promise<ClassifiedLine[]>} Lines with no ambiguous ones left.
+ */
+async function resolveAmbiguousLines(
+  classified: ClassifiedLine[],
+  openai: OpenAI | null
+): Promise<ClassifiedLine[]> {
+  const ambiguousLines = classified.filter((line) => line.ambiguous);
+  if (ambiguousLines.length === 0 || !openai) {
+    if (ambiguousLines.length > 0) {
+      console.log("No OpenAI client configured, keeping rule-based fallback for " +
+        `${ambiguousLines.length} ambiguous lines`);
+    }
+    return classified;
+  }
+
+  let actionLineNumbers: Set<number>;
+  try {
+    const actionLineAnalysis = await analyzeScriptContent(ambiguousLines, openai);
+    const ambiguousLineNumbers = new Set(ambiguousLines.map((line) => line.lineNumber));
+    actionLineNumbers = new Set(
+      actionLineAnalysis
+        .map((action) => action.lineNumber)
+        .filter((lineNumber) => {
+          if (!ambiguousLineNumbers.has(lineNumber)) {
+            console.warn(`Ignoring action line ${lineNumber} that was not sent for analysis`);
+            return false;
+          }
+          return true;
+        })
+    );
+  } catch (error) {
+    console.warn("Ambiguous line analysis failed, keeping rule-based fallback:", {
+      error: error instanceof Error ? error.message : String(error),
+      lines: ambiguousLines.length,
+    });
+    return classified;
+  }
+
+  // Once a line inside a speech turns out to be action, the rest of that
+  // speech is action as well.
+  let speechEnded = false;
+  return classified.map((line) => {
+    if (line.type !== "dialogue") {
+      speechEnded = false;
+    }
+    if (!line.ambiguous) {
+      return line;
+    }
+
+    const isAction = actionLineNumbers.has(line.lineNumber) || (line.type === "dialogue" && speechEnded);
+    if (line.type === "dialogue") {
+      speechEnded = isAction;
+      return isAction ?
+        { lineNumber: line.lineNumber, text: line.text, type: "action" } :
+        { ...line, ambiguous: false };
+    }
+
+    // Upper-case lines the model does not consider action (shots, inserts)
+    // carry no dialogue and are dropped from the breakdown.
+    return isAction ?
+      { ...line, ambiguous: false } :
+      { lineNumber: line.lineNumber, text: line.text, type: "transition" };
+  });
+}
+
 async function analyzeChunk(
   text: string,
   startLine: number,
-  openai: OpenAI
-): Promise<ScriptAnalysis> {
+  openai: OpenAI | null
+): Promise<ChunkAnalysis> {
   try {
     console.log(`Starting chunk analysis at line ${startLine}`);
     
@@ -551,203 +657,77 @@ async function analyzeChunk(
     const lines = text.split('\n');
     console.log(`Processing chunk with ${lines.length} lines, starting at line ${startLine}`);
 
-    const actionLineAnalysis = await analyzeScriptContent(text, startLine, openai);
-    console.log(`Received ${actionLineAnalysis.length} action lines from analysis`);
-
-    // Validate line numbers
-    actionLineAnalysis.forEach((action, index) => {
-      if (action.lineNumber < startLine || action.lineNumber >= startLine + lines.length) {
-        console.error(`Invalid line number detected in action line:`, {
-          actionLine: action,
-          chunkStart: startLine,
-          chunkEnd: startLine + lines.length - 1,
-          index
-        });
-        throw new Error(`Action line number ${action.lineNumber} is outside chunk range ${startLine}-${startLine + lines.length - 1}`);
-      }
-      // Log the actual line content for verification
-      console.log(`Action line ${action.lineNumber}: "${lines[action.lineNumber - startLine]}" -> "${action.text}"`);
-    });
-    
-    const characters: { 
-      [key: string]: { 
-        lines: number; 
-        firstAppearance: number;
-        dialogue: Array<{
-          text: string;
-          lineNumber: number;
-          voices?: Record<string, string>;
-        }>;
-      } 
-    } = {};
-    
-    const scenes: Scene[] = [];
-    const actionLines = actionLineAnalysis;
-    let totalDialogueLines = 0;
-    let currentScene: Scene = {
-      name: '',
-      startLine: 0,
-      endLine: 0
-    };
-    let hasCurrentScene = false;
-    let potentialCharacterLines: Array<{ line: string; lineNumber: number }> = [];
-    let currentCharacter: string | null = null;
-    let lineErrors: Array<{ line: number; error: string }> = [];
-    let dialogueBuffer: string[] = [];
-    let dialogueStartLine: number | null = null;
-
-    console.log(`Processing ${lines.length} lines of text`);
-
-    lines.forEach((line, index) => {
-      try {
-        const absoluteLineNumber = startLine + index;
-        const trimmedLine = line.trim();
-        
-        // Skip if this is an action line
-        if (actionLines.some(action => action.lineNumber === absoluteLineNumber)) {
-          if (dialogueBuffer.length > 0 && currentCharacter && dialogueStartLine !== null) {
-            // Save the buffered dialogue before moving on
-            if (!characters[currentCharacter]) {
-              characters[currentCharacter] = {
-                lines: 0,
-                firstAppearance: dialogueStartLine,
-                dialogue: [],
-              };
-            }
-            characters[currentCharacter].dialogue.push({
-              text: dialogueBuffer.join(' '),
-              lineNumber: dialogueStartLine,
-            });
-            characters[currentCharacter].lines++;
-            totalDialogueLines++;
-            dialogueBuffer = [];
-            dialogueStartLine = null;
-          }
-          currentCharacter = null;
-          return;
-        }
-
-        // Check if this is a scene heading
-        if ((trimmedLine.startsWith('INT.') || trimmedLine.startsWith('EXT.')) &&
-            (trimmedLine.includes('DAY') || trimmedLine.includes('NIGHT') || 
-             trimmedLine.includes('EVENING') || trimmedLine.includes('MORNING'))) {
-          if (dialogueBuffer.length > 0 && currentCharacter && dialogueStartLine !== null) {
-            // Save any buffered dialogue before starting new scene
-            if (!characters[currentCharacter]) {
-              characters[currentCharacter] = {
-                lines: 0,
-                firstAppearance: dialogueStartLine,
-                dialogue: [],
-              };
-            }
-            characters[currentCharacter].dialogue.push({
-              text: dialogueBuffer.join(' '),
-              lineNumber: dialogueStartLine,
-            });
-            characters[currentCharacter].lines++;
-            totalDialogueLines++;
-            dialogueBuffer = [];
-            dialogueStartLine = null;
-          }
-
-          if (hasCurrentScene) {
-            const scene: Scene = {
-              name: currentScene.name,
-              startLine: currentScene.startLine,
-              endLine: absoluteLineNumber - 1,
-            };
-            if (currentScene.location) scene.location = currentScene.location;
-            if (currentScene.timeOfDay) scene.timeOfDay = currentScene.timeOfDay;
-            scenes.push(scene);
-          }
-
-          let location = undefined;
-          let timeOfDay = undefined;
-          
-          if (trimmedLine.includes("-")) {
-            location = trimmedLine.split("-")[0].trim();
-            const timeMatch = trimmedLine.match(/(DAY|NIGHT|EVENING|MORNING)/i);
-            if (timeMatch) timeOfDay = timeMatch[0];
-          }
-
-          currentScene = {
-            name: trimmedLine,
-            startLine: absoluteLineNumber,
-            endLine: absoluteLineNumber,
-          };
-          if (location) currentScene.location = location;
-          if (timeOfDay) currentScene.timeOfDay = timeOfDay;
-          hasCurrentScene = true;
-          currentCharacter = null;
-          return;
-        }
-
-        // Check if this is a character name
-        if (trimmedLine === trimmedLine.toUpperCase() && trimmedLine.length > 0 && 
-            !trimmedLine.startsWith('(') && !trimmedLine.endsWith(')') &&
-            trimmedLine.length >= 2) {
-          if (dialogueBuffer.length > 0 && currentCharacter && dialogueStartLine !== null) {
-            // Save any buffered dialogue before starting new character
-            if (!characters[currentCharacter]) {
-              characters[currentCharacter] = {
-                lines: 0,
-                firstAppearance: dialogueStartLine,
-                dialogue: [],
-              };
-            }
-            characters[currentCharacter].dialogue.push({
-              text: dialogueBuffer.join(' '),
-              lineNumber: dialogueStartLine,
-            });
-            characters[currentCharacter].lines++;
-          }
-          
-          potentialCharacterLines.push({
-            line: trimmedLine,
-            lineNumber: absoluteLineNumber
-          });
-          currentCharacter = trimmedLine;
-          dialogueBuffer = [];
-          dialogueStartLine = null;
-          return;
-        }
-
-        // Handle dialogue lines
-        if (currentCharacter && trimmedLine.length > 0) {
-          if (dialogueStartLine === null) {
-            dialogueStartLine = absoluteLineNumber;
-          }
-          dialogueBuffer.push(trimmedLine);
-        } else if (trimmedLine.length === 0 && dialogueBuffer.length > 0 && currentCharacter && dialogueStartLine !== null) {
-          // Empty line ends the dialogue
-          if (!characters[currentCharacter]) {
-            characters[currentCharacter] = {
-              lines: 0,
-              firstAppearance: dialogueStartLine,
-              dialogue: [],
-            };
-          }
-          characters[currentCharacter].dialogue.push({
-            text: dialogueBuffer.join(' '),
-            lineNumber: dialogueStartLine,
-          });
-          characters[currentCharacter].lines++;
-          totalDialogueLines++;
-          dialogueBuffer = [];
-          dialogueStartLine = null;
-          currentCharacter = null;
-        }
+    const classified = await resolveAmbiguousLines(
+      classifyScreenplayLines(text, startLine),
+      openai
+    );
 
-      } catch (lineError) {
-        console.error(`Error processing line ${startLine + index}:`, lineError);
-        lineErrors.push({
-          line: startLine + index,
-          error: lineError instanceof Error ? lineError.message : String(lineError)
-        });
-      }
+    return buildChunkAnalysis(classified, startLine + lines.length - 1);
+  } catch (error) {
+    console.error('Chunk analysis failed:', {
+      error: error instanceof Error ? {
+        message: error.message,
+        stack: error.stack
+      } : String(error),
+      chunk_start: startLine,
+      text_length: text.length
     });
+    throw error;
+  }
+}
+
+/**
+ * Builds the characters, scenes and action lines of a chunk from its
+ * classified lines. Shared by every input format.
+ * @param {ClassifiedLine[]} classified The chunk's classified lines.
+ * @param {number} lastLine Last line number of the chunk.
+ * @return {ChunkAnalysis} The chunk's analysis.
+ */
+export function buildChunkAnalysis(
+  classified: ClassifiedLine[],
+  lastLine: number
+): ChunkAnalysis {
+  const characters: { 
+    [key: string]: { 
+      lines: number; 
+      firstAppearance: number;
+      dialogue: Array<{
+        text: string;
+        lineNumber: number;
+        voices?: Record<string, string>;
+        extensions?: string[];
+        parentheticals?: Parenthetical[];
+        dualGroup?: number;
+      }>;
+    } 
+  } = {};
+  
+  const scenes: Scene[] = [];
+  const actionLines: ActionLineAnalysis[] = [];
+  const unattributedLines: UnattributedLine[] = [];
+  let totalDialogueLines = 0;
+  let characterCues = 0;
+  let currentScene: Scene | null = null;
+  let currentCharacter: string | null = null;
+  // Cue extensions such as (V.O.) belong to the speech, not the character name
+  let currentExtensions: string[] = [];
+  let dialogueBuffer: string[] = [];
+  let dialogueStartLine: number | null = null;
+  // Directions for the speech being buffered, positioned in its joined text
+  let parentheticals: Parenthetical[] = [];
+  let previousType: ClassifiedLine["type"] | null = null;
+  // A dual cue speaks alongside the speech before it, unless action came between
+  let currentDual = false;
+  let lastSpeech: { lineNumber: number; dualGroup?: number } | null = null;
+
+  const flushDialogue = () => {
+    const text = dialogueBuffer.join(" ");
+    const directions = parentheticals.map((direction) => ({
+      text: direction.text.replace(/^\(\s*/, "").replace(/\s*\)$/, ""),
+      position: Math.min(direction.position, text.length),
+    }));
+    parentheticals = [];
 
-    // Handle any remaining dialogue buffer at the end of the chunk
     if (dialogueBuffer.length > 0 && currentCharacter && dialogueStartLine !== null) {
       if (!characters[currentCharacter]) {
         characters[currentCharacter] = {
@@ -756,75 +736,177 @@ async function analyzeChunk(
           dialogue: [],
         };
       }
-      characters[currentCharacter].dialogue.push({
-        text: dialogueBuffer.join(' '),
+      const speech: ScriptAnalysis["characters"][number]["dialogue"][number] = {
+        text,
         lineNumber: dialogueStartLine,
-      });
+        ...(currentExtensions.length > 0 ? { extensions: currentExtensions } : {}),
+        ...(directions.length > 0 ? { parentheticals: directions } : {}),
+      };
+      if (currentDual && lastSpeech) {
+        lastSpeech.dualGroup ??= lastSpeech.lineNumber;
+        speech.dualGroup = lastSpeech.dualGroup;
+      }
+      characters[currentCharacter].dialogue.push(speech);
       characters[currentCharacter].lines++;
+      lastSpeech = speech;
       totalDialogueLines++;
+    } else if (dialogueBuffer.length > 0 && dialogueStartLine !== null) {
+      unattributedLines.push({ lineNumber: dialogueStartLine, text: previewText(dialogueBuffer.join(" ")) });
     }
+    dialogueBuffer = [];
+    dialogueStartLine = null;
+    currentDual = false;
+  };
+
+  const closeScene = (endLine: number) => {
+    if (!currentScene) return;
+    const scene: Scene = {
+      name: currentScene.name,
+      startLine: currentScene.startLine,
+      endLine,
+    };
+    if (currentScene.setting) scene.setting = currentScene.setting;
+    if (currentScene.location) scene.location = currentScene.location;
+    if (currentScene.timeOfDay) scene.timeOfDay = currentScene.timeOfDay;
+    if (currentScene.sceneNumber) scene.sceneNumber = currentScene.sceneNumber;
+    if (currentScene.revisionColors?.length) scene.revisionColors = currentScene.revisionColors;
+    scenes.push(scene);
+  };
 
-    if (lineErrors.length > 0) {
-      console.warn(`Encountered ${lineErrors.length} errors while processing lines:`, lineErrors);
+  console.log(`Processing ${classified.length} classified lines`);
+
+  classified.forEach((line) => {
+    if (currentScene && line.type !== "scene_heading" && line.revisions) {
+      currentScene.revisionColors = Array.from(
+        new Set([...(currentScene.revisionColors || []), ...line.revisions])
+      );
     }
 
-    // Close the last scene if there is one
-    if (hasCurrentScene) {
-      const scene: Scene = {
-        name: currentScene.name,
-        startLine: currentScene.startLine,
-        endLine: startLine + lines.length - 1,
+    switch (line.type) {
+    case "scene_heading": {
+      flushDialogue();
+      currentCharacter = null;
+      lastSpeech = null;
+      closeScene(line.lineNumber - 1);
+
+      const heading = parseSceneHeading(line.text);
+      currentScene = {
+        name: heading.name,
+        startLine: line.lineNumber,
+        endLine: line.lineNumber,
       };
-      if (currentScene.location) scene.location = currentScene.location;
-      if (currentScene.timeOfDay) scene.timeOfDay = currentScene.timeOfDay;
-      scenes.push(scene);
+      const sceneNumber = line.sceneNumber || heading.sceneNumber;
+      if (sceneNumber) currentScene.sceneNumber = sceneNumber;
+      if (line.revisions) currentScene.revisionColors = [...line.revisions];
+      if (heading.setting) currentScene.setting = heading.setting;
+      if (heading.location) currentScene.location = heading.location;
+      if (heading.timeOfDay) currentScene.timeOfDay = heading.timeOfDay;
+      break;
+    }
+    case "character": {
+      flushDialogue();
+      const cue = splitCharacterCue(line.characterName || line.text);
+      currentCharacter = cue.name;
+      currentExtensions = cue.extensions;
+      currentDual = !!line.dual;
+      characterCues++;
+      break;
+    }
+    case "dialogue":
+      if (line.characterName) {
+        const cue = splitCharacterCue(line.characterName);
+        if (cue.name !== currentCharacter) {
+          flushDialogue();
+          currentCharacter = cue.name;
+          currentExtensions = cue.extensions;
+        }
+      }
+      if (dialogueStartLine === null) {
+        dialogueStartLine = line.lineNumber;
+      }
+      dialogueBuffer.push(line.text);
+      break;
+    case "parenthetical": {
+      // Stays inside the current speech, before whatever is said next.
+      // A direction wrapped over several lines is joined back together.
+      const last = parentheticals[parentheticals.length - 1];
+      if (previousType === "parenthetical" && last && !last.text.endsWith(")")) {
+        last.text = `${last.text} ${line.text}`;
+      } else {
+        const spoken = dialogueBuffer.join(" ");
+        parentheticals.push({ text: line.text, position: spoken ? spoken.length + 1 : 0 });
+      }
+      break;
+    }
+    case "action":
+      flushDialogue();
+      currentCharacter = null;
+      lastSpeech = null;
+      actionLines.push({ text: line.text, lineNumber: line.lineNumber });
+      break;
+    case "transition":
+    case "blank":
+      flushDialogue();
+      currentCharacter = null;
+      break;
+    case "omitted":
+      // Notes, comments and other non-script text
+      break;
     }
+    previousType = line.type;
+  });
 
-    // Convert characters object to array format
-    const characterArray = Object.entries(characters).map(([name, data]) => ({
-      name,
-      lines: data.lines,
-      firstAppearance: data.firstAppearance,
-      dialogue: data.dialogue,
-    }));
+  // Handle any remaining dialogue buffer at the end of the chunk
+  flushDialogue();
 
-    console.log(`Chunk analysis complete:`, {
-      characters: characterArray.length,
-      scenes: scenes.length,
-      actionLines: actionLines.length,
-      totalDialogueLines,
-      errors: lineErrors.length,
-      potential_character_lines: potentialCharacterLines.length
-    });
+  // Close the last scene if there is one
+  closeScene(lastLine);
 
-    return {
-      characters: characterArray,
-      scenes,
-      actionLines,
-      processedLines: [],
-      metadata: {
-        totalLines: totalDialogueLines,
-        estimatedDuration: Math.ceil(totalDialogueLines / 60),
-      },
-    };
-  } catch (error) {
-    console.error('Chunk analysis failed:', {
-      error: error instanceof Error ? {
-        message: error.message,
-        stack: error.stack
-      } : String(error),
-      chunk_start: startLine,
-      text_length: text.length
-    });
-    throw error;
-  }
+  // Convert characters object to array format
+  const characterArray = Object.entries(characters).map(([name, data]) => ({
+    name,
+    lines: data.lines,
+    firstAppearance: data.firstAppearance,
+    dialogue: data.dialogue,
+  }));
+
+  console.log("Chunk analysis complete:", {
+    characters: characterArray.length,
+    scenes: scenes.length,
+    actionLines: actionLines.length,
+    totalDialogueLines,
+    character_cues: characterCues,
+    ambiguous_lines: classified.filter((line) => line.ambiguous).length,
+  });
+
+  return {
+    characters: characterArray,
+    scenes,
+    actionLines,
+    processedLines: [],
+    metadata: {
+      totalLines: totalDialogueLines,
+      estimatedDuration: Math.ceil(totalDialogueLines / 60),
+    },
+    unattributedLines,
+  };
 }
 
-async function assignVoicesToCharacters(
+/**
+ * Guesses each character's gender from their name, for picking voices.
+ * @param {Array} characters Characters to guess for.
+ * @param {OpenAI | null} openai API client, if there is a key.
+ * @return {Promise<Record<string, string>>} Gender by character name; empty without a client.
+ */
+async function predictCharacterGenders(
   characters: ScriptAnalysis['characters'],
-  openai: OpenAI
-): Promise<Record<string, CharacterVoiceSettings>> {
-  // Get gender predictions for all characters
+  openai: OpenAI | null
+): Promise<Record<string, "Male" | "Female">> {
+  if (!openai) {
+    console.log("No OpenAI client configured, skipping gender prediction");
+    return {};
+  }
+
   const response = await openai.chat.completions.create({
     model: "gpt-4o-mini",
     messages: [
@@ -847,20 +929,26 @@ async function assignVoicesToCharacters(
     throw new Error('Empty response from OpenAI');
   }
 
-  // Parse gender predictions
-  const genderPredictions = JSON.parse(response.choices[0].message.content.trim()) as Record<string, 'Male' | 'Female'>;
+  return JSON.parse(response.choices[0].message.content.trim()) as Record<string, "Male" | "Female">;
+}
+
+/**
+ * Gives every character a voice matching their predicted gender, spreading
+ * each gender's voices across the cast.
+ * @param {Array} characters Characters to voice.
+ * @param {OpenAI | null} openai API client, if there is a key.
+ * @return {Promise<Record<string, CharacterVoiceSettings>>} Voice settings by character name.
+ */
+async function assignVoicesToCharacters(
+  characters: ScriptAnalysis["characters"],
+  openai: OpenAI | null
+): Promise<Record<string, CharacterVoiceSettings>> {
+  // Get gender predictions for all characters
+  const genderPredictions = await predictCharacterGenders(characters, openai);
 
   // Group voices by gender
-  const maleVoices: VoiceOption[] = [];
-  const femaleVoices: VoiceOption[] = [];
-  
-  Object.entries(VOICE_INFO).forEach(([voice, info]) => {
-    if (info.gender === 'Male') {
-      maleVoices.push(voice as VoiceOption);
-    } else {
-      femaleVoices.push(voice as VoiceOption);
-    }
-  });
+  const maleVoices = voicesFor("Male", "openai");
+  const femaleVoices = voicesFor("Female", "openai");
 
   // Group characters by gender
   const maleCharacters: typeof characters = [];
@@ -885,7 +973,7 @@ async function assignVoicesToCharacters(
   // Helper function to assign voices for a gender group
   const assignVoicesForGender = (
     chars: typeof characters,
-    voices: VoiceOption[]
+    voices: string[]
   ) => {
     chars.forEach((char, index) => {
       // Use modulo to cycle through available voices of the same gender
@@ -909,7 +997,7 @@ async function assignVoicesToCharacters(
 async function filterDuplicateDialogue(
   characters: ScriptAnalysis['characters'],
   actionLines: ScriptAnalysis['actionLines']
-): Promise<ScriptAnalysis['characters']> {
+): Promise<{ characters: ScriptAnalysis["characters"]; dropped: DroppedDialogue[] }> {
   // Create a map of line numbers to action lines for quick lookup
   const actionLineMap = new Map(
     actionLines.map(action => [action.lineNumber, action.text])
@@ -917,7 +1005,8 @@ async function filterDuplicateDialogue(
 
   console.log(`Checking for dialogue-action duplicates against ${actionLineMap.size} action lines`);
 
-  return characters.map(character => {
+  const dropped: DroppedDialogue[] = [];
+  const filtered = characters.map((character) => {
     // Filter out dialogue entries that match action lines
     const filteredDialogue = character.dialogue.filter(dialogue => {
       const actionText = actionLineMap.get(dialogue.lineNumber);
@@ -928,6 +1017,11 @@ async function filterDuplicateDialogue(
           actionText: actionText,
           character: character.name
         });
+        dropped.push({
+          characterName: character.name,
+          lineNumber: dialogue.lineNumber,
+          text: previewText(dialogue.text),
+        });
         return false; // Remove this dialogue entry
       }
       return true;
@@ -940,6 +1034,8 @@ async function filterDuplicateDialogue(
       dialogue: filteredDialogue
     };
   });
+
+  return { characters: filtered, dropped };
 }
 
 async function preprocessScriptLines(
@@ -978,6 +1074,18 @@ async function preprocessScriptLines(
           processedLine.voices = line.voices;
         }
 
+        if (line.extensions && line.extensions.length > 0) {
+          processedLine.extensions = line.extensions;
+        }
+
+        if (line.parentheticals && line.parentheticals.length > 0) {
+          processedLine.parentheticals = line.parentheticals;
+        }
+
+        if (line.dualGroup !== undefined) {
+          processedLine.dualGroup = line.dualGroup;
+        }
+
         allLines.push(processedLine);
       });
     }
@@ -1001,19 +1109,25 @@ async function saveValidatedResults(
   analysis: ScriptAnalysis,
   validatedCharacters: Array<any>,
   originalCharacterCount: number,
-  voiceAssignments: Record<string, CharacterVoiceSettings>
+  voiceAssignments: Record<string, CharacterVoiceSettings>,
+  qualityIssues: Omit<QualityReport, "droppedDialogue">,
+  pages: ScriptPage[]
 ): Promise<void> {
   try {
     // Filter out dialogue entries that match action lines
     console.log(`[${scriptId}] Filtering duplicate dialogue entries...`);
-    const filteredCharacters = await filterDuplicateDialogue(analysis.characters, analysis.actionLines);
+    const { characters: filteredCharacters, dropped: droppedDialogue } =
+      await filterDuplicateDialogue(analysis.characters, analysis.actionLines);
     
     // Update the analysis with filtered characters
     analysis.characters = filteredCharacters;
 
     // Process and combine all lines
     console.log(`[${scriptId}] Processing and combining script lines...`);
-    analysis.processedLines = await preprocessScriptLines(analysis.characters, analysis.actionLines);
+    analysis.processedLines = assignPageNumbers(
+      await preprocessScriptLines(analysis.characters, analysis.actionLines),
+      pages
+    );
 
     // Update sequential numbers in original arrays to match
     analysis.characters.forEach(char => {
@@ -1036,6 +1150,9 @@ async function saveValidatedResults(
       }
     });
 
+    // Scenes were cut at chunk boundaries; join them up and add the cast and length
+    analysis.scenes = buildSceneBreakdown(analysis.scenes, analysis.processedLines, text.split("\n").length - 1, pages);
+
     // Recalculate total lines
     analysis.metadata.totalLines = analysis.processedLines.length;
     analysis.metadata.estimatedDuration = Math.ceil(analysis.metadata.totalLines / 60);
@@ -1047,6 +1164,33 @@ async function saveValidatedResults(
       actionLines: analysis.actionLines.length
     });
 
+    // Every line must point at the source line it was read from; anything
+    // else means chunk offsets drifted and the line will be misplaced.
+    await updateProcessingState(scriptId, {
+      status: "validating",
+      progress: 95,
+    });
+    const lineValidation = validateLineNumbers(text, analysis.processedLines);
+    if (lineValidation.mismatchCount > 0) {
+      console.warn(`[${scriptId}] ${lineValidation.mismatchCount}/${lineValidation.checkedLines} processed lines ` +
+        "do not match their source line:", lineValidation.mismatches.slice(0, 10));
+    } else {
+      console.log(`[${scriptId}] All ${lineValidation.checkedLines} processed lines match their source lines`);
+    }
+
+    const qualityReport: QualityReport = {
+      ...qualityIssues,
+      droppedDialogue: sampleList(droppedDialogue),
+    };
+    if (hasQualityIssues(qualityReport)) {
+      console.warn(`[${scriptId}] Processing quality issues:`, {
+        failedChunks: qualityReport.failedChunks.length,
+        rejectedCharacters: qualityReport.rejectedCharacters.length,
+        droppedDialogue: qualityReport.droppedDialogue.count,
+        unattributedLines: qualityReport.unattributedLines.count,
+      });
+    }
+
     // Use transaction for atomic saves
     await admin.firestore().runTransaction(async (transaction) => {
       const analysisRef = admin.firestore().collection("scriptAnalysis").doc(scriptId);
@@ -1060,6 +1204,8 @@ async function saveValidatedResults(
         uploadedBy: uploadedBy || "unknown",
         originalName: fileName,
         content: text,
+        // Where each page starts in content; empty for formats without pages.
+        pages,
         analysis: analysis,
         timestamp: admin.firestore.FieldValue.serverTimestamp(),
       });
@@ -1069,14 +1215,19 @@ async function saveValidatedResults(
         uploadStatus: "completed",
         status: "ready",
         userId: uploadedBy,
+        error: admin.firestore.FieldValue.delete(),
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       });
 
+      // Merge so the generation stays recorded and duplicate events skip.
       transaction.set(statusRef, {
         status: "completed",
         progress: 100,
+        lineValidation,
+        qualityReport,
+        error: admin.firestore.FieldValue.delete(),
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
+      }, { merge: true });
 
       // Save voice assignments
       transaction.set(voicesRef, voiceAssignments);
@@ -1125,21 +1276,180 @@ async function saveBatch(
   });
 }
 
-async function processBatches(
+/**
+ * Claims a script for processing; see planProcessingClaim for when a run may
+ * proceed.
+ * @param {string} scriptId Script ID.
+ * @param {string} generation Upload generation being processed.
+ * @return {Promise<{resume: boolean, attempt: number} | null>} Whether to
+ *     resume saved batches, or null when another run owns the script or it
+ *     is already done.
+ */
+async function claimProcessing(
+  scriptId: string,
+  generation: string
+): Promise<{ resume: boolean; attempt: number } | null> {
+  const stateRef = admin.firestore().collection("scriptProcessing").doc(scriptId);
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const stateDoc = await transaction.get(stateRef);
+    const state = stateDoc.data() as ProcessingLeaseState | undefined;
+    const claim = planProcessingClaim(state, generation);
+
+    if (!claim) {
+      console.log(state?.status === "completed" ?
+        `[${scriptId}] Generation ${generation} already processed, skipping` :
+        `[${scriptId}] Generation ${generation} is already being processed, skipping`);
+      return null;
+    }
+
+    transaction.set(stateRef, {
+      scriptId,
+      generation,
+      attempts: claim.attempt,
+      status: "initializing",
+      progress: 0,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return claim;
+  });
+}
+
+/**
+ * Loads the batches saved by earlier runs for this generation, keyed by
+ * chunk index. Batches from another generation or chunking are deleted.
+ * @param {string} scriptId Script ID.
+ * @param {string} generation Upload generation being processed.
+ * @param {number} totalChunks Number of chunks in this run.
+ * @return {Promise<Map<number, CharacterBatch>>} Saved batches by chunk index.
+ */
+async function loadSavedBatches(
+  scriptId: string,
+  generation: string,
+  totalChunks: number
+): Promise<Map<number, CharacterBatch>> {
+  const batchesRef = admin.firestore()
+    .collection("scriptProcessing")
+    .doc(scriptId)
+    .collection("batches");
+
+  const snapshot = await batchesRef.get();
+  const saved = new Map<number, CharacterBatch>();
+  const stale: admin.firestore.DocumentReference[] = [];
+
+  snapshot.docs.forEach((doc) => {
+    const batch = doc.data() as CharacterBatch;
+    if (batch.generation === generation && batch.totalChunks === totalChunks && batch.scenes) {
+      saved.set(batch.chunkIndex, batch);
+    } else {
+      stale.push(doc.ref);
+    }
+  });
+
+  if (stale.length > 0) {
+    console.log(`[${scriptId}] Deleting ${stale.length} stale batches`);
+    await Promise.all(stale.map((ref) => ref.delete()));
+  }
+
+  return saved;
+}
+
+/**
+ * Asks the model which collected names are characters rather than stage
+ * directions, scene headings and the like.
+ * @param {string} scriptId Script ID, for logging.
+ * @param {Array} characterList Names with their first line and line counts.
+ * @param {OpenAI} openai API client.
+ * @return {Promise<Record<string, boolean>>} Whether each name is a character.
+ */
+async function validateCharacterNames(
   scriptId: string,
+  characterList: Array<{ name: string; firstLine: string; totalLines: number; firstAppearance: number }>,
   openai: OpenAI
+): Promise<Record<string, boolean>> {
+  console.log(`[${scriptId}] Making OpenAI API call for ${characterList.length} characters`);
+  
+  const response = await withRateLimitRetry(() => openai.chat.completions.create({
+    model: "gpt-4o-mini",
+    messages: [
+      {
+        role: "system",
+        content: "You are a script analysis expert. Your task is to determine if given names from a script " +
+          "represent actual characters (people) or not. For each name, consider the context from their first " +
+          "line of dialogue if provided. Respond with a JSON object where keys are character names and values " +
+          "are boolean (true if it's a character, false if it's not a character like stage directions, scene " +
+          "headings, etc.). IMPORTANT: Respond with ONLY the JSON object, no markdown formatting or additional text.",
+      },
+      {
+        role: "user",
+        content: JSON.stringify(characterList, null, 2),
+      },
+    ],
+    temperature: 0,
+    max_tokens: 1000,
+  }), { label: scriptId });
+
+  if (!response.choices[0]?.message?.content) {
+    throw new Error("Empty response from OpenAI");
+  }
+
+  console.log(`[${scriptId}] Raw OpenAI response:`, response.choices[0].message.content);
+
+  let validationResults: Record<string, boolean>;
+  try {
+    // Clean the response to ensure it's valid JSON
+    const cleanedResponse = response.choices[0].message.content
+      .replace(/^```json\s*/, "") // Remove leading ```json
+      .replace(/\s*```$/, "") // Remove trailing ```
+      .trim(); // Remove any extra whitespace
+
+    validationResults = JSON.parse(cleanedResponse);
+    
+    console.log(`[${scriptId}] Parsed validation results:`, validationResults);
+    
+    // Verify the response format
+    const isValidFormat = Object.entries(validationResults).every(
+      ([key, value]) => typeof key === "string" && typeof value === "boolean"
+    );
+    
+    if (!isValidFormat) {
+      throw new Error("Invalid validation results format");
+    }
+  } catch (parseError) {
+    console.error(`[${scriptId}] Failed to parse OpenAI response:`, {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      rawResponse: response.choices[0].message.content,
+    });
+    throw new Error("Failed to parse character validation results: " +
+      `${parseError instanceof Error ? parseError.message : String(parseError)}`);
+  }
+
+  return validationResults;
+}
+
+async function processBatches(
+  scriptId: string,
+  openai: OpenAI | null
 ): Promise<Record<string, boolean>> {
   const batchesRef = admin.firestore()
     .collection("scriptProcessing")
     .doc(scriptId)
     .collection("batches");
   
+  // Batches validated by an earlier run keep their results.
+  const previousResults: Record<string, boolean> = {};
+  const processedBatches = await batchesRef.where("processed", "==", true).get();
+  processedBatches.docs.forEach((doc) => {
+    Object.assign(previousResults, (doc.data() as CharacterBatch).validation);
+  });
+
   console.log(`[${scriptId}] Fetching unprocessed batches...`);
   const batches = await batchesRef.where("processed", "==", false).get();
   
   if (batches.empty) {
     console.log(`[${scriptId}] No unprocessed batches found`);
-    return {};
+    return previousResults;
   }
 
   console.log(`[${scriptId}] Found ${batches.docs.length} unprocessed batches`);
@@ -1160,7 +1470,7 @@ async function processBatches(
     });
 
     batch.characters.forEach(char => {
-      if (!allCharacters.has(char.name)) {
+      if (!allCharacters.has(char.name) && !(char.name in previousResults)) {
         allCharacters.set(char.name, {
           name: char.name,
           firstLine: char.dialogue[0]?.text || '',
@@ -1181,65 +1491,46 @@ async function processBatches(
     firstLine: char.firstLine.substring(0, 50) + (char.firstLine.length > 50 ? '...' : ''),
   })));
   
-  console.log(`[${scriptId}] Making OpenAI API call for ${characterList.length} characters`);
-  
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [
-      {
-        role: "system",
-        content: "You are a script analysis expert. Your task is to determine if given names from a script represent actual characters (people) or not. For each name, consider the context from their first line of dialogue if provided. Respond with a JSON object where keys are character names and values are boolean (true if it's a character, false if it's not a character like stage directions, scene headings, etc.). IMPORTANT: Respond with ONLY the JSON object, no markdown formatting or additional text."
-      },
-      {
-        role: "user",
-        content: JSON.stringify(characterList, null, 2)
-      }
-    ],
-    temperature: 0,
-    max_tokens: 1000
-  });
-
-  if (!response.choices[0]?.message?.content) {
-    throw new Error('Empty response from OpenAI');
+  if (!openai || characterList.length === 0) {
+    // The rule-based parser only emits cues that are followed by speech, so
+    // without a model every collected name is kept.
+    console.log(`[${scriptId}] No OpenAI validation needed, accepting ${characterList.length} rule-based characters`);
+    const accepted = {
+      ...previousResults,
+      ...Object.fromEntries(characterList.map((char) => [char.name, true])),
+    };
+    await markBatchesProcessed(batches.docs, accepted);
+    return accepted;
   }
 
-  console.log(`[${scriptId}] Raw OpenAI response:`, response.choices[0].message.content);
-
-  let validationResults: Record<string, boolean>;
-  try {
-    // Clean the response to ensure it's valid JSON
-    const cleanedResponse = response.choices[0].message.content
-      .replace(/^```json\s*/, '') // Remove leading ```json
-      .replace(/\s*```$/, '')     // Remove trailing ```
-      .trim();                    // Remove any extra whitespace
-
-    validationResults = JSON.parse(cleanedResponse);
-    
-    console.log(`[${scriptId}] Parsed validation results:`, validationResults);
-    
-    // Verify the response format
-    const isValidFormat = Object.entries(validationResults).every(
-      ([key, value]) => typeof key === 'string' && typeof value === 'boolean'
-    );
-    
-    if (!isValidFormat) {
-      throw new Error('Invalid validation results format');
-    }
-  } catch (parseError) {
-    console.error(`[${scriptId}] Failed to parse OpenAI response:`, {
-      error: parseError instanceof Error ? parseError.message : String(parseError),
-      rawResponse: response.choices[0].message.content,
-    });
-    throw new Error(`Failed to parse character validation results: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-  }
+  const validationResults = await validateCharacterNames(scriptId, characterList, openai);
 
   // Mark all batches as processed
   console.log(`[${scriptId}] Marking ${batches.docs.length} batches as processed`);
-  await Promise.all(
-    batches.docs.map(doc => doc.ref.update({ processed: true }))
-  );
+  const combinedResults = { ...previousResults, ...validationResults };
+  await markBatchesProcessed(batches.docs, combinedResults);
 
-  return validationResults;
+  return combinedResults;
+}
+
+/**
+ * Marks batches as validated, storing the result for each of their
+ * characters so a resumed run can reuse it.
+ * @param {admin.firestore.QueryDocumentSnapshot[]} docs Batch documents.
+ * @param {Record<string, boolean>} results Validation result for each name.
+ * @return {Promise<void>} Resolves once every batch is updated.
+ */
+async function markBatchesProcessed(
+  docs: admin.firestore.QueryDocumentSnapshot[],
+  results: Record<string, boolean>
+): Promise<void> {
+  await Promise.all(docs.map((doc) => {
+    const batch = doc.data() as CharacterBatch;
+    const validation = Object.fromEntries(
+      batch.characters.map((char) => [char.name, results[char.name] ?? false])
+    );
+    return doc.ref.update({ processed: true, validation });
+  }));
 }
 
 /**
@@ -1248,7 +1539,15 @@ async function processBatches(
  * @param event The storage event containing file metadata.
  */
 export async function processUploadedScript(event: StorageObjectMetadata): Promise<void> {
-  const { data } = event;
+  await processScriptObject(event.data);
+}
+
+/**
+ * Processes a script file, resuming from the batches saved by an earlier
+ * run of the same file generation. Also used to retry failed scripts.
+ * @param data The storage object to process.
+ */
+export async function processScriptObject(data: ScriptObject): Promise<void> {
   const scriptId = data.metadata?.scriptId;
   const uploadedBy = data.metadata?.uploadedBy;
 
@@ -1257,18 +1556,22 @@ export async function processUploadedScript(event: StorageObjectMetadata): Promi
     throw new Error("No scriptId provided in metadata");
   }
 
+  const generation = String(data.generation ?? "");
+  const claim = await claimProcessing(scriptId, generation);
+  if (!claim) {
+    return;
+  }
+
   try {
     console.log("Starting script processing:", {
       scriptId,
       uploadedBy,
       fileName: data.name,
       bucket: data.bucket,
-      metadata: data.metadata
-    });
-
-    await updateProcessingState(scriptId, {
-      status: 'initializing',
-      progress: 0,
+      metadata: data.metadata,
+      generation,
+      attempt: claim.attempt,
+      resume: claim.resume,
     });
 
     if (!data.name || !data.bucket) {
@@ -1289,63 +1592,107 @@ export async function processUploadedScript(event: StorageObjectMetadata): Promi
       progress: 10,
     });
 
-    console.log(`[${scriptId}] Downloading PDF file: ${data.name}`);
+    console.log(`[${scriptId}] Downloading script file: ${data.name}`);
     let fileContent: Buffer;
     try {
       [fileContent] = await file.download();
-    console.log(`[${scriptId}] PDF downloaded successfully, size: ${fileContent.length} bytes`);
+      console.log(`[${scriptId}] Script file downloaded successfully, size: ${fileContent.length} bytes`);
     } catch (downloadError) {
-      console.error(`[${scriptId}] Failed to download PDF:`, {
+      console.error(`[${scriptId}] Failed to download script file:`, {
         error: downloadError instanceof Error ? downloadError.message : String(downloadError),
         file: data.name,
         bucket: data.bucket
       });
-      throw new Error(`Failed to download PDF: ${downloadError instanceof Error ? downloadError.message : String(downloadError)}`);
+      throw new Error("Failed to download script file: " +
+        `${downloadError instanceof Error ? downloadError.message : String(downloadError)}`);
     }
 
-    await updateProcessingState(scriptId, {
-      status: 'validating',
-      progress: 20,
-    });
-    
-    console.log(`[${scriptId}] Starting PDF validation...`);
-    try {
-      await validatePDF(fileContent);
-      console.log(`[${scriptId}] PDF validation successful`);
-    } catch (validationError) {
-      console.error(`[${scriptId}] PDF validation failed:`, {
-        error: validationError instanceof Error ? validationError.message : String(validationError),
-        stack: validationError instanceof Error ? validationError.stack : undefined,
-        fileSize: fileContent.length
-      });
-      throw validationError;
+    const format = getScriptFormat(data.metadata?.originalName || data.name);
+    if (!format) {
+      throw new Error(`Unsupported script file type: ${data.name}`);
     }
 
-    await updateProcessingState(scriptId, {
-      status: 'processing',
-      progress: 30,
-    });
-
-    console.log(`[${scriptId}] Starting text extraction`);
     let text: string;
-    try {
-    const pdfData = await pdfParse(fileContent);
-      text = pdfData.text;
-      console.log("The text: ", text);
-      if (!text || text.trim().length === 0) {
-        throw new Error('Extracted text is empty');
+    let structuredLines: ClassifiedLine[] | null = null;
+    let pages: ScriptPage[] = [];
+    if (format === "pdf") {
+      await updateProcessingState(scriptId, {
+        status: "validating",
+        progress: 20,
+      });
+
+      console.log(`[${scriptId}] Starting text extraction`);
+      let pdf: PdfText;
+      try {
+        pdf = await extractPdfText(fileContent, scriptId);
+        console.log(`[${scriptId}] Text extracted successfully:`, {
+          pages: pdf.pages.length,
+          ocrPages: pdf.ocr?.ocrPageCount || 0,
+          length: pdf.text.length,
+        });
+      } catch (extractError) {
+        console.error(`[${scriptId}] Text extraction failed:`, {
+          error: extractError instanceof Error ? extractError.message : String(extractError),
+          stack: extractError instanceof Error ? extractError.stack : undefined,
+          fileSize: fileContent.length,
+        });
+        throw new Error("Failed to extract text from PDF: " +
+          `${extractError instanceof Error ? extractError.message : String(extractError)}`);
+      }
+
+      if (pdf.ocr) {
+        await updateProcessingState(scriptId, {
+          status: "validating",
+          progress: 20,
+          ocr: pdf.ocr,
+        });
       }
-    console.log(`[${scriptId}] Text extracted successfully, length: ${text.length} characters`);
-    } catch (extractError) {
-      console.error(`[${scriptId}] Text extraction failed:`, {
-        error: extractError instanceof Error ? extractError.message : String(extractError),
-        stack: extractError instanceof Error ? extractError.stack : undefined,
-        fileSize: fileContent.length
+
+      console.log(`[${scriptId}] Starting PDF validation...`);
+      try {
+        validatePDF(pdf);
+        console.log(`[${scriptId}] PDF validation successful`);
+      } catch (validationError) {
+        console.error(`[${scriptId}] PDF validation failed:`, {
+          error: validationError instanceof Error ? validationError.message : String(validationError),
+          stack: validationError instanceof Error ? validationError.stack : undefined,
+          fileSize: fileContent.length,
+        });
+        throw validationError;
+      }
+
+      // Page numbers, headers and (MORE)/(CONTINUED) would otherwise be read
+      // as script lines, and speeches split by a page break as two speeches.
+      const paginated = removePagination(pdf.pages);
+      text = paginated.text;
+      pages = paginated.pages;
+      console.log(`[${scriptId}] Removed pagination:`, {
+        pages: pages.length,
+        removedLines: paginated.removedLines,
+        stitchedSpeeches: paginated.stitchedSpeeches,
+      });
+
+      await updateProcessingState(scriptId, {
+        status: "processing",
+        progress: 30,
+      });
+    } else {
+      console.log(`[${scriptId}] Parsing ${format} script`);
+      structuredLines = parseStructuredScript(format, fileContent.toString("utf8").replace(/^\uFEFF/, ""));
+      validateStructuredScript(structuredLines);
+      // Line numbers index into the stored content, so store one line per
+      // classified line.
+      text = structuredLines.map((line) => line.text).join("\n");
+
+      await updateProcessingState(scriptId, {
+        status: "processing",
+        progress: 30,
       });
-      throw new Error(`Failed to extract text from PDF: ${extractError instanceof Error ? extractError.message : String(extractError)}`);
     }
 
-    const chunks = chunkText(text);
+    // Structured formats are parsed in one pass so block context is never cut
+    // off at a chunk boundary.
+    const chunks: TextChunk[] = structuredLines ? [{ text, startLine: 0 }] : chunkText(text);
     const totalChunks = chunks.length;
     const totalLines = text.split("\n").length;
     
@@ -1373,65 +1720,95 @@ export async function processUploadedScript(event: StorageObjectMetadata): Promi
       },
     };
 
-    // Initialize OpenAI client
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key is not configured');
+    // The rule-based parser runs on its own; OpenAI is only used for lines it
+    // cannot classify, so a missing key (e.g. in the emulator) is not fatal.
+    const openaiApiKey = OPENAI_API_KEY.value();
+    const openai = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null;
+    if (!openai) {
+      console.warn(`[${scriptId}] OpenAI API key is not configured, using rule-based parsing only`);
     }
 
-    const openai = new OpenAI({
-      apiKey: OPENAI_API_KEY.value(),
-    });
+    const chunkErrors: FailedChunk[] = [];
 
-    const chunkErrors: Array<{ chunk: number; error: string }> = [];
+    // Chunking is deterministic for a given file, so batches saved by an
+    // earlier run of this generation can stand in for their chunks.
+    const savedBatches = await loadSavedBatches(scriptId, generation, totalChunks);
+    if (savedBatches.size > 0) {
+      console.log(`[${scriptId}] Resuming with ${savedBatches.size}/${totalChunks} chunks already analyzed`);
+    }
 
-    // Process chunks and save batches
-    for (let i = 0; i < chunks.length; i++) {
+    // Process chunks and save batches. Chunks run in parallel and finish in
+    // any order; results are merged afterwards in chunk order.
+    const concurrency = Math.max(1, CHUNK_CONCURRENCY.value());
+    let chunksCompleted = 0;
+    console.log(`[${scriptId}] Analyzing ${chunks.length} chunks, ${concurrency} at a time`);
+
+    const chunkAnalyses = await mapWithConcurrency(chunks, concurrency, async (chunk, i) => {
       try {
-        console.log(`[${scriptId}] Processing chunk ${i + 1}/${chunks.length}`);
-        
-        const chunkAnalysis = await analyzeChunk(
-          chunks[i], 
-          i * Math.ceil(totalLines / chunks.length),
-          openai
-        );
-      
-      const batch: CharacterBatch = {
-        batchId: `batch_${i}`,
-        characters: chunkAnalysis.characters,
-          actionLines: chunkAnalysis.actionLines,
-        processed: false,
-        chunkIndex: i,
-        totalChunks,
-      };
+        const saved = savedBatches.get(i);
+        let chunkAnalysis: Omit<ChunkAnalysis, "processedLines">;
+        if (saved) {
+          console.log(`[${scriptId}] Reusing saved batch for chunk ${i + 1}/${chunks.length}`);
+          chunkAnalysis = { ...saved, unattributedLines: saved.unattributedLines || [] };
+        } else {
+          console.log(`[${scriptId}] Processing chunk ${i + 1}/${chunks.length}`);
+
+          chunkAnalysis = structuredLines ?
+            buildChunkAnalysis(structuredLines, totalLines - 1) :
+            await analyzeChunk(chunk.text, chunk.startLine, openai);
+
+          const batch: CharacterBatch = {
+            batchId: `batch_${i}`,
+            characters: chunkAnalysis.characters,
+            actionLines: chunkAnalysis.actionLines,
+            scenes: chunkAnalysis.scenes,
+            metadata: chunkAnalysis.metadata,
+            unattributedLines: chunkAnalysis.unattributedLines,
+            processed: false,
+            chunkIndex: i,
+            totalChunks,
+            generation,
+          };
 
-      await saveBatch(scriptId, batch);
-      
-      // Merge chunk analysis into combined analysis
-      analysis.characters = mergeCharacters(analysis.characters, chunkAnalysis.characters);
-      analysis.scenes = mergeScenes(analysis.scenes, chunkAnalysis.scenes);
-        analysis.actionLines = mergeActionLines(analysis.actionLines, chunkAnalysis.actionLines);
-      analysis.metadata.totalLines += chunkAnalysis.metadata.totalLines;
-      analysis.metadata.estimatedDuration += chunkAnalysis.metadata.estimatedDuration;
-      
-      await updateProcessingState(scriptId, {
-        status: 'processing',
-        progress: 30 + Math.floor((i / chunks.length) * 40),
-        batchesProcessed: i + 1,
-      });
+          await saveBatch(scriptId, batch);
+        }
+
+        chunksCompleted++;
+        await updateProcessingState(scriptId, {
+          status: "processing",
+          progress: 30 + Math.floor((chunksCompleted / chunks.length) * 40),
+          batchesProcessed: chunksCompleted,
+        });
 
         console.log(`[${scriptId}] Chunk ${i + 1}/${chunks.length} processed successfully`);
+        return chunkAnalysis;
       } catch (chunkError) {
         console.error(`[${scriptId}] Error processing chunk ${i + 1}/${chunks.length}:`, {
           error: chunkError instanceof Error ? chunkError.message : String(chunkError),
           stack: chunkError instanceof Error ? chunkError.stack : undefined,
-          chunkSize: chunks[i].length
+          chunkSize: chunk.text.length,
         });
         chunkErrors.push({
-          chunk: i,
+          chunkIndex: i,
+          startLine: chunk.startLine,
+          endLine: chunk.startLine + chunk.text.split("\n").length - 1,
           error: chunkError instanceof Error ? chunkError.message : String(chunkError)
         });
+        return null;
       }
-    }
+    });
+
+    // Merge chunk analysis into combined analysis
+    const unattributedLines: UnattributedLine[] = [];
+    chunkAnalyses.forEach((chunkAnalysis) => {
+      if (!chunkAnalysis) return;
+      unattributedLines.push(...chunkAnalysis.unattributedLines);
+      analysis.characters = mergeCharacters(analysis.characters, chunkAnalysis.characters);
+      analysis.scenes = mergeScenes(analysis.scenes, chunkAnalysis.scenes);
+      analysis.actionLines = mergeActionLines(analysis.actionLines, chunkAnalysis.actionLines);
+      analysis.metadata.totalLines += chunkAnalysis.metadata.totalLines;
+      analysis.metadata.estimatedDuration += chunkAnalysis.metadata.estimatedDuration;
+    });
 
     if (chunkErrors.length > 0) {
       console.warn(`[${scriptId}] Encountered ${chunkErrors.length} errors while processing chunks:`, chunkErrors);
@@ -1444,7 +1821,9 @@ export async function processUploadedScript(event: StorageObjectMetadata): Promi
 
     // Process all batches
     console.log(`[${scriptId}] Starting batch validation`);
-    const validationResults = await processBatches(scriptId, openai);
+    // Character cues in structured formats are explicit, so there is nothing
+    // for the model to second-guess.
+    const validationResults = await processBatches(scriptId, isStructuredFormat(format) ? null : openai);
 
     // After character analysis, perform validation
     if (!analysis.characters || analysis.characters.length === 0) {
@@ -1459,10 +1838,12 @@ export async function processUploadedScript(event: StorageObjectMetadata): Promi
 
     // Filter characters based on validation results
     console.log(`[${scriptId}] Filtering characters based on validation results`);
+    const rejectedCharacters: RejectedCharacter[] = [];
     const validatedCharacters = analysis.characters.filter((char) => {
       const isValid = validationResults?.[char.name];
       if (!isValid) {
         console.log(`[${scriptId}] Removed invalid character: ${char.name}`);
+        rejectedCharacters.push({ name: char.name, lines: char.lines });
         analysis.metadata.totalLines -= char.lines;
       }
       return isValid;
@@ -1490,7 +1871,13 @@ export async function processUploadedScript(event: StorageObjectMetadata): Promi
       analysis,
       validatedCharacters,
       analysis.characters.length,
-      voiceAssignments
+      voiceAssignments,
+      {
+        failedChunks: [...chunkErrors].sort((a, b) => a.chunkIndex - b.chunkIndex),
+        rejectedCharacters,
+        unattributedLines: sampleList(unattributedLines),
+      },
+      pages
     );
 
     console.log(`[${scriptId}] Script processing completed successfully`);
@@ -1520,3 +1907,207 @@ export async function processUploadedScript(event: StorageObjectMetadata): Promi
     throw error;
   }
 }
+
+/**
+ * Re-analyzes source lines `startLine`..`endLine` of a processed script and
+ * replaces whatever the analysis had for them. Lines outside the section,
+ * including any generated voices, are left alone, and lines in it that come
+ * back unchanged keep theirs.
+ * @param {string} scriptId Script ID.
+ * @param {number} startLine First source line of the section.
+ * @param {number} endLine Last source line of the section.
+ * @return {Promise<{processedLines: number}>} Lines the section now has.
+ */
+export async function reprocessScriptSection(
+  scriptId: string,
+  startLine: number,
+  endLine: number
+): Promise<{ processedLines: number }> {
+  const db = admin.firestore();
+  const scriptRef = db.collection("scripts").doc(scriptId);
+  const analysisRef = db.collection("scriptAnalysis").doc(scriptId);
+  const statusRef = db.collection("scriptProcessing").doc(scriptId);
+
+  const [scriptDoc, analysisDoc, statusDoc] = await Promise.all([
+    scriptRef.get(),
+    analysisRef.get(),
+    statusRef.get(),
+  ]);
+  const analysis = scriptDoc.data()?.analysis as ScriptAnalysis | undefined;
+  const content = analysisDoc.data()?.content as string | undefined;
+  if (!analysis?.processedLines || content === undefined) {
+    throw new Error("Script is missing analysis or content data");
+  }
+
+  const sourceLines = content.split("\n");
+  const lastLine = Math.min(endLine, sourceLines.length - 1);
+  const sectionText = sourceLines.slice(startLine, lastLine + 1).join("\n");
+  if (startLine > lastLine || sectionText.trim().length === 0) {
+    throw new Error(`Lines ${startLine}-${endLine} contain no script text`);
+  }
+
+  console.log(`[${scriptId}] Reprocessing lines ${startLine}-${lastLine}`);
+  const openaiApiKey = OPENAI_API_KEY.value();
+  const openai = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null;
+  const section = await analyzeChunk(sectionText, startLine, openai);
+
+  // Names rejected when the script was first processed stay rejected, and
+  // names that have since been renamed, merged or made aliases go to the
+  // character they now belong to. Aliases keep their printed name.
+  const report = statusDoc.data()?.qualityReport as QualityReport | undefined;
+  const rejected = new Set(report?.rejectedCharacters.map((char) => char.name) || []);
+  const nameTargets = new Map<string, { name: string; printed: boolean }>();
+  analysis.characters.forEach((char) => {
+    char.aliases?.forEach((alias) => nameTargets.set(alias, { name: char.name, printed: true }));
+    char.renamedFrom?.forEach((name) => nameTargets.set(name, { name: char.name, printed: false }));
+  });
+  const known = new Set([...analysis.characters.map((char) => char.name), ...nameTargets.keys()]);
+
+  // Names the script has not had before are validated like a first run's
+  const candidates = section.characters.filter((char) => !rejected.has(char.name) && !known.has(char.name));
+  const newlyRejected: RejectedCharacter[] = [];
+  if (openai && candidates.length > 0) {
+    const validation = await validateCharacterNames(scriptId, candidates.map((char) => ({
+      name: char.name,
+      firstLine: char.dialogue[0]?.text || "",
+      totalLines: char.lines,
+      firstAppearance: char.firstAppearance,
+    })), openai);
+    candidates
+      .filter((char) => !validation[char.name])
+      .forEach((char) => {
+        console.log(`[${scriptId}] Removed invalid character: ${char.name}`);
+        newlyRejected.push({ name: char.name, lines: char.lines });
+        rejected.add(char.name);
+      });
+  }
+
+  const { dropped, characters } = await filterDuplicateDialogue(
+    section.characters.filter((char) => !rejected.has(char.name)),
+    section.actionLines
+  );
+
+  // Recordings stay valid while a line keeps its number, speaker and text
+  const voiceKey = (line: ScriptAnalysis["processedLines"][number]) =>
+    `${line.originalLineNumber}\n${line.characterName}\n${line.text}`;
+  const previousVoices = new Map(analysis.processedLines
+    .filter((line) => line.voices || line.cueVoices)
+    .map((line) => [voiceKey(line), line]));
+
+  const pages = (analysisDoc.data()?.pages || []) as ScriptPage[];
+  const sectionLines = assignPageNumbers(await preprocessScriptLines(characters, section.actionLines), pages)
+    .map((line) => {
+      const target = nameTargets.get(line.characterName);
+      if (!target) return line;
+      return {
+        ...line,
+        characterId: target.name,
+        characterName: target.name,
+        ...(target.printed ? { cueName: line.characterName } : {}),
+      };
+    })
+    .map((line) => {
+      const previous = previousVoices.get(voiceKey(line));
+      if (!previous) return line;
+      return {
+        ...line,
+        ...(previous.voices ? { voices: previous.voices } : {}),
+        ...(previous.voiceVolume !== undefined ? { voiceVolume: previous.voiceVolume } : {}),
+        ...(previous.cueVoices ? { cueVoices: previous.cueVoices } : {}),
+      };
+    });
+
+  // Lines split or added in the line editor are kept, and win over what the
+  // source lines they were split from are re-analysed as
+  const inSection = (lineNumber: number) => lineNumber >= startLine && lineNumber <= lastLine;
+  const edited = (line: ScriptAnalysis["processedLines"][number]) =>
+    line.editedFrom !== undefined || !!line.userInserted;
+  const editedSources = new Set(analysis.processedLines.map((line) => line.editedFrom));
+  const processedLines = [
+    ...analysis.processedLines.filter((line) => !inSection(line.originalLineNumber) || edited(line)),
+    ...sectionLines.filter((line) => !editedSources.has(line.originalLineNumber)),
+  ]
+    .sort((a, b) => a.originalLineNumber - b.originalLineNumber)
+    .map((line, index) => ({ ...line, sequentialNumber: index + 1 }));
+
+  // Rebuild everything derived from the processed lines
+  const existing = new Map(analysis.characters.map((char) => [char.name, char]));
+  const rebuilt = new Map<string, ScriptAnalysis["characters"][number]>();
+  processedLines.forEach((line) => {
+    if (line.isAction) return;
+    let char = rebuilt.get(line.characterName);
+    if (!char) {
+      char = {
+        ...existing.get(line.characterName),
+        name: line.characterName,
+        lines: 0,
+        firstAppearance: line.originalLineNumber,
+        dialogue: [],
+      };
+      rebuilt.set(line.characterName, char);
+    }
+    char.dialogue.push({
+      text: line.text,
+      lineNumber: line.originalLineNumber,
+      sequentialNumber: line.sequentialNumber,
+      ...(line.voices ? { voices: line.voices } : {}),
+      ...(line.extensions ? { extensions: line.extensions } : {}),
+      ...(line.cueName ? { cueName: line.cueName } : {}),
+      ...(line.parentheticals ? { parentheticals: line.parentheticals } : {}),
+      ...(line.dualGroup !== undefined ? { dualGroup: line.dualGroup } : {}),
+    });
+    char.lines++;
+  });
+
+  const updated: ScriptAnalysis = {
+    ...analysis,
+    characters: Array.from(rebuilt.values()),
+    scenes: buildSceneBreakdown(
+      mergeScenes((analysis.scenes || []).filter((scene) => !inSection(scene.startLine)), section.scenes),
+      processedLines,
+      sourceLines.length - 1,
+      pages
+    ),
+    actionLines: processedLines
+      .filter((line) => line.isAction)
+      .map((line) => ({
+        text: line.text,
+        lineNumber: line.originalLineNumber,
+        sequentialNumber: line.sequentialNumber,
+      })),
+    processedLines,
+    metadata: {
+      ...analysis.metadata,
+      totalLines: processedLines.length,
+      estimatedDuration: Math.ceil(processedLines.length / 60),
+    },
+  };
+
+  const batch = db.batch();
+  batch.update(scriptRef, {
+    analysis: updated,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.set(analysisRef, { analysis: updated }, { merge: true });
+  batch.set(statusRef, {
+    lineValidation: validateLineNumbers(content, processedLines),
+    ...(report ? {
+      qualityReport: {
+        ...applyReprocessedSection(report, startLine, lastLine, {
+          droppedDialogue: dropped,
+          unattributedLines: section.unattributedLines,
+        }),
+        rejectedCharacters: [...report.rejectedCharacters, ...newlyRejected],
+      },
+    } : {}),
+  }, { merge: true });
+  await batch.commit();
+
+  console.log(`[${scriptId}] Reprocessed lines ${startLine}-${lastLine}:`, {
+    sectionLines: sectionLines.length,
+    totalLines: processedLines.length,
+    rejectedCharacters: newlyRejected.length,
+  });
+
+  return { processedLines: sectionLines.length };
+}
@@ -0,0 +1,60 @@
+/**
+ * When a script processing run can be taken over. A run refreshes the
+ * timestamp on its `scriptProcessing` document as it goes, so one that has
+ * been quiet for longer than the function timeout was stopped, by the timeout
+ * or a crash, without getting to record an error.
+ */
+
+// Matches the processScript and retryScriptProcessing timeouts
+export const PROCESSING_LEASE_MS = 540 * 1000;
+
+interface Timestamp {
+  toMillis(): number;
+}
+
+/** The parts of a `scriptProcessing` document a claim looks at. */
+export interface ProcessingLeaseState {
+  status?: string;
+  generation?: string;
+  attempts?: number;
+  timestamp?: Timestamp;
+  /** Written by the app when it starts an upload, before any run. */
+  updatedAt?: Timestamp;
+}
+
+/**
+ * Whether processing has stopped without completing: it failed, or its run
+ * has not been heard from within the lease.
+ * @param {ProcessingLeaseState | undefined} state Processing state.
+ * @param {number} now Current time in milliseconds.
+ * @return {boolean} True when a new run may take the script over.
+ */
+export function isProcessingStale(state: ProcessingLeaseState | undefined, now = Date.now()): boolean {
+  if (!state || state.status === "completed") return false;
+  if (state.status === "error") return true;
+  const lastActivity = (state.timestamp ?? state.updatedAt)?.toMillis() ?? 0;
+  return now - lastActivity >= PROCESSING_LEASE_MS;
+}
+
+/**
+ * Decides whether a run may process an upload generation. Storage may
+ * deliver the same finalize event more than once, and a stopped run can be
+ * retried, so a run only proceeds when the generation has not completed and
+ * no other run holds the lease on it.
+ * @param {ProcessingLeaseState | undefined} state Processing state.
+ * @param {string} generation Upload generation to process.
+ * @param {number} now Current time in milliseconds.
+ * @return {{resume: boolean, attempt: number} | null} Whether to resume the
+ *     generation's saved batches, or null when the run should not proceed.
+ */
+export function planProcessingClaim(
+  state: ProcessingLeaseState | undefined,
+  generation: string,
+  now = Date.now()
+): { resume: boolean; attempt: number } | null {
+  const sameGeneration = state?.generation === generation;
+  if (sameGeneration && (state?.status === "completed" || !isProcessingStale(state, now))) {
+    return null;
+  }
+  return { resume: sameGeneration, attempt: sameGeneration ? (state?.attempts ?? 0) + 1 : 1 };
+}
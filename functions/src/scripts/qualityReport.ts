@@ -0,0 +1,143 @@
+/**
+ * Processing quality report stored in `scriptProcessing/{id}.qualityReport`.
+ *
+ * Processing keeps going when parts of a script cannot be read, so the
+ * report records everything that was skipped or dropped along the way. The
+ * app shows it on the script so actors can reprocess those sections before
+ * they find the gaps mid-rehearsal.
+ */
+
+export interface FailedChunk {
+  chunkIndex: number;
+  startLine: number;
+  endLine: number;
+  error: string;
+}
+
+export interface RejectedCharacter {
+  name: string;
+  lines: number;
+}
+
+export interface DroppedDialogue {
+  characterName: string;
+  lineNumber: number;
+  text: string;
+}
+
+export interface UnattributedLine {
+  lineNumber: number;
+  text: string;
+}
+
+/** A list that is counted in full but only sampled up to a limit. */
+export interface SampledList<T> {
+  count: number;
+  items: T[];
+  /**
+   * Line of every item, sampled or not, so reprocessing a section can count
+   * out exactly the items it replaces. Missing from older reports.
+   */
+  lineNumbers?: number[];
+}
+
+export interface QualityReport {
+  failedChunks: FailedChunk[];
+  rejectedCharacters: RejectedCharacter[];
+  /** Dialogue removed because an action line had the same line number. */
+  droppedDialogue: SampledList<DroppedDialogue>;
+  /** Dialogue lines that came before any character cue. */
+  unattributedLines: SampledList<UnattributedLine>;
+}
+
+const MAX_REPORTED_ITEMS = 50;
+
+const PREVIEW_LENGTH = 80;
+
+/**
+ * Shortens text for the report.
+ * @param {string} text Full text.
+ * @return {string} Text cut to a preview length.
+ */
+export function previewText(text: string): string {
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}...` : text;
+}
+
+/**
+ * Counts every item and keeps the first ones in line order.
+ * @param {T[]} items Items to sample.
+ * @return {SampledList<T>} Count and sample.
+ */
+export function sampleList<T extends { lineNumber: number }>(items: T[]): SampledList<T> {
+  const sorted = [...items].sort((a, b) => a.lineNumber - b.lineNumber);
+  return {
+    count: items.length,
+    items: sorted.slice(0, MAX_REPORTED_ITEMS),
+    lineNumbers: sorted.map((item) => item.lineNumber),
+  };
+}
+
+/**
+ * Whether a report has anything worth showing.
+ * @param {QualityReport} report Report to check.
+ * @return {boolean} True when something was skipped or dropped.
+ */
+export function hasQualityIssues(report: QualityReport): boolean {
+  return report.failedChunks.length > 0 ||
+    report.rejectedCharacters.length > 0 ||
+    report.droppedDialogue.count > 0 ||
+    report.unattributedLines.count > 0;
+}
+
+/**
+ * Replaces the in-section entries of a sampled list with `found`. Reports
+ * without line numbers can only count out the sampled entries.
+ * @param {SampledList<T>} list List before reprocessing.
+ * @param {Function} inSection Whether a line number is inside the section.
+ * @param {T[]} found Entries found in the section this time.
+ * @return {SampledList<T>} Updated list.
+ */
+function replaceSection<T extends { lineNumber: number }>(
+  list: SampledList<T>,
+  inSection: (lineNumber: number) => boolean,
+  found: T[]
+): SampledList<T> {
+  const outside = list.items.filter((item) => !inSection(item.lineNumber));
+  const items = sampleList([...outside, ...found]).items;
+  if (!list.lineNumbers) {
+    const removed = list.items.length - outside.length;
+    return { count: Math.max(0, list.count - removed) + found.length, items };
+  }
+
+  const lineNumbers = [
+    ...list.lineNumbers.filter((lineNumber) => !inSection(lineNumber)),
+    ...found.map((item) => item.lineNumber),
+  ].sort((a, b) => a - b);
+  return { count: lineNumbers.length, items, lineNumbers };
+}
+
+/**
+ * Updates a report after lines `startLine`..`endLine` were reprocessed:
+ * failed chunks inside the section are cleared and the section's dropped
+ * and unattributed lines are replaced with the ones found this time.
+ * @param {QualityReport} report Report before reprocessing.
+ * @param {number} startLine First reprocessed line.
+ * @param {number} endLine Last reprocessed line.
+ * @param {object} found Dropped and unattributed lines found in the section.
+ * @return {QualityReport} Updated report.
+ */
+export function applyReprocessedSection(
+  report: QualityReport,
+  startLine: number,
+  endLine: number,
+  found: { droppedDialogue: DroppedDialogue[]; unattributedLines: UnattributedLine[] }
+): QualityReport {
+  const inSection = (lineNumber: number) => lineNumber >= startLine && lineNumber <= endLine;
+
+  return {
+    ...report,
+    failedChunks: report.failedChunks.filter((chunk) => chunk.startLine < startLine || chunk.endLine > endLine),
+    droppedDialogue: replaceSection(report.droppedDialogue, inSection, found.droppedDialogue),
+    unattributedLines: replaceSection(report.unattributedLines, inSection, found.unattributedLines),
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Scene breakdown: what each heading says, who is in each scene, how many
+ * lines they have there and how long the scene runs in page-eighths, the
+ * unit schedules and call sheets use.
+ */
+import { ScriptPage } from "./pagination";
+
+export type SceneSetting = "INT" | "EXT" | "INT/EXT";
+
+export interface SceneHeading {
+  /** Heading without scene numbers. */
+  name: string;
+  setting?: SceneSetting;
+  location?: string;
+  timeOfDay?: string;
+  sceneNumber?: string;
+}
+
+export interface SceneCastMember {
+  name: string;
+  lines: number;
+}
+
+export interface BreakdownScene {
+  name: string;
+  startLine: number;
+  endLine: number;
+  location?: string;
+  timeOfDay?: string;
+  sceneNumber?: string;
+  revisionColors?: string[];
+  setting?: SceneSetting;
+  /** Speaking characters in order of their first line in the scene. */
+  cast?: SceneCastMember[];
+  /** Length in eighths of a page, at least 1. */
+  eighths?: number;
+}
+
+interface BreakdownLine {
+  characterName: string;
+  text: string;
+  originalLineNumber: number;
+  isAction?: boolean;
+}
+
+const SETTING_PATTERN = /^(INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\/E|INT|EXT|EST)\.?\s*/i;
+
+// Scene numbers print before and often after the heading, e.g. "12A INT. HALL - DAY 12A".
+// A trailing number alone is not taken as one: "DAY 2" is a time of day.
+const LEADING_NUMBER_PATTERN = /^(\d+[A-Z]{0,2})[.)]?\s+/i;
+const TRAILING_NUMBER_PATTERN = /\s+(\d+[A-Z]{0,2})\.?$/i;
+
+const TIMES_OF_DAY = [
+  "CONTINUOUS", "MOMENTS LATER", "LATER", "SAME TIME", "SAME", "DAY", "NIGHT", "MORNING", "AFTERNOON",
+  "EVENING", "DAWN", "DUSK", "SUNRISE", "SUNSET", "MAGIC HOUR", "NOON", "MIDNIGHT", "PRE-DAWN",
+];
+
+const TIME_OF_DAY_PATTERN = new RegExp(`^(?:(?:EARLY|LATE)\\s+)?(?:${TIMES_OF_DAY.join("|")})\\b`, "i");
+
+// Heading parts are separated by dashes; location parts can contain hyphens
+// without spaces ("SIDE-STREET").
+const PART_SEPARATOR = /\s+[-–—]+\s+|\s*--\s*/;
+
+// Formatted script page: 54 lines of 60 characters of action, dialogue in a
+// 35 character column. Used when the script has no real pages.
+const LINES_PER_PAGE = 54;
+const ACTION_WIDTH = 60;
+const DIALOGUE_WIDTH = 35;
+
+/**
+ * Splits a scene heading into its setting, location and time of day.
+ * @param {string} heading Heading as printed.
+ * @return {SceneHeading} Parsed heading.
+ */
+export function parseSceneHeading(heading: string): SceneHeading {
+  let name = heading.trim();
+  let sceneNumber: string | undefined;
+
+  const leading = name.match(LEADING_NUMBER_PATTERN);
+  if (leading && SETTING_PATTERN.test(name.slice(leading[0].length))) {
+    sceneNumber = leading[1].toUpperCase();
+    name = name.slice(leading[0].length);
+  }
+  const trailing = name.match(TRAILING_NUMBER_PATTERN);
+  if (trailing && trailing[1].toUpperCase() === sceneNumber) {
+    name = name.slice(0, trailing.index).trim();
+  }
+
+  const result: SceneHeading = { name };
+  if (sceneNumber) result.sceneNumber = sceneNumber;
+
+  let rest = name.replace(/^\./, "");
+  const setting = rest.match(SETTING_PATTERN);
+  if (setting) {
+    const prefix = setting[1].toUpperCase().replace(/[.\s]/g, "");
+    if (prefix !== "EST") {
+      result.setting = prefix === "INT" || prefix === "EXT" ? prefix : "INT/EXT";
+    }
+    rest = rest.slice(setting[0].length);
+  }
+
+  const parts = rest.split(PART_SEPARATOR).map((part) => part.trim()).filter(Boolean);
+  // Time of day is the last part that reads like one; anything after it
+  // ("(FLASHBACK)", "- 1985") stays with it.
+  let timeIndex = -1;
+  parts.forEach((part, index) => {
+    if (index > 0 && TIME_OF_DAY_PATTERN.test(part)) timeIndex = index;
+  });
+  const locationParts = timeIndex === -1 ? parts : parts.slice(0, timeIndex);
+  if (locationParts.length > 0) result.location = locationParts.join(" - ");
+  if (timeIndex !== -1) result.timeOfDay = parts.slice(timeIndex).join(" - ");
+
+  return result;
+}
+
+/**
+ * Estimated printed height of a line in a formatted script, including the
+ * blank line after it and a dialogue line's cue.
+ * @param {BreakdownLine} line Processed line.
+ * @return {number} Printed lines.
+ */
+function printedLines(line: BreakdownLine): number {
+  if (line.isAction) {
+    return Math.ceil(line.text.length / ACTION_WIDTH) + 1;
+  }
+  return Math.ceil(line.text.length / DIALOGUE_WIDTH) + 2;
+}
+
+/**
+ * Page-eighths a span of source lines covers, measured against real pages.
+ * @param {number} startLine First source line.
+ * @param {number} endLine Last source line.
+ * @param {ScriptPage[]} pages Page starts in order.
+ * @param {number} lastLine Last source line of the script.
+ * @return {number} Unrounded eighths.
+ */
+function eighthsOnPages(startLine: number, endLine: number, pages: ScriptPage[], lastLine: number): number {
+  return pages.reduce((total, page, index) => {
+    const pageEnd = index + 1 < pages.length ? pages[index + 1].startLine - 1 : lastLine;
+    const pageLength = pageEnd - page.startLine + 1;
+    const overlap = Math.min(endLine, pageEnd) - Math.max(startLine, page.startLine) + 1;
+    return pageLength > 0 && overlap > 0 ? total + (overlap / pageLength) * 8 : total;
+  }, 0);
+}
+
+/**
+ * Speaking characters in a span of lines with their line counts.
+ * @param {BreakdownLine[]} lines Processed lines.
+ * @param {number} startLine First source line of the scene.
+ * @param {number} endLine Last source line of the scene.
+ * @return {SceneCastMember[]} Cast in order of first line.
+ */
+function sceneCast(lines: BreakdownLine[], startLine: number, endLine: number): SceneCastMember[] {
+  const cast = new Map<string, SceneCastMember>();
+  [...lines]
+    .sort((a, b) => a.originalLineNumber - b.originalLineNumber)
+    .forEach((line) => {
+      if (line.isAction || line.originalLineNumber < startLine || line.originalLineNumber > endLine) return;
+      const member = cast.get(line.characterName) || { name: line.characterName, lines: 0 };
+      member.lines++;
+      cast.set(line.characterName, member);
+    });
+  return Array.from(cast.values());
+}
+
+/**
+ * Recounts each scene's cast after lines change speaker, keeping the rest of
+ * the breakdown.
+ * @param {T[]} scenes Scenes with a breakdown.
+ * @param {BreakdownLine[]} lines Processed lines after the change.
+ * @return {T[]} Scenes with their cast updated.
+ */
+export function updateSceneCast<T extends BreakdownScene>(scenes: T[], lines: BreakdownLine[]): T[] {
+  return scenes.map((scene) => ({ ...scene, cast: sceneCast(lines, scene.startLine, scene.endLine) }));
+}
+
+/**
+ * Fills in each scene's heading details, cast, line counts and length.
+ * Scenes run until the next heading, so scenes cut at chunk boundaries are
+ * joined back up.
+ * @param {T[]} scenes Scenes in any order.
+ * @param {BreakdownLine[]} lines Processed lines.
+ * @param {number} lastLine Last source line of the script.
+ * @param {ScriptPage[]} pages Page starts; lengths are estimated from the
+ *   text when empty.
+ * @return {T[]} Scenes in order with their breakdown.
+ */
+export function buildSceneBreakdown<T extends BreakdownScene>(
+  scenes: T[],
+  lines: BreakdownLine[],
+  lastLine: number,
+  pages: ScriptPage[] = []
+): T[] {
+  const sorted = [...scenes].sort((a, b) => a.startLine - b.startLine);
+  const byLine = [...lines].sort((a, b) => a.originalLineNumber - b.originalLineNumber);
+
+  return sorted.map((scene, index) => {
+    const endLine = index + 1 < sorted.length ? sorted[index + 1].startLine - 1 : Math.max(lastLine, scene.endLine);
+    const sceneLines = byLine.filter(
+      (line) => line.originalLineNumber >= scene.startLine && line.originalLineNumber <= endLine
+    );
+
+    const eighths = pages.length > 0 ?
+      eighthsOnPages(scene.startLine, endLine, pages, lastLine) :
+      // The heading takes two printed lines
+      ((sceneLines.reduce((total, line) => total + printedLines(line), 0) + 2) / LINES_PER_PAGE) * 8;
+
+    const heading = parseSceneHeading(scene.name);
+    const result: T = {
+      ...scene,
+      name: heading.name,
+      endLine,
+      cast: sceneCast(sceneLines, scene.startLine, endLine),
+      eighths: Math.max(1, Math.round(eighths)),
+    };
+    const sceneNumber = scene.sceneNumber || heading.sceneNumber;
+    if (sceneNumber) result.sceneNumber = sceneNumber;
+    if (heading.setting) result.setting = heading.setting;
+    if (heading.location) result.location = heading.location;
+    if (heading.timeOfDay) result.timeOfDay = heading.timeOfDay;
+    return result;
+  });
+}
@@ -0,0 +1,257 @@
+/**
+ * Rule-based screenplay line classifier.
+ *
+ * Classifies raw script text into scene headings, character cues,
+ * parentheticals, dialogue, transitions and action without calling out to an
+ * LLM. Lines the rules cannot decide on are returned as `ambiguous` together
+ * with a fallback type, so callers can optionally resolve them with a model.
+ */
+
+export type ScreenplayLineType =
+  | "scene_heading"
+  | "character"
+  | "parenthetical"
+  | "dialogue"
+  | "transition"
+  | "action"
+  | "blank"
+  | "omitted";
+
+export interface ClassifiedLine {
+  lineNumber: number;
+  text: string;
+  type: ScreenplayLineType;
+  /** Set for character cues and for the lines spoken under them. */
+  characterName?: string;
+  /** True when the rules could not decide and `type` is only a fallback. */
+  ambiguous?: boolean;
+  /** Scene number printed alongside a heading, e.g. "12A". */
+  sceneNumber?: string;
+  /** Character cue marked as speaking simultaneously with the previous one. */
+  dual?: boolean;
+  /** Action line that is centred on the page. */
+  centered?: boolean;
+  /** Revision sets (e.g. "Blue") the line was changed in. */
+  revisions?: string[];
+}
+
+/**
+ * Actor direction inside a speech, e.g. "(whispering)" or "(beat)", stored
+ * without its parentheses. `position` is the character offset in the speech
+ * text the direction comes before; the text length for a closing direction.
+ */
+export interface Parenthetical {
+  text: string;
+  position: number;
+}
+
+const SCENE_HEADING_PATTERN =
+  /^(\d+[A-Z]?[.)]?\s+)?(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]/i;
+
+const TRANSITION_PATTERN =
+  /^(FADE (IN|OUT)|FADE TO BLACK|CUT TO|SMASH CUT|MATCH CUT|JUMP CUT|DISSOLVE TO|WIPE TO|IRIS (IN|OUT)|BACK TO)\b/;
+
+const CHARACTER_CUE_PATTERN = /^[A-Z0-9][A-Z0-9 .'\-&#]*[A-Z0-9.'](\s*\([^)]*\))*(\s*\^)?$/;
+
+const MAX_CHARACTER_CUE_LENGTH = 40;
+
+// Indentation (in columns) at which dialogue usually sits in a formatted screenplay.
+const DIALOGUE_INDENT = 8;
+
+const isUpperCase = (text: string): boolean =>
+  /[A-Z]/.test(text) && text === text.toUpperCase();
+
+const leadingWhitespace = (line: string): number => line.length - line.trimStart().length;
+
+export const isSceneHeading = (text: string): boolean =>
+  isUpperCase(text) && SCENE_HEADING_PATTERN.test(text);
+
+export const isTransition = (text: string): boolean =>
+  isUpperCase(text) && (TRANSITION_PATTERN.test(text) || /\bTO:$/.test(text));
+
+export const isParenthetical = (text: string): boolean =>
+  text.startsWith("(") && text.endsWith(")");
+
+export const isCharacterCue = (text: string): boolean =>
+  text.length >= 2 &&
+  text.length <= MAX_CHARACTER_CUE_LENGTH &&
+  isUpperCase(text) &&
+  CHARACTER_CUE_PATTERN.test(text) &&
+  !/^[0-9\s.]*$/.test(text) &&
+  !isSceneHeading(text) &&
+  !isTransition(text);
+
+// Common cue extensions, keyed by their letters only so that "V.O", "VO" and
+// "V.O." all map to the same canonical form.
+const CUE_EXTENSIONS: Record<string, string> = {
+  "VO": "V.O.",
+  "OS": "O.S.",
+  "OC": "O.C.",
+  "CONTD": "CONT'D",
+  "CONT": "CONT'D",
+  "CONTINUING": "CONT'D",
+};
+
+/**
+ * Separates a character cue into the character's name and its extensions,
+ * e.g. "JOHN (V.O.) (CONT'D)" into "JOHN" and ["V.O.", "CONT'D"].
+ * @param {string} cue Character cue as printed.
+ * @return {{name: string, extensions: string[]}} Bare name and extensions.
+ */
+export function splitCharacterCue(cue: string): { name: string; extensions: string[] } {
+  const extensions: string[] = [];
+  let name = cue.replace(/\s*\^$/, "").trim();
+
+  let match = name.match(/\s*\(([^()]*)\)\s*$/);
+  while (match) {
+    const extension = match[1].trim().toUpperCase();
+    const letters = extension.replace(/[^A-Z]/g, "");
+    if (extension.length > 0) {
+      extensions.unshift(CUE_EXTENSIONS[letters] || extension);
+    }
+    name = name.slice(0, match.index).trim();
+    match = name.match(/\s*\(([^()]*)\)\s*$/);
+  }
+
+  // Some scripts print the continuation marker without parentheses.
+  name = name.replace(/\s+CONT[\u2019']?D\.?$/i, () => {
+    extensions.push("CONT'D");
+    return "";
+  }).trim();
+
+  return name ? { name, extensions } : { name: cue.trim(), extensions: [] };
+}
+
+const nextNonBlank = (lines: string[], index: number): string | null => {
+  for (let i = index + 1; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed.length > 0) return trimmed;
+  }
+  return null;
+};
+
+/**
+ * Classifies every line of a screenplay chunk.
+ * @param {string} text Raw chunk text.
+ * @param {number} startLine Absolute line number of the first line in the chunk.
+ * @return {ClassifiedLine[]} One entry per input line, in order.
+ */
+export function classifyScreenplayLines(text: string, startLine: number): ClassifiedLine[] {
+  const lines = text.split("\n");
+  const nonBlank = lines.filter((line) => line.trim().length > 0);
+
+  // PDF text extraction frequently drops the blank lines that separate blocks.
+  // When that happens a speech can only be ended reliably by indentation.
+  const blankLineRatio = lines.length > 0 ? (lines.length - nonBlank.length) / lines.length : 0;
+  const hasBlockSpacing = blankLineRatio >= 0.15;
+  // Only counts when speeches are indented, not just their cues, as in stage
+  // plays with centred names
+  const hasIndentation = lines.some((line, index) => {
+    if (!isCharacterCue(line.trim())) return false;
+    const following = lines.slice(index + 1).find((next) => next.trim().length > 0);
+    return following !== undefined && leadingWhitespace(following) >= DIALOGUE_INDENT;
+  });
+
+  const classified: ClassifiedLine[] = [];
+  let speaker: string | null = null;
+  let previousType: ScreenplayLineType = "blank";
+  // Inside a parenthetical that wraps onto the next line
+  let openParenthetical = false;
+
+  lines.forEach((line, index) => {
+    const lineNumber = startLine + index;
+    const trimmed = line.trim();
+
+    const push = (entry: Omit<ClassifiedLine, "lineNumber" | "text">) => {
+      classified.push({ lineNumber, text: trimmed, ...entry });
+      previousType = entry.type;
+    };
+
+    if (trimmed.length === 0) {
+      speaker = null;
+      openParenthetical = false;
+      push({ type: "blank" });
+      return;
+    }
+
+    if (isSceneHeading(trimmed)) {
+      speaker = null;
+      push({ type: "scene_heading" });
+      return;
+    }
+
+    if (isTransition(trimmed)) {
+      speaker = null;
+      push({ type: "transition" });
+      return;
+    }
+
+    const inSpeech = speaker !== null &&
+      (previousType === "character" || previousType === "parenthetical" || previousType === "dialogue");
+    if (!inSpeech) {
+      openParenthetical = false;
+    }
+
+    // A direction can wrap onto the following lines until it closes
+    const opensParenthetical = trimmed.startsWith("(") && !trimmed.includes(")");
+    if (inSpeech && (openParenthetical || opensParenthetical || isParenthetical(trimmed))) {
+      openParenthetical = (openParenthetical || opensParenthetical) && !trimmed.includes(")");
+      push({ type: "parenthetical", characterName: speaker ?? undefined });
+      return;
+    }
+
+    if (isCharacterCue(trimmed)) {
+      const following = nextNonBlank(lines, index);
+      const followedBySpeech = following !== null &&
+        !isSceneHeading(following) &&
+        !isTransition(following) &&
+        (!isUpperCase(following) || isParenthetical(following));
+
+      if (followedBySpeech) {
+        speaker = trimmed;
+        // Fountain-style "^" marks a cue speaking alongside the previous one
+        push({ type: "character", characterName: trimmed, ...(trimmed.endsWith("^") ? { dual: true } : {}) });
+        return;
+      }
+
+      // Upper-case line with nothing spoken after it: a shot, a sound cue, or a
+      // cue whose dialogue landed in the next chunk. Leave it for review.
+      speaker = null;
+      push({ type: "action", ambiguous: true });
+      return;
+    }
+
+    if (inSpeech && speaker) {
+      if (previousType === "character" || previousType === "parenthetical") {
+        push({ type: "dialogue", characterName: speaker });
+        return;
+      }
+
+      // Continuation of a speech. With blank-line spacing or indentation we can
+      // tell where the speech ends; without either the line could be action.
+      if (hasIndentation) {
+        if (leadingWhitespace(line) >= DIALOGUE_INDENT) {
+          push({ type: "dialogue", characterName: speaker });
+        } else {
+          speaker = null;
+          push({ type: "action" });
+        }
+        return;
+      }
+
+      push({ type: "dialogue", characterName: speaker, ambiguous: !hasBlockSpacing });
+      return;
+    }
+
+    speaker = null;
+    // Indented like a speech with no cue above it: the cue was lost in
+    // extraction or is at the end of the previous chunk
+    if (hasIndentation && leadingWhitespace(line) >= DIALOGUE_INDENT && !isUpperCase(trimmed)) {
+      push({ type: "dialogue", ambiguous: true });
+      return;
+    }
+    push({ type: "action" });
+  });
+
+  return classified;
+}
@@ -0,0 +1,75 @@
+/**
+ * Reading a PDF page's text layer as plain text lines, and deciding which
+ * pages have too little of one to use.
+ *
+ * A text layer is a list of positioned strings. Screenplays tell speeches
+ * from action by how far they are indented, so lines keep their distance
+ * from the page's left-most line as leading spaces.
+ */
+
+export interface TextItem {
+  str: string;
+  /** PDF transform matrix; [4] and [5] are the x and y of the baseline. */
+  transform: number[];
+  /** Advance width of the string in page units, when pdf.js reports it. */
+  width?: number;
+}
+
+// Courier 12pt, the screenplay standard, when the layer has no widths
+const DEFAULT_CHARACTER_WIDTH = 7.2;
+
+/** Pages with fewer non-whitespace characters than this are treated as scans. */
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+/**
+ * Average character width on a page, for turning positions into columns.
+ * @param {TextItem[]} items Text layer items.
+ * @return {number} Width of one character in page units.
+ */
+function characterWidth(items: TextItem[]): number {
+  const measured = items.filter((item) => item.width && item.str.length > 0);
+  const characters = measured.reduce((total, item) => total + item.str.length, 0);
+  const width = measured.reduce((total, item) => total + (item.width ?? 0), 0);
+  return characters > 0 && width > 0 ? width / characters : DEFAULT_CHARACTER_WIDTH;
+}
+
+/**
+ * Joins text items into lines, starting a new line whenever the baseline
+ * moves, and indents each line by its offset from the left-most line.
+ * @param {TextItem[]} items Text layer items in reading order.
+ * @return {string} Page text.
+ */
+export function layoutTextItems(items: TextItem[]): string {
+  const lines: Array<{ x: number; text: string }> = [];
+  let lastY: number | undefined;
+  for (const item of items) {
+    const y = item.transform[5];
+    if (lastY === undefined || lastY !== y) {
+      lines.push({ x: item.transform[4], text: item.str });
+    } else {
+      lines[lines.length - 1].text += item.str;
+    }
+    lastY = y;
+  }
+
+  const written = lines.filter((line) => line.text.trim().length > 0);
+  if (written.length === 0) return lines.map((line) => line.text).join("\n");
+  const left = Math.min(...written.map((line) => line.x));
+  const width = characterWidth(items);
+  return lines.map((line) => {
+    if (line.text.trim().length === 0) return line.text;
+    const columns = Math.max(0, Math.round((line.x - left) / width));
+    return " ".repeat(columns) + line.text;
+  }).join("\n");
+}
+
+/**
+ * Pages whose text layer is too thin to be the script text: scans,
+ * photographed sides, or pages with only a stamped page number.
+ * @param {string[]} layers Text layer of each page, in order.
+ * @return {number[]} 1-based numbers of the pages to OCR.
+ */
+export function pagesNeedingOcr(layers: string[]): number[] {
+  return layers.flatMap((text, index) =>
+    text.replace(/\s/g, "").length < MIN_TEXT_LAYER_CHARS ? [index + 1] : []);
+}
@@ -0,0 +1,140 @@
+/**
+ * Text-to-speech providers. Each voice in the catalogue names the provider
+ * that speaks it: OpenAI's speech API, or espeak-ng run on the function's
+ * machine, which needs no key or network and so works in the emulator and in
+ * tests. Setting TTS_PROVIDER=local sends every voice to the local engine,
+ * with OpenAI voices swapped for a local one of the same gender.
+ */
+import { execFile } from "child_process";
+import { OpenAI } from "openai";
+import { VoiceProviderId, findVoice, voicesFor } from "./voices";
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  /** 1 is normal speed. */
+  speed?: number;
+}
+
+export interface TtsProvider {
+  id: VoiceProviderId;
+  /** Format of the audio the provider returns. */
+  contentType: string;
+  /** File extension for the audio, without the dot. */
+  extension: string;
+  synthesize(request: SpeechRequest): Promise<Buffer>;
+}
+
+/** File extension of each provider's audio, without the dot. */
+export const AUDIO_EXTENSIONS: Record<VoiceProviderId, string> = {
+  openai: "mp3",
+  local: "wav",
+};
+
+/** Picks the provider for a voice and the voice it should use there. */
+export type TtsResolver = (voice: string) => { provider: TtsProvider; voice: string };
+
+type OpenAiVoice = Parameters<OpenAI["audio"]["speech"]["create"]>[0]["voice"];
+
+// espeak-ng voice variant for each local voice
+const ESPEAK_VOICES: Record<string, string> = {
+  "local-male": "en-us+m3",
+  "local-female": "en-us+f3",
+};
+const ESPEAK_WORDS_PER_MINUTE = 175;
+const ESPEAK_TIMEOUT_MS = 30000;
+
+/**
+ * Whether an error is the speech service turning down its credentials, which
+ * no retry or later line will get past.
+ * @param {unknown} error Error thrown by a provider.
+ * @return {boolean} True for 401s and invalid-key error codes.
+ */
+export function isAuthenticationError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const { status, code } = error as { status?: number; code?: string };
+  return status === 401 || code === "invalid_api_key";
+}
+
+/**
+ * Speech from OpenAI's tts-1 model.
+ * @param {OpenAI} openai API client.
+ * @return {TtsProvider} Provider.
+ */
+export function createOpenAiProvider(openai: OpenAI): TtsProvider {
+  return {
+    id: "openai",
+    contentType: "audio/mpeg",
+    extension: AUDIO_EXTENSIONS.openai,
+    async synthesize({ text, voice, speed }) {
+      const response = await openai.audio.speech.create({
+        model: "tts-1",
+        voice: voice as OpenAiVoice,
+        input: text,
+        speed,
+      });
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
+
+/**
+ * Speech from espeak-ng, run as a subprocess. The binary is found on the
+ * PATH unless ESPEAK_NG_PATH says where it is.
+ * @param {string} command espeak-ng binary.
+ * @return {TtsProvider} Provider.
+ */
+export function createLocalProvider(command = process.env.ESPEAK_NG_PATH || "espeak-ng"): TtsProvider {
+  return {
+    id: "local",
+    contentType: "audio/wav",
+    extension: AUDIO_EXTENSIONS.local,
+    synthesize({ text, voice, speed = 1 }) {
+      const args = [
+        "-v", ESPEAK_VOICES[voice] || ESPEAK_VOICES["local-female"],
+        "-s", String(Math.round(ESPEAK_WORDS_PER_MINUTE * speed)),
+        "--stdout",
+        "--", text,
+      ];
+      return new Promise((resolve, reject) => {
+        execFile(command, args, {
+          encoding: "buffer",
+          timeout: ESPEAK_TIMEOUT_MS,
+          maxBuffer: 64 * 1024 * 1024,
+        }, (error, stdout, stderr) => {
+          if (error) {
+            const detail = stderr.toString().trim();
+            reject(new Error(`Local speech engine failed: ${detail || error.message}`));
+            return;
+          }
+          resolve(stdout);
+        });
+      });
+    },
+  };
+}
+
+/**
+ * Resolver over the configured providers. Without an OpenAI client, or with
+ * TTS_PROVIDER=local, OpenAI voices are read by the local engine instead.
+ * @param {OpenAI | null} openai API client, if there is a key.
+ * @return {TtsResolver} Resolver.
+ */
+export function createTtsResolver(openai: OpenAI | null): TtsResolver {
+  const local = createLocalProvider();
+  const remote = openai && process.env.TTS_PROVIDER !== "local" ? createOpenAiProvider(openai) : null;
+
+  return (voice) => {
+    const entry = findVoice(voice);
+    if (!entry) {
+      throw new Error(`Unknown voice: ${voice}`);
+    }
+    if (entry.provider === "local") {
+      return { provider: local, voice };
+    }
+    if (remote) {
+      return { provider: remote, voice };
+    }
+    return { provider: local, voice: voicesFor(entry.gender, "local")[0] };
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * Voice-line generation jobs.
+ *
+ * A job is a document in `scripts/{id}/voiceJobs` listing the partner lines
+ * to voice in the order they will be generated: from the rehearsal's start
+ * point to the end of the script, then the lines before it. A Firestore
+ * trigger works through the list in invocations of bounded length, handing
+ * over to a fresh invocation by re-queueing the job, so long scripts never hit
+ * a function timeout. Each line gets a document in the job's `lines`
+ * subcollection as soon as it is voiced, which the trigger doesn't watch; the
+ * app listens to both and can start rehearsing once the first lines are ready.
+ * A run holds a lease for as long as its invocation can last; a job still
+ * running after that was stopped mid-run and is picked up again when the
+ * rehearsal asks for voices.
+ */
+import * as admin from "firebase-admin";
+import { Parenthetical } from "./screenplayParser";
+import { buildDelivery } from "./delivery";
+import { voiceLinePath } from "./characters";
+import { mapWithConcurrency, withRateLimitRetry } from "./concurrency";
+import { TtsResolver, isAuthenticationError } from "./tts";
+
+export type VoiceJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export type VoiceJobLineStatus = "ready" | "failed";
+
+/** A voiced line, or one that couldn't be, in the job's `lines` subcollection. */
+export interface VoiceJobLine {
+  characterName: string;
+  lineNumber: number;
+  voice: string;
+  status: VoiceJobLineStatus;
+  url?: string;
+  /** Playback volume for quiet deliveries. */
+  voiceVolume?: number;
+  error?: string;
+}
+
+export interface VoiceJob {
+  userId: string;
+  practiceCharacter: string;
+  /** Original line number generation starts from. */
+  startLine: number;
+  status: VoiceJobStatus;
+  /** Voice for each partner character. */
+  voices: Record<string, string>;
+  /** Keys of the lines to generate, in order. */
+  order: string[];
+  /** Partner lines with a voice, including those voiced before the job. */
+  total: number;
+  /** Lines voiced so far, as of the end of the last run. */
+  ready: number;
+  /** Lines given up on, as of the end of the last run. */
+  failed: number;
+  /** Invocations the job has run in; each re-queue starts another. */
+  runs: number;
+  /** When the running invocation's time is up; cleared when a run ends. */
+  leaseExpiresAt?: admin.firestore.Timestamp;
+  error?: string;
+  createdAt: admin.firestore.FieldValue;
+  updatedAt: admin.firestore.FieldValue;
+}
+
+export interface VoiceJobSource {
+  characterName: string;
+  text: string;
+  originalLineNumber: number;
+  sequentialNumber: number;
+  isAction?: boolean;
+  parentheticals?: Parenthetical[];
+  voices?: Record<string, string>;
+  voiceVolume?: number;
+}
+
+const VOICE_CONCURRENCY = 4;
+// Matches the processVoiceJob timeout
+const RUN_LEASE_MS = 540 * 1000;
+// Stop taking new lines this long before the function timeout
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+// How often to look for a cancellation while generating
+const CANCEL_CHECK_LINES = 8;
+
+/**
+ * Key of a line in a job's `order`, and its document ID in `lines`.
+ * @param {number} lineNumber Original line number.
+ * @return {string} Line key.
+ */
+export const voiceJobLineKey = (lineNumber: number): string => String(lineNumber);
+
+/**
+ * Whether a job's run was stopped, by the function timeout or a crash,
+ * without handing over or finishing.
+ * @param {Pick<VoiceJob, "status" | "leaseExpiresAt">} job Voice job.
+ * @param {number} now Current time in milliseconds.
+ * @return {boolean} True for a running job whose lease has run out.
+ */
+export function isVoiceJobStalled(job: Pick<VoiceJob, "status" | "leaseExpiresAt">, now = Date.now()): boolean {
+  return job.status === "running" && (job.leaseExpiresAt?.toMillis() ?? 0) <= now;
+}
+
+/**
+ * The job's lines: every partner line with a voice is counted, and those not
+ * voiced yet are put in priority order from `startLine`.
+ * @param {VoiceJobSource[]} lines Processed lines.
+ * @param {string} practiceCharacter Character being practised.
+ * @param {Record<string, string>} voices Voice name for each partner character.
+ * @param {number} startLine Original line number rehearsal starts from.
+ * @return {{order: string[], total: number}} Lines to generate and partner lines in all.
+ */
+export function planVoiceJob(
+  lines: VoiceJobSource[],
+  practiceCharacter: string,
+  voices: Record<string, string>,
+  startLine: number
+): { order: string[]; total: number } {
+  const ahead: string[] = [];
+  const behind: string[] = [];
+  let total = 0;
+
+  [...lines]
+    .sort((a, b) => a.sequentialNumber - b.sequentialNumber)
+    .forEach((line) => {
+      const voice = voices[line.characterName];
+      if (line.isAction || line.characterName === practiceCharacter || !voice) return;
+      total++;
+      if (!line.voices?.[voice]) {
+        (line.originalLineNumber >= startLine ? ahead : behind).push(voiceJobLineKey(line.originalLineNumber));
+      }
+    });
+
+  return { order: [...ahead, ...behind], total };
+}
+
+/**
+ * Voices one line and stores it, or returns the stored recording if the
+ * file is already there.
+ * @param {string} scriptId Script ID.
+ * @param {VoiceJobSource} line Line to voice.
+ * @param {string} voice Voice name.
+ * @param {TtsResolver} resolveTts Speech provider for each voice.
+ * @return {Promise<{url: string, volume: number}>} Signed URL and playback volume.
+ */
+async function voiceLine(
+  scriptId: string,
+  line: VoiceJobSource,
+  voice: string,
+  resolveTts: TtsResolver
+): Promise<{ url: string; volume: number }> {
+  const delivery = buildDelivery(line.text, line.parentheticals);
+  const { provider, voice: providerVoice } = resolveTts(voice);
+  const filePath = voiceLinePath(scriptId, line.characterName, line.originalLineNumber, voice, provider.extension);
+  const file = admin.storage().bucket().file(filePath);
+
+  const [exists] = await file.exists();
+  if (!exists) {
+    const audio = await withRateLimitRetry(() => provider.synthesize({
+      text: delivery.input,
+      voice: providerVoice,
+      speed: delivery.speed,
+    }), { label: scriptId });
+    await file.save(audio, {
+      metadata: {
+        contentType: provider.contentType,
+        metadata: { scriptId, characterName: line.characterName, lineNumber: line.originalLineNumber, voice },
+      },
+    });
+  }
+
+  const [url] = await file.getSignedUrl({ action: "read", expires: "3000-01-01" });
+  return { url, volume: delivery.volume };
+}
+
+/**
+ * Copies the job's ready recordings into the script's processed lines, so
+ * later rehearsals find them without the job. Lines whose speaker has
+ * changed since the job started are left alone.
+ * @param {admin.firestore.DocumentReference} scriptRef Script document.
+ * @param {VoiceJobLine[]} ready Lines voiced in this run.
+ * @return {Promise<void>} Resolves once the script is updated.
+ */
+async function saveVoiceUrls(
+  scriptRef: admin.firestore.DocumentReference,
+  ready: VoiceJobLine[]
+): Promise<void> {
+  if (ready.length === 0) return;
+  const byLine = new Map(ready.map((line) => [line.lineNumber, line]));
+
+  await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(scriptRef);
+    const processedLines: VoiceJobSource[] = snapshot.data()?.analysis?.processedLines || [];
+    const updated = processedLines.map((line) => {
+      const voiced = byLine.get(line.originalLineNumber);
+      if (!voiced?.url || voiced.characterName !== line.characterName) return line;
+      return {
+        ...line,
+        voices: { ...(line.voices || {}), [voiced.voice]: voiced.url },
+        ...(voiced.voiceVolume !== undefined ? { voiceVolume: voiced.voiceVolume } : {}),
+      };
+    });
+    transaction.update(scriptRef, { "analysis.processedLines": updated });
+  });
+}
+
+/**
+ * Re-queues a user's voice jobs on a script whose runs were stopped, which
+ * triggers a new run for each.
+ * @param {admin.firestore.DocumentReference} scriptRef Script document.
+ * @param {string} userId Owner of the jobs.
+ * @return {Promise<Array<{id: string, job: VoiceJob}>>} The re-queued jobs.
+ */
+export async function requeueStalledVoiceJobs(
+  scriptRef: admin.firestore.DocumentReference,
+  userId: string
+): Promise<Array<{ id: string; job: VoiceJob }>> {
+  const running = await scriptRef.collection("voiceJobs")
+    .where("userId", "==", userId)
+    .where("status", "==", "running")
+    .get();
+  const stalled = running.docs.filter((doc) => isVoiceJobStalled(doc.data() as VoiceJob));
+  const requeued = await Promise.all(stalled.map(async (doc) => {
+    try {
+      // Unless a run has claimed it since it was read
+      await doc.ref.update({
+        status: "queued",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { lastUpdateTime: doc.updateTime });
+      return { id: doc.id, job: doc.data() as VoiceJob };
+    } catch (error) {
+      console.warn(`Voice job ${doc.id} was not re-queued:`, error);
+      return null;
+    }
+  }));
+  return requeued.filter((entry): entry is { id: string; job: VoiceJob } => entry !== null);
+}
+
+/**
+ * Works through a queued job's remaining lines in order until they are done
+ * or the run's time is up, then completes the job or re-queues it for the
+ * next run. Each line is written to the job's `lines` as soon as it is done;
+ * the job itself is only written when the run claims it and when it ends, so
+ * its trigger isn't woken for every line.
+ * @param {string} scriptId Script ID.
+ * @param {admin.firestore.DocumentReference} jobRef Job document.
+ * @param {TtsResolver} resolveTts Speech provider for each voice.
+ * @return {Promise<void>} Resolves once the run has handed over or finished.
+ */
+export async function runVoiceJob(
+  scriptId: string,
+  jobRef: admin.firestore.DocumentReference,
+  resolveTts: TtsResolver
+): Promise<void> {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const scriptRef = admin.firestore().collection("scripts").doc(scriptId);
+  const linesRef = jobRef.collection("lines");
+
+  // Claim the job so a duplicate trigger delivery doesn't run it twice
+  const job = await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(jobRef);
+    const data = snapshot.data() as VoiceJob | undefined;
+    if (!data || (data.status !== "queued" && !isVoiceJobStalled(data))) return null;
+    transaction.update(jobRef, {
+      status: "running",
+      runs: admin.firestore.FieldValue.increment(1),
+      leaseExpiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + RUN_LEASE_MS),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return data;
+  });
+  if (!job) return;
+
+  // A run that was stopped never cleared its lease, counted its lines or
+  // copied their recordings into the script, so this run does it from the
+  // lines it left
+  const stopped = job.leaseExpiresAt !== undefined;
+  const [scriptSnapshot, doneSnapshot] = await Promise.all([
+    scriptRef.get(),
+    stopped ? linesRef.get() : linesRef.select().get(),
+  ]);
+  const processedLines: VoiceJobSource[] = scriptSnapshot.data()?.analysis?.processedLines || [];
+  const sources = new Map(processedLines.map((line) => [voiceJobLineKey(line.originalLineNumber), line]));
+  const done = new Set(doneSnapshot.docs.map((doc) => doc.id));
+  const pending = job.order.filter((key) => !done.has(key));
+  const doneLines = stopped ? doneSnapshot.docs.map((doc) => doc.data() as VoiceJobLine) : [];
+  const recovered = doneLines.filter((line) => line.status === "ready");
+  const ready: VoiceJobLine[] = [];
+  let failed = 0;
+  let started = 0;
+  let cancelled = false;
+  let outOfTime = false;
+
+  const fail = async (line: VoiceJobLine) => {
+    failed++;
+    await linesRef.doc(voiceJobLineKey(line.lineNumber)).set(line);
+  };
+
+  const finish = (status: VoiceJobStatus, error?: string) => jobRef.update({
+    status,
+    ...(error ? { error } : {}),
+    leaseExpiresAt: admin.firestore.FieldValue.delete(),
+    ...(stopped ? {
+      ready: job.total - job.order.length + recovered.length + ready.length,
+      failed: doneLines.length - recovered.length + failed,
+    } : {
+      ready: admin.firestore.FieldValue.increment(ready.length),
+      failed: admin.firestore.FieldValue.increment(failed),
+    }),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  try {
+    await mapWithConcurrency(pending, VOICE_CONCURRENCY, async (key) => {
+      if (cancelled || outOfTime) return;
+      if (Date.now() > deadline) {
+        outOfTime = true;
+        return;
+      }
+      if (++started % CANCEL_CHECK_LINES === 0) {
+        cancelled = (await jobRef.get()).data()?.status === "cancelled";
+        if (cancelled) return;
+      }
+
+      const source = sources.get(key);
+      const voice = source && !source.isAction && source.characterName !== job.practiceCharacter ?
+        job.voices[source.characterName] : undefined;
+      if (!source || !voice) {
+        await fail({
+          characterName: source?.characterName || "",
+          lineNumber: Number(key),
+          voice: voice || "",
+          status: "failed",
+          error: "Line changed since generation started",
+        });
+        return;
+      }
+
+      const line: VoiceJobLine = {
+        characterName: source.characterName,
+        lineNumber: source.originalLineNumber,
+        voice,
+        status: "ready",
+      };
+      try {
+        const { url, volume } = await voiceLine(scriptId, source, voice, resolveTts);
+        const voiced: VoiceJobLine = { ...line, url, ...(volume < 1 ? { voiceVolume: volume } : {}) };
+        ready.push(voiced);
+        await linesRef.doc(key).set(voiced);
+      } catch (error) {
+        // Every other line would be turned down too
+        if (isAuthenticationError(error)) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[${scriptId}] Failed to voice line ${line.lineNumber}:`, message);
+        await fail({ ...line, status: "failed", error: message });
+      }
+    });
+  } catch (error) {
+    console.error(`[${scriptId}] Voice job ${jobRef.id} stopped:`, error);
+    await saveVoiceUrls(scriptRef, [...recovered, ...ready]);
+    await finish("failed", isAuthenticationError(error) ?
+      "Authentication failed with voice service. Please try again later." :
+      error instanceof Error ? error.message : String(error));
+    return;
+  }
+
+  await saveVoiceUrls(scriptRef, [...recovered, ...ready]);
+
+  // A cancellation that arrived after the last check still wins
+  const current = (await jobRef.get()).data() as VoiceJob | undefined;
+  if (cancelled || current?.status === "cancelled") {
+    await finish("cancelled");
+    return;
+  }
+
+  // Writing "queued" triggers the next run
+  await finish(outOfTime ? "queued" : "completed");
+  console.log(`[${scriptId}] Voice job ${jobRef.id} ${outOfTime ? "continues in a new run" : "completed"}`, {
+    generated: ready.length,
+    failed,
+    remaining: outOfTime ? pending.length - ready.length - failed : 0,
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * The voices partner lines can be read in. The app gets this list from the
+ * getVoiceCatalogue function, so adding a voice here is all it takes to
+ * offer it.
+ */
+
+export type VoiceProviderId = "openai" | "local";
+
+export type VoiceGender = "Male" | "Female";
+
+export interface VoiceCatalogueEntry {
+  id: string;
+  description: string;
+  gender: VoiceGender;
+  provider: VoiceProviderId;
+}
+
+export const VOICE_CATALOGUE: VoiceCatalogueEntry[] = [
+  { id: "alloy", description: "Warm, steady", gender: "Female", provider: "openai" },
+  { id: "ash", description: "Deep, authoritative", gender: "Male", provider: "openai" },
+  { id: "coral", description: "Bright, expressive", gender: "Female", provider: "openai" },
+  { id: "echo", description: "Smooth, refined", gender: "Male", provider: "openai" },
+  { id: "fable", description: "Soft, lyrical", gender: "Male", provider: "openai" },
+  { id: "onyx", description: "Bold, resonant", gender: "Male", provider: "openai" },
+  { id: "nova", description: "Youthful, energetic", gender: "Female", provider: "openai" },
+  { id: "sage", description: "Calm, wise", gender: "Female", provider: "openai" },
+  { id: "shimmer", description: "Airy, melodic", gender: "Female", provider: "openai" },
+  { id: "local-male", description: "Plain, synthetic (offline engine)", gender: "Male", provider: "local" },
+  { id: "local-female", description: "Plain, synthetic (offline engine)", gender: "Female", provider: "local" },
+];
+
+/**
+ * Looks a voice up in the catalogue.
+ * @param {string} id Voice ID.
+ * @return {VoiceCatalogueEntry | undefined} The voice, if there is one.
+ */
+export function findVoice(id: string): VoiceCatalogueEntry | undefined {
+  return VOICE_CATALOGUE.find((voice) => voice.id === id);
+}
+
+/**
+ * Voices of one gender from one provider, in catalogue order.
+ * @param {VoiceGender} gender Voice gender.
+ * @param {VoiceProviderId} provider Provider the voices come from.
+ * @return {string[]} Voice IDs.
+ */
+export function voicesFor(gender: VoiceGender, provider: VoiceProviderId): string[] {
+  return VOICE_CATALOGUE
+    .filter((voice) => voice.gender === gender && voice.provider === provider)
+    .map((voice) => voice.id);
+}
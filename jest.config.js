@@ -1,3 +1,16 @@
 module.exports = {
-  preset: 'react-native',
+  projects: [
+    {
+      displayName: 'app',
+      preset: 'react-native',
+      testPathIgnorePatterns: ['/node_modules/', '<rootDir>/functions/'],
+    },
+    {
+      // Cloud Functions run on Node, so their modules resolve the Node builds
+      // of their dependencies
+      displayName: 'functions',
+      testEnvironment: 'node',
+      roots: ['<rootDir>/functions/src'],
+    },
+  ],
 };
@@ -1,25 +1,43 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
-import { DialogueLine } from '../../types/script';
+import { DialogueLine, LineScore, WordAlignment } from '../../types/script';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { theme } from '../../theme';
+import { splitAtParentheticals } from '../../utils/scriptLines';
+import { formatAccuracy } from '../../utils/lineAccuracy';
 
 interface DialogueBubbleProps {
   line: DialogueLine;
   lineNumber: number;
   onOptionsPress?: () => void;
   isActive?: boolean;
+  /** Latest attempt at the line; shown word by word in place of the text. */
+  score?: LineScore;
 }
 
+const wordStyle = (word: WordAlignment) => {
+  switch (word.kind) {
+    case 'missed':
+      return styles.missedWord;
+    case 'substituted':
+      return styles.substitutedWord;
+    case 'added':
+      return styles.addedWord;
+    default:
+      return undefined;
+  }
+};
+
 export const DialogueBubble: React.FC<DialogueBubbleProps> = ({ 
   line, 
   lineNumber,
   onOptionsPress,
   isActive = false,
+  score,
 }) => {
-  const isUser = line.character === 'MYSELF';
-  const bubbleStyle = isUser ? styles.userBubble : styles.readerBubble;
-  const textStyle = isUser ? styles.userText : styles.readerText;
+  const isUser = line.isUser;
+  const bubbleStyle = line.isAction ? styles.actionBubble : isUser ? styles.userBubble : styles.readerBubble;
+  const textStyle = line.isAction ? styles.actionText : isUser ? styles.userText : styles.readerText;
 
   const getStatusColor = () => {
     switch (line.status) {
@@ -46,10 +64,26 @@ export const DialogueBubble: React.FC<DialogueBubbleProps> = ({
       <View style={styles.contentContainer}>
         <View style={[styles.bubble, bubbleStyle]}>
           <View style={styles.headerContainer}>
-            <Text style={styles.character}>{line.character}</Text>
-            <Text style={styles.timing}>{line.duration.toFixed(1)}s</Text>
+            <Text style={styles.character}>{line.isAction ? 'Action' : line.characterName}</Text>
+            <Text style={styles.timing}>
+              {score ? `${formatAccuracy(score.accuracy)} · ` : ''}{line.duration.toFixed(1)}s
+            </Text>
           </View>
-          <Text style={[styles.text, textStyle]}>{line.text}</Text>
+          <Text style={[styles.text, textStyle]}>
+            {score
+              ? score.words.map((word, index) => (
+                <Text key={index} style={wordStyle(word)}>
+                  {index > 0 ? ' ' : ''}
+                  {word.kind === 'added' ? `+${word.spoken}` : word.expected}
+                  {word.kind === 'substituted' ? ` (${word.spoken})` : ''}
+                </Text>
+              ))
+              : splitAtParentheticals(line.text, line.parentheticals).map((segment, index) => (
+                <Text key={index} style={segment.isDirection ? styles.direction : undefined}>
+                  {index > 0 ? ' ' : ''}{segment.text}
+                </Text>
+              ))}
+          </Text>
         </View>
       </View>
       {onOptionsPress && (
@@ -118,6 +152,31 @@ const styles = StyleSheet.create({
   readerText: {
     color: theme.colors.text,
   },
+  actionBubble: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: theme.colors.surface,
+  },
+  actionText: {
+    color: theme.colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  direction: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  missedWord: {
+    color: theme.colors.error,
+    textDecorationLine: 'line-through',
+  },
+  substitutedWord: {
+    color: theme.colors.error,
+    textDecorationLine: 'underline',
+  },
+  addedWord: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
   timing: {
     fontSize: 12,
     color: theme.colors.textSecondary,
@@ -1,15 +1,27 @@
-import React, { createContext, useContext, useReducer, useCallback, useEffect, useState } from 'react';
-import { ScriptContextType, ScriptSession, DialogueLine, VoiceSettings, ScriptMetadata } from '../types/script';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ScriptContextType,
+  ScriptSession,
+  DialogueLine,
+  RehearsalLine,
+  VoiceSettings,
+  ScriptMetadata,
+  Script,
+} from '../types/script';
 import firestore from '@react-native-firebase/firestore';
 import auth from '@react-native-firebase/auth';
 import firebaseService from '../services/firebase';
 import { ProcessingStatus } from '../types/script';
 import { useAuth } from './AuthContext';
+import { estimateLineDuration, nextRehearsalStep, toRehearsalLines } from '../utils/rehearsal';
+
+const LINES_PER_PAGE = 20;
 
 const initialState: ScriptContextType = {
   currentSession: null,
   currentScript: null,
   lines: [],
+  hasMoreLines: false,
   isLoading: false,
   error: null,
   voiceSettings: {},
@@ -18,6 +30,7 @@ const initialState: ScriptContextType = {
     pauseSession: async () => {},
     resumeSession: async () => {},
     completeCurrentLine: async () => {},
+    loadMoreLines: async () => {},
     updateVoiceSettings: async () => {},
   },
 };
@@ -25,10 +38,9 @@ const initialState: ScriptContextType = {
 type Action =
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
-  | { type: 'SET_SESSION'; payload: ScriptSession }
-  | { type: 'SET_SCRIPT'; payload: ScriptMetadata }
-  | { type: 'UPDATE_LINES'; payload: DialogueLine[] }
-  | { type: 'UPDATE_LINE_STATUS'; payload: { lineId: string; status: DialogueLine['status'] } }
+  | { type: 'SET_SESSION'; payload: ScriptSession | null }
+  | { type: 'SET_SCRIPT'; payload: Script | null }
+  | { type: 'UPDATE_LINES'; payload: { lines: DialogueLine[]; hasMoreLines: boolean } }
   | { type: 'UPDATE_VOICE_SETTINGS'; payload: { characterId: string; settings: VoiceSettings } };
 
 const scriptReducer = (state: ScriptContextType, action: Action): ScriptContextType => {
@@ -42,16 +54,7 @@ const scriptReducer = (state: ScriptContextType, action: Action): ScriptContextT
     case 'SET_SCRIPT':
       return { ...state, currentScript: action.payload };
     case 'UPDATE_LINES':
-      return { ...state, lines: action.payload };
-    case 'UPDATE_LINE_STATUS':
-      return {
-        ...state,
-        lines: state.lines.map(line =>
-          line.id === action.payload.lineId
-            ? { ...line, status: action.payload.status }
-            : line
-        ),
-      };
+      return { ...state, lines: action.payload.lines, hasMoreLines: action.payload.hasMoreLines };
     case 'UPDATE_VOICE_SETTINGS':
       return {
         ...state,
@@ -65,6 +68,16 @@ const scriptReducer = (state: ScriptContextType, action: Action): ScriptContextT
   }
 };
 
+// Lines before the current one have been read; the rest are still to come
+const toDialogueLines = (lines: RehearsalLine[], currentIndex: number): DialogueLine[] =>
+  lines.map((line, index) => ({
+    ...line,
+    id: `${line.lineNumber}`,
+    duration: estimateLineDuration(line.text),
+    timestamp: Date.now(),
+    status: index < currentIndex ? 'completed' : index === currentIndex ? 'active' : 'pending',
+  }));
+
 const ScriptContext = createContext<ScriptContextType | undefined>(undefined);
 
 export const useScript = () => {
@@ -82,289 +95,204 @@ export const ScriptProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
 
-  const calculateLineDuration = (text: string): number => {
-    // Basic duration calculation: 1 second per 15 characters
-    const baseTime = text.length / 15;
-    // Add padding for very short lines
-    return Math.max(baseTime, 2.0);
-  };
-
-  const updateSessionStats = useCallback(async (sessionId: string) => {
-    const readerLines = state.lines.filter(l => l.character !== 'MYSELF' && l.status === 'completed').length;
-    const userLines = state.lines.filter(l => l.character === 'MYSELF' && l.status === 'completed').length;
-    const completedLines = state.lines.filter(l => l.status === 'completed');
-    const totalDuration = completedLines.reduce((sum, line) => sum + line.duration, 0);
-
-    const stats = {
-      readerLines,
-      userLines,
-      totalDuration,
-    };
-
-    await firestore()
-      .collection('readingSessions')
-      .doc(sessionId)
-      .update({
-        stats,
-        lastActiveTime: Date.now(),
-      });
-
-    return stats;
-  }, [state.lines]);
+  // Every line of the session's script; `lines` holds the pages loaded so far
+  const rehearsalLinesRef = useRef<RehearsalLine[]>([]);
+  const loadedCountRef = useRef(0);
+  // Last line of the current step, which covers a whole dual dialogue group
+  const stepEndRef = useRef<number | null>(null);
+
+  const showLines = useCallback((currentIndex: number, throughIndex = currentIndex) => {
+    const allLines = rehearsalLinesRef.current;
+    const pages = Math.max(1, Math.ceil((throughIndex + 1) / LINES_PER_PAGE));
+    loadedCountRef.current = Math.max(loadedCountRef.current, Math.min(allLines.length, pages * LINES_PER_PAGE));
+    dispatch({
+      type: 'UPDATE_LINES',
+      payload: {
+        lines: toDialogueLines(allLines.slice(0, loadedCountRef.current), currentIndex),
+        hasMoreLines: loadedCountRef.current < allLines.length,
+      },
+    });
+  }, []);
 
-  const loadScript = useCallback(async (scriptId: string) => {
-    try {
-      dispatch({ type: 'SET_LOADING', payload: true });
+  const loadScript = useCallback(async (scriptId: string): Promise<Script> => {
+    const scriptData = await firebaseService.getScript(scriptId);
+    if (!scriptData) {
+      throw new Error('Script not found');
+    }
+    dispatch({ type: 'SET_SCRIPT', payload: scriptData });
 
-      const scriptDoc = await firestore().collection('scripts').doc(scriptId).get();
-      if (!scriptDoc.exists) {
-        throw new Error('Script not found');
-      }
+    const userId = auth().currentUser?.uid;
+    if (userId) {
+      const prefsDoc = await firestore()
+        .collection('userScriptPreferences')
+        .doc(`${scriptId}_${userId}`)
+        .get();
 
-      const scriptData = scriptDoc.data() as ScriptMetadata;
-      dispatch({ type: 'SET_SCRIPT', payload: scriptData });
-
-      const userId = auth().currentUser?.uid;
-      if (userId) {
-        const prefsDoc = await firestore()
-          .collection('userScriptPreferences')
-          .doc(`${scriptId}_${userId}`)
-          .get();
-
-        if (prefsDoc.exists) {
-          const prefs = prefsDoc.data();
-          if (prefs?.voiceSettings) {
-            Object.entries(prefs.voiceSettings).forEach(([characterId, settings]) => {
-              dispatch({
-                type: 'UPDATE_VOICE_SETTINGS',
-                payload: { characterId, settings: settings as VoiceSettings },
-              });
+      if (prefsDoc.exists) {
+        const prefs = prefsDoc.data();
+        if (prefs?.voiceSettings) {
+          Object.entries(prefs.voiceSettings).forEach(([characterId, settings]) => {
+            dispatch({
+              type: 'UPDATE_VOICE_SETTINGS',
+              payload: { characterId, settings: settings as VoiceSettings },
             });
-          }
+          });
         }
       }
-    } catch (error) {
-      dispatch({ type: 'SET_ERROR', payload: 'Failed to load script' });
-    } finally {
-      dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, []);
-
-  const loadLines = useCallback(async (scriptId: string, startLine: number, count: number = 20) => {
-    try {
-      const linesSnapshot = await firestore()
-        .collection('lines')
-        .where('scriptId', '==', scriptId)
-        .where('lineNumber', '>=', startLine)
-        .orderBy('lineNumber')
-        .limit(count)
-        .get();
-
-      const loadedLines: DialogueLine[] = linesSnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          text: data.text,
-          character: data.characterId,
-          duration: calculateLineDuration(data.text),
-          timestamp: Date.now(),
-          status: 'pending',
-        };
-      });
 
-      dispatch({ type: 'UPDATE_LINES', payload: loadedLines });
-    } catch (error) {
-      dispatch({ type: 'SET_ERROR', payload: 'Failed to load lines' });
-    }
+    return scriptData;
   }, []);
 
   const startSession = useCallback(async (scriptId: string, character: string) => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      
-      await loadScript(scriptId);
-      
-      const userId = auth().currentUser?.uid;
-      if (!userId) throw new Error('User not authenticated');
-
-      const sessionRef = await firestore().collection('readingSessions').add({
-        scriptId,
-        userId,
-        character,
-        status: 'active',
-        startTime: Date.now(),
-        currentLineIndex: 0,
-        lines: [],
-        stats: {
-          readerLines: 0,
-          userLines: 0,
-          totalDuration: 0,
-        },
-      });
+      dispatch({ type: 'SET_SESSION', payload: null });
+      loadedCountRef.current = 0;
 
-      const session: ScriptSession = {
-        id: sessionRef.id,
-        scriptId,
-        character,
+      const script = await loadScript(scriptId);
+      const processedLines = script.analysis?.processedLines || [];
+      if (processedLines.length === 0) {
+        throw new Error('Script has not been processed yet');
+      }
+      const allLines = toRehearsalLines(processedLines, character);
+      rehearsalLinesRef.current = allLines;
+
+      // Pick up where the last unfinished reading of this character left off;
+      // sessions without a line number are PracticeScript rehearsals
+      const sessions = await firebaseService.getPracticeSessions(scriptId);
+      const unfinished = sessions
+        .filter(session =>
+          session.character === character &&
+          session.status !== 'completed' &&
+          session.currentLineNumber !== undefined)
+        .pop();
+      const resumeIndex = unfinished
+        ? allLines.findIndex(line => line.lineNumber === unfinished.currentLineNumber)
+        : -1;
+
+      const firstStep = nextRehearsalStep(allLines, null);
+      const currentIndex = resumeIndex >= 0 ? resumeIndex : firstStep?.index ?? 0;
+      stepEndRef.current = resumeIndex >= 0 ? resumeIndex : firstStep?.lastIndex ?? 0;
+
+      let session: ScriptSession;
+      if (unfinished) {
+        session = { ...unfinished, status: 'active', currentLineIndex: currentIndex };
+      } else {
+        const sessionId = await firebaseService.startPracticeSession(scriptId, character);
+        session = {
+          id: sessionId,
+          scriptId,
+          character,
+          status: 'active',
+          startTime: Date.now(),
+          currentLineIndex: currentIndex,
+          lines: [],
+          stats: {
+            readerLines: 0,
+            userLines: 0,
+            totalDuration: 0,
+          },
+        };
+      }
+
+      await firebaseService.updatePracticeSession(session.id, {
         status: 'active',
-        startTime: Date.now(),
-        currentLineIndex: 0,
-        lines: [],
-        stats: {
-          readerLines: 0,
-          userLines: 0,
-          totalDuration: 0,
-        },
-      };
+        currentLineIndex: currentIndex,
+        currentLineNumber: allLines[currentIndex]?.lineNumber,
+      });
 
       dispatch({ type: 'SET_SESSION', payload: session });
-      await loadLines(scriptId, 0);
-
-      // Set first line as active
-      if (state.lines.length > 0) {
-        dispatch({
-          type: 'UPDATE_LINE_STATUS',
-          payload: { lineId: state.lines[0].id, status: 'active' },
-        });
-      }
-
+      showLines(currentIndex, currentIndex + LINES_PER_PAGE - 1);
       dispatch({ type: 'SET_ERROR', payload: null });
     } catch (error) {
-      dispatch({ type: 'SET_ERROR', payload: 'Failed to start session' });
-    } finally {
-      dispatch({ type: 'SET_LOADING', payload: false });
-    }
-  }, [loadScript, loadLines, state.lines]);
-
-  const pauseSession = useCallback(async () => {
-    if (!state.currentSession) return;
-    
-    try {
-      dispatch({ type: 'SET_LOADING', payload: true });
-      
-      await firestore()
-        .collection('readingSessions')
-        .doc(state.currentSession.id)
-        .update({
-          status: 'paused',
-          lastActiveTime: Date.now(),
-        });
-
+      console.error('Error starting session:', error);
       dispatch({
-        type: 'SET_SESSION',
-        payload: {
-          ...state.currentSession,
-          status: 'paused',
-        },
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to start session',
       });
-    } catch (error) {
-      dispatch({ type: 'SET_ERROR', payload: 'Failed to pause session' });
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.currentSession]);
+  }, [loadScript, showLines]);
 
-  const resumeSession = useCallback(async () => {
+  const setSessionStatus = useCallback(async (status: ScriptSession['status']) => {
     if (!state.currentSession) return;
-    
-    try {
-      dispatch({ type: 'SET_LOADING', payload: true });
-      
-      await firestore()
-        .collection('readingSessions')
-        .doc(state.currentSession.id)
-        .update({
-          status: 'active',
-          lastActiveTime: Date.now(),
-        });
 
+    try {
+      await firebaseService.updatePracticeSession(state.currentSession.id, { status });
       dispatch({
         type: 'SET_SESSION',
         payload: {
           ...state.currentSession,
-          status: 'active',
+          status,
         },
       });
     } catch (error) {
-      dispatch({ type: 'SET_ERROR', payload: 'Failed to resume session' });
-    } finally {
-      dispatch({ type: 'SET_LOADING', payload: false });
+      dispatch({
+        type: 'SET_ERROR',
+        payload: status === 'paused' ? 'Failed to pause session' : 'Failed to resume session',
+      });
     }
   }, [state.currentSession]);
 
-  const completeCurrentLine = useCallback(async () => {
-    if (!state.currentSession || !state.currentScript) return;
-    
-    try {
-      const currentIndex = state.currentSession.currentLineIndex;
-      const currentLine = state.lines[currentIndex];
-      
-      if (!currentLine) return;
-
-      // Mark current line as completed
-      dispatch({
-        type: 'UPDATE_LINE_STATUS',
-        payload: { lineId: currentLine.id, status: 'completed' },
-      });
+  const pauseSession = useCallback(() => setSessionStatus('paused'), [setSessionStatus]);
 
-      // Update session stats
-      const stats = await updateSessionStats(state.currentSession.id);
+  const resumeSession = useCallback(() => setSessionStatus('active'), [setSessionStatus]);
 
-      // Move to next line
-      const nextIndex = currentIndex + 1;
-      if (nextIndex < state.lines.length) {
-        // Mark next line as active
-        dispatch({
-          type: 'UPDATE_LINE_STATUS',
-          payload: { lineId: state.lines[nextIndex].id, status: 'active' },
-        });
+  const loadMoreLines = useCallback(async () => {
+    if (!state.currentSession || !state.hasMoreLines) return;
+    showLines(state.currentSession.currentLineIndex, loadedCountRef.current + LINES_PER_PAGE - 1);
+  }, [state.currentSession, state.hasMoreLines, showLines]);
 
-        // Update session
-        const updatedSession: ScriptSession = {
-          ...state.currentSession,
-          currentLineIndex: nextIndex,
-          stats,
-        };
+  const completeCurrentLine = useCallback(async () => {
+    if (!state.currentSession) return;
 
-        await firestore()
-          .collection('readingSessions')
-          .doc(state.currentSession.id)
-          .update({
-            currentLineIndex: nextIndex,
-            stats,
-            lastActiveTime: Date.now(),
-          });
+    try {
+      const session = state.currentSession;
+      const allLines = rehearsalLinesRef.current;
+      const currentLine = allLines[session.currentLineIndex];
+      if (!currentLine) return;
 
-        dispatch({ type: 'SET_SESSION', payload: updatedSession });
+      const stats = {
+        ...session.stats,
+        readerLines: session.stats.readerLines + (!currentLine.isUser && !currentLine.isAction ? 1 : 0),
+        userLines: session.stats.userLines + (currentLine.isUser ? 1 : 0),
+        totalDuration: session.stats.totalDuration + estimateLineDuration(currentLine.text),
+      };
+      if (currentLine.isUser) {
+        await firebaseService.recordUserLine(session.id);
+      } else if (!currentLine.isAction) {
+        await firebaseService.recordPartnerLine(session.id);
+      }
 
-        // Load more lines if needed
-        if (nextIndex + 5 >= state.lines.length) {
-          await loadLines(state.currentSession.scriptId, nextIndex + 1);
-        }
-      } else {
+      const step = nextRehearsalStep(allLines, stepEndRef.current ?? session.currentLineIndex);
+      if (!step) {
         // End of script
-        const updatedSession: ScriptSession = {
-          ...state.currentSession,
-          status: 'completed',
-          endTime: Date.now(),
-          stats,
-        };
-
-        await firestore()
-          .collection('readingSessions')
-          .doc(state.currentSession.id)
-          .update({
-            status: 'completed',
-            endTime: Date.now(),
-            stats,
-          });
-
-        dispatch({ type: 'SET_SESSION', payload: updatedSession });
+        await firebaseService.completePracticeSession(session.id);
+        showLines(allLines.length);
+        dispatch({
+          type: 'SET_SESSION',
+          payload: { ...session, status: 'completed', endTime: Date.now(), stats },
+        });
+        return;
       }
+
+      stepEndRef.current = step.lastIndex;
+      await firebaseService.updatePracticeSession(session.id, {
+        currentLineIndex: step.index,
+        currentLineNumber: allLines[step.index].lineNumber,
+      });
+      dispatch({
+        type: 'SET_SESSION',
+        payload: { ...session, currentLineIndex: step.index, currentLineNumber: allLines[step.index].lineNumber, stats },
+      });
+      // Keep a few lines loaded past the current one
+      showLines(step.index, step.lastIndex + 5);
     } catch (error) {
       dispatch({ type: 'SET_ERROR', payload: 'Failed to complete line' });
     }
-  }, [state.currentSession, state.currentScript, state.lines, loadLines, updateSessionStats]);
+  }, [state.currentSession, showLines]);
 
   const refreshScripts = async () => {
     if (!user) {
@@ -415,6 +343,7 @@ export const ScriptProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       pauseSession,
       resumeSession,
       completeCurrentLine,
+      loadMoreLines,
       updateVoiceSettings: async () => {}, // Implement if needed
     },
     scripts,
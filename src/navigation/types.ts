@@ -23,10 +23,20 @@ export type MainStackParamList = {
   EditScript: { 
     scriptId: string;
   };
+  EditScriptLines: {
+    scriptId: string;
+  };
   PracticeScript: { 
     scriptId: string;
     characterId: string;
     startLine?: number;
+    /** Rehearsal stops after this line, e.g. at the end of a scene. */
+    endLine?: number;
+  };
+  ScriptProgress: {
+    scriptId: string;
+    /** Character to show first; defaults to the one rehearsed most recently. */
+    character?: string;
   };
 };
 
@@ -0,0 +1,525 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, FlatList, ScrollView, ActivityIndicator } from 'react-native';
+import { Text, Button, useTheme, Portal, Dialog, TextInput, List, Divider, MD3Theme } from 'react-native-paper';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import firestore from '@react-native-firebase/firestore';
+import { MainNavigationProp, MainStackParamList } from '../../navigation/types';
+import { useAuth } from '../../contexts/AuthContext';
+import { ScriptAnalysis } from '../../types/script';
+import firebaseService from '../../services/firebase';
+import { masteryMoves } from '../../utils/memorisation';
+import {
+  ProcessedLine,
+  deleteLine,
+  insertLine,
+  mergeWithNext,
+  reassignLine,
+  splitLine,
+  toggleAction,
+  updateLineText,
+} from '../../utils/scriptLines';
+
+type EditScriptLinesRouteProp = RouteProp<MainStackParamList, 'EditScriptLines'>;
+
+// What the character picker is choosing a speaker for.
+type CharacterPurpose = 'reassign' | 'toDialogue' | 'insert';
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  toolbarActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  line: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  lineNumber: {
+    width: 40,
+    color: theme.colors.onSurfaceVariant,
+  },
+  lineBody: {
+    flex: 1,
+  },
+  characterName: {
+    color: theme.colors.primary,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  actionLabel: {
+    color: theme.colors.onSurfaceVariant,
+    fontStyle: 'italic',
+    marginBottom: 2,
+  },
+  actionText: {
+    color: theme.colors.onSurfaceVariant,
+    fontStyle: 'italic',
+  },
+  dialogText: {
+    marginBottom: 12,
+  },
+  characterList: {
+    maxHeight: 240,
+  },
+  characterButton: {
+    marginBottom: 8,
+  },
+  input: {
+    marginTop: 8,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  errorText: {
+    color: theme.colors.error,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+});
+
+const EditScriptLines: React.FC = () => {
+  const [analysis, setAnalysis] = useState<ScriptAnalysis | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedLine, setSelectedLine] = useState<ProcessedLine | null>(null);
+  const [actionsVisible, setActionsVisible] = useState(false);
+  const [textDialogVisible, setTextDialogVisible] = useState(false);
+  const [splitDialogVisible, setSplitDialogVisible] = useState(false);
+  const [insertDialogVisible, setInsertDialogVisible] = useState(false);
+  const [characterPurpose, setCharacterPurpose] = useState<CharacterPurpose | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [newCharacterName, setNewCharacterName] = useState('');
+  const [splitPosition, setSplitPosition] = useState(0);
+  const [insertAsAction, setInsertAsAction] = useState(false);
+  const [insertCharacter, setInsertCharacter] = useState<string | null>(null);
+  // Lines as loaded, so saving can tell which lines changed speaker
+  const savedLinesRef = useRef<ProcessedLine[]>([]);
+
+  const navigation = useNavigation<MainNavigationProp>();
+  const route = useRoute<EditScriptLinesRouteProp>();
+  const { user } = useAuth();
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const { scriptId } = route.params;
+
+  useEffect(() => {
+    const loadAnalysis = async () => {
+      if (!user || !scriptId) return;
+
+      try {
+        const doc = await firestore().collection('scripts').doc(scriptId).get();
+        const data = doc.data();
+        if (!doc.exists || data?.userId !== user.uid) {
+          navigation.goBack();
+          return;
+        }
+        const loaded = (data?.analysis as ScriptAnalysis) || null;
+        savedLinesRef.current = loaded?.processedLines || [];
+        setAnalysis(loaded);
+      } catch (error) {
+        console.error('Error loading script lines:', error);
+        setError('Failed to load script. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnalysis();
+  }, [scriptId, user]);
+
+  const lines = analysis
+    ? [...analysis.processedLines].sort((a, b) => a.sequentialNumber - b.sequentialNumber)
+    : [];
+  const characterNames = analysis?.characters.map(character => character.name) || [];
+
+  const applyEdit = (edit: (current: ScriptAnalysis) => ScriptAnalysis) => {
+    if (!analysis) return;
+    try {
+      setAnalysis(edit(analysis));
+      setDirty(true);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to edit line');
+    }
+  };
+
+  const closeDialogs = () => {
+    setActionsVisible(false);
+    setTextDialogVisible(false);
+    setSplitDialogVisible(false);
+    setInsertDialogVisible(false);
+    setCharacterPurpose(null);
+    setNewCharacterName('');
+  };
+
+  const handleLinePress = (line: ProcessedLine) => {
+    setSelectedLine(line);
+    setActionsVisible(true);
+  };
+
+  const handleEditText = () => {
+    if (!selectedLine) return;
+    setActionsVisible(false);
+    setDraftText(selectedLine.text);
+    setTextDialogVisible(true);
+  };
+
+  const handleSplit = () => {
+    if (!selectedLine) return;
+    setActionsVisible(false);
+    setDraftText(selectedLine.text);
+    setSplitPosition(Math.floor(selectedLine.text.length / 2));
+    setSplitDialogVisible(true);
+  };
+
+  const handleToggleAction = () => {
+    if (!selectedLine) return;
+    if (selectedLine.isAction) {
+      setActionsVisible(false);
+      setCharacterPurpose('toDialogue');
+      return;
+    }
+    applyEdit(current => toggleAction(current, selectedLine.sequentialNumber));
+    closeDialogs();
+  };
+
+  const handleInsert = (afterLine: ProcessedLine | null) => {
+    setActionsVisible(false);
+    setDraftText('');
+    setInsertAsAction(false);
+    setInsertCharacter(afterLine && !afterLine.isAction ? afterLine.characterName : null);
+    setInsertDialogVisible(true);
+  };
+
+  const handleCharacterChosen = (characterName: string) => {
+    const name = characterName.trim();
+    if (!name) return;
+
+    switch (characterPurpose) {
+      case 'reassign':
+        if (selectedLine) applyEdit(current => reassignLine(current, selectedLine.sequentialNumber, name));
+        break;
+      case 'toDialogue':
+        if (selectedLine) applyEdit(current => toggleAction(current, selectedLine.sequentialNumber, name));
+        break;
+      case 'insert':
+        setInsertCharacter(name);
+        setCharacterPurpose(null);
+        setNewCharacterName('');
+        setInsertDialogVisible(true);
+        return;
+    }
+    closeDialogs();
+  };
+
+  const handleInsertConfirm = () => {
+    const afterLine = selectedLine?.sequentialNumber ?? 0;
+    applyEdit(current => insertLine(current, afterLine, {
+      text: draftText,
+      characterName: insertCharacter || undefined,
+      isAction: insertAsAction,
+    }));
+    closeDialogs();
+  };
+
+  const handleSave = async () => {
+    if (!analysis) return;
+    setSaving(true);
+    try {
+      await firebaseService.saveScriptAnalysis(
+        scriptId,
+        analysis,
+        masteryMoves(savedLinesRef.current, analysis.processedLines)
+      );
+      setDirty(false);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error saving script lines:', error);
+      setError('Failed to save changes. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!analysis?.processedLines?.length) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text>{error || 'This script has no processed lines to edit'}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const renderLine = ({ item }: { item: ProcessedLine }) => (
+    <List.Item
+      title={() => (
+        <View style={styles.line}>
+          <Text style={styles.lineNumber}>{item.sequentialNumber}</Text>
+          <View style={styles.lineBody}>
+            <Text style={item.isAction ? styles.actionLabel : styles.characterName}>
+              {item.isAction
+                ? 'Action'
+                : [item.cueName || item.characterName, ...(item.extensions || []).map(ext => `(${ext})`)].join(' ')}
+            </Text>
+            <Text style={item.isAction ? styles.actionText : undefined}>{item.text}</Text>
+          </View>
+        </View>
+      )}
+      onPress={() => handleLinePress(item)}
+    />
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <View style={styles.toolbar}>
+        <Text variant="bodyMedium">
+          {analysis.metadata.totalLines} lines • {analysis.characters.length} characters
+        </Text>
+        <View style={styles.toolbarActions}>
+          <Button
+            mode="outlined"
+            onPress={() => {
+              setSelectedLine(null);
+              handleInsert(null);
+            }}
+            icon="plus"
+          >
+            At Start
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={saving}
+            disabled={!dirty || saving}
+          >
+            Save
+          </Button>
+        </View>
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <FlatList
+        data={lines}
+        keyExtractor={item => String(item.sequentialNumber)}
+        renderItem={renderLine}
+        ItemSeparatorComponent={Divider}
+      />
+
+      <Portal>
+        <Dialog visible={actionsVisible} onDismiss={closeDialogs}>
+          <Dialog.Title>Line {selectedLine?.sequentialNumber}</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" numberOfLines={3} style={styles.dialogText}>
+              {selectedLine?.text}
+            </Text>
+            <List.Item title="Edit text" left={props => <List.Icon {...props} icon="pencil" />} onPress={handleEditText} />
+            {!selectedLine?.isAction && (
+              <List.Item
+                title="Change character"
+                left={props => <List.Icon {...props} icon="account-switch" />}
+                onPress={() => {
+                  setActionsVisible(false);
+                  setCharacterPurpose('reassign');
+                }}
+              />
+            )}
+            <List.Item
+              title={selectedLine?.isAction ? 'Make dialogue' : 'Make action'}
+              left={props => <List.Icon {...props} icon="swap-horizontal" />}
+              onPress={handleToggleAction}
+            />
+            <List.Item title="Split line" left={props => <List.Icon {...props} icon="call-split" />} onPress={handleSplit} />
+            <List.Item
+              title="Merge with next line"
+              left={props => <List.Icon {...props} icon="call-merge" />}
+              onPress={() => {
+                if (selectedLine) applyEdit(current => mergeWithNext(current, selectedLine.sequentialNumber));
+                closeDialogs();
+              }}
+            />
+            <List.Item title="Insert line after" left={props => <List.Icon {...props} icon="plus" />} onPress={() => handleInsert(selectedLine)} />
+            <List.Item
+              title="Delete line"
+              titleStyle={{ color: theme.colors.error }}
+              left={props => <List.Icon {...props} icon="delete" color={theme.colors.error} />}
+              onPress={() => {
+                if (selectedLine) applyEdit(current => deleteLine(current, selectedLine.sequentialNumber));
+                closeDialogs();
+              }}
+            />
+          </Dialog.Content>
+        </Dialog>
+
+        <Dialog visible={textDialogVisible} onDismiss={closeDialogs}>
+          <Dialog.Title>Edit Line</Dialog.Title>
+          <Dialog.Content>
+            <TextInput value={draftText} onChangeText={setDraftText} mode="outlined" multiline autoFocus />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeDialogs}>Cancel</Button>
+            <Button
+              mode="contained"
+              disabled={!draftText.trim()}
+              onPress={() => {
+                if (selectedLine) applyEdit(current => updateLineText(current, selectedLine.sequentialNumber, draftText.trim()));
+                closeDialogs();
+              }}
+            >
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={splitDialogVisible} onDismiss={closeDialogs}>
+          <Dialog.Title>Split Line</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodySmall" style={styles.dialogText}>
+              Place the cursor where the second line should start.
+            </Text>
+            <TextInput
+              value={draftText}
+              mode="outlined"
+              multiline
+              showSoftInputOnFocus={false}
+              selection={{ start: splitPosition, end: splitPosition }}
+              onSelectionChange={event => setSplitPosition(event.nativeEvent.selection.start)}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeDialogs}>Cancel</Button>
+            <Button
+              mode="contained"
+              onPress={() => {
+                if (selectedLine) applyEdit(current => splitLine(current, selectedLine.sequentialNumber, splitPosition));
+                closeDialogs();
+              }}
+            >
+              Split
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!characterPurpose} onDismiss={closeDialogs}>
+          <Dialog.Title>Choose Character</Dialog.Title>
+          <Dialog.Content>
+            <ScrollView style={styles.characterList}>
+              {characterNames.map(name => (
+                <Button
+                  key={name}
+                  mode={name === selectedLine?.characterName ? 'contained' : 'outlined'}
+                  onPress={() => handleCharacterChosen(name)}
+                  style={styles.characterButton}
+                >
+                  {name}
+                </Button>
+              ))}
+            </ScrollView>
+            <TextInput
+              label="New character"
+              value={newCharacterName}
+              onChangeText={text => setNewCharacterName(text.toUpperCase())}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeDialogs}>Cancel</Button>
+            <Button
+              mode="contained"
+              disabled={!newCharacterName.trim()}
+              onPress={() => handleCharacterChosen(newCharacterName)}
+            >
+              Use New
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={insertDialogVisible} onDismiss={closeDialogs}>
+          <Dialog.Title>
+            {selectedLine ? `Insert After Line ${selectedLine.sequentialNumber}` : 'Insert at Start'}
+          </Dialog.Title>
+          <Dialog.Content>
+            <View style={styles.typeRow}>
+              <Button mode={!insertAsAction ? 'contained' : 'outlined'} onPress={() => setInsertAsAction(false)}>
+                Dialogue
+              </Button>
+              <Button mode={insertAsAction ? 'contained' : 'outlined'} onPress={() => setInsertAsAction(true)}>
+                Action
+              </Button>
+            </View>
+            {!insertAsAction && (
+              <Button
+                mode="outlined"
+                icon="account"
+                onPress={() => {
+                  setInsertDialogVisible(false);
+                  setCharacterPurpose('insert');
+                }}
+              >
+                {insertCharacter || 'Choose character'}
+              </Button>
+            )}
+            <TextInput
+              label="Text"
+              value={draftText}
+              onChangeText={setDraftText}
+              mode="outlined"
+              multiline
+              style={styles.input}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeDialogs}>Cancel</Button>
+            <Button
+              mode="contained"
+              disabled={!draftText.trim() || (!insertAsAction && !insertCharacter)}
+              onPress={handleInsertConfirm}
+            >
+              Insert
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </SafeAreaView>
+  );
+};
+
+export default EditScriptLines;
@@ -1,11 +1,41 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, StyleSheet, ScrollView, Platform, PermissionsAndroid, Alert, AppState, NativeSyntheticEvent, NativeScrollEvent } from 'react-native';
-import { Text, IconButton, useTheme, Button, Portal, Dialog, MD3Theme, RadioButton, ActivityIndicator, TextInput } from 'react-native-paper';
+import { Text, IconButton, useTheme, Button, Portal, Dialog, MD3Theme, RadioButton, ActivityIndicator, TextInput, Menu, ProgressBar } from 'react-native-paper';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { MainNavigationProp, MainStackParamList } from '../../navigation/types';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Script, ScriptCharacter } from '../../types/script';
+import {
+  LineScore,
+  RehearsalLine,
+  Script,
+  ScriptCharacter,
+  ScriptMastery,
+  ScriptParenthetical,
+  VoiceCatalogueEntry,
+  VoiceGenerationJob,
+  WordAlignment,
+} from '../../types/script';
 import firebaseService from '../../services/firebase';
+import offlineScripts from '../../services/offlineScripts';
+import { ProcessedLine, getScriptPages, splitAtParentheticals } from '../../utils/scriptLines';
+import { RehearsalRange, isInRange, rangeEnd, sceneRange } from '../../utils/rehearsalRange';
+import { nextRehearsalStep, toRehearsalLines } from '../../utils/rehearsal';
+import RehearsalRangeDialog from './components/RehearsalRangeDialog';
+import { CueSettings, DEFAULT_CUE_SETTINGS, cueText, cueVoiceKey, describeCue, findCueLines } from '../../utils/cueMode';
+import CueModeDialog from './components/CueModeDialog';
+import { formatAccuracy, scoreLine } from '../../utils/lineAccuracy';
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  MAX_PROMPTS_PER_LINE,
+  PromptSettings,
+  isDriedUp,
+  isPromptRequest,
+  promptSpan,
+  promptWords,
+  stripPromptRequest,
+} from '../../utils/linePrompt';
+import LinePromptDialog from './components/LinePromptDialog';
+import { LEVEL_LABELS, getLineLevel, lineKey, linesNeedingWork, maskLine, updateLineMastery } from '../../utils/memorisation';
 import { useFocusEffect } from '@react-navigation/native';
 import { Camera, useCameraDevice, useCameraPermission, CameraPosition, CameraRuntimeError, CameraCaptureError, CameraDeviceFormat } from 'react-native-vision-camera';
 import RNFS from 'react-native-fs';
@@ -14,47 +44,14 @@ import Voice from '@react-native-voice/voice';
 
 type PracticeScriptRouteProp = RouteProp<MainStackParamList, 'PracticeScript'>;
 
-type VoiceOption = 'alloy' | 'ash' | 'coral' | 'echo' | 'fable' | 'onyx' | 'nova' | 'sage' | 'shimmer';
-
 interface DialogueLine {
   text: string;
   lineNumber: number;
   voices?: Record<string, string>;
 }
 
-interface DialogueItem {
-  characterId: string;
-  characterName: string;
-  text: string;
-  lineNumber: number;
-  isUser: boolean;
-  isMultiLine?: boolean;
-  continuationOf?: number;
-  isAction?: boolean;
-  voices?: Record<string, string>;
-}
-
-type VoiceInfo = {
-  description: string;
-  gender: 'Male' | 'Female';
-};
-
-const VOICE_OPTIONS: VoiceOption[] = ['alloy', 'ash', 'coral', 'echo', 'fable', 'onyx', 'nova', 'sage', 'shimmer'];
-
-const VOICE_INFO: Record<VoiceOption, VoiceInfo> = {
-  alloy: { description: 'Warm, steady', gender: 'Male' },
-  ash: { description: 'Deep, authoritative', gender: 'Male' },
-  coral: { description: 'Bright, expressive', gender: 'Female' },
-  echo: { description: 'Smooth, refined', gender: 'Male' },
-  fable: { description: 'Soft, lyrical', gender: 'Male' },
-  onyx: { description: 'Bold, resonant', gender: 'Male' },
-  nova: { description: 'Youthful, energetic', gender: 'Female' },
-  sage: { description: 'Calm, wise', gender: 'Female' },
-  shimmer: { description: 'Airy, melodic', gender: 'Female' }
-};
-
 interface VoiceSettings {
-  voice: VoiceOption;
+  voice: string;
   testText: string;
 }
 
@@ -65,16 +62,6 @@ interface Character {
   dialogue?: DialogueLine[];
 }
 
-// Add ProcessedLine type
-interface ProcessedLine {
-  characterName: string;
-  text: string;
-  originalLineNumber: number;
-  sequentialNumber: number;
-  isAction?: boolean;
-  voices?: Record<string, string>;
-}
-
 const createStyles = (theme: MD3Theme) => StyleSheet.create({
   container: {
     flex: 1,
@@ -107,6 +94,20 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
     marginBottom: 24,
     paddingHorizontal: 16,
   },
+  pageMarker: {
+    marginBottom: 16,
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  pageMarkerText: {
+    color: theme.colors.onSurfaceVariant,
+    fontFamily: 'monospace',
+  },
+  pageMenu: {
+    maxHeight: 320,
+  },
   lineNumberContainer: {
     width: 40,
     marginRight: 16,
@@ -131,6 +132,36 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
     lineHeight: 24,
     color: theme.colors.onSurface,
   },
+  directionText: {
+    fontStyle: 'italic',
+    color: theme.colors.onSurfaceVariant,
+  },
+  accuracyLabel: {
+    color: theme.colors.onSurfaceVariant,
+    fontWeight: 'normal',
+    textTransform: 'none',
+  },
+  missedWord: {
+    color: theme.colors.error,
+    textDecorationLine: 'line-through',
+  },
+  substitutedWord: {
+    color: theme.colors.error,
+    textDecorationLine: 'underline',
+  },
+  addedWord: {
+    color: theme.colors.tertiary,
+    fontStyle: 'italic',
+  },
+  promptText: {
+    color: theme.colors.primary,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  hiddenLine: {
+    color: theme.colors.onSurfaceVariant,
+    fontStyle: 'italic',
+  },
   currentLine: {
     backgroundColor: theme.colors.primaryContainer,
     borderRadius: 4,
@@ -161,6 +192,10 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
   characterButton: {
     marginBottom: 8,
   },
+  partnerVoices: {
+    marginTop: 8,
+    gap: 4,
+  },
   camera: {
     width: '100%',
     marginBottom: 16,
@@ -239,6 +274,15 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  voiceProgress: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    gap: 4,
+  },
+  voiceProgressText: {
+    color: theme.colors.onSurfaceVariant,
+    fontSize: 12,
+  },
   generatingContent: {
     alignItems: 'center',
     padding: 16,
@@ -271,19 +315,50 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
     marginTop: 4,
     marginLeft: 16,
   },
+  dualLine: {
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.tertiary,
+    paddingLeft: 8,
+  },
+  dualLabel: {
+    color: theme.colors.tertiary,
+    marginBottom: 2,
+  },
+  dimmedLine: {
+    opacity: 0.4,
+  },
 });
 
 const LINES_PER_PAGE = 20;
+// Spoken prompts are quieter than the partner's lines, as from a reader on book
+const PROMPT_VOLUME = 0.4;
+// Partner lines voiced before rehearsal can start, and how long a line the
+// voice job hasn't reached is waited for before it is skipped
+const VOICES_BEFORE_START = 3;
+const VOICE_WAIT_MS = 15000;
+
+const isVoiceJobActive = (job: VoiceGenerationJob) => job.status === 'queued' || job.status === 'running';
+
+// Whether the first partner lines from lineNumber have been voiced (or given up on)
+const voicesReadyFrom = (job: VoiceGenerationJob | null, processedLines: ProcessedLine[], lineNumber: number) => {
+  if (!job || !isVoiceJobActive(job)) return true;
+  return processedLines
+    .filter(line => line.originalLineNumber >= lineNumber && !line.isAction &&
+      line.characterName !== job.practiceCharacter)
+    .slice(0, VOICES_BEFORE_START)
+    .every(line => !job.pending.includes(String(line.originalLineNumber)));
+};
 
 const PracticeScript: React.FC = () => {
   const [script, setScript] = useState<Script | null>(null);
   const [currentCharacter, setCurrentCharacter] = useState<ScriptCharacter | null>(null);
-  const [dialogue, setDialogue] = useState<DialogueItem[]>([]);
+  const [dialogue, setDialogue] = useState<RehearsalLine[]>([]);
   const [currentLineIndex, setCurrentLineIndex] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [settingsVisible, setSettingsVisible] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [characterVoices, setCharacterVoices] = useState<Record<string, VoiceSettings>>({});
+  const [voiceCatalogue, setVoiceCatalogue] = useState<VoiceCatalogueEntry[]>([]);
   const characterVoicesRef = useRef<Record<string, VoiceSettings>>({});
   const [hasPermission, setHasPermission] = useState(false);
   const [cameraPosition, setCameraPosition] = useState<CameraPosition>('front');
@@ -316,7 +391,7 @@ const PracticeScript: React.FC = () => {
   const SILENCE_THRESHOLD = 2000; // 2 seconds of silence
   const RECOGNITION_TIMEOUT = 10000; // 10 seconds max for recognition
   const camera = useRef<Camera>(null);
-  const dialogueRef = useRef<DialogueItem[]>([]);
+  const dialogueRef = useRef<RehearsalLine[]>([]);
   const currentIndexRef = useRef<number | null>(null);
   const soundRef = useRef<Sound | null>(null);
   const isRehearsingRef = useRef(false);
@@ -337,12 +412,61 @@ const PracticeScript: React.FC = () => {
   const [allLines, setAllLines] = useState<ProcessedLine[]>([]);
   const scriptRef = useRef<Script | null>(null);
   const [isCombinedMode, setIsCombinedMode] = useState(false);
+  const [pageMenuVisible, setPageMenuVisible] = useState(false);
+  const [visiblePage, setVisiblePage] = useState<number | null>(null);
+  // Scroll offset of each page marker, and the page waiting to be scrolled to
+  // once its marker has been laid out
+  const pageOffsetsRef = useRef<Record<number, number>>({});
+  const pendingPageRef = useRef<number | null>(null);
+  // Rehearsal starts from here rather than the top after a page jump
+  const startIndexRef = useRef(0);
+  // Partner voices are generated while the user rehearses, starting from
+  // where the rehearsal starts; lines become playable as they are voiced
+  const [voiceJob, setVoiceJob] = useState<VoiceGenerationJob | null>(null);
+  const voiceJobRef = useRef<VoiceGenerationJob | null>(null);
+  const voiceJobUnsubscribeRef = useRef<(() => void) | null>(null);
+  // Partner lines playing while the user speaks over them; the next line
+  // waits for them to finish
+  const overlapPlaybackRef = useRef<Promise<void> | null>(null);
+  const [activeDualGroup, setActiveDualGroup] = useState<number | null>(null);
+  // Part of the script being rehearsed, and whether it repeats when it ends
+  const [rehearsalRange, setRehearsalRange] = useState<RehearsalRange | null>(null);
+  const rehearsalRangeRef = useRef<RehearsalRange | null>(null);
+  const [loopRange, setLoopRange] = useState(false);
+  const loopRangeRef = useRef(false);
+  const [loopPass, setLoopPass] = useState(1);
+  const [rangeDialogVisible, setRangeDialogVisible] = useState(false);
+  // Cue-only rehearsal for this session, and the partner lines that cue the user
+  const [cueSettings, setCueSettings] = useState<CueSettings>(DEFAULT_CUE_SETTINGS);
+  const cueSettingsRef = useRef<CueSettings>(DEFAULT_CUE_SETTINGS);
+  const cueLinesRef = useRef<Set<number>>(new Set());
+  const [cueDialogVisible, setCueDialogVisible] = useState(false);
+  // Latest score for each of the user's lines, and the session they're saved with
+  const [lineScores, setLineScores] = useState<Record<number, LineScore>>({});
+  const sessionRef = useRef<Promise<string | null> | null>(null);
+  const sessionScoresRef = useRef<LineScore[]>([]);
+  const lineStartRef = useRef(0);
+  const listeningLineRef = useRef<RehearsalLine | null>(null);
+  // Prompting when the user dries: what they said before each prompt, how many
+  // prompts the line has had, and the prompt on screen
+  const [promptSettings, setPromptSettings] = useState<PromptSettings>(DEFAULT_PROMPT_SETTINGS);
+  const promptSettingsRef = useRef<PromptSettings>(DEFAULT_PROMPT_SETTINGS);
+  const [promptDialogVisible, setPromptDialogVisible] = useState(false);
+  const heardBeforePromptRef = useRef('');
+  const promptCountRef = useRef(0);
+  const promptRequestedRef = useRef(false);
+  const promptTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [promptText, setPromptText] = useState<string | null>(null);
+  // Memorisation: the user's lines are masked by how well each is known
+  const [memorise, setMemorise] = useState(false);
+  const [mastery, setMastery] = useState<ScriptMastery>({});
+  const masteryRef = useRef<ScriptMastery>({});
 
   const navigation = useNavigation<MainNavigationProp>();
   const route = useRoute<PracticeScriptRouteProp>();
   const theme = useTheme();
   const styles = createStyles(theme);
-  const { scriptId, characterId } = route.params;
+  const { scriptId, characterId, startLine, endLine } = route.params;
 
   // Set up navigation options
   useEffect(() => {
@@ -362,11 +486,29 @@ const PracticeScript: React.FC = () => {
   useEffect(() => {
     const loadScript = async () => {
       try {
-        // Load script and voice settings in parallel
-        const [scriptData, savedVoices] = await Promise.all([
+        const offline = await offlineScripts.getOfflineScript(scriptId);
+
+        // Load script and voice settings in parallel, falling back to the
+        // downloaded copy without a connection
+        const [onlineScript, savedVoices] = await Promise.all([
           firebaseService.getScript(scriptId),
           firebaseService.getCharacterVoices(scriptId)
-        ]);
+        ]).catch(error => {
+          if (!offline) throw error;
+          console.log('Loading downloaded copy of the script:', error);
+          const offlineVoices = Object.fromEntries(
+            Object.entries(offline.characterVoices).map(([name, voice]) => [name, { voice, testText: '' }])
+          );
+          return [offline.script, offlineVoices] as const;
+        });
+
+        // Downloaded recordings play from the device
+        const scriptData = onlineScript && offline
+          ? offlineScripts.withLocalVoices(onlineScript, offline)
+          : onlineScript;
+        if (offline) {
+          offlineScripts.markUsed(scriptId).catch(error => console.error('Error updating offline script:', error));
+        }
 
         if (scriptData && scriptData.analysis) {
           console.log('Loaded script analysis:', {
@@ -378,6 +520,7 @@ const PracticeScript: React.FC = () => {
           
           // Store processed lines in ref immediately
           processedLinesRef.current = scriptData.analysis.processedLines || [];
+          updateCueLines();
           
           setScript(scriptData);
           const character = scriptData.analysis.characters.find((c: Character) => c.name === characterId);
@@ -392,6 +535,13 @@ const PracticeScript: React.FC = () => {
               gender: 'unknown'
             });
 
+            firebaseService.getLineMastery(scriptId, character.name)
+              .then(saved => {
+                masteryRef.current = saved;
+                setMastery(saved);
+              })
+              .catch(error => console.error('Error loading line mastery:', error));
+
             // Set initial lines for pagination and initialize dialogue
             const initialLines = scriptData.analysis.processedLines.slice(0, LINES_PER_PAGE);
             setAllLines(initialLines);
@@ -405,100 +555,33 @@ const PracticeScript: React.FC = () => {
             setDialogue(initialDialogue);
             dialogueRef.current = initialDialogue;
 
+            // Opened from a page or scene in ScriptDetail
+            if (startLine !== undefined && endLine !== undefined) {
+              const scene = scriptData.analysis.scenes?.find(item => item.startLine === startLine);
+              applyRehearsalRange(
+                (scene && sceneRange([scene])) ||
+                  { kind: 'lines', spans: [{ startLine, endLine }], label: 'Selected lines' },
+                loopRangeRef.current
+              );
+            } else if (startLine !== undefined) {
+              jumpToLine(startLine);
+            }
+
             if (savedVoices) {
               console.log('Loaded voice settings:', savedVoices);
               const typedVoices = savedVoices as Record<string, VoiceSettings>;
               setCharacterVoices(typedVoices);
               characterVoicesRef.current = typedVoices;
 
-              // Pre-process all lines that need voice generation
-              const linesToGenerate = processedLinesRef.current
-                .filter(pl => {
-                  // Skip practicing character and action lines
-                  if (pl.characterName === characterId || pl.isAction) return false;
-                  
-                  // Check if this character has voice settings
-                  const charVoice = savedVoices[pl.characterName]?.voice;
-                  if (!charVoice) return false;
-
-                  // Check if this line needs voice generation
-                  return !pl.voices || !pl.voices[charVoice];
-                })
-                .reduce((acc, pl) => {
-                  if (!acc.includes(pl.characterName)) {
-                    acc.push(pl.characterName);
-                  }
-                  return acc;
-                }, [] as string[]);
-
-              if (linesToGenerate.length > 0) {
-                console.log('Starting voice generation for characters:', linesToGenerate);
-                try {
-                  setIsGeneratingVoices(true);
-                  setGenerationProgress('Generating Voices...');
-                  await firebaseService.generateVoiceLines(
-                    scriptId,
-                    characterId,
-                    savedVoices
-                  );
-
-                  // Refresh processed lines after generation
-                  const updatedScript = await firebaseService.getScript(scriptId);
-                  if (updatedScript?.analysis?.processedLines) {
-                    processedLinesRef.current = updatedScript.analysis.processedLines;
-                    
-                    // Update dialogue state with new voice URLs
-                    setDialogue(prevDialogue => {
-                      return prevDialogue.map(dialogueItem => {
-                        // Skip action lines and practicing character's lines
-                        if (dialogueItem.isAction || dialogueItem.characterName === characterId) {
-                          return dialogueItem;
-                        }
-
-                        // Find corresponding processed line to get updated voice URLs
-                        const processedLine = updatedScript?.analysis?.processedLines?.find(
-                          pl => pl.characterName === dialogueItem.characterName && 
-                               pl.originalLineNumber === dialogueItem.lineNumber
-                        );
-
-                        if (processedLine?.voices) {
-                          return {
-                            ...dialogueItem,
-                            voices: processedLine.voices
-                          };
-                        }
-
-                        return dialogueItem;
-                      });
-                    });
-
-                    // Also update dialogueRef to maintain consistency
-                    dialogueRef.current = dialogueRef.current.map(dialogueItem => {
-                      if (dialogueItem.isAction || dialogueItem.characterName === characterId) {
-                        return dialogueItem;
-                      }
-
-                      const processedLine = updatedScript?.analysis?.processedLines?.find(
-                        pl => pl.characterName === dialogueItem.characterName && 
-                             pl.originalLineNumber === dialogueItem.lineNumber
-                      );
-
-                      if (processedLine?.voices) {
-                        return {
-                          ...dialogueItem,
-                          voices: processedLine.voices
-                        };
-                      }
-
-                      return dialogueItem;
-                    });
-                  }
-                } catch (error) {
-                  console.error('Error generating voice lines:', error);
-                  setError('Failed to generate voice lines. Some characters may not have audio.');
-                } finally {
-                  setIsGeneratingVoices(false);
-                }
+              // Voice the partner lines that don't have a recording yet,
+              // starting where the rehearsal starts
+              const missing = processedLinesRef.current.some(pl => {
+                if (pl.characterName === characterId || pl.isAction) return false;
+                const charVoice = savedVoices[pl.characterName]?.voice;
+                return !!charVoice && !pl.voices?.[charVoice];
+              });
+              if (missing) {
+                startVoiceJob(typedVoices, dialogueRef.current[startIndexRef.current]?.lineNumber ?? 0);
               } else {
                 console.log('No voice generation needed');
               }
@@ -518,10 +601,104 @@ const PracticeScript: React.FC = () => {
     loadScript();
   }, [scriptId, characterId]);
 
+  // Generating stops with the rehearsal; recordings made so far are kept
+  useEffect(() => {
+    return () => {
+      voiceJobUnsubscribeRef.current?.();
+      const job = voiceJobRef.current;
+      if (job && isVoiceJobActive(job)) {
+        firebaseService.cancelVoiceGeneration(scriptId, job.id)
+          .catch(error => console.error('Error cancelling voice generation:', error));
+      }
+    };
+  }, [scriptId]);
+
+  // Adds recordings the job has finished to the lines, so they play
+  const applyVoiceJob = (job: VoiceGenerationJob) => {
+    voiceJobRef.current = job;
+    setVoiceJob(job);
+
+    let changed = false;
+    processedLinesRef.current = processedLinesRef.current.map((pl: ProcessedLine) => {
+      const voiced = job.lines[String(pl.originalLineNumber)];
+      // Keep recordings already there, such as downloaded ones
+      if (voiced?.status !== 'ready' || !voiced.url || voiced.characterName !== pl.characterName ||
+          pl.voices?.[voiced.voice]) {
+        return pl;
+      }
+      changed = true;
+      return {
+        ...pl,
+        voices: { ...pl.voices, [voiced.voice]: voiced.url },
+        ...(voiced.voiceVolume !== undefined ? { voiceVolume: voiced.voiceVolume } : {}),
+      };
+    });
+    if (!changed) return;
+
+    // Lines loaded later are built from the script, so it gets them too
+    if (scriptRef.current?.analysis) {
+      scriptRef.current = {
+        ...scriptRef.current,
+        analysis: { ...scriptRef.current.analysis, processedLines: processedLinesRef.current },
+      };
+    }
+    const byLine = new Map<number, ProcessedLine>(
+      processedLinesRef.current.map((pl: ProcessedLine) => [pl.originalLineNumber, pl])
+    );
+    dialogueRef.current = dialogueRef.current.map(item => {
+      const pl = byLine.get(item.lineNumber);
+      if (item.isAction || item.isUser || !pl || pl.characterName !== item.characterName) return item;
+      return { ...item, voices: pl.voices, voiceVolume: pl.voiceVolume };
+    });
+    setDialogue(dialogueRef.current);
+  };
+
+  // Starts voicing partner lines from fromLine, replacing any job under way
+  const startVoiceJob = async (voices: Record<string, VoiceSettings>, fromLine: number) => {
+    voiceJobUnsubscribeRef.current?.();
+    voiceJobUnsubscribeRef.current = null;
+    const previous = voiceJobRef.current;
+    if (previous && isVoiceJobActive(previous)) {
+      firebaseService.cancelVoiceGeneration(scriptId, previous.id)
+        .catch(error => console.error('Error cancelling voice generation:', error));
+    }
+
+    try {
+      console.log('Starting voice generation from line:', fromLine);
+      const jobId = await firebaseService.startVoiceGeneration(scriptId, characterId, voices, fromLine);
+      voiceJobUnsubscribeRef.current = firebaseService.subscribeToVoiceJob(scriptId, jobId, job => {
+        applyVoiceJob(job);
+        if (job.status === 'failed') {
+          setError(job.error || 'Failed to generate voice lines. Some characters may not have audio.');
+        }
+      });
+    } catch (error) {
+      console.error('Error generating voice lines:', error);
+      setError('Failed to generate voice lines. Some characters may not have audio.');
+    }
+  };
+
+  // Waits for the job to voice a line it hasn't reached yet
+  const waitForVoice = async (line: RehearsalLine) => {
+    const key = String(line.lineNumber);
+    const deadline = Date.now() + VOICE_WAIT_MS;
+    while (isRehearsingRef.current && Date.now() < deadline) {
+      const job = voiceJobRef.current;
+      if (!job || !isVoiceJobActive(job) || !job.pending.includes(key)) return;
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  };
+
   useEffect(() => {
     checkPermissions();
   }, []);
 
+  useEffect(() => {
+    firebaseService.getVoiceCatalogue()
+      .then(setVoiceCatalogue)
+      .catch(error => console.error('Error loading voices:', error));
+  }, []);
+
   useEffect(() => {
     if (device?.formats) {
       // Filter for formats that support video recording with common resolutions
@@ -758,7 +935,9 @@ const PracticeScript: React.FC = () => {
       console.log('Starting rehearsal in combined mode');
       
       // Reset rehearsal state
-      currentIndexRef.current = null;
+      currentIndexRef.current = startIndexRef.current > 0 ? startIndexRef.current - 1 : null;
+      setLoopPass(1);
+      startPracticeSession();
       
       // Don't stop voice recognition if it's already running
       if (soundRef.current) {
@@ -773,7 +952,7 @@ const PracticeScript: React.FC = () => {
       // Set rehearsal state
       isRehearsingRef.current = true;
       setCurrentPlayingIndex(null);
-      setCurrentLineIndex(0);
+      setCurrentLineIndex(startIndexRef.current);
       setIsLineInProgress(false);
       setCurrentlyPlayingLine(null);
       setIsRehearsing(true);
@@ -817,7 +996,9 @@ const PracticeScript: React.FC = () => {
       }
 
       // Regular rehearsal flow
-      currentIndexRef.current = null;
+      currentIndexRef.current = startIndexRef.current > 0 ? startIndexRef.current - 1 : null;
+      setLoopPass(1);
+      startPracticeSession();
       
       await stopListening();
       if (soundRef.current) {
@@ -830,7 +1011,7 @@ const PracticeScript: React.FC = () => {
       
       isRehearsingRef.current = true;
       setCurrentPlayingIndex(null);
-      setCurrentLineIndex(0);
+      setCurrentLineIndex(startIndexRef.current);
       setIsLineInProgress(false);
       setCurrentlyPlayingLine(null);
       setIsRehearsing(true);
@@ -847,6 +1028,10 @@ const PracticeScript: React.FC = () => {
     console.log('Stopping rehearsal');
     
     isRehearsingRef.current = false;
+    listeningLineRef.current = null;
+    clearPromptTimer();
+    setPromptText(null);
+    completePracticeSession();
     
     try {
       if (isCombinedMode) {
@@ -864,6 +1049,8 @@ const PracticeScript: React.FC = () => {
       
       resetSpeechState();
       currentIndexRef.current = null;
+      overlapPlaybackRef.current = null;
+      setActiveDualGroup(null);
       setCurrentPlayingIndex(null);
       setCurrentLineIndex(0);
       setIsLineInProgress(false);
@@ -895,8 +1082,140 @@ const PracticeScript: React.FC = () => {
     }
   };
 
+  const scrollToPage = (pageNumber: number) => {
+    const offset = pageOffsetsRef.current[pageNumber];
+    if (offset === undefined) {
+      pendingPageRef.current = pageNumber;
+      return;
+    }
+    pendingPageRef.current = null;
+    scrollViewRef.current?.scrollTo({ y: offset, animated: true });
+  };
+
+  const handlePageMarkerLayout = (pageNumber: number, y: number) => {
+    pageOffsetsRef.current[pageNumber] = y;
+    if (pendingPageRef.current === pageNumber) {
+      scrollToPage(pageNumber);
+    }
+  };
+
+  // Loads lines up to the target line, makes it the rehearsal starting point
+  // and scrolls its page into view
+  // Loads lines through `loadThrough` as well, so a whole scene can be rehearsed
+  const jumpToLine = (lineNumber: number, loadThrough?: number) => {
+    const processedLines = scriptRef.current?.analysis?.processedLines;
+    if (!processedLines) return;
+
+    const targetIndex = processedLines.findIndex(line => line.originalLineNumber >= lineNumber);
+    if (targetIndex === -1) return;
+
+    let loadIndex = targetIndex;
+    if (loadThrough !== undefined) {
+      processedLines.forEach((line, index) => {
+        if (line.originalLineNumber <= loadThrough) loadIndex = Math.max(loadIndex, index);
+      });
+    }
+
+    if (loadIndex >= dialogueRef.current.length) {
+      const pagesToLoad = Math.ceil((loadIndex + 1) / LINES_PER_PAGE);
+      const lines = processedLines.slice(0, pagesToLoad * LINES_PER_PAGE);
+      setAllLines(lines);
+      setCurrentPage(pagesToLoad);
+      setHasMoreLines(lines.length < processedLines.length);
+
+      const updatedDialogue = initializeDialogue(lines);
+      setDialogue(updatedDialogue);
+      dialogueRef.current = updatedDialogue;
+    }
+
+    const target = processedLines[targetIndex];
+    const dialogueIndex = dialogueRef.current.findIndex(item => item.lineNumber === target.originalLineNumber);
+    startIndexRef.current = Math.max(0, dialogueIndex);
+    setCurrentLineIndex(startIndexRef.current);
+
+    if (target.pageNumber !== undefined) {
+      scrollToPage(target.pageNumber);
+    } else {
+      scrollToLine(startIndexRef.current);
+    }
+
+    // Voice the lines from the new start point first
+    const job = voiceJobRef.current;
+    if (job && isVoiceJobActive(job) && !voicesReadyFrom(job, processedLines, target.originalLineNumber)) {
+      startVoiceJob(characterVoicesRef.current, target.originalLineNumber);
+    }
+  };
+
+  const applyRehearsalRange = (range: RehearsalRange | null, loop: boolean) => {
+    setRangeDialogVisible(false);
+    rehearsalRangeRef.current = range;
+    setRehearsalRange(range);
+    loopRangeRef.current = loop;
+    setLoopRange(loop);
+    if (range) {
+      jumpToLine(range.spans[0].startLine, rangeEnd(range));
+    }
+  };
+
+  const updateCueLines = () => {
+    cueLinesRef.current = findCueLines(
+      [...processedLinesRef.current].sort((a, b) => a.sequentialNumber - b.sequentialNumber),
+      characterId
+    );
+  };
+
+  const applyCueSettings = async (settings: CueSettings) => {
+    setCueDialogVisible(false);
+    updateCueLines();
+    cueSettingsRef.current = settings;
+    setCueSettings(settings);
+    if (!settings.enabled || settings.unit !== 'words') return;
+
+    // Word cues are voiced separately; fetch any not recorded at this length yet
+    const missingCues = processedLinesRef.current.some((line: ProcessedLine) => {
+      const voice = characterVoicesRef.current[line.characterName]?.voice;
+      return cueLinesRef.current.has(line.originalLineNumber) && !!voice &&
+        !line.cueVoices?.[cueVoiceKey(voice, settings.amount)];
+    });
+    if (!missingCues) return;
+
+    try {
+      setIsGeneratingVoices(true);
+      setGenerationProgress('Generating Cues...');
+      const result = await firebaseService.generateCueLines(
+        scriptId,
+        characterId,
+        characterVoicesRef.current,
+        settings.amount
+      );
+      if (result.failed > 0) {
+        console.warn(`${result.failed} cues could not be generated; their full lines will play`);
+      }
+      const updatedScript = await firebaseService.getScript(scriptId);
+      if (updatedScript?.analysis?.processedLines) {
+        processedLinesRef.current = updatedScript.analysis.processedLines;
+        // The script only gets the voice job's recordings when a run ends
+        if (voiceJobRef.current) applyVoiceJob(voiceJobRef.current);
+      }
+    } catch (error) {
+      console.error('Error generating cue lines:', error);
+      setError('Failed to generate cues. Full lines will be played instead.');
+    } finally {
+      setIsGeneratingVoices(false);
+    }
+  };
+
+  const handleJumpToPage = (pageNumber: number) => {
+    setPageMenuVisible(false);
+    const target = getScriptPages(scriptRef.current?.analysis?.processedLines || [])
+      .find(page => page.pageNumber === pageNumber);
+    if (target) {
+      jumpToLine(target.firstLine.originalLineNumber);
+    }
+  };
+
   // Update getVoiceLineUrl to use the ref
-  const getVoiceLineUrl = (characterName: string, lineNumber: number, voiceId: VoiceOption): string | null => {
+  const getVoiceLineUrl = (characterName: string, lineNumber: number, voiceId: string): string | null => {
     console.log('Getting voice URL for:', {
       characterName,
       lineNumber,
@@ -958,8 +1277,16 @@ const PracticeScript: React.FC = () => {
     return voiceUrl || null;
   };
 
-  // Simple play voice line function
-  const playVoiceLine = async (lineId: string, voiceUrl: string): Promise<void> => {
+  const getCueVoiceUrl = (characterName: string, lineNumber: number, voiceId: string, words: number): string | null => {
+    const processedLine = processedLinesRef.current.find(
+      (pl: ProcessedLine) => pl.characterName === characterName && pl.originalLineNumber === lineNumber
+    );
+    return processedLine?.cueVoices?.[cueVoiceKey(voiceId, words)] || null;
+  };
+
+  // Simple play voice line function; volume comes from the line's delivery (quieter when whispered).
+  // With lastSeconds only the end of the line plays, for cues.
+  const playVoiceLine = async (lineId: string, voiceUrl: string, volume = 1, lastSeconds?: number): Promise<void> => {
     return new Promise((resolve, reject) => {
       try {
         // Clean up previous sound
@@ -975,6 +1302,10 @@ const PracticeScript: React.FC = () => {
             return;
           }
 
+          newSound.setVolume(volume);
+          if (lastSeconds !== undefined && newSound.getDuration() > lastSeconds) {
+            newSound.setCurrentTime(newSound.getDuration() - lastSeconds);
+          }
           newSound.play((success) => {
             if (success) {
               resolve();
@@ -995,6 +1326,38 @@ const PracticeScript: React.FC = () => {
     });
   };
 
+  // Plays the part of a recording between two fractions of its length, for prompts
+  const playVoiceSegment = async (voiceUrl: string, volume: number, from: number, to: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (soundRef.current) {
+        soundRef.current.stop();
+        soundRef.current.release();
+        soundRef.current = null;
+      }
+
+      const newSound = new Sound(voiceUrl, '', (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        const duration = newSound.getDuration();
+        const finish = () => {
+          clearTimeout(timer);
+          newSound.stop();
+          newSound.release();
+          if (soundRef.current === newSound) soundRef.current = null;
+          resolve();
+        };
+        const timer = setTimeout(finish, Math.max(0, (to - from) * duration * 1000));
+        newSound.setVolume(volume);
+        newSound.setCurrentTime(from * duration);
+        newSound.play(finish);
+        soundRef.current = newSound;
+      });
+    });
+  };
+
   // Add loadMoreLines function
   const loadMoreLines = async () => {
     if (!hasMoreLines || isLoadingMore || !scriptRef.current?.analysis?.processedLines) return;
@@ -1039,24 +1402,19 @@ const PracticeScript: React.FC = () => {
     if (isCloseToBottom && !isLoadingMore && hasMoreLines) {
       loadMoreLines();
     }
+
+    // The page whose marker was last scrolled past
+    const page = Object.entries(pageOffsetsRef.current)
+      .filter(([, offset]) => offset <= contentOffset.y + 1)
+      .reduce<number | null>((latest, [pageNumber]) => Math.max(latest ?? 0, Number(pageNumber)), null);
+    if (page !== null && page !== visiblePage) {
+      setVisiblePage(page);
+    }
   };
 
-  // Add initializeDialogue function
   const initializeDialogue = (lines: ProcessedLine[] = allLines) => {
     if (!scriptRef.current?.analysis) return [];
-
-    const combinedLines: DialogueItem[] = lines.map(line => ({
-      characterId: line.isAction ? 'action' : line.characterName,
-      characterName: line.isAction ? 'action' : line.characterName,
-      text: line.text,
-      lineNumber: line.originalLineNumber,
-      isUser: line.characterName === characterId,
-      isAction: line.isAction,
-      voices: line.voices
-    }));
-
-    // Sort by line number
-    return combinedLines.sort((a, b) => a.lineNumber - b.lineNumber);
+    return toRehearsalLines(lines, characterId);
   };
 
   const handleStopRecording = async () => {
@@ -1139,6 +1497,17 @@ const PracticeScript: React.FC = () => {
           setRetryCount(0);
         };
 
+        Voice.onSpeechPartialResults = (result: { value?: string[] }) => {
+          const line = listeningLineRef.current;
+          if (!isMounted || !line) return;
+          const heard = result.value || [];
+          setPartialResults(heard);
+          armPromptTimer();
+          if (heard.some(text => isPromptRequest(text, line.text, heardBeforePromptRef.current))) {
+            requestPrompt();
+          }
+        };
+
         Voice.onSpeechEnd = () => {
           if (!isMounted) return;
           console.log('Speech ended');
@@ -1158,6 +1527,8 @@ const PracticeScript: React.FC = () => {
             
             // First stop listening
             await stopListening();
+            if (await promptIfDried(result.value || [])) return;
+            recordSpokenLine(result.value || []);
             
             // Ensure we're still in a valid state
             if (!ensureRehearsalState()) return;
@@ -1200,6 +1571,9 @@ const PracticeScript: React.FC = () => {
             switch (errorCode) {
               case '7': // No match
               case '6': // No speech input
+                if (await promptIfDried([])) {
+                  break;
+                }
                 if (retryCount < MAX_RETRIES) {
                   console.log('No speech detected, retrying...');
                   setRetryCount(prev => prev + 1);
@@ -1311,6 +1685,7 @@ const PracticeScript: React.FC = () => {
       
       setIsListening(true);
       currentRecognitionStart.current = Date.now();
+      armPromptTimer();
 
       // Set a timeout to prevent infinite waiting
       if (recognitionTimeout) {
@@ -1351,6 +1726,7 @@ const PracticeScript: React.FC = () => {
       
       // Set flag before stopping to prevent error handling
       intentionalStopRef.current = true;
+      clearPromptTimer();
       
       // Stop recognition
       await Voice.stop();
@@ -1374,6 +1750,228 @@ const PracticeScript: React.FC = () => {
     }
   };
 
+  const isUserLine = (line: RehearsalLine) => line.isUser || line.characterName === characterId;
+
+  const startPracticeSession = () => {
+    setLineScores({});
+    sessionScoresRef.current = [];
+    sessionRef.current = firebaseService.startPracticeSession(scriptId, characterId)
+      .catch(error => {
+        console.error('Error starting practice session:', error);
+        return null;
+      });
+  };
+
+  // Session writes wait for the session to be created and never hold up the rehearsal
+  const updateSession = (write: (sessionId: string) => Promise<void>) => {
+    sessionRef.current
+      ?.then(sessionId => (sessionId ? write(sessionId) : undefined))
+      .catch(error => console.error('Error updating practice session:', error));
+  };
+
+  const completePracticeSession = () => {
+    if (!sessionRef.current) return;
+    const scores = sessionScoresRef.current;
+    const averageAccuracy = scores.length > 0
+      ? scores.reduce((total, score) => total + score.accuracy, 0) / scores.length
+      : undefined;
+    updateSession(sessionId => firebaseService.completePracticeSession(sessionId, averageAccuracy));
+    sessionRef.current = null;
+  };
+
+  // The rehearsal moved on without hearing the line being listened for
+  const recordSkippedLine = () => {
+    const line = listeningLineRef.current;
+    listeningLineRef.current = null;
+    setPromptText(null);
+    if (!line) return;
+    console.log('Line skipped:', line.lineNumber);
+    updateSession(sessionId => firebaseService.recordSkippedLine(sessionId, line.lineNumber));
+  };
+
+  // Compares what was heard with the line being listened for
+  const recordSpokenLine = (alternatives: string[]) => {
+    const line = listeningLineRef.current;
+    listeningLineRef.current = null;
+    setPromptText(null);
+    if (!line) return;
+
+    // Words said before any prompts count towards the line
+    const heard = (alternatives.length > 0 ? alternatives : [''])
+      .map(text => `${heardBeforePromptRef.current} ${stripPromptRequest(text)}`.trim());
+    const { spoken, ...alignment } = scoreLine(line.text, heard);
+    const score: LineScore = {
+      ...alignment,
+      lineNumber: line.lineNumber,
+      characterName: line.characterName,
+      spoken,
+      attemptedAt: Date.now(),
+      prompts: promptCountRef.current,
+      durationMs: Date.now() - lineStartRef.current,
+    };
+    sessionScoresRef.current.push(score);
+    console.log('Line scored:', { lineNumber: line.lineNumber, accuracy: score.accuracy });
+    setLineScores(current => ({ ...current, [line.lineNumber]: score }));
+
+    const key = lineKey(line.lineNumber);
+    const lineMastery = updateLineMastery(masteryRef.current[key], score);
+    masteryRef.current = { ...masteryRef.current, [key]: lineMastery };
+    setMastery(masteryRef.current);
+    firebaseService.saveLineMastery(scriptId, characterId, { [key]: lineMastery }).catch(error =>
+      console.error('Error saving line mastery:', error));
+    updateSession(sessionId => firebaseService.recordLineScore(sessionId, score));
+  };
+
+  // Listens for one of the user's lines from the top
+  const listenForLine = async (line: RehearsalLine) => {
+    listeningLineRef.current = line;
+    lineStartRef.current = Date.now();
+    heardBeforePromptRef.current = '';
+    promptCountRef.current = 0;
+    promptRequestedRef.current = false;
+    setPromptText(null);
+    await startListening();
+  };
+
+  const clearPromptTimer = () => {
+    if (promptTimerRef.current) {
+      clearTimeout(promptTimerRef.current);
+      promptTimerRef.current = null;
+    }
+  };
+
+  // Restarted whenever speech is heard, so it fires after a pause
+  const armPromptTimer = () => {
+    clearPromptTimer();
+    if (!promptSettingsRef.current.enabled || !listeningLineRef.current) return;
+    promptTimerRef.current = setTimeout(requestPrompt, promptSettingsRef.current.delaySeconds * 1000);
+  };
+
+  // Stopping recognition delivers what was heard, which then gets the prompt
+  const requestPrompt = () => {
+    clearPromptTimer();
+    if (!listeningLineRef.current || promptRequestedRef.current) return;
+    promptRequestedRef.current = true;
+    Voice.stop().catch(error => console.error('Error stopping for a prompt:', error));
+  };
+
+  /**
+   * Where a spoken prompt comes from: the stretch of a recording of the line
+   * that reads the next words. The line's own recording is preferred, in its
+   * character's voice if there is one; a cue recording of its last words is
+   * used when the prompt falls within them.
+   */
+  const getPromptRecording = (
+    line: RehearsalLine,
+    heard: string,
+    words: number
+  ): { url: string; from: number; to: number } | null => {
+    const processedLine = processedLinesRef.current.find(
+      (pl: ProcessedLine) => pl.characterName === line.characterName && pl.originalLineNumber === line.lineNumber
+    );
+    const recorded = processedLine?.text || line.text;
+    const { start, end, total } = promptSpan(line.text, heard, words, recorded);
+    if (total === 0 || end <= start) return null;
+
+    const ownVoice = characterVoicesRef.current[line.characterName]?.voice;
+    const voices = { ...(line.voices || {}), ...(processedLine?.voices || {}) };
+    const url = (ownVoice && voices[ownVoice]) || Object.values(voices)[0];
+    if (url) return { url, from: start / total, to: end / total };
+
+    for (const [key, cueUrl] of Object.entries<string>(processedLine?.cueVoices || {})) {
+      const cueWords = Number(key.match(/_(\d+)w$/)?.[1]);
+      const cueStart = total - cueWords;
+      if (cueWords > 0 && start >= cueStart) {
+        return { url: cueUrl, from: (start - cueStart) / cueWords, to: (end - cueStart) / cueWords };
+      }
+    }
+    return null;
+  };
+
+  /**
+   * Prompts the user when they asked for it or stopped partway through the
+   * line, then listens for the rest. Returns false when the line should be
+   * scored as it stands.
+   */
+  const promptIfDried = async (alternatives: string[]): Promise<boolean> => {
+    const line = listeningLineRef.current;
+    const settings = promptSettingsRef.current;
+    const requested = promptRequestedRef.current ||
+      alternatives.some(text => isPromptRequest(text, line?.text || '', heardBeforePromptRef.current));
+    promptRequestedRef.current = false;
+    if (!line || !settings.enabled || promptCountRef.current >= MAX_PROMPTS_PER_LINE || !isRehearsingRef.current) {
+      return false;
+    }
+
+    const heard = alternatives.length > 0
+      ? scoreLine(line.text, alternatives.map(text =>
+        `${heardBeforePromptRef.current} ${stripPromptRequest(text)}`.trim())).spoken
+      : heardBeforePromptRef.current;
+    if (!requested && !isDriedUp(line.text, heard)) return false;
+
+    const prompt = promptWords(line.text, heard, settings.words);
+    if (!prompt) return false;
+
+    heardBeforePromptRef.current = heard;
+    promptCountRef.current++;
+    console.log('Prompting line:', { lineNumber: line.lineNumber, prompt, requested });
+    setPromptText(prompt);
+
+    // Without a recording of the line the prompt is only shown
+    const recording = settings.delivery === 'speak' ? getPromptRecording(line, heard, settings.words) : null;
+    if (recording) {
+      try {
+        // The microphone stays off while the prompt plays, so it isn't heard as the actor
+        await stopListening();
+        await playVoiceSegment(recording.url, PROMPT_VOLUME, recording.from, recording.to);
+      } catch (error) {
+        console.error('Error speaking prompt:', error);
+      }
+    }
+
+    if (isRehearsingRef.current && listeningLineRef.current === line) {
+      await startListening();
+    }
+    return true;
+  };
+
+  const applyPromptSettings = (settings: PromptSettings) => {
+    setPromptDialogVisible(false);
+    promptSettingsRef.current = settings;
+    setPromptSettings(settings);
+  };
+
+  const getWordStyle = (word: WordAlignment) => {
+    switch (word.kind) {
+      case 'missed':
+        return styles.missedWord;
+      case 'substituted':
+        return styles.substitutedWord;
+      case 'added':
+        return styles.addedWord;
+      default:
+        return undefined;
+    }
+  };
+
+  // In cue mode only the user's lines and the lines that cue them are rehearsed
+  const isOutsideCues = (line: RehearsalLine) =>
+    cueSettingsRef.current.enabled && !isUserLine(line) && !cueLinesRef.current.has(line.lineNumber);
+
+  // Plays the partner's side of a dual dialogue group while the user speaks
+  const playOverlappingLines = async (lines: RehearsalLine[]) => {
+    for (const line of lines) {
+      const voice = characterVoicesRef.current[line.characterName]?.voice;
+      const voiceUrl = voice && getVoiceLineUrl(line.characterName, line.lineNumber, voice);
+      if (!voiceUrl || !isRehearsingRef.current) continue;
+      try {
+        await playVoiceLine(`${scriptId}_${line.characterName}_${line.lineNumber}`, voiceUrl, line.voiceVolume);
+      } catch (error) {
+        console.error('Error playing overlapping line:', error);
+      }
+    }
+  };
+
   // Simplified playNextLine
   const playNextLine = async () => {
     console.log('Playing next line');
@@ -1384,19 +1982,57 @@ const PracticeScript: React.FC = () => {
       return;
     }
 
-    const nextIndex = currentIndexRef.current === null ? 0 : currentIndexRef.current + 1;
+    // Still listening for a line means recognition gave up on it
+    if (listeningLineRef.current) {
+      recordSkippedLine();
+    }
+
+    // Let a partner line spoken over the user's finish before moving on
+    if (overlapPlaybackRef.current) {
+      const overlapPlayback = overlapPlaybackRef.current;
+      overlapPlaybackRef.current = null;
+      await overlapPlayback;
+      setActiveDualGroup(null);
+      if (!isRehearsingRef.current) return;
+    }
+
+    // Lines outside the rehearsal range, or not cues in cue mode, are skipped
+    const isRehearsed = (line: RehearsalLine) =>
+      isInRange(rehearsalRangeRef.current, line.lineNumber) && !isOutsideCues(line);
+
+    let step = nextRehearsalStep(dialogueRef.current, currentIndexRef.current, isRehearsed);
     
-    if (nextIndex >= dialogueRef.current.length) {
-      console.log('End of script reached');
-      handleStopRehearsal();
-      return;
+    if (!step) {
+      if (!loopRangeRef.current) {
+        console.log(rehearsalRangeRef.current ? 'End of range reached' : 'End of script reached');
+        handleStopRehearsal();
+        return;
+      }
+
+      console.log('Looping back to the start of the range');
+      const loopFrom = rehearsalRangeRef.current || startIndexRef.current === 0 ? null : startIndexRef.current - 1;
+      step = nextRehearsalStep(dialogueRef.current, loopFrom, isRehearsed);
+      setLoopPass(pass => pass + 1);
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      if (!isRehearsingRef.current || !step) return;
     }
 
-    currentIndexRef.current = nextIndex;
+    const nextIndex = step.index;
+    currentIndexRef.current = step.lastIndex;
     setCurrentPlayingIndex(nextIndex);
     setCurrentLineIndex(nextIndex);
     scrollToLine(nextIndex);
 
+    // Dual dialogue with the user in it: listen for the user's line while the
+    // partner's line plays, then carry on after the whole group
+    if (step.kind === 'dual') {
+      console.log('Processing dual dialogue group', { userIndex: nextIndex, lastIndex: step.lastIndex });
+      setActiveDualGroup(dialogueRef.current[nextIndex].dualGroup ?? null);
+      await listenForLine(dialogueRef.current[nextIndex]);
+      overlapPlaybackRef.current = playOverlappingLines(step.overlapping);
+      return;
+    }
+
     const currentLine = dialogueRef.current[nextIndex];
     console.log('Current line:', {
       index: nextIndex,
@@ -1408,15 +2044,15 @@ const PracticeScript: React.FC = () => {
     });
     
     try {
-      if (currentLine.isAction) {
+      if (step.kind === 'action') {
         console.log('Processing action line, pausing briefly');
         await new Promise(resolve => setTimeout(resolve, 1000));
         if (isRehearsingRef.current) {
           await playNextLine();
         }
-      } else if (currentLine.isUser || currentLine.characterName === characterId) {
+      } else if (step.kind === 'user') {
         console.log('Processing user line, starting voice recognition');
-        await startListening();
+        await listenForLine(currentLine);
       } else {
         console.log('Processing AI line, checking voice settings');
         const lineId = `${scriptId}_${currentLine.characterName}_${currentLine.lineNumber}`;
@@ -1435,7 +2071,21 @@ const PracticeScript: React.FC = () => {
           return;
         }
 
-        const voiceUrl = getVoiceLineUrl(currentLine.characterName, currentLine.lineNumber, characterVoiceSettings.voice);
+        const cue = cueSettingsRef.current;
+        const cueUrl = cue.enabled && cue.unit === 'words'
+          ? getCueVoiceUrl(currentLine.characterName, currentLine.lineNumber, characterVoiceSettings.voice, cue.amount)
+          : null;
+        // Without a recorded cue the full line plays
+        const findVoiceUrl = () => cueUrl ||
+          getVoiceLineUrl(currentLine.characterName, currentLine.lineNumber, characterVoiceSettings.voice);
+        let voiceUrl = findVoiceUrl();
+        const lastSeconds = cue.enabled && cue.unit === 'seconds' ? cue.amount : undefined;
+
+        if (!voiceUrl) {
+          await waitForVoice(currentLine);
+          if (!isRehearsingRef.current) return;
+          voiceUrl = findVoiceUrl();
+        }
 
         if (!voiceUrl) {
           console.log('No voice URL found for line:', {
@@ -1453,7 +2103,8 @@ const PracticeScript: React.FC = () => {
             lineId,
             voiceUrl
           });
-          await playVoiceLine(lineId, voiceUrl);
+          await playVoiceLine(lineId, voiceUrl, currentLine.voiceVolume, lastSeconds);
+          updateSession(sessionId => firebaseService.recordPartnerLine(sessionId));
           if (isRehearsingRef.current) {
             await new Promise(resolve => setTimeout(resolve, 500));
             await playNextLine();
@@ -1473,6 +2124,19 @@ const PracticeScript: React.FC = () => {
     }
   };
 
+  const pages = getScriptPages(script?.analysis?.processedLines || []);
+  const voicesReady = voicesReadyFrom(
+    voiceJob,
+    processedLinesRef.current,
+    dialogue[startIndexRef.current]?.lineNumber ?? 0
+  );
+  const linesToLearn = linesNeedingWork(
+    mastery,
+    (script?.analysis?.processedLines || [])
+      .filter(line => !line.isAction && line.characterName === characterId)
+      .map(line => line.originalLineNumber)
+  );
+
   if (!script || !currentCharacter) {
     return (
       <View style={[styles.container, styles.loadingContainer]}>
@@ -1545,19 +2209,91 @@ const PracticeScript: React.FC = () => {
           />
         </View>
       )}
+      {voiceJob && isVoiceJobActive(voiceJob) && voiceJob.total > 0 && (
+        <View style={styles.voiceProgress}>
+          <Text style={styles.voiceProgressText}>
+            {voicesReady
+              ? `Voicing partner lines · ${voiceJob.ready} of ${voiceJob.total} ready`
+              : 'Voicing the first partner lines...'}
+          </Text>
+          <ProgressBar progress={voiceJob.ready / voiceJob.total} />
+        </View>
+      )}
       <View style={styles.controlsRow}>
         <Button
           mode="contained"
           onPress={isRehearsing || isCombinedMode ? handleStopRehearsal : handleStartRehearsal}
           icon={isRehearsing || isCombinedMode ? "stop" : "play"}
-          disabled={isUploading || !!cameraError}
+          disabled={isUploading || !!cameraError || (!voicesReady && !isRehearsing && !isCombinedMode)}
         >
           {isRehearsing || isCombinedMode ? "Stop" : "Rehearse"}
         </Button>
+        <Button
+          mode={rehearsalRange || loopRange ? 'contained-tonal' : 'outlined'}
+          icon={loopRange ? 'repeat' : 'playlist-play'}
+          onPress={() => setRangeDialogVisible(true)}
+          disabled={isRehearsing || isCombinedMode}
+        >
+          {[
+            rehearsalRange?.label || 'Range',
+            loopRange && (isRehearsing || isCombinedMode) ? `run ${loopPass}` : null,
+          ].filter(Boolean).join(' · ')}
+        </Button>
+        <Button
+          mode={cueSettings.enabled ? 'contained-tonal' : 'outlined'}
+          icon="text-short"
+          onPress={() => setCueDialogVisible(true)}
+          disabled={isRehearsing || isCombinedMode}
+        >
+          {cueSettings.enabled ? describeCue(cueSettings) : 'Cues'}
+        </Button>
+        <Button
+          mode={memorise ? 'contained-tonal' : 'outlined'}
+          icon={memorise ? 'eye-off' : 'eye'}
+          onPress={() => setMemorise(current => !current)}
+        >
+          {memorise ? `Memorise · ${linesToLearn.length} to go` : 'Memorise'}
+        </Button>
+        <Button
+          mode={promptSettings.enabled ? 'contained-tonal' : 'outlined'}
+          icon={promptSettings.enabled ? 'comment-question' : 'comment-question-outline'}
+          onPress={() => setPromptDialogVisible(true)}
+          disabled={isRehearsing || isCombinedMode}
+        >
+          Prompts
+        </Button>
+        {pages.length > 0 && (
+          <Menu
+            visible={pageMenuVisible}
+            onDismiss={() => setPageMenuVisible(false)}
+            anchor={
+              <Button
+                mode="outlined"
+                icon="book-open-page-variant-outline"
+                onPress={() => setPageMenuVisible(true)}
+                disabled={isRehearsing || isCombinedMode}
+              >
+                {visiblePage !== null ? `Page ${visiblePage}` : 'Pages'}
+              </Button>
+            }
+          >
+            <ScrollView style={styles.pageMenu}>
+              {pages.map(page => (
+                <Menu.Item
+                  key={page.pageNumber}
+                  onPress={() => handleJumpToPage(page.pageNumber)}
+                  title={`Page ${page.pageNumber} · ${page.lineCount} lines`}
+                />
+              ))}
+            </ScrollView>
+          </Menu>
+        )}
       </View>
       <ScrollView 
         ref={scrollViewRef}
         style={styles.content}
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
       >
         <View style={styles.dialogueContainer}>
           {dialogueRef.current.map((item, index) => {
@@ -1578,66 +2314,129 @@ const PracticeScript: React.FC = () => {
               .filter(line => !line.continuationOf)
               .length + 1;
 
-            // Combine the text of the main line with any continuation lines
-            const fullText = [item.text, ...continuedLines.map(line => line.text)].join(' ');
+            const outsideCues = isOutsideCues(item);
+            const isCue = cueSettings.enabled && !outsideCues && !isUserLine(item);
+
+            // Split the main line at its directions and add any continuation lines;
+            // word cues show just the words that are read
+            const segments = isCue && cueSettings.unit === 'words'
+              ? [{ text: `…${cueText(item.text, cueSettings.amount)}`, isDirection: false }]
+              : [
+                ...splitAtParentheticals(item.text, item.parentheticals),
+                ...continuedLines.map(line => ({ text: line.text, isDirection: false })),
+              ];
+
+            const pageNumber = item.pageNumber;
+            const startsPage = pageNumber !== undefined && pageNumber !== dialogueRef.current[index - 1]?.pageNumber;
+            const hidden = outsideCues && cueSettings.others === 'hide';
+            const score = isUserLine(item) ? lineScores[item.lineNumber] : undefined;
+            const level = memorise && isUserLine(item) && !item.isAction ? getLineLevel(mastery, item.lineNumber) : 1;
+
+            // An attempt shows word by word; memorisation masks the line until then
+            let lineText: React.ReactNode;
+            if (score) {
+              lineText = score.words.map((word, wordIndex) => (
+                <Text key={wordIndex} style={getWordStyle(word)}>
+                  {wordIndex > 0 ? ' ' : ''}
+                  {word.kind === 'added' ? `+${word.spoken}` : word.expected}
+                  {word.kind === 'substituted' ? ` (${word.spoken})` : ''}
+                </Text>
+              ));
+            } else if (level === 4) {
+              lineText = <Text style={styles.hiddenLine}>Your line</Text>;
+            } else if (level > 1) {
+              lineText = maskLine([item.text, ...continuedLines.map(line => line.text)].join(' '), level);
+            } else {
+              lineText = segments.map((segment, segmentIndex) => (
+                <Text
+                  key={segmentIndex}
+                  style={segment.isDirection ? styles.directionText : undefined}
+                >
+                  {segmentIndex > 0 ? ' ' : ''}{segment.text}
+                </Text>
+              ));
+            }
 
             return (
-              <View
-                key={`${item.characterId}-${item.lineNumber}`}
-                style={styles.dialogueLine}
-              >
-                <View style={styles.lineNumberContainer}>
-                  <Text style={styles.lineNumber}>{sequentialNumber}</Text>
-                </View>
-                <View style={[
-                  styles.dialogueContent,
-                  index === currentLineIndex && styles.currentLine,
-                  item.isAction && styles.actionLine
-                ]}>
-                  {!item.isAction && <Text style={styles.characterName}>{item.characterName}</Text>}
-                  <View style={styles.dialogueRow}>
-                    <View style={{ flex: 1 }}>
-                      <Text style={[
-                        styles.dialogueText,
-                        item.isAction && styles.actionText
-                      ]}>
-                        {fullText}
+              <React.Fragment key={`${item.characterName}-${item.lineNumber}`}>
+                {startsPage && (
+                  <View
+                    style={styles.pageMarker}
+                    onLayout={event => handlePageMarkerLayout(pageNumber, event.nativeEvent.layout.y)}
+                  >
+                    <Text variant="labelSmall" style={styles.pageMarkerText}>
+                      Page {pageNumber}
+                    </Text>
+                  </View>
+                )}
+                {!hidden && <View style={[styles.dialogueLine, outsideCues && styles.dimmedLine]}>
+                  <View style={styles.lineNumberContainer}>
+                    <Text style={styles.lineNumber}>{sequentialNumber}</Text>
+                  </View>
+                  <View style={[
+                    styles.dialogueContent,
+                    item.dualGroup !== undefined && styles.dualLine,
+                    (index === currentLineIndex ||
+                      (activeDualGroup !== null && item.dualGroup === activeDualGroup)) && styles.currentLine,
+                    item.isAction && styles.actionLine
+                  ]}>
+                    {item.dualGroup !== undefined && item.dualGroup !== dialogueRef.current[index - 1]?.dualGroup && (
+                      <Text variant="labelSmall" style={styles.dualLabel}>Spoken together</Text>
+                    )}
+                    {!item.isAction && (
+                      <Text style={styles.characterName}>
+                        {item.characterName}
+                        {score && <Text style={styles.accuracyLabel}> · {formatAccuracy(score.accuracy)}</Text>}
+                        {level > 1 && <Text style={styles.accuracyLabel}> · {LEVEL_LABELS[level]}</Text>}
                       </Text>
-                    </View>
-                    {!item.isAction && !item.isUser && characterVoicesRef.current[item.characterName] &&
-                      <IconButton
-                        icon={currentlyPlayingLine === `${scriptId}_${item.characterName}_${item.lineNumber}` ? "stop" : "play"}
-                        size={20}
-                        mode="contained-tonal"
-                        onPress={() => {
-                          const lineId = `${scriptId}_${item.characterName}_${item.lineNumber}`;
-                          const voiceId = characterVoicesRef.current[item.characterName].voice;
-                          // Find the line in processedLines instead of character dialogue
-                          const processedLine = processedLinesRef.current.find(
-                            (pl: { characterName: string; originalLineNumber: number }) => 
-                              pl.characterName === item.characterName && pl.originalLineNumber === item.lineNumber
-                          );
-                          const voiceUrl = processedLine?.voices?.[voiceId];
+                    )}
+                    <View style={styles.dialogueRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={[
+                          styles.dialogueText,
+                          item.isAction && styles.actionText
+                        ]}>
+                          {lineText}
+                        </Text>
+                        {promptText && index === currentLineIndex && isUserLine(item) && (
+                          <Text style={styles.promptText}>…{promptText}</Text>
+                        )}
+                      </View>
+                      {!item.isAction && !item.isUser && characterVoicesRef.current[item.characterName] &&
+                        <IconButton
+                          icon={currentlyPlayingLine === `${scriptId}_${item.characterName}_${item.lineNumber}` ? "stop" : "play"}
+                          size={20}
+                          mode="contained-tonal"
+                          onPress={() => {
+                            const lineId = `${scriptId}_${item.characterName}_${item.lineNumber}`;
+                            const voiceId = characterVoicesRef.current[item.characterName].voice;
+                            // Find the line in processedLines instead of character dialogue
+                            const processedLine = processedLinesRef.current.find(
+                              (pl: { characterName: string; originalLineNumber: number }) => 
+                                pl.characterName === item.characterName && pl.originalLineNumber === item.lineNumber
+                            );
+                            const voiceUrl = processedLine?.voices?.[voiceId];
                           
-                          if (voiceUrl) {
-                            if (currentlyPlayingLine === lineId) {
-                              if (soundRef.current) {
-                                soundRef.current.stop();
-                                soundRef.current.release();
-                                soundRef.current = null;
+                            if (voiceUrl) {
+                              if (currentlyPlayingLine === lineId) {
+                                if (soundRef.current) {
+                                  soundRef.current.stop();
+                                  soundRef.current.release();
+                                  soundRef.current = null;
+                                }
+                                setCurrentlyPlayingLine(null);
+                              } else {
+                                playVoiceLine(lineId, voiceUrl, processedLine?.voiceVolume);
                               }
-                              setCurrentlyPlayingLine(null);
-                            } else {
-                              playVoiceLine(lineId, voiceUrl);
                             }
-                          }
-                        }}
-                        style={styles.playButton}
-                      />
-                    }
+                          }}
+                          style={styles.playButton}
+                        />
+                      }
+                    </View>
                   </View>
-                </View>
-              </View>
+                </View>}
+              </React.Fragment>
             );
           })}
         </View>
@@ -1676,6 +2475,19 @@ const PracticeScript: React.FC = () => {
                 </Button>
               ))}
             </View>
+            <View style={styles.partnerVoices}>
+              {script.analysis?.characters
+                ?.filter(character => character.name !== currentCharacter.name && characterVoices[character.name]?.voice)
+                .map(character => {
+                  const voice = characterVoices[character.name].voice;
+                  const entry = voiceCatalogue.find(item => item.id === voice);
+                  return (
+                    <Text key={character.name} variant="bodySmall">
+                      {character.name}: {voice}{entry ? ` · ${entry.description}` : ''}
+                    </Text>
+                  );
+                })}
+            </View>
           </Dialog.Content>
           <Dialog.Actions>
             <Button onPress={() => setSettingsVisible(false)}>
@@ -1684,6 +2496,32 @@ const PracticeScript: React.FC = () => {
           </Dialog.Actions>
         </Dialog>
 
+        {script.analysis && (
+          <RehearsalRangeDialog
+            visible={rangeDialogVisible}
+            onDismiss={() => setRangeDialogVisible(false)}
+            analysis={script.analysis}
+            characterName={currentCharacter.name}
+            range={rehearsalRange}
+            loop={loopRange}
+            onApply={applyRehearsalRange}
+          />
+        )}
+
+        <LinePromptDialog
+          visible={promptDialogVisible}
+          onDismiss={() => setPromptDialogVisible(false)}
+          settings={promptSettings}
+          onApply={applyPromptSettings}
+        />
+
+        <CueModeDialog
+          visible={cueDialogVisible}
+          onDismiss={() => setCueDialogVisible(false)}
+          settings={cueSettings}
+          onApply={applyCueSettings}
+        />
+
         <Dialog visible={isGeneratingVoices} dismissable={false}>
           <Dialog.Content>
             <View style={styles.generatingContent}>
@@ -1697,8 +2535,4 @@ const PracticeScript: React.FC = () => {
   );
 };
 
-const getVoiceDescription = (voice: VoiceOption): string => {
-  return VOICE_INFO[voice].description;
-};
-
 export default PracticeScript; 
\ No newline at end of file
@@ -1,44 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
-import { Text, Button, useTheme, IconButton, Menu, Divider, Portal, Dialog, FAB, TextInput, ProgressBar, MD3Theme, Card, RadioButton } from 'react-native-paper';
+import { View, StyleSheet, ScrollView, ActivityIndicator, Linking } from 'react-native';
+import { Text, Button, useTheme, IconButton, Menu, Divider, Portal, Dialog, FAB, TextInput, ProgressBar, MD3Theme, Card, RadioButton, Chip } from 'react-native-paper';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { MainNavigationProp, MainStackParamList } from '../../navigation/types';
 import { useAuth } from '../../contexts/AuthContext';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Script, ScriptScene, ScriptCharacter, ProcessingStatus } from '../../types/script';
+import {
+  Script,
+  ScriptScene,
+  ScriptCharacter,
+  ProcessingStatus,
+  ScriptExportFormat,
+  ScriptQualityReport,
+  ScriptLineValidation,
+  ScriptOcrReport,
+  ScriptAnalysis,
+  VoiceCatalogueEntry,
+} from '../../types/script';
 import firebaseService from '../../services/firebase';
 import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import Sound from 'react-native-sound';
 import RecordingsDialog from './components/RecordingsDialog';
+import CharacterManagerDialog from './components/CharacterManagerDialog';
+import OfflineDownloadDialog from './components/OfflineDownloadDialog';
+import offlineScripts from '../../services/offlineScripts';
+import ProcessingReport, {
+  PROCESSING_LEASE_MS,
+  hasProcessingIssues,
+  isProcessingStalled,
+} from './components/ProcessingReport';
+import { formatPageEighths, getScriptPages } from '../../utils/scriptLines';
 
 type ScriptDetailRouteProp = RouteProp<MainStackParamList, 'ScriptDetail'>;
 
-type VoiceOption = 'alloy' | 'ash' | 'coral' | 'echo' | 'fable' | 'onyx' | 'nova' | 'sage' | 'shimmer';
-
-interface VoiceInfo {
-  description: string;
-  gender: 'Male' | 'Female';
-}
-
 interface VoiceSettings {
   voice: string;
   testText: string;
 }
 
-const VOICE_OPTIONS: VoiceOption[] = ['alloy', 'ash', 'coral', 'echo', 'fable', 'onyx', 'nova', 'sage', 'shimmer'];
-
-const VOICE_INFO: Record<VoiceOption, VoiceInfo> = {
-  alloy: { description: 'Warm, steady', gender: 'Female' },
-  ash: { description: 'Deep, authoritative', gender: 'Male' },
-  coral: { description: 'Bright, expressive', gender: 'Female' },
-  echo: { description: 'Smooth, refined', gender: 'Male' },
-  fable: { description: 'Soft, lyrical', gender: 'Male' },
-  onyx: { description: 'Bold, resonant', gender: 'Male' },
-  nova: { description: 'Youthful, energetic', gender: 'Female' },
-  sage: { description: 'Calm, wise', gender: 'Female' },
-  shimmer: { description: 'Airy, melodic', gender: 'Female' }
-};
-
 const createStyles = (theme: MD3Theme) => StyleSheet.create({
   container: {
     flex: 1,
@@ -159,12 +158,21 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
   voiceButton: {
     minWidth: 120,
   },
+  sceneCast: {
+    color: theme.colors.onSurfaceVariant,
+    fontSize: 12,
+    marginTop: 2,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     backgroundColor: theme.colors.background,
   },
+  retryButton: {
+    marginTop: 16,
+    alignSelf: 'flex-start',
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -178,6 +186,11 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
   characterList: {
     gap: 8,
   },
+  pageList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   characterButton: {
     marginBottom: 8,
   },
@@ -216,6 +229,9 @@ const createStyles = (theme: MD3Theme) => StyleSheet.create({
   testButton: {
     marginLeft: 8,
   },
+  exportIndicator: {
+    margin: 14,
+  },
 });
 
 const ScriptDetail: React.FC = () => {
@@ -227,17 +243,36 @@ const ScriptDetail: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [practiceDialogVisible, setPracticeDialogVisible] = useState(false);
   const [selectedCharacter, setSelectedCharacter] = useState<string | null>(null);
+  // Page picked from the page list; practice starts there
+  const [practiceStartPage, setPracticeStartPage] = useState<number | null>(null);
+  // Scene picked from the scene list; practice covers just that scene
+  const [practiceScene, setPracticeScene] = useState<ScriptAnalysis['scenes'][number] | null>(null);
   const [renameDialogVisible, setRenameDialogVisible] = useState(false);
   const [newTitle, setNewTitle] = useState('');
   const [voiceSettingsVisible, setVoiceSettingsVisible] = useState(false);
   const [selectedCharacterForVoice, setSelectedCharacterForVoice] = useState<string | null>(null);
-  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>('alloy');
-  const [testingVoice, setTestingVoice] = useState<VoiceOption | null>(null);
+  const [voiceCatalogue, setVoiceCatalogue] = useState<VoiceCatalogueEntry[]>([]);
+  const [selectedVoice, setSelectedVoice] = useState<string>('');
+  const [testingVoice, setTestingVoice] = useState<string | null>(null);
   const [voiceTestError, setVoiceTestError] = useState<string | null>(null);
   const [sound, setSound] = useState<Sound | null>(null);
   const [testText, setTestText] = useState<string>('');
   const [characterVoices, setCharacterVoices] = useState<Record<string, VoiceSettings>>({});
   const [recordingsDialogVisible, setRecordingsDialogVisible] = useState(false);
+  const [sidesDialogVisible, setSidesDialogVisible] = useState(false);
+  const [characterManagerVisible, setCharacterManagerVisible] = useState(false);
+  const [offlineDialogVisible, setOfflineDialogVisible] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ScriptExportFormat | null>(null);
+  const [retryingProcessing, setRetryingProcessing] = useState(false);
+  const [processingReport, setProcessingReport] = useState<{
+    qualityReport?: ScriptQualityReport;
+    lineValidation?: ScriptLineValidation;
+    ocr?: ScriptOcrReport;
+    status?: string;
+    lastActivity?: number;
+  }>({});
+  // Bumped when a processing run's lease runs out, to show it has stalled
+  const [leaseCheckedAt, setLeaseCheckedAt] = useState(Date.now());
 
   const navigation = useNavigation<MainNavigationProp>();
   const route = useRoute<ScriptDetailRouteProp>();
@@ -246,6 +281,15 @@ const ScriptDetail: React.FC = () => {
   const styles = createStyles(theme);
   const { scriptId } = route.params;
 
+  useEffect(() => {
+    firebaseService.getVoiceCatalogue()
+      .then(setVoiceCatalogue)
+      .catch(error => {
+        console.error('Error loading voices:', error);
+        setVoiceTestError('Could not load voices. Check your connection and try again.');
+      });
+  }, []);
+
   useEffect(() => {
     let unsubscribe: () => void;
 
@@ -313,6 +357,20 @@ const ScriptDetail: React.FC = () => {
     };
   }, [scriptId, user]);
 
+  useEffect(() => {
+    if (!user || !scriptId) return;
+    return firebaseService.listenToProcessingReport(scriptId, setProcessingReport);
+  }, [scriptId, user]);
+
+  useEffect(() => {
+    const { status, lastActivity } = processingReport;
+    if (!status || status === 'completed' || status === 'error') return;
+    const expiresIn = (lastActivity ?? 0) + PROCESSING_LEASE_MS - Date.now();
+    if (expiresIn <= 0) return;
+    const timer = setTimeout(() => setLeaseCheckedAt(Date.now()), expiresIn);
+    return () => clearTimeout(timer);
+  }, [processingReport]);
+
   useEffect(() => {
     // Enable playback in silence mode
     Sound.setCategory('Playback');
@@ -334,6 +392,8 @@ const ScriptDetail: React.FC = () => {
     setDeleteDialogVisible(false);
     try {
       await firebaseService.deleteScript(scriptId);
+      await offlineScripts.removeOfflineScript(scriptId).catch(error =>
+        console.error('Error removing offline copy:', error));
       navigation.goBack();
     } catch (error: any) {
       console.error('Error deleting script:', error);
@@ -341,20 +401,50 @@ const ScriptDetail: React.FC = () => {
     }
   };
 
+  const pages = getScriptPages(script?.analysis?.processedLines || []);
+
   const handleStartPractice = () => {
     setPracticeDialogVisible(true);
   };
 
   const handleCharacterSelect = (character: string) => {
+    const startPage = pages.find(page => page.pageNumber === practiceStartPage);
     navigation.replace('PracticeScript', {
       scriptId,
       characterId: character,
+      ...(startPage ? { startLine: startPage.firstLine.originalLineNumber } : {}),
+      ...(practiceScene ? { startLine: practiceScene.startLine, endLine: practiceScene.endLine } : {}),
     });
     setPracticeDialogVisible(false);
     setSelectedCharacter(null);
+    setPracticeStartPage(null);
+    setPracticeScene(null);
   };
 
-  const handleTestVoice = async (voice: VoiceOption) => {
+  const handlePracticeFromPage = (pageNumber: number) => {
+    setPracticeStartPage(pageNumber);
+    setPracticeDialogVisible(true);
+  };
+
+  const handlePracticeScene = (scene: ScriptAnalysis['scenes'][number]) => {
+    setPracticeScene(scene);
+    setPracticeDialogVisible(true);
+  };
+
+  const sceneTitle = (scene: ScriptAnalysis['scenes'][number]) =>
+    scene.sceneNumber ? `${scene.sceneNumber}. ${scene.name}` : scene.name;
+
+  // In a scene, only the characters who speak in it can be practiced
+  const practiceCharacters = (script?.analysis?.characters || [])
+    .map(character => ({
+      name: character.name,
+      lines: practiceScene?.cast
+        ? practiceScene.cast.find(member => member.name === character.name)?.lines ?? 0
+        : character.lines,
+    }))
+    .filter(character => !practiceScene?.cast || character.lines > 0);
+
+  const handleTestVoice = async (voice: string) => {
     setTestingVoice(voice);
     setVoiceTestError(null);
     
@@ -431,14 +521,18 @@ const ScriptDetail: React.FC = () => {
     }
     // Load existing voice settings if they exist
     if (characterVoices[characterName]) {
-      setSelectedVoice(characterVoices[characterName].voice as VoiceOption);
+      setSelectedVoice(characterVoices[characterName].voice);
       setTestText(characterVoices[characterName].testText);
+    } else if (!selectedVoice && voiceCatalogue.length > 0) {
+      setSelectedVoice(voiceCatalogue[0].id);
     }
     setVoiceSettingsVisible(true);
   };
 
-  const getVoiceDescription = (voice: VoiceOption): string => {
-    return VOICE_INFO[voice].description;
+  const describeVoice = (voice: string): string => {
+    const entry = voiceCatalogue.find(item => item.id === voice);
+    const name = `${voice.charAt(0).toUpperCase()}${voice.slice(1)}`;
+    return entry ? `${name} (${entry.gender} | ${entry.description})` : name;
   };
 
   const handleRename = () => {
@@ -462,6 +556,43 @@ const ScriptDetail: React.FC = () => {
     }
   };
 
+  const handleExport = async (format: ScriptExportFormat, character?: string) => {
+    setMenuVisible(false);
+    setSidesDialogVisible(false);
+    setExportingFormat(format);
+
+    try {
+      const { url } = await firebaseService.exportScript(scriptId, format, character);
+      await Linking.openURL(url);
+    } catch (error) {
+      console.error('Error exporting script:', error);
+      setError('Failed to export script. Please try again.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleRetryProcessing = async () => {
+    if (!script) return;
+    setRetryingProcessing(true);
+    try {
+      await firebaseService.retryScriptProcessing(script.id);
+    } catch (error) {
+      console.error('Error retrying script processing:', error);
+      setError(error instanceof Error ? error.message : 'Failed to process script');
+    } finally {
+      setRetryingProcessing(false);
+    }
+  };
+
+  const handleExportSides = () => {
+    setMenuVisible(false);
+    setSidesDialogVisible(true);
+  };
+
+  const processingStalled = !!script && script.uploadStatus !== 'completed' &&
+    isProcessingStalled(processingReport.status, processingReport.lastActivity, leaseCheckedAt);
+
   if (loading) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -509,11 +640,132 @@ const ScriptDetail: React.FC = () => {
               onPress={handleDeletePress}
               iconColor={theme.colors.error}
             />
+            <Menu
+              visible={menuVisible}
+              onDismiss={() => setMenuVisible(false)}
+              anchor={
+                exportingFormat ? (
+                  <ActivityIndicator size="small" style={styles.exportIndicator} />
+                ) : (
+                  <IconButton
+                    icon="dots-vertical"
+                    mode="contained-tonal"
+                    onPress={() => setMenuVisible(true)}
+                    disabled={!script.analysis?.processedLines?.length}
+                  />
+                )
+              }
+            >
+              <Menu.Item
+                leadingIcon="playlist-edit"
+                onPress={() => {
+                  setMenuVisible(false);
+                  navigation.navigate('EditScriptLines', { scriptId });
+                }}
+                title="Edit Lines"
+              />
+              <Menu.Item
+                leadingIcon="account-multiple-outline"
+                onPress={() => {
+                  setMenuVisible(false);
+                  setCharacterManagerVisible(true);
+                }}
+                title="Manage Characters"
+              />
+              <Menu.Item
+                leadingIcon="chart-line"
+                onPress={() => {
+                  setMenuVisible(false);
+                  navigation.navigate('ScriptProgress', { scriptId });
+                }}
+                title="Progress"
+              />
+              <Menu.Item
+                leadingIcon="download-outline"
+                onPress={() => {
+                  setMenuVisible(false);
+                  setOfflineDialogVisible(true);
+                }}
+                title="Download for Offline"
+              />
+              <Divider />
+              <Menu.Item
+                leadingIcon="file-document-outline"
+                onPress={() => handleExport('fountain')}
+                title="Export as Fountain"
+              />
+              <Menu.Item
+                leadingIcon="file-code-outline"
+                onPress={() => handleExport('fdx')}
+                title="Export as Final Draft"
+              />
+              <Divider />
+              <Menu.Item
+                leadingIcon="file-pdf-box"
+                onPress={handleExportSides}
+                title="Export Sides (PDF)"
+              />
+            </Menu>
           </View>
         </View>
       </View>
 
       <ScrollView style={styles.content}>
+        {(script.uploadStatus === 'error' || processingStalled || retryingProcessing) && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>
+                {retryingProcessing
+                  ? 'Processing Script'
+                  : script.uploadStatus === 'error' ? 'Processing Failed' : 'Processing Stopped'}
+              </Text>
+            </View>
+            <View style={styles.sectionContent}>
+              <Text style={styles.description}>
+                {retryingProcessing
+                  ? 'Picking up where processing left off...'
+                  : script.uploadStatus === 'error'
+                    ? script.error || 'This script could not be processed.'
+                    : 'Processing stopped before it finished.'}
+              </Text>
+              <Button
+                mode="contained"
+                icon="refresh"
+                onPress={handleRetryProcessing}
+                loading={retryingProcessing}
+                disabled={retryingProcessing}
+                style={styles.retryButton}
+              >
+                Retry processing
+              </Button>
+            </View>
+          </View>
+        )}
+
+        {script.uploadStatus === 'completed' &&
+          hasProcessingIssues(
+            processingReport.qualityReport,
+            processingReport.lineValidation,
+            processingReport.ocr
+          ) && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>
+                Processing Report
+              </Text>
+            </View>
+            <View style={styles.sectionContent}>
+              <ProcessingReport
+                scriptId={script.id}
+                report={processingReport.qualityReport}
+                lineValidation={processingReport.lineValidation}
+                ocr={processingReport.ocr}
+                scenes={script.analysis?.scenes || []}
+              />
+            </View>
+          </View>
+        )}
+
         {script.description && (
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -573,8 +825,8 @@ const ScriptDetail: React.FC = () => {
                     <View style={styles.characterInfo}>
                       <Text style={styles.characterName}>{char.name}</Text>
                       <Text style={styles.characterStats}>
-                        {char.lines || 0} lines {characterVoices[char.name] ? 
-                          `• ${characterVoices[char.name]?.voice?.charAt(0).toUpperCase()}${characterVoices[char.name]?.voice?.slice(1) || ''} (${VOICE_INFO[characterVoices[char.name]?.voice as VoiceOption]?.gender || 'Unknown'} | ${getVoiceDescription(characterVoices[char.name]?.voice as VoiceOption)})` : 
+                        {char.lines || 0} lines {characterVoices[char.name]?.voice ?
+                          `• ${describeVoice(characterVoices[char.name].voice)}` :
                           '• No voice assigned'}
                       </Text>
                     </View>
@@ -591,6 +843,70 @@ const ScriptDetail: React.FC = () => {
             )}
           </View>
         </View>
+
+        {!!script.analysis?.scenes?.length && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>
+                Scenes
+              </Text>
+            </View>
+            <View style={styles.sectionContent}>
+              {script.analysis.scenes.map(scene => (
+                <View key={`${scene.startLine}-${scene.name}`} style={styles.characterRow}>
+                  <View style={styles.characterInfo}>
+                    <Text style={styles.characterName} numberOfLines={1}>{sceneTitle(scene)}</Text>
+                    <Text style={styles.characterStats}>
+                      {[
+                        scene.eighths ? `${formatPageEighths(scene.eighths)} pg` : null,
+                        scene.timeOfDay,
+                        scene.cast ? `${scene.cast.reduce((total, member) => total + member.lines, 0)} lines` : null,
+                      ].filter(Boolean).join(' • ')}
+                    </Text>
+                    {!!scene.cast?.length && (
+                      <Text style={styles.sceneCast} numberOfLines={2}>
+                        {scene.cast.map(member => `${member.name} (${member.lines})`).join(', ')}
+                      </Text>
+                    )}
+                  </View>
+                  <Button
+                    mode="outlined"
+                    onPress={() => handlePracticeScene(scene)}
+                    disabled={!scene.cast?.length}
+                  >
+                    Practice
+                  </Button>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {pages.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>
+                Pages
+              </Text>
+            </View>
+            <View style={styles.sectionContent}>
+              <Text variant="bodyMedium" style={styles.dialogueSubtext}>
+                Tap a page to start practicing from it.
+              </Text>
+              <View style={styles.pageList}>
+                {pages.map(page => (
+                  <Chip
+                    key={page.pageNumber}
+                    onPress={() => handlePracticeFromPage(page.pageNumber)}
+                    disabled={!script.analysis?.characters?.length}
+                  >
+                    {`Page ${page.pageNumber}`}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+          </View>
+        )}
       </ScrollView>
 
       <Portal>
@@ -605,14 +921,23 @@ const ScriptDetail: React.FC = () => {
           </Dialog.Actions>
         </Dialog>
 
-        <Dialog visible={practiceDialogVisible} onDismiss={() => setPracticeDialogVisible(false)}>
+        <Dialog
+          visible={practiceDialogVisible}
+          onDismiss={() => {
+            setPracticeDialogVisible(false);
+            setPracticeStartPage(null);
+            setPracticeScene(null);
+          }}
+        >
           <Dialog.Title>Choose Your Character</Dialog.Title>
           <Dialog.Content>
             <Text variant="bodyMedium" style={styles.dialogueSubtext}>
               Select the character you want to practice as. Other characters will be voiced by AI.
+              {practiceStartPage !== null && ` Practice starts on page ${practiceStartPage}.`}
+              {practiceScene && ` Practice covers ${sceneTitle(practiceScene)}.`}
             </Text>
             <View style={styles.characterList}>
-              {script.analysis?.characters?.map((character) => (
+              {practiceCharacters.map((character) => (
                 <Button
                   key={character.name}
                   mode={selectedCharacter === character.name ? "contained" : "outlined"}
@@ -626,6 +951,30 @@ const ScriptDetail: React.FC = () => {
           </Dialog.Content>
         </Dialog>
 
+        <Dialog visible={sidesDialogVisible} onDismiss={() => setSidesDialogVisible(false)}>
+          <Dialog.Title>Export Sides</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.dialogueSubtext}>
+              Choose a character. Their scenes are exported with their lines highlighted.
+            </Text>
+            <View style={styles.characterList}>
+              {script.analysis?.characters?.map((character) => (
+                <Button
+                  key={character.name}
+                  mode="outlined"
+                  onPress={() => handleExport('sides', character.name)}
+                  style={styles.characterButton}
+                >
+                  {character.name} ({character.lines} lines)
+                </Button>
+              ))}
+            </View>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setSidesDialogVisible(false)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+
         <Dialog 
           visible={voiceSettingsVisible} 
           onDismiss={() => {
@@ -648,7 +997,7 @@ const ScriptDetail: React.FC = () => {
                 placeholder="Enter text to test the voice with..."
               />
               
-              {VOICE_OPTIONS.map((voice) => (
+              {voiceCatalogue.map(({ id: voice, description }) => (
                 <View key={voice} style={styles.voiceOptionContainer}>
                   <RadioButton
                     value={voice}
@@ -658,7 +1007,7 @@ const ScriptDetail: React.FC = () => {
                   <View style={styles.voiceInfo}>
                     <Text style={styles.voiceName}>{voice}</Text>
                     <Text style={styles.voiceDescription}>
-                      {getVoiceDescription(voice)}
+                      {description}
                     </Text>
                   </View>
                   {testingVoice === voice ? (
@@ -689,7 +1038,7 @@ const ScriptDetail: React.FC = () => {
             }}>
               Cancel
             </Button>
-            <Button onPress={handleSaveVoiceSettings} mode="contained">
+            <Button onPress={handleSaveVoiceSettings} mode="contained" disabled={!selectedVoice}>
               Save
             </Button>
           </Dialog.Actions>
@@ -723,6 +1072,22 @@ const ScriptDetail: React.FC = () => {
           onDismiss={() => setRecordingsDialogVisible(false)}
           scriptId={scriptId}
         />
+
+        <OfflineDownloadDialog
+          visible={offlineDialogVisible}
+          onDismiss={() => setOfflineDialogVisible(false)}
+          script={script}
+          characterVoices={Object.fromEntries(
+            Object.entries(characterVoices).map(([name, settings]) => [name, settings.voice])
+          )}
+        />
+
+        <CharacterManagerDialog
+          visible={characterManagerVisible}
+          onDismiss={() => setCharacterManagerVisible(false)}
+          scriptId={scriptId}
+          characters={script.analysis?.characters || []}
+        />
       </Portal>
 
       {error && (
@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { Text, Chip, useTheme, MD3Theme, ProgressBar } from 'react-native-paper';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { MainStackParamList } from '../../navigation/types';
+import { MemorisationLevel, Script, ScriptMastery, ScriptSession } from '../../types/script';
+import firebaseService from '../../services/firebase';
+import { formatAccuracy } from '../../utils/lineAccuracy';
+import { LEVEL_LABELS, MEMORISATION_LEVELS, countByLevel } from '../../utils/memorisation';
+import {
+  SessionSummary,
+  accuracyTrend,
+  characterSessions,
+  formatDuration,
+  lineProgress,
+} from '../../utils/practiceProgress';
+
+type ScriptProgressRouteProp = RouteProp<MainStackParamList, 'ScriptProgress'>;
+
+// Height of a 100% bar in the accuracy chart
+const CHART_HEIGHT = 140;
+const WEAKEST_LINES = 5;
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  characterChips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  section: {
+    backgroundColor: theme.colors.surface,
+    marginBottom: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    color: theme.colors.primary,
+    fontWeight: '600',
+    fontSize: 18,
+    marginBottom: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+  },
+  stat: {
+    minWidth: 90,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+  },
+  statLabel: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    height: CHART_HEIGHT + 24,
+  },
+  barColumn: {
+    alignItems: 'center',
+    width: 32,
+  },
+  bar: {
+    width: 20,
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+    backgroundColor: theme.colors.primary,
+  },
+  barLabel: {
+    color: theme.colors.onSurfaceVariant,
+    fontSize: 10,
+    marginTop: 4,
+  },
+  levelRow: {
+    marginBottom: 8,
+  },
+  levelHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  muted: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  listItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  listItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  lineText: {
+    color: theme.colors.onSurface,
+    marginTop: 2,
+  },
+  errorText: {
+    color: theme.colors.error,
+    padding: 16,
+  },
+});
+
+const formatDate = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+const ScriptProgress: React.FC = () => {
+  const route = useRoute<ScriptProgressRouteProp>();
+  const { scriptId } = route.params;
+  const theme = useTheme();
+  const styles = createStyles(theme);
+
+  const [script, setScript] = useState<Script | null>(null);
+  const [sessions, setSessions] = useState<ScriptSession[]>([]);
+  const [character, setCharacter] = useState<string | null>(route.params.character || null);
+  const [mastery, setMastery] = useState<ScriptMastery>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [scriptData, practiceSessions] = await Promise.all([
+          firebaseService.getScript(scriptId),
+          firebaseService.getPracticeSessions(scriptId),
+        ]);
+        setScript(scriptData);
+        setSessions(practiceSessions);
+        // Start with the character rehearsed most recently
+        setCharacter(current => current || practiceSessions[practiceSessions.length - 1]?.character || null);
+      } catch (err) {
+        console.error('Error loading progress:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load progress');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [scriptId]);
+
+  useEffect(() => {
+    if (!character) return;
+    firebaseService.getLineMastery(scriptId, character)
+      .then(setMastery)
+      .catch(err => {
+        console.error('Error loading line mastery:', err);
+        setMastery({});
+      });
+  }, [scriptId, character]);
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !script) {
+    return <Text style={styles.errorText}>{error || 'Script not found'}</Text>;
+  }
+
+  const rehearsedCharacters = Array.from(new Set(sessions.map(session => session.character)));
+  const summaries: SessionSummary[] = character ? characterSessions(sessions, character) : [];
+  const trend = accuracyTrend(summaries);
+  const latest = summaries[summaries.length - 1];
+
+  const characterLines = (script.analysis?.processedLines || [])
+    .filter(line => !line.isAction && line.characterName === character);
+  const levels = countByLevel(mastery, characterLines.map(line => line.originalLineNumber));
+  const weakest = character ? lineProgress(sessions, character).slice(0, WEAKEST_LINES) : [];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {rehearsedCharacters.length === 0 ? (
+        <Text style={styles.muted}>
+          No rehearsals yet. Progress shows up here after you practise a character.
+        </Text>
+      ) : (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.characterChips}>
+              {rehearsedCharacters.map(name => (
+                <Chip key={name} selected={name === character} onPress={() => setCharacter(name)}>
+                  {name}
+                </Chip>
+              ))}
+            </View>
+          </ScrollView>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Overview</Text>
+            <View style={styles.statsRow}>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{summaries.length}</Text>
+                <Text style={styles.statLabel}>Rehearsals</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>
+                  {formatDuration(summaries.reduce((total, summary) => total + summary.durationMs, 0))}
+                </Text>
+                <Text style={styles.statLabel}>Time rehearsed</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>
+                  {latest?.accuracy !== undefined ? formatAccuracy(latest.accuracy) : '–'}
+                </Text>
+                <Text style={styles.statLabel}>Latest accuracy</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>
+                  {trend !== undefined ? `${trend >= 0 ? '+' : '−'}${formatAccuracy(Math.abs(trend))}` : '–'}
+                </Text>
+                <Text style={styles.statLabel}>Since first rehearsals</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{levels[4]}/{characterLines.length}</Text>
+                <Text style={styles.statLabel}>Lines off book</Text>
+              </View>
+            </View>
+          </View>
+
+          {summaries.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Accuracy by rehearsal</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <View style={styles.chart}>
+                  {summaries.map(summary => (
+                    <View key={summary.id} style={styles.barColumn}>
+                      <View style={[
+                        styles.bar,
+                        { height: Math.max(2, (summary.accuracy || 0) * CHART_HEIGHT) },
+                        summary.accuracy === undefined && { backgroundColor: theme.colors.surfaceVariant },
+                      ]} />
+                      <Text style={styles.barLabel}>{formatDate(summary.startTime)}</Text>
+                    </View>
+                  ))}
+                </View>
+              </ScrollView>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Memorisation</Text>
+            {MEMORISATION_LEVELS.map((level: MemorisationLevel) => (
+              <View key={level} style={styles.levelRow}>
+                <View style={styles.levelHeader}>
+                  <Text>{LEVEL_LABELS[level]}</Text>
+                  <Text style={styles.muted}>{levels[level]} lines</Text>
+                </View>
+                <ProgressBar progress={characterLines.length > 0 ? levels[level] / characterLines.length : 0} />
+              </View>
+            ))}
+          </View>
+
+          {weakest.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Lines that need work</Text>
+              {weakest.map(progress => {
+                const line = characterLines.find(item => item.originalLineNumber === progress.lineNumber);
+                return (
+                  <View key={progress.lineNumber} style={styles.listItem}>
+                    <View style={styles.listItemHeader}>
+                      <Text variant="labelLarge">
+                        {line ? `Line ${line.sequentialNumber}` : `Line ${progress.lineNumber}`}
+                      </Text>
+                      <Text style={styles.muted}>
+                        {formatAccuracy(progress.accuracy)} · {progress.attempts} tries · {progress.prompts} prompts
+                      </Text>
+                    </View>
+                    {line && <Text style={styles.lineText} numberOfLines={2}>{line.text}</Text>}
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          {summaries.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Rehearsals</Text>
+              {[...summaries].reverse().map(summary => (
+                <View key={summary.id} style={styles.listItem}>
+                  <View style={styles.listItemHeader}>
+                    <Text variant="labelLarge">{new Date(summary.startTime).toLocaleString()}</Text>
+                    <Text style={styles.muted}>{formatDuration(summary.durationMs)}</Text>
+                  </View>
+                  <Text style={styles.muted}>
+                    {[
+                      `${summary.linesAttempted} lines`,
+                      summary.accuracy !== undefined ? formatAccuracy(summary.accuracy) : null,
+                      `${summary.prompts} prompts`,
+                      `${summary.skipped} skipped`,
+                      summary.averageLineMs !== undefined ? `${formatDuration(summary.averageLineMs)} per line` : null,
+                    ].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+export default ScriptProgress;
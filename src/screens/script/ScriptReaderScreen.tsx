@@ -18,9 +18,10 @@ export const ScriptReaderScreen: React.FC = () => {
   const {
     currentSession,
     lines,
+    hasMoreLines,
     isLoading,
     error,
-    actions: { startSession, pauseSession, resumeSession, completeCurrentLine },
+    actions: { startSession, pauseSession, resumeSession, completeCurrentLine, loadMoreLines },
   } = useScript();
   
   const navigation = useNavigation();
@@ -41,11 +42,13 @@ export const ScriptReaderScreen: React.FC = () => {
     };
   }, [scriptId, character, startSession]);
 
+  // Keep the current line in view
   useEffect(() => {
-    if (lines.length > 0) {
-      flatListRef.current?.scrollToEnd({ animated: true });
+    const index = currentSession?.currentLineIndex;
+    if (index !== undefined && index < lines.length) {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 });
     }
-  }, [lines]);
+  }, [currentSession?.currentLineIndex, lines.length]);
 
   useEffect(() => {
     if (autoProgress && currentSession?.status === 'active') {
@@ -70,6 +73,9 @@ export const ScriptReaderScreen: React.FC = () => {
   const handlePlayPause = () => {
     if (currentSession?.status === 'active') {
       pauseSession();
+    } else if (currentSession?.status === 'completed') {
+      // Read it again from the top
+      startSession(scriptId, character);
     } else {
       resumeSession();
     }
@@ -119,6 +125,11 @@ export const ScriptReaderScreen: React.FC = () => {
         ref={flatListRef}
         data={lines}
         keyExtractor={(item) => item.id}
+        onEndReached={() => hasMoreLines && loadMoreLines()}
+        onEndReachedThreshold={0.5}
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: true });
+        }}
         renderItem={({ item, index }) => (
           <DialogueBubble
             line={item}
@@ -132,7 +143,7 @@ export const ScriptReaderScreen: React.FC = () => {
       <SafeAreaView edges={['bottom']} style={styles.footer}>
         <View style={styles.statsContainer}>
           <Text style={styles.statsText}>{stats.readerLines} Reader Lines</Text>
-          <Text style={styles.statsText}>{stats.userLines} Myself Lines</Text>
+          <Text style={styles.statsText}>{stats.userLines} {character} Lines</Text>
           <Text style={styles.statsText}>Scene Duration: {stats.totalDuration.toFixed(1)}s</Text>
         </View>
         <View style={styles.controlsContainer}>
@@ -154,11 +165,18 @@ export const ScriptReaderScreen: React.FC = () => {
             onPress={handlePlayPause}
           >
             <Icon 
-              name={currentSession?.status === 'active' ? 'pause' : 'play-arrow'} 
+              name={currentSession?.status === 'active' ? 'pause' : currentSession?.status === 'completed' ? 'replay' : 'play-arrow'} 
               size={32} 
               color={theme.colors.onPrimary} 
             />
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.nextButton}
+            onPress={completeCurrentLine}
+            disabled={currentSession?.status !== 'active'}
+          >
+            <Icon name="skip-next" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
         </View>
       </SafeAreaView>
     </SafeAreaView>
@@ -209,6 +227,11 @@ const styles = StyleSheet.create({
     position: 'absolute',
     left: 0,
   },
+  nextButton: {
+    padding: 8,
+    position: 'absolute',
+    right: 0,
+  },
   playButton: {
     backgroundColor: theme.colors.primary,
     width: 64,
@@ -8,6 +8,8 @@ import { MainNavigationProp, MainStackParamList } from '../../navigation/types';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Script } from '../../types/script';
 import firebaseService from '../../services/firebase';
+import offlineScripts from '../../services/offlineScripts';
+import OfflineStorageDialog from './components/OfflineStorageDialog';
 
 type ScriptsOverviewRouteProp = RouteProp<MainStackParamList, 'Scripts'>;
 
@@ -26,6 +28,7 @@ const ScriptsOverview = () => {
   const [renameDialogVisible, setRenameDialogVisible] = useState(false);
   const [scriptToRename, setScriptToRename] = useState<Script | null>(null);
   const [newScriptTitle, setNewScriptTitle] = useState('');
+  const [offlineStorageVisible, setOfflineStorageVisible] = useState(false);
 
   const navigation = useNavigation<MainNavigationProp>();
   const route = useRoute<ScriptsOverviewRouteProp>();
@@ -138,6 +141,8 @@ const ScriptsOverview = () => {
         .collection('scripts')
         .doc(selectedScript.id)
         .delete();
+      await offlineScripts.removeOfflineScript(selectedScript.id).catch(error =>
+        console.error('Error removing offline copy:', error));
       
       setSnackbarMessage('Script deleted successfully');
       setSnackbarType('success');
@@ -344,6 +349,12 @@ const ScriptsOverview = () => {
           >
             New Script
           </Button>
+          <IconButton
+            icon="download-circle-outline"
+            mode="contained-tonal"
+            onPress={() => setOfflineStorageVisible(true)}
+            disabled={loading}
+          />
           <IconButton
             icon="logout"
             mode="contained-tonal"
@@ -431,6 +442,11 @@ const ScriptsOverview = () => {
             </Button>
           </Dialog.Actions>
         </Dialog>
+
+        <OfflineStorageDialog
+          visible={offlineStorageVisible}
+          onDismiss={() => setOfflineStorageVisible(false)}
+        />
       </Portal>
 
       <Snackbar
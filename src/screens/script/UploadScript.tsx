@@ -13,6 +13,12 @@ import DocumentPicker, {
 import RNFS from 'react-native-fs';
 import firebaseService from '../../services/firebase';
 import firestore from '@react-native-firebase/firestore';
+import {
+  SUPPORTED_SCRIPT_EXTENSIONS,
+  getScriptExtension,
+  isSupportedScriptFile,
+  stripScriptExtension,
+} from '../../utils/scriptFormats';
 
 // Add type definitions
 interface ProcessingStatus {
@@ -42,6 +48,7 @@ const UploadScript: React.FC = () => {
   const [scriptTitle, setScriptTitle] = useState('');
   const [completedScriptId, setCompletedScriptId] = useState<string | null>(null);
   const [tempFilePath, setTempFilePath] = useState<string | null>(null);
+  const [failedUpload, setFailedUpload] = useState<{ scriptId: string; fileName: string } | null>(null);
 
   const navigation = useNavigation<MainNavigationProp>();
   const { user } = useAuth();
@@ -75,8 +82,9 @@ const UploadScript: React.FC = () => {
       return 'Invalid file name';
     }
 
-    if (!file.type?.toLowerCase().includes('pdf')) {
-      return 'Only PDF files are supported';
+    // Fountain files have no registered MIME type, so go by extension
+    if (!isSupportedScriptFile(file.name)) {
+      return `Only ${SUPPORTED_SCRIPT_EXTENSIONS.join(', ')} files are supported`;
     }
 
     if (file.size && file.size > MAX_FILE_SIZE) {
@@ -133,7 +141,7 @@ const UploadScript: React.FC = () => {
       }
 
       // Create new copy
-      const newPath = `${RNFS.CachesDirectoryPath}/${generateUniqueId()}.pdf`;
+      const newPath = `${RNFS.CachesDirectoryPath}/${generateUniqueId()}${getScriptExtension(file.name || '')}`;
       console.log('Creating new copy at:', newPath);
 
       if (Platform.OS === 'android') {
@@ -175,8 +183,9 @@ const UploadScript: React.FC = () => {
       .catch(err => console.error('Error updating timeout status:', err));
   };
 
-  const handleProcessingTimeout = (scriptId: string, unsubscribe: () => void) => {
+  const handleProcessingTimeout = (scriptId: string, fileName: string, unsubscribe: () => void) => {
     unsubscribe();
+    setFailedUpload({ scriptId, fileName });
     setError('Script processing timed out. Please try again.');
     setProcessingStatus('error');
     setProcessingProgress(null);
@@ -190,6 +199,80 @@ const UploadScript: React.FC = () => {
         updatedAt: firestore.Timestamp.now()
       })
       .catch(err => console.error('Error updating processing timeout status:', err));
+
+    // Lets ScriptDetail offer a retry for this script later
+    firestore()
+      .collection('scripts')
+      .doc(scriptId)
+      .update({
+        uploadStatus: 'error',
+        error: 'Processing timed out',
+        updatedAt: firestore.Timestamp.now()
+      })
+      .catch(err => console.error('Error updating script timeout status:', err));
+  };
+
+  // A retried script still reads 'error' until the new run claims it, so
+  // when retrying, earlier errors are ignored until processing restarts.
+  const watchProcessing = (scriptId: string, fileName: string, retrying = false) => {
+    let restarted = !retrying;
+
+    // Set processing timeout and listener
+    const processingTimeout = setTimeout(
+      () => handleProcessingTimeout(scriptId, fileName, unsubscribe),
+      PROCESSING_TIMEOUT
+    );
+
+    const unsubscribe = firebaseService.listenToScriptProcessingStatus(
+      scriptId,
+      (status: ProcessingStatus) => {
+        console.log('Processing status update:', status);
+        if (status.status === 'error' && !restarted) return;
+        restarted = true;
+
+        setProcessingStatus(status.status);
+        setProcessingProgress(status.progress || null);
+
+        if (status.status === 'completed') {
+          clearTimeout(processingTimeout);
+          unsubscribe();
+          setFailedUpload(null);
+          setCompletedScriptId(scriptId);
+          setScriptTitle(stripScriptExtension(fileName));
+          setRenameDialogVisible(true);
+        } else if (status.status === 'error') {
+          clearTimeout(processingTimeout);
+          unsubscribe();
+          setFailedUpload({ scriptId, fileName });
+          setError(status.error || 'An error occurred during processing');
+        }
+      },
+      (error: Error) => {
+        clearTimeout(processingTimeout);
+        console.error('Error listening to processing status:', error);
+        setError('Failed to monitor processing status');
+      }
+    );
+
+    return unsubscribe;
+  };
+
+  const handleRetryProcessing = async () => {
+    if (!failedUpload) return;
+    const { scriptId, fileName } = failedUpload;
+
+    setError(null);
+    setProcessingStatus('starting');
+    setProcessingProgress(null);
+    const unsubscribe = watchProcessing(scriptId, fileName, true);
+
+    try {
+      await firebaseService.retryScriptProcessing(scriptId);
+    } catch (err) {
+      unsubscribe();
+      console.error('Error retrying script processing:', err);
+      setError(err instanceof Error ? err.message : 'Failed to process script');
+    }
   };
 
   const uploadFile = async (file: DocumentPickerResponse, localFilePath: string, scriptId: string) => {
@@ -223,38 +306,7 @@ const UploadScript: React.FC = () => {
       );
 
       clearTimeout(uploadTimeout);
-
-      // Set processing timeout and listener
-      const processingTimeout = setTimeout(
-        () => handleProcessingTimeout(scriptId, unsubscribe),
-        PROCESSING_TIMEOUT
-      );
-
-      const unsubscribe = firebaseService.listenToScriptProcessingStatus(
-        scriptId,
-        (status: ProcessingStatus) => {
-          console.log('Processing status update:', status);
-          setProcessingStatus(status.status);
-          setProcessingProgress(status.progress || null);
-
-          if (status.status === 'completed') {
-            clearTimeout(processingTimeout);
-            unsubscribe();
-            setCompletedScriptId(scriptId);
-            setScriptTitle(fileName.replace('.pdf', ''));
-            setRenameDialogVisible(true);
-          } else if (status.status === 'error') {
-            clearTimeout(processingTimeout);
-            unsubscribe();
-            setError(status.error || 'An error occurred during processing');
-          }
-        },
-        (error: Error) => {
-          clearTimeout(processingTimeout);
-          console.error('Error listening to processing status:', error);
-          setError('Failed to monitor processing status');
-        }
-      );
+      watchProcessing(scriptId, fileName);
 
       return fileUrl;
     } catch (err) {
@@ -277,7 +329,7 @@ const UploadScript: React.FC = () => {
 
       console.log('Starting file pick...');
       const result = await DocumentPicker.pick({
-        type: [types.pdf],
+        type: [types.pdf, types.plainText, types.allFiles],
         mode: 'open',
         allowMultiSelection: false,
         presentationStyle: 'fullScreen',
@@ -320,6 +372,7 @@ const UploadScript: React.FC = () => {
     setProcessingProgress(null);
     setUploadProgress(0);
     setUploading(false);
+    setFailedUpload(null);
   };
 
   const handleRenameScript = async () => {
@@ -444,8 +497,11 @@ const UploadScript: React.FC = () => {
               loading={uploading}
               disabled={uploading || !!processingStatus}
             >
-              Select PDF File
+              Select Script File
             </Button>
+            <Text variant="bodySmall" style={styles.infoText}>
+              PDF, Fountain (.fountain, .spmd) or Final Draft (.fdx)
+            </Text>
             <Text variant="bodySmall" style={styles.infoText}>
               Maximum file size: {MAX_FILE_SIZE / (1024 * 1024)}MB
             </Text>
@@ -507,7 +563,15 @@ const UploadScript: React.FC = () => {
           </Dialog.Content>
           <Dialog.Actions>
             <Button onPress={() => setError(null)}>OK</Button>
-            {error?.includes('timed out') && (
+            {failedUpload ? (
+              <Button
+                mode="contained"
+                onPress={handleRetryProcessing}
+                style={styles.retryButton}
+              >
+                Retry processing
+              </Button>
+            ) : error?.includes('timed out') && (
               <Button 
                 mode="contained" 
                 onPress={handleFilePick}
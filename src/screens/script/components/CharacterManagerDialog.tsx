@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Dialog, Button, Text, Checkbox, TextInput, SegmentedButtons, HelperText, useTheme, MD3Theme } from 'react-native-paper';
+import firebaseService from '../../../services/firebase';
+import { CharacterChangeAction } from '../../../types/script';
+
+interface CharacterManagerDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  scriptId: string;
+  characters: Array<{ name: string; lines: number; aliases?: string[] }>;
+}
+
+const ACTION_DESCRIPTIONS: Record<CharacterChangeAction, string> = {
+  rename: 'Give a character a new name everywhere in the script.',
+  merge: 'Combine characters into one. Their lines and voice move to the target.',
+  alias: 'Treat characters as another name for the target, keeping the name printed on each line.',
+};
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  description: {
+    color: theme.colors.onSurfaceVariant,
+    marginVertical: 12,
+  },
+  sectionLabel: {
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  characterList: {
+    maxHeight: 220,
+  },
+  aliases: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  input: {
+    marginTop: 8,
+  },
+  targetOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+});
+
+const CharacterManagerDialog: React.FC<CharacterManagerDialogProps> = ({
+  visible,
+  onDismiss,
+  scriptId,
+  characters,
+}) => {
+  const [action, setAction] = useState<CharacterChangeAction>('merge');
+  const [sources, setSources] = useState<string[]>([]);
+  const [target, setTarget] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const styles = createStyles(theme);
+
+  useEffect(() => {
+    if (visible) {
+      setSources([]);
+      setTarget('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const toggleSource = (name: string) => {
+    if (action === 'rename') {
+      setSources([name]);
+      setTarget(name);
+      return;
+    }
+    setSources(current =>
+      current.includes(name) ? current.filter(source => source !== name) : [...current, name]
+    );
+  };
+
+  const handleActionChange = (value: string) => {
+    setAction(value as CharacterChangeAction);
+    setSources([]);
+    setTarget('');
+    setError(null);
+  };
+
+  const targetName = target.trim();
+  const effectiveSources = sources.filter(source => source !== targetName);
+  const canApply = !!targetName && effectiveSources.length > 0 && !saving;
+
+  const handleApply = async () => {
+    if (!canApply) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await firebaseService.manageCharacters(scriptId, {
+        action,
+        sources: effectiveSources,
+        target: targetName,
+      });
+      onDismiss();
+    } catch (err) {
+      console.error('Error updating characters:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update characters');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog visible={visible} onDismiss={onDismiss} style={{ maxHeight: '85%' }}>
+      <Dialog.Title>Manage Characters</Dialog.Title>
+      <Dialog.ScrollArea>
+        <ScrollView>
+          <SegmentedButtons
+            value={action}
+            onValueChange={handleActionChange}
+            buttons={[
+              { value: 'rename', label: 'Rename' },
+              { value: 'merge', label: 'Merge' },
+              { value: 'alias', label: 'Alias' },
+            ]}
+            style={{ marginTop: 12 }}
+          />
+          <Text variant="bodySmall" style={styles.description}>
+            {ACTION_DESCRIPTIONS[action]}
+          </Text>
+
+          <Text variant="titleSmall" style={styles.sectionLabel}>
+            {action === 'rename' ? 'Character' : 'Characters to combine'}
+          </Text>
+          <ScrollView style={styles.characterList} nestedScrollEnabled>
+            {characters.map(character => (
+              <Checkbox.Item
+                key={character.name}
+                label={`${character.name} (${character.lines} lines)${
+                  character.aliases?.length ? ` • aka ${character.aliases.join(', ')}` : ''
+                }`}
+                status={sources.includes(character.name) ? 'checked' : 'unchecked'}
+                onPress={() => toggleSource(character.name)}
+                mode="android"
+              />
+            ))}
+          </ScrollView>
+
+          <Text variant="titleSmall" style={styles.sectionLabel}>
+            {action === 'rename' ? 'New name' : 'Target character'}
+          </Text>
+          {action !== 'rename' && sources.length > 0 && (
+            <View style={styles.targetOptions}>
+              {sources.map(source => (
+                <Button
+                  key={source}
+                  compact
+                  mode={targetName === source ? 'contained' : 'outlined'}
+                  onPress={() => setTarget(source)}
+                >
+                  {source}
+                </Button>
+              ))}
+            </View>
+          )}
+          <TextInput
+            label={action === 'rename' ? 'New name' : 'Or type a name'}
+            value={target}
+            onChangeText={text => setTarget(text.toUpperCase())}
+            autoCapitalize="characters"
+            mode="outlined"
+            style={styles.input}
+          />
+          {error && (
+            <HelperText type="error" visible={!!error}>
+              {error}
+            </HelperText>
+          )}
+        </ScrollView>
+      </Dialog.ScrollArea>
+      <Dialog.Actions>
+        <Button onPress={onDismiss} disabled={saving}>Cancel</Button>
+        <Button mode="contained" onPress={handleApply} loading={saving} disabled={!canApply}>
+          Apply
+        </Button>
+      </Dialog.Actions>
+    </Dialog>
+  );
+};
+
+export default CharacterManagerDialog;
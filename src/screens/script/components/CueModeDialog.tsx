@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Dialog,
+  Button,
+  Text,
+  TextInput,
+  SegmentedButtons,
+  HelperText,
+  Switch,
+  useTheme,
+  MD3Theme,
+} from 'react-native-paper';
+import {
+  CueOtherLines,
+  CueSettings,
+  CueUnit,
+  MAX_CUE_SECONDS,
+  MAX_CUE_WORDS,
+} from '../../../utils/cueMode';
+
+interface CueModeDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  settings: CueSettings;
+  onApply: (settings: CueSettings) => void;
+}
+
+const UNIT_DESCRIPTIONS: Record<CueUnit, string> = {
+  words: 'Partners read just the last words of their line, voiced as a phrase of their own.',
+  seconds: 'Partners play just the end of their recorded line.',
+};
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  enabledRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  description: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  unitDescription: {
+    color: theme.colors.onSurfaceVariant,
+    marginVertical: 8,
+  },
+});
+
+const CueModeDialog: React.FC<CueModeDialogProps> = ({
+  visible,
+  onDismiss,
+  settings,
+  onApply,
+}) => {
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [unit, setUnit] = useState<CueUnit>(settings.unit);
+  const [amount, setAmount] = useState(String(settings.amount));
+  const [others, setOthers] = useState<CueOtherLines>(settings.others);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const maxAmount = unit === 'words' ? MAX_CUE_WORDS : MAX_CUE_SECONDS;
+
+  // Start from the settings in use
+  useEffect(() => {
+    if (!visible) return;
+    setEnabled(settings.enabled);
+    setUnit(settings.unit);
+    setAmount(String(settings.amount));
+    setOthers(settings.others);
+    setError(null);
+  }, [visible]);
+
+  const handleApply = () => {
+    const value = parseInt(amount, 10);
+    if (enabled && (isNaN(value) || value < 1 || value > maxAmount)) {
+      setError(`Enter a cue length from 1 to ${maxAmount} ${unit}`);
+      return;
+    }
+    onApply({
+      enabled,
+      unit,
+      amount: isNaN(value) ? settings.amount : Math.min(Math.max(value, 1), maxAmount),
+      others,
+    });
+  };
+
+  return (
+    <Dialog visible={visible} onDismiss={onDismiss}>
+      <Dialog.Title>Cue Mode</Dialog.Title>
+      <Dialog.Content>
+        <View style={styles.enabledRow}>
+          <View style={{ flex: 1 }}>
+            <Text variant="titleSmall">Cues only</Text>
+            <Text variant="bodySmall" style={styles.description}>
+              Hear only the end of the line before each of yours
+            </Text>
+          </View>
+          <Switch value={enabled} onValueChange={setEnabled} />
+        </View>
+
+        {enabled && (
+          <>
+            <Text variant="titleSmall" style={styles.sectionTitle}>Cue length</Text>
+            <SegmentedButtons
+              value={unit}
+              onValueChange={value => {
+                setUnit(value as CueUnit);
+                setError(null);
+              }}
+              buttons={[
+                { value: 'words', label: 'Words' },
+                { value: 'seconds', label: 'Seconds' },
+              ]}
+            />
+            <Text variant="bodySmall" style={styles.unitDescription}>
+              {UNIT_DESCRIPTIONS[unit]}
+            </Text>
+            <TextInput
+              label={unit === 'words' ? 'Last words' : 'Last seconds'}
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="number-pad"
+              mode="outlined"
+            />
+
+            <Text variant="titleSmall" style={styles.sectionTitle}>Other lines</Text>
+            <SegmentedButtons
+              value={others}
+              onValueChange={value => setOthers(value as CueOtherLines)}
+              buttons={[
+                { value: 'dim', label: 'Dim' },
+                { value: 'hide', label: 'Hide' },
+              ]}
+            />
+          </>
+        )}
+
+        {error && (
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        )}
+      </Dialog.Content>
+      <Dialog.Actions>
+        <Button onPress={onDismiss}>Cancel</Button>
+        <Button mode="contained" onPress={handleApply}>
+          Apply
+        </Button>
+      </Dialog.Actions>
+    </Dialog>
+  );
+};
+
+export default CueModeDialog;
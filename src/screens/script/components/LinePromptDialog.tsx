@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Dialog,
+  Button,
+  Text,
+  TextInput,
+  SegmentedButtons,
+  HelperText,
+  Switch,
+  useTheme,
+  MD3Theme,
+} from 'react-native-paper';
+import {
+  MAX_PROMPT_DELAY_SECONDS,
+  MAX_PROMPT_WORDS,
+  PromptDelivery,
+  PromptSettings,
+} from '../../../utils/linePrompt';
+
+interface LinePromptDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  settings: PromptSettings;
+  onApply: (settings: PromptSettings) => void;
+}
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  enabledRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  description: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  inputs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  input: {
+    flex: 1,
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+});
+
+const LinePromptDialog: React.FC<LinePromptDialogProps> = ({
+  visible,
+  onDismiss,
+  settings,
+  onApply,
+}) => {
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [delay, setDelay] = useState(String(settings.delaySeconds));
+  const [words, setWords] = useState(String(settings.words));
+  const [delivery, setDelivery] = useState<PromptDelivery>(settings.delivery);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const styles = createStyles(theme);
+
+  // Start from the settings in use
+  useEffect(() => {
+    if (!visible) return;
+    setEnabled(settings.enabled);
+    setDelay(String(settings.delaySeconds));
+    setWords(String(settings.words));
+    setDelivery(settings.delivery);
+    setError(null);
+  }, [visible]);
+
+  const handleApply = () => {
+    const delaySeconds = parseInt(delay, 10);
+    const wordCount = parseInt(words, 10);
+    if (enabled && (isNaN(delaySeconds) || delaySeconds < 1 || delaySeconds > MAX_PROMPT_DELAY_SECONDS)) {
+      setError(`Enter a pause from 1 to ${MAX_PROMPT_DELAY_SECONDS} seconds`);
+      return;
+    }
+    if (enabled && (isNaN(wordCount) || wordCount < 1 || wordCount > MAX_PROMPT_WORDS)) {
+      setError(`Enter from 1 to ${MAX_PROMPT_WORDS} words`);
+      return;
+    }
+    onApply({
+      enabled,
+      delaySeconds: isNaN(delaySeconds) ? settings.delaySeconds : delaySeconds,
+      words: isNaN(wordCount) ? settings.words : wordCount,
+      delivery,
+    });
+  };
+
+  return (
+    <Dialog visible={visible} onDismiss={onDismiss}>
+      <Dialog.Title>Prompts</Dialog.Title>
+      <Dialog.Content>
+        <View style={styles.enabledRow}>
+          <View style={{ flex: 1 }}>
+            <Text variant="titleSmall">Prompt me</Text>
+            <Text variant="bodySmall" style={styles.description}>
+              Give the next words when you pause mid-line or say "line?"
+            </Text>
+          </View>
+          <Switch value={enabled} onValueChange={setEnabled} />
+        </View>
+
+        {enabled && (
+          <>
+            <View style={styles.inputs}>
+              <TextInput
+                label="After pause (s)"
+                value={delay}
+                onChangeText={setDelay}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.input}
+              />
+              <TextInput
+                label="Words"
+                value={words}
+                onChangeText={setWords}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.input}
+              />
+            </View>
+
+            <Text variant="titleSmall" style={styles.sectionTitle}>Prompt by</Text>
+            <SegmentedButtons
+              value={delivery}
+              onValueChange={value => setDelivery(value as PromptDelivery)}
+              buttons={[
+                { value: 'show', label: 'Showing' },
+                { value: 'speak', label: 'Speaking' },
+              ]}
+            />
+            {delivery === 'speak' && (
+              <HelperText type="info" visible>
+                Prompts are played from the line's recording, and shown when it has none.
+              </HelperText>
+            )}
+          </>
+        )}
+
+        {error && (
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        )}
+      </Dialog.Content>
+      <Dialog.Actions>
+        <Button onPress={onDismiss}>Cancel</Button>
+        <Button mode="contained" onPress={handleApply}>
+          Apply
+        </Button>
+      </Dialog.Actions>
+    </Dialog>
+  );
+};
+
+export default LinePromptDialog;
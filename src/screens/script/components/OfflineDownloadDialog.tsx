@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Dialog,
+  Button,
+  Text,
+  ProgressBar,
+  HelperText,
+  ActivityIndicator,
+  useTheme,
+  MD3Theme,
+} from 'react-native-paper';
+import { Script } from '../../../types/script';
+import offlineScripts, {
+  OfflineDownloadPlan,
+  OfflineDownloadProgress,
+  OfflineScript,
+  formatBytes,
+} from '../../../services/offlineScripts';
+
+interface OfflineDownloadDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  script: Script;
+  /** Voice chosen for each character, by character name. */
+  characterVoices: Record<string, string>;
+}
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  description: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: 12,
+  },
+  progress: {
+    marginTop: 8,
+    gap: 8,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+});
+
+const OfflineDownloadDialog: React.FC<OfflineDownloadDialogProps> = ({
+  visible,
+  onDismiss,
+  script,
+  characterVoices,
+}) => {
+  const [plan, setPlan] = useState<OfflineDownloadPlan | null>(null);
+  const [offline, setOffline] = useState<OfflineScript | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [progress, setProgress] = useState<OfflineDownloadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  const theme = useTheme();
+  const styles = createStyles(theme);
+
+  // Work out what's left to download each time the dialog opens
+  useEffect(() => {
+    if (!visible) return;
+    setPlan(null);
+    setProgress(null);
+    setError(null);
+    Promise.all([
+      offlineScripts.getOfflineScript(script.id),
+      offlineScripts.planDownload(script, characterVoices),
+    ])
+      .then(([saved, nextPlan]) => {
+        setOffline(saved);
+        setPlan(nextPlan);
+      })
+      .catch(err => {
+        console.error('Error planning offline download:', err);
+        setError('Could not check what needs downloading');
+      });
+  }, [visible]);
+
+  const handleDownload = async () => {
+    if (!plan) return;
+    cancelledRef.current = false;
+    setDownloading(true);
+    setError(null);
+    try {
+      const saved = await offlineScripts.downloadScript(script, plan, setProgress, () => cancelledRef.current);
+      setOffline(saved);
+      setPlan(await offlineScripts.planDownload(script, characterVoices));
+    } catch (err) {
+      console.error('Error downloading script:', err);
+      setError('Download failed. Check your connection and try again; finished files are kept.');
+    } finally {
+      setDownloading(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    cancelledRef.current = true;
+    offlineScripts.cancelDownload(script.id);
+  };
+
+  const handleRemove = async () => {
+    try {
+      await offlineScripts.removeOfflineScript(script.id);
+      setOffline(null);
+      setPlan(await offlineScripts.planDownload(script, characterVoices));
+    } catch (err) {
+      console.error('Error removing offline script:', err);
+      setError('Could not remove the download');
+    }
+  };
+
+  const upToDate = !!offline && plan?.files.length === 0;
+
+  return (
+    <Dialog visible={visible} onDismiss={downloading ? undefined : onDismiss}>
+      <Dialog.Title>Download for Offline</Dialog.Title>
+      <Dialog.Content>
+        <Text variant="bodyMedium" style={styles.description}>
+          Saves the script and your scene partners' voices on this device, so you can rehearse without a connection.
+        </Text>
+
+        {!plan && !error && <ActivityIndicator style={styles.loading} />}
+
+        {plan && !downloading && (
+          upToDate ? (
+            <Text variant="bodyMedium">
+              Downloaded · {plan.downloadedCount} voice lines · {formatBytes(offline!.sizeBytes)}
+            </Text>
+          ) : plan.files.length === 0 ? (
+            <Text variant="bodyMedium">
+              No voice lines have been generated yet. Only the script text will be saved.
+            </Text>
+          ) : (
+            <Text variant="bodyMedium">
+              {plan.files.length} voice lines to download, about {formatBytes(plan.estimatedBytes)}
+              {plan.downloadedCount > 0 ? ` (${plan.downloadedCount} already on this device)` : ''}
+            </Text>
+          )
+        )}
+
+        {downloading && (
+          <View style={styles.progress}>
+            <Text variant="bodyMedium">
+              {progress
+                ? `${progress.filesDone} of ${progress.fileCount} voice lines · ${formatBytes(progress.bytesWritten)}`
+                : 'Starting download...'}
+            </Text>
+            <ProgressBar progress={progress && progress.fileCount > 0 ? progress.filesDone / progress.fileCount : 0} />
+          </View>
+        )}
+
+        {error && (
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        )}
+      </Dialog.Content>
+      <Dialog.Actions>
+        {downloading ? (
+          <Button onPress={handleCancel}>Stop</Button>
+        ) : (
+          <>
+            {offline && <Button onPress={handleRemove}>Remove</Button>}
+            <Button onPress={onDismiss}>Close</Button>
+            {!upToDate && (
+              <Button mode="contained" onPress={handleDownload} disabled={!plan}>
+                {offline ? 'Update' : 'Download'}
+              </Button>
+            )}
+          </>
+        )}
+      </Dialog.Actions>
+    </Dialog>
+  );
+};
+
+export default OfflineDownloadDialog;
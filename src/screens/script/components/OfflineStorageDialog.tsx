@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Dialog,
+  Button,
+  Text,
+  IconButton,
+  HelperText,
+  ActivityIndicator,
+  useTheme,
+  MD3Theme,
+} from 'react-native-paper';
+import offlineScripts, { OfflineScript, formatBytes } from '../../../services/offlineScripts';
+
+interface OfflineStorageDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+}
+
+// Downloads not rehearsed for this long are offered for removal together
+const UNUSED_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  scrollContent: {
+    paddingVertical: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  muted: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  total: {
+    marginTop: 12,
+    color: theme.colors.onSurfaceVariant,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+});
+
+const OfflineStorageDialog: React.FC<OfflineStorageDialogProps> = ({ visible, onDismiss }) => {
+  const [scripts, setScripts] = useState<OfflineScript[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const styles = createStyles(theme);
+
+  const loadScripts = async () => {
+    try {
+      setScripts(await offlineScripts.getOfflineScripts());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading offline scripts:', err);
+      setError('Could not read downloaded scripts');
+      setScripts([]);
+    }
+  };
+
+  useEffect(() => {
+    if (!visible) return;
+    setScripts(null);
+    loadScripts();
+  }, [visible]);
+
+  const handleRemove = async (scriptId: string) => {
+    try {
+      await offlineScripts.removeOfflineScript(scriptId);
+    } catch (err) {
+      console.error('Error removing offline script:', err);
+      setError('Could not remove the download');
+    }
+    await loadScripts();
+  };
+
+  const handleRemoveUnused = async () => {
+    try {
+      await offlineScripts.evictOfflineScripts({ maxAgeMs: UNUSED_DAYS * DAY_MS });
+    } catch (err) {
+      console.error('Error removing unused scripts:', err);
+      setError('Could not remove unused downloads');
+    }
+    await loadScripts();
+  };
+
+  const unusedCount = (scripts || []).filter(item => Date.now() - item.lastUsedAt > UNUSED_DAYS * DAY_MS).length;
+  const totalBytes = (scripts || []).reduce((total, item) => total + item.sizeBytes, 0);
+
+  return (
+    <Dialog visible={visible} onDismiss={onDismiss}>
+      <Dialog.Title>Offline Scripts</Dialog.Title>
+      <Dialog.ScrollArea>
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {!scripts ? (
+            <ActivityIndicator style={styles.loading} />
+          ) : scripts.length === 0 ? (
+            <Text variant="bodyMedium" style={styles.muted}>
+              No scripts downloaded. Use "Download for Offline" on a script to rehearse it without a connection.
+            </Text>
+          ) : (
+            <>
+              {scripts.map(item => (
+                <View key={item.scriptId} style={styles.item}>
+                  <View style={styles.itemInfo}>
+                    <Text variant="titleSmall">{item.title}</Text>
+                    <Text variant="bodySmall" style={styles.muted}>
+                      {formatBytes(item.sizeBytes)} · last used {new Date(item.lastUsedAt).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  <IconButton icon="delete-outline" onPress={() => handleRemove(item.scriptId)} />
+                </View>
+              ))}
+              <Text variant="bodySmall" style={styles.total}>
+                {formatBytes(totalBytes)} in total
+              </Text>
+            </>
+          )}
+          {error && (
+            <HelperText type="error" visible={!!error}>
+              {error}
+            </HelperText>
+          )}
+        </ScrollView>
+      </Dialog.ScrollArea>
+      <Dialog.Actions>
+        {unusedCount > 0 && (
+          <Button onPress={handleRemoveUnused}>
+            Remove {unusedCount} unused for {UNUSED_DAYS} days
+          </Button>
+        )}
+        <Button onPress={onDismiss}>Close</Button>
+      </Dialog.Actions>
+    </Dialog>
+  );
+};
+
+export default OfflineStorageDialog;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Button, HelperText, Divider, useTheme, MD3Theme } from 'react-native-paper';
+import firebaseService from '../../../services/firebase';
+import {
+  ScriptAnalysis,
+  ScriptQualityReport,
+  ScriptLineValidation,
+  ScriptOcrReport,
+} from '../../../types/script';
+
+interface ProcessingReportProps {
+  scriptId: string;
+  report?: ScriptQualityReport;
+  lineValidation?: ScriptLineValidation;
+  ocr?: ScriptOcrReport;
+  scenes: ScriptAnalysis['scenes'];
+}
+
+interface ReportSection {
+  startLine: number;
+  endLine: number;
+  title: string;
+  problems: string[];
+}
+
+// Lines outside any scene are reprocessed with this much context either side
+const SECTION_PADDING = 10;
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  summary: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: 8,
+  },
+  section: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  sectionInfo: {
+    flex: 1,
+  },
+  problem: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  rejected: {
+    marginTop: 8,
+    color: theme.colors.onSurfaceVariant,
+  },
+  lowConfidence: {
+    marginBottom: 8,
+    color: theme.colors.error,
+  },
+});
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Groups the report's problems into the script sections that would fix them
+ * when reprocessed: failed chunks as they are, everything else by scene.
+ */
+const buildSections = (
+  scenes: ScriptAnalysis['scenes'],
+  report?: ScriptQualityReport,
+  lineValidation?: ScriptLineValidation
+): ReportSection[] => {
+  const sections = new Map<string, ReportSection>();
+
+  const addProblem = (startLine: number, endLine: number, title: string, problem: string) => {
+    const key = `${startLine}-${endLine}`;
+    const section = sections.get(key) || { startLine, endLine, title, problems: [] };
+    if (!section.problems.includes(problem)) {
+      section.problems.push(problem);
+    }
+    sections.set(key, section);
+  };
+
+  const addLine = (lineNumber: number, problem: string) => {
+    const scene = scenes.find(s => lineNumber >= s.startLine && lineNumber <= s.endLine);
+    if (scene) {
+      addProblem(scene.startLine, scene.endLine, scene.name, problem);
+    } else {
+      const startLine = Math.max(0, lineNumber - SECTION_PADDING);
+      const endLine = lineNumber + SECTION_PADDING;
+      addProblem(startLine, endLine, `Lines ${startLine + 1}-${endLine + 1}`, problem);
+    }
+  };
+
+  report?.failedChunks.forEach(chunk =>
+    addProblem(
+      chunk.startLine,
+      chunk.endLine,
+      `Lines ${chunk.startLine + 1}-${chunk.endLine + 1}`,
+      `Could not be read: ${chunk.error}`
+    )
+  );
+  report?.unattributedLines.items.forEach(line => addLine(line.lineNumber, 'Dialogue with no speaker'));
+  report?.droppedDialogue.items.forEach(line => addLine(line.lineNumber, 'Dialogue dropped as action'));
+  lineValidation?.mismatches.forEach(line => addLine(line.originalLineNumber, 'Lines out of place'));
+
+  return Array.from(sections.values()).sort((a, b) => a.startLine - b.startLine);
+};
+
+export const hasProcessingIssues = (
+  report?: ScriptQualityReport,
+  lineValidation?: ScriptLineValidation,
+  ocr?: ScriptOcrReport
+): boolean =>
+  !!report && (
+    report.failedChunks.length > 0 ||
+    report.rejectedCharacters.length > 0 ||
+    report.droppedDialogue.count > 0 ||
+    report.unattributedLines.count > 0
+  ) || !!lineValidation?.mismatchCount || !!ocr?.lowConfidencePages.length;
+
+// Matches PROCESSING_LEASE_MS in functions: a run that has been quiet this
+// long was stopped by the function timeout and can be retried
+export const PROCESSING_LEASE_MS = 540 * 1000;
+
+/** Whether processing stopped without completing or recording an error. */
+export const isProcessingStalled = (status?: string, lastActivity?: number, now = Date.now()): boolean =>
+  !!status && status !== 'completed' && status !== 'error' && now - (lastActivity ?? 0) >= PROCESSING_LEASE_MS;
+
+const ProcessingReport: React.FC<ProcessingReportProps> = ({
+  scriptId,
+  report,
+  lineValidation,
+  ocr,
+  scenes,
+}) => {
+  const [reprocessing, setReprocessing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const styles = createStyles(theme);
+
+  const sections = buildSections(scenes, report, lineValidation);
+  const rejected = report?.rejectedCharacters || [];
+  // Scanned pages OCR read poorly; their lines may be garbled or missing.
+  const unclearPages = ocr?.pages.filter(page => page.lowConfidence) || [];
+
+  if (sections.length === 0 && rejected.length === 0 && unclearPages.length === 0) {
+    return null;
+  }
+
+  const summary = [
+    report?.failedChunks.length ? pluralize(report.failedChunks.length, 'section') + ' could not be read' : null,
+    report?.unattributedLines.count ? pluralize(report.unattributedLines.count, 'line') + ' with no speaker' : null,
+    report?.droppedDialogue.count ? pluralize(report.droppedDialogue.count, 'line') + ' dropped' : null,
+    lineValidation?.mismatchCount ? pluralize(lineValidation.mismatchCount, 'line') + ' out of place' : null,
+    unclearPages.length ? pluralize(unclearPages.length, 'scanned page') + ' hard to read' : null,
+  ].filter(Boolean).join(' • ');
+
+  const handleReprocess = async (section: ReportSection) => {
+    const key = `${section.startLine}-${section.endLine}`;
+    setReprocessing(key);
+    setError(null);
+    try {
+      await firebaseService.reprocessScriptSection(scriptId, section.startLine, section.endLine);
+    } catch (err) {
+      console.error('Error reprocessing section:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reprocess section');
+    } finally {
+      setReprocessing(null);
+    }
+  };
+
+  return (
+    <View>
+      {summary.length > 0 && (
+        <Text variant="bodyMedium" style={styles.summary}>
+          {summary}
+        </Text>
+      )}
+
+      {unclearPages.length > 0 && (
+        <Text variant="bodySmall" style={styles.lowConfidence}>
+          Check against your copy, these pages were scanned and could not be read reliably:{' '}
+          {unclearPages.map(page => `page ${page.pageNumber} (${page.confidence}%)`).join(', ')}
+        </Text>
+      )}
+
+      {sections.map((section, index) => {
+        const key = `${section.startLine}-${section.endLine}`;
+        return (
+          <View key={key}>
+            {index > 0 && <Divider />}
+            <View style={styles.section}>
+              <View style={styles.sectionInfo}>
+                <Text variant="titleSmall" numberOfLines={1}>{section.title}</Text>
+                {section.problems.map(problem => (
+                  <Text key={problem} variant="bodySmall" style={styles.problem}>
+                    {problem}
+                  </Text>
+                ))}
+              </View>
+              <Button
+                compact
+                mode="outlined"
+                onPress={() => handleReprocess(section)}
+                loading={reprocessing === key}
+                disabled={reprocessing !== null}
+              >
+                Reprocess
+              </Button>
+            </View>
+          </View>
+        );
+      })}
+
+      {rejected.length > 0 && (
+        <Text variant="bodySmall" style={styles.rejected}>
+          Not treated as characters: {rejected.map(char => `${char.name} (${char.lines})`).join(', ')}
+        </Text>
+      )}
+
+      {error && (
+        <HelperText type="error" visible={!!error}>
+          {error}
+        </HelperText>
+      )}
+    </View>
+  );
+};
+
+export default ProcessingReport;
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Dialog,
+  Button,
+  Text,
+  Checkbox,
+  TextInput,
+  SegmentedButtons,
+  HelperText,
+  Switch,
+  useTheme,
+  MD3Theme,
+} from 'react-native-paper';
+import { ScriptAnalysis } from '../../../types/script';
+import {
+  RehearsalRange,
+  RehearsalRangeKind,
+  characterRange,
+  lineRange,
+  sceneRange,
+} from '../../../utils/rehearsalRange';
+
+type RangeChoice = 'all' | RehearsalRangeKind;
+
+interface RehearsalRangeDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  analysis: Pick<ScriptAnalysis, 'scenes' | 'processedLines'>;
+  characterName: string;
+  range: RehearsalRange | null;
+  loop: boolean;
+  onApply: (range: RehearsalRange | null, loop: boolean) => void;
+}
+
+const CHOICE_DESCRIPTIONS: Record<RangeChoice, string> = {
+  all: 'Rehearse from wherever you start to the end of the script.',
+  lines: 'Rehearse a run of lines, numbered as in the script view.',
+  scenes: 'Rehearse one or more scenes, one after the other.',
+  character: 'Rehearse only the sections where your character speaks.',
+};
+
+const createStyles = (theme: MD3Theme) => StyleSheet.create({
+  description: {
+    color: theme.colors.onSurfaceVariant,
+    marginVertical: 12,
+  },
+  lineInputs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  lineInput: {
+    flex: 1,
+  },
+  sceneList: {
+    maxHeight: 260,
+  },
+  loopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  loopDescription: {
+    color: theme.colors.onSurfaceVariant,
+  },
+});
+
+const RehearsalRangeDialog: React.FC<RehearsalRangeDialogProps> = ({
+  visible,
+  onDismiss,
+  analysis,
+  characterName,
+  range,
+  loop,
+  onApply,
+}) => {
+  const [choice, setChoice] = useState<RangeChoice>('all');
+  const [fromLine, setFromLine] = useState('');
+  const [toLine, setToLine] = useState('');
+  const [selectedScenes, setSelectedScenes] = useState<number[]>([]);
+  const [loopRange, setLoopRange] = useState(loop);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const scenes = analysis.scenes || [];
+
+  // Start from the range being rehearsed
+  useEffect(() => {
+    if (!visible) return;
+    setChoice(range?.kind || 'all');
+    setLoopRange(loop);
+    setError(null);
+    setSelectedScenes(range?.kind === 'scenes' ? range.spans.map(span => span.startLine) : []);
+    if (range?.kind === 'lines') {
+      const span = range.spans[0];
+      const numbers = analysis.processedLines
+        .filter(line => line.originalLineNumber >= span.startLine && line.originalLineNumber <= span.endLine)
+        .map(line => line.sequentialNumber);
+      setFromLine(String(Math.min(...numbers)));
+      setToLine(String(Math.max(...numbers)));
+    } else {
+      setFromLine('');
+      setToLine('');
+    }
+  }, [visible]);
+
+  const toggleScene = (startLine: number) => {
+    setSelectedScenes(current =>
+      current.includes(startLine) ? current.filter(line => line !== startLine) : [...current, startLine]
+    );
+  };
+
+  const handleApply = () => {
+    let selected: RehearsalRange | null = null;
+    switch (choice) {
+      case 'lines': {
+        const from = parseInt(fromLine, 10);
+        const to = parseInt(toLine, 10);
+        if (isNaN(from) || isNaN(to)) {
+          setError('Enter the first and last line');
+          return;
+        }
+        selected = lineRange(analysis.processedLines, from, to);
+        break;
+      }
+      case 'scenes':
+        selected = sceneRange(scenes.filter(scene => selectedScenes.includes(scene.startLine)));
+        break;
+      case 'character':
+        selected = characterRange(analysis, characterName);
+        break;
+    }
+    if (choice !== 'all' && !selected) {
+      setError(choice === 'scenes' ? 'Choose at least one scene' : 'There are no lines to rehearse in that range');
+      return;
+    }
+    onApply(selected, loopRange);
+  };
+
+  return (
+    <Dialog visible={visible} onDismiss={onDismiss} style={{ maxHeight: '85%' }}>
+      <Dialog.Title>Rehearsal Range</Dialog.Title>
+      <Dialog.ScrollArea>
+        <ScrollView>
+          <SegmentedButtons
+            value={choice}
+            onValueChange={value => {
+              setChoice(value as RangeChoice);
+              setError(null);
+            }}
+            buttons={[
+              { value: 'all', label: 'All' },
+              { value: 'lines', label: 'Lines' },
+              { value: 'scenes', label: 'Scenes', disabled: scenes.length === 0 },
+              { value: 'character', label: 'My lines' },
+            ]}
+            style={{ marginTop: 12 }}
+          />
+          <Text variant="bodySmall" style={styles.description}>
+            {CHOICE_DESCRIPTIONS[choice]}
+          </Text>
+
+          {choice === 'lines' && (
+            <View style={styles.lineInputs}>
+              <TextInput
+                label="From line"
+                value={fromLine}
+                onChangeText={setFromLine}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.lineInput}
+              />
+              <TextInput
+                label="To line"
+                value={toLine}
+                onChangeText={setToLine}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.lineInput}
+              />
+            </View>
+          )}
+
+          {choice === 'scenes' && (
+            <ScrollView style={styles.sceneList} nestedScrollEnabled>
+              {scenes.map(scene => (
+                <Checkbox.Item
+                  key={`${scene.startLine}-${scene.name}`}
+                  label={scene.sceneNumber ? `${scene.sceneNumber}. ${scene.name}` : scene.name}
+                  status={selectedScenes.includes(scene.startLine) ? 'checked' : 'unchecked'}
+                  onPress={() => toggleScene(scene.startLine)}
+                  mode="android"
+                />
+              ))}
+            </ScrollView>
+          )}
+
+          <View style={styles.loopRow}>
+            <View>
+              <Text variant="titleSmall">Loop</Text>
+              <Text variant="bodySmall" style={styles.loopDescription}>
+                Start again from the top of the range when it ends
+              </Text>
+            </View>
+            <Switch value={loopRange} onValueChange={setLoopRange} />
+          </View>
+
+          {error && (
+            <HelperText type="error" visible={!!error}>
+              {error}
+            </HelperText>
+          )}
+        </ScrollView>
+      </Dialog.ScrollArea>
+      <Dialog.Actions>
+        <Button onPress={onDismiss}>Cancel</Button>
+        <Button mode="contained" onPress={handleApply}>
+          Apply
+        </Button>
+      </Dialog.Actions>
+    </Dialog>
+  );
+};
+
+export default RehearsalRangeDialog;
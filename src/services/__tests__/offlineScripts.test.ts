@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import RNFS from 'react-native-fs';
+import { Script } from '../../types/script';
+import offlineScripts, { OfflineScript } from '../offlineScripts';
+
+// Device storage, as file contents by path; folders are implied by the paths
+const mockFiles = new Map<string, string>();
+
+jest.mock('react-native-fs', () => {
+  const within = (path: string) => (file: string) => file.startsWith(`${path}/`);
+  return {
+    __esModule: true,
+    default: {
+      DocumentDirectoryPath: '/documents',
+      exists: async (path: string) => mockFiles.has(path) || [...mockFiles.keys()].some(within(path)),
+      readFile: async (path: string) => mockFiles.get(path),
+      writeFile: async (path: string, contents: string) => {
+        mockFiles.set(path, contents);
+      },
+      readDir: async (path: string) => {
+        const children = [...mockFiles.keys()].filter(within(path)).map(file => file.slice(path.length + 1));
+        const names = new Set(children.map(child => child.split('/')[0]));
+        return [...names].map(name => ({ name, isDirectory: () => true }));
+      },
+      unlink: async (path: string) => {
+        [...mockFiles.keys()]
+          .filter(file => file === path || within(path)(file))
+          .forEach(file => mockFiles.delete(file));
+      },
+    },
+  };
+});
+
+const OFFLINE_DIR = '/documents/offline_scripts';
+
+type Line = NonNullable<Script['analysis']>['processedLines'][number];
+
+const line = (originalLineNumber: number, characterName: string, extra: Partial<Line> = {}): Line => ({
+  characterId: characterName.toLowerCase(),
+  characterName,
+  text: 'Who is there?',
+  originalLineNumber,
+  sequentialNumber: originalLineNumber,
+  ...extra,
+});
+
+const script = (id: string, processedLines: Line[] = []): Script => ({
+  id,
+  title: 'Hamlet',
+  description: null,
+  userId: 'user',
+  createdAt: null,
+  updatedAt: null,
+  status: 'draft',
+  scenes: [],
+  characters: [],
+  settings: [],
+  analysis: {
+    characters: [],
+    scenes: [],
+    actionLines: [],
+    processedLines,
+    metadata: { totalLines: processedLines.length, estimatedDuration: 0 },
+  },
+});
+
+const offline = (scriptId: string, extra: Partial<OfflineScript> = {}): OfflineScript => ({
+  scriptId,
+  title: 'Hamlet',
+  downloadedAt: 0,
+  lastUsedAt: 0,
+  sizeBytes: 0,
+  characterVoices: {},
+  files: {},
+  script: script(scriptId),
+  ...extra,
+});
+
+const save = (manifest: OfflineScript) =>
+  RNFS.writeFile(`${OFFLINE_DIR}/${manifest.scriptId}/script.json`, JSON.stringify(manifest), 'utf8');
+
+beforeEach(() => {
+  mockFiles.clear();
+});
+
+describe('evictOfflineScripts', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('removes the least recently used scripts until the rest fit', async () => {
+    await save(offline('hamlet', { lastUsedAt: 1000, sizeBytes: 50 }));
+    await save(offline('lear', { lastUsedAt: 3000, sizeBytes: 30 }));
+    await save(offline('macbeth', { lastUsedAt: 2000, sizeBytes: 40 }));
+
+    expect(await offlineScripts.evictOfflineScripts({ maxBytes: 60 })).toEqual(['hamlet', 'macbeth']);
+    expect((await offlineScripts.getOfflineScripts()).map(item => item.scriptId)).toEqual(['lear']);
+    expect(await RNFS.exists(`${OFFLINE_DIR}/hamlet`)).toBe(false);
+  });
+
+  it('removes scripts not used within the age limit, however small', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(10000);
+    await save(offline('hamlet', { lastUsedAt: 1000, sizeBytes: 10 }));
+    await save(offline('lear', { lastUsedAt: 8000, sizeBytes: 500 }));
+
+    expect(await offlineScripts.evictOfflineScripts({ maxAgeMs: 5000, maxBytes: 1000 })).toEqual(['hamlet']);
+  });
+
+  it('keeps everything within both limits', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(10000);
+    await save(offline('hamlet', { lastUsedAt: 8000, sizeBytes: 50 }));
+
+    expect(await offlineScripts.evictOfflineScripts({ maxAgeMs: 5000, maxBytes: 50 })).toEqual([]);
+  });
+});
+
+describe('planDownload', () => {
+  const lines = [
+    line(1, 'HORATIO', { voices: { nova: 'https://voices/1-nova.mp3', onyx: 'https://voices/1-onyx.wav?token=a' } }),
+    line(2, 'HAMLET', { cueVoices: { nova_3: 'https://voices/2-cue.mp3' } }),
+    line(3, 'ACTION', { isAction: true, voices: { nova: 'https://voices/3.mp3' } }),
+  ];
+
+  it("plans the chosen voice's recordings and cues, skipping action", async () => {
+    const plan = await offlineScripts.planDownload(script('hamlet', lines), { HORATIO: 'onyx' });
+
+    expect(plan.files).toEqual([
+      { url: 'https://voices/1-onyx.wav?token=a', fileName: 'HORATIO_1_onyx.wav', estimatedBytes: 13 * 550 },
+      { url: 'https://voices/2-cue.mp3', fileName: 'HAMLET_2_cue_nova_3.mp3', estimatedBytes: 3 * 6 * 550 },
+    ]);
+    expect(plan).toMatchObject({ downloadedCount: 0, estimatedBytes: 13 * 550 + 3 * 6 * 550 });
+  });
+
+  it('reuses files from an earlier download', async () => {
+    await save(offline('hamlet', { files: { 'https://voices/1-nova.mp3': 'voices/HORATIO_1_nova.mp3' } }));
+
+    const plan = await offlineScripts.planDownload(script('hamlet', lines), { HORATIO: 'nova' });
+
+    expect(plan.files.map(file => file.url)).toEqual(['https://voices/2-cue.mp3']);
+    expect(plan).toMatchObject({ downloadedCount: 1, estimatedBytes: 3 * 6 * 550 });
+  });
+});
+
+describe('withLocalVoices', () => {
+  it('plays downloaded files and keeps the remote URL for the rest', () => {
+    const current = script('hamlet', [
+      line(1, 'HORATIO', { voices: { nova: 'https://voices/1-nova.mp3', onyx: 'https://voices/1-onyx.mp3' } }),
+      line(2, 'HAMLET', { cueVoices: { nova_3: 'https://voices/2-cue.mp3' } }),
+    ]);
+    const saved = offline('hamlet', {
+      files: {
+        'https://voices/1-nova.mp3': 'voices/HORATIO_1_nova.mp3',
+        'https://voices/2-cue.mp3': 'voices/HAMLET_2_cue_nova_3.mp3',
+      },
+    });
+
+    const [first, second] = offlineScripts.withLocalVoices(current, saved).analysis!.processedLines;
+
+    expect(first.voices).toEqual({
+      nova: `${OFFLINE_DIR}/hamlet/voices/HORATIO_1_nova.mp3`,
+      onyx: 'https://voices/1-onyx.mp3',
+    });
+    expect(second.cueVoices).toEqual({ nova_3: `${OFFLINE_DIR}/hamlet/voices/HAMLET_2_cue_nova_3.mp3` });
+  });
+});
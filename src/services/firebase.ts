@@ -3,19 +3,45 @@ import auth, { FirebaseAuthTypes } from '@react-native-firebase/auth';
 import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import storage from '@react-native-firebase/storage';
 import { Platform } from 'react-native';
-import { NewScriptData, Script, ScriptProcessingStatus, ProcessingStatus } from '../types/script';
+import {
+  NewScriptData,
+  Script,
+  ScriptAnalysis,
+  ScriptProcessingStatus,
+  ProcessingStatus,
+  ScriptExportFormat,
+  ScriptExportResult,
+  CharacterChange,
+  CueGenerationResult,
+  LineScore,
+  ScriptMastery,
+  LineMastery,
+  ScriptSession,
+  ScriptQualityReport,
+  ScriptLineValidation,
+  ScriptOcrReport,
+  VoiceCatalogueEntry,
+  VoiceGenerationJob,
+  VoiceJobLine,
+} from '../types/script';
 import functions from '@react-native-firebase/functions';
 import RNFS from 'react-native-fs';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getScriptContentType, stripScriptExtension } from '../utils/scriptFormats';
+import { MasteryMove, lineKey } from '../utils/memorisation';
 
 interface CharacterVoiceSettings {
   voice: string;
   testText: string;
 }
 
+const VOICE_CATALOGUE_KEY = '@voice_catalogue';
+
 class FirebaseService {
   private static instance: FirebaseService | null = null;
   private initialized: boolean = false;
   private initializationPromise: Promise<void> | null = null;
+  private voiceCatalogue: VoiceCatalogueEntry[] | null = null;
 
   private constructor() {
     console.log('FirebaseService constructor called');
@@ -353,7 +379,7 @@ class FirebaseService {
       // Create the initial document data
       const initialData = {
         id: scriptId,
-        title: fileName.replace('.pdf', ''),
+        title: stripScriptExtension(fileName),
         userId: user.uid,
         status: 'draft',
         uploadStatus: 'uploading',
@@ -374,7 +400,7 @@ class FirebaseService {
 
       // Set the metadata
       const metadata = {
-        contentType: 'application/pdf',
+        contentType: getScriptContentType(fileName),
         customMetadata: {
           uploadedBy: userId,
           originalName: fileName,
@@ -611,6 +637,51 @@ class FirebaseService {
     }
   }
 
+  // masteryMoves carries line mastery over to the lines' new speakers in the same write
+  async saveScriptAnalysis(scriptId: string, analysis: ScriptAnalysis, masteryMoves: MasteryMove[] = []): Promise<void> {
+    try {
+      const user = auth().currentUser;
+      if (!user) throw new Error('User not authenticated');
+
+      const masteryRef = firestore().collection('scripts').doc(scriptId).collection('mastery');
+      const fromNames = Array.from(new Set(masteryMoves.map(move => move.from)));
+      const masteryDocs = new Map(await Promise.all(fromNames.map(async name =>
+        [name, await masteryRef.doc(name).get()] as const)));
+
+      // The analysis is stored on the script and in scriptAnalysis; keep both
+      // copies in step.
+      const batch = firestore().batch();
+      const moved: Array<{ to: string; key: string; mastery: LineMastery }> = [];
+      masteryMoves.forEach(move => {
+        const doc = masteryDocs.get(move.from);
+        const key = lineKey(move.lineNumber);
+        const mastery = doc?.data()?.lines?.[key] as LineMastery | undefined;
+        if (!doc || !mastery) return;
+        // Fractional line numbers contain a dot, so the path is given in parts
+        batch.update(doc.ref, new firestore.FieldPath('lines', key), firestore.FieldValue.delete());
+        if (move.to) moved.push({ to: move.to, key, mastery });
+      });
+      moved.forEach(({ to, key, mastery }) => {
+        batch.set(masteryRef.doc(to), {
+          lines: { [key]: mastery },
+          updatedAt: firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+      });
+      batch.update(firestore().collection('scripts').doc(scriptId), {
+        analysis,
+        updatedAt: firestore.FieldValue.serverTimestamp()
+      });
+      batch.update(firestore().collection('scriptAnalysis').doc(scriptId), {
+        analysis,
+        timestamp: firestore.FieldValue.serverTimestamp()
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error saving script analysis:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
   async getScript(scriptId: string): Promise<Script | null> {
     try {
       const doc = await firestore()
@@ -634,6 +705,28 @@ class FirebaseService {
     }
   }
 
+  /**
+   * Voices characters can be given. The last list fetched is kept on the
+   * device, so rehearsing offline still has it.
+   */
+  async getVoiceCatalogue(): Promise<VoiceCatalogueEntry[]> {
+    if (this.voiceCatalogue) return this.voiceCatalogue;
+    try {
+      const getVoiceCatalogueFn = functions().httpsCallable('getVoiceCatalogue');
+      const result = await getVoiceCatalogueFn();
+      const voices = (result.data as { voices: VoiceCatalogueEntry[] }).voices;
+      this.voiceCatalogue = voices;
+      AsyncStorage.setItem(VOICE_CATALOGUE_KEY, JSON.stringify(voices))
+        .catch(error => console.warn('Failed to save voice catalogue:', error));
+      return voices;
+    } catch (error) {
+      const saved = await AsyncStorage.getItem(VOICE_CATALOGUE_KEY).catch(() => null);
+      if (saved) return JSON.parse(saved) as VoiceCatalogueEntry[];
+      console.error('Error getting voice catalogue:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
   async testVoice(voice: string, text: string): Promise<string> {
     try {
       console.log('Testing voice with params:', {
@@ -722,6 +815,190 @@ class FirebaseService {
     }
   }
 
+  async getLineMastery(scriptId: string, characterName: string): Promise<ScriptMastery> {
+    try {
+      const doc = await firestore()
+        .collection('scripts')
+        .doc(scriptId)
+        .collection('mastery')
+        .doc(characterName)
+        .get();
+
+      return (doc.data()?.lines || {}) as ScriptMastery;
+    } catch (error) {
+      console.error('Error getting line mastery:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  // Only the given lines are written; the rest of the character's mastery is kept
+  async saveLineMastery(scriptId: string, characterName: string, lines: ScriptMastery): Promise<void> {
+    try {
+      await firestore()
+        .collection('scripts')
+        .doc(scriptId)
+        .collection('mastery')
+        .doc(characterName)
+        .set({
+          lines,
+          updatedAt: firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+    } catch (error) {
+      console.error('Error saving line mastery:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  // Rehearsals are recorded as readingSessions, the same collection ScriptContext uses
+  async startPracticeSession(scriptId: string, character: string): Promise<string> {
+    try {
+      const user = auth().currentUser;
+      if (!user) throw new Error('User not authenticated');
+
+      const sessionRef = await firestore().collection('readingSessions').add({
+        scriptId,
+        userId: user.uid,
+        character,
+        status: 'active',
+        startTime: Date.now(),
+        currentLineIndex: 0,
+        lines: [],
+        stats: {
+          readerLines: 0,
+          userLines: 0,
+          totalDuration: 0,
+        },
+        lineScores: [],
+      });
+      return sessionRef.id;
+    } catch (error) {
+      console.error('Error starting practice session:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async recordLineScore(sessionId: string, score: LineScore): Promise<void> {
+    try {
+      await firestore()
+        .collection('readingSessions')
+        .doc(sessionId)
+        .update({
+          lineScores: firestore.FieldValue.arrayUnion(score),
+          'stats.userLines': firestore.FieldValue.increment(1),
+          'stats.prompts': firestore.FieldValue.increment(score.prompts || 0),
+          lastActiveTime: Date.now(),
+        });
+    } catch (error) {
+      console.error('Error recording line score:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async recordPartnerLine(sessionId: string): Promise<void> {
+    try {
+      await firestore()
+        .collection('readingSessions')
+        .doc(sessionId)
+        .update({
+          'stats.readerLines': firestore.FieldValue.increment(1),
+          lastActiveTime: Date.now(),
+        });
+    } catch (error) {
+      console.error('Error recording partner line:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  // A user line read through in the script reader, which doesn't score lines
+  async recordUserLine(sessionId: string): Promise<void> {
+    try {
+      await firestore()
+        .collection('readingSessions')
+        .doc(sessionId)
+        .update({
+          'stats.userLines': firestore.FieldValue.increment(1),
+          lastActiveTime: Date.now(),
+        });
+    } catch (error) {
+      console.error('Error recording user line:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async recordSkippedLine(sessionId: string, lineNumber: number): Promise<void> {
+    try {
+      await firestore()
+        .collection('readingSessions')
+        .doc(sessionId)
+        .update({
+          skippedLines: firestore.FieldValue.arrayUnion(lineNumber),
+          'stats.skipped': firestore.FieldValue.increment(1),
+          lastActiveTime: Date.now(),
+        });
+    } catch (error) {
+      console.error('Error recording skipped line:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async updatePracticeSession(
+    sessionId: string,
+    updates: Partial<Pick<ScriptSession, 'status' | 'currentLineIndex' | 'currentLineNumber'>>
+  ): Promise<void> {
+    try {
+      await firestore()
+        .collection('readingSessions')
+        .doc(sessionId)
+        .update({
+          ...updates,
+          lastActiveTime: Date.now(),
+        });
+    } catch (error) {
+      console.error('Error updating practice session:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async completePracticeSession(sessionId: string, averageAccuracy?: number): Promise<void> {
+    try {
+      const endTime = Date.now();
+      const session = await firestore().collection('readingSessions').doc(sessionId).get();
+      await firestore()
+        .collection('readingSessions')
+        .doc(sessionId)
+        .update({
+          status: 'completed',
+          endTime,
+          lastActiveTime: endTime,
+          'stats.totalDuration': endTime - (session.data()?.startTime || endTime),
+          ...(averageAccuracy !== undefined ? { 'stats.averageAccuracy': averageAccuracy } : {}),
+        });
+    } catch (error) {
+      console.error('Error completing practice session:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  // Oldest first, for charting
+  async getPracticeSessions(scriptId: string): Promise<ScriptSession[]> {
+    try {
+      const user = auth().currentUser;
+      if (!user) throw new Error('User not authenticated');
+
+      const snapshot = await firestore()
+        .collection('readingSessions')
+        .where('userId', '==', user.uid)
+        .where('scriptId', '==', scriptId)
+        .orderBy('startTime', 'asc')
+        .get();
+
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ScriptSession));
+    } catch (error) {
+      console.error('Error getting practice sessions:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
   async uploadPracticeVideo(
     scriptId: string,
     characterId: string,
@@ -773,28 +1050,224 @@ class FirebaseService {
     }
   }
 
-  async generateVoiceLines(
+  /**
+   * Starts generating the partner voices for a rehearsal, starting from
+   * `startLine`. Returns the job to follow with subscribeToVoiceJob.
+   */
+  async startVoiceGeneration(
     scriptId: string,
     practiceCharacter: string,
-    characterVoices: Record<string, CharacterVoiceSettings>
-  ): Promise<Record<string, string[]>> {
+    characterVoices: Record<string, CharacterVoiceSettings>,
+    startLine: number
+  ): Promise<string> {
     try {
-      console.log('Starting voice line generation for script:', scriptId);
-      
-      const generateVoiceLinesFn = functions().httpsCallable('generateVoiceLines');
-      const result = await generateVoiceLinesFn({
+      console.log('Starting voice generation for script:', { scriptId, startLine });
+
+      const startVoiceGenerationFn = functions().httpsCallable('startVoiceGeneration');
+      const result = await startVoiceGenerationFn({
         scriptId,
         practiceCharacter,
-        characterVoices
+        characterVoices,
+        startLine
       });
 
-      if (!result.data?.audioFiles) {
-        throw new Error('No audio files generated');
+      return (result.data as { jobId: string }).jobId;
+    } catch (error) {
+      console.error('Error starting voice generation:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  // The job document has the plan; each line is added to its lines collection as it is voiced
+  subscribeToVoiceJob(
+    scriptId: string,
+    jobId: string,
+    callback: (job: VoiceGenerationJob) => void
+  ): () => void {
+    const jobRef = firestore()
+      .collection('scripts')
+      .doc(scriptId)
+      .collection('voiceJobs')
+      .doc(jobId);
+    let jobData: FirebaseFirestoreTypes.DocumentData | null = null;
+    let lines: Record<string, VoiceJobLine> | null = null;
+
+    const update = () => {
+      if (!jobData || !lines) return;
+      const done = Object.values(lines);
+      const order: string[] = jobData.order || [];
+      const total = jobData.total || 0;
+      callback({
+        id: jobId,
+        practiceCharacter: jobData.practiceCharacter,
+        startLine: jobData.startLine || 0,
+        status: jobData.status || 'queued',
+        pending: order.filter(key => !lines![key]),
+        lines,
+        total,
+        ready: total - order.length + done.filter(line => line.status === 'ready').length,
+        failed: done.filter(line => line.status === 'failed').length,
+        error: jobData.error,
+      });
+    };
+    const onError = (error: Error) => {
+      console.error('Error in voice job subscription:', error);
+    };
+
+    const unsubscribeJob = jobRef.onSnapshot(doc => {
+      if (!doc.exists) return;
+      jobData = doc.data() || null;
+      update();
+    }, onError);
+    const unsubscribeLines = jobRef.collection('lines').onSnapshot(snapshot => {
+      lines = Object.fromEntries(snapshot.docs.map(doc => [doc.id, doc.data() as VoiceJobLine]));
+      update();
+    }, onError);
+
+    return () => {
+      unsubscribeJob();
+      unsubscribeLines();
+    };
+  }
+
+  async cancelVoiceGeneration(scriptId: string, jobId: string): Promise<void> {
+    try {
+      await firestore()
+        .collection('scripts')
+        .doc(scriptId)
+        .collection('voiceJobs')
+        .doc(jobId)
+        .update({
+          status: 'cancelled',
+          updatedAt: firestore.FieldValue.serverTimestamp(),
+        });
+    } catch (error) {
+      console.error('Error cancelling voice generation:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async generateCueLines(
+    scriptId: string,
+    practiceCharacter: string,
+    characterVoices: Record<string, CharacterVoiceSettings>,
+    words: number
+  ): Promise<CueGenerationResult> {
+    try {
+      console.log('Starting cue line generation for script:', { scriptId, words });
+
+      const generateCueLinesFn = functions().httpsCallable('generateCueLines');
+      const result = await generateCueLinesFn({
+        scriptId,
+        practiceCharacter,
+        characterVoices,
+        words
+      });
+
+      return result.data as CueGenerationResult;
+    } catch (error) {
+      console.error('Error generating cue lines:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async exportScript(
+    scriptId: string,
+    format: ScriptExportFormat,
+    character?: string
+  ): Promise<ScriptExportResult> {
+    try {
+      console.log('Exporting script:', { scriptId, format, character });
+
+      const exportScriptFn = functions().httpsCallable('exportScript');
+      const result = await exportScriptFn({ scriptId, format, character });
+
+      if (!result.data?.url) {
+        throw new Error('No URL returned from script export');
       }
 
-      return result.data.audioFiles;
+      return result.data as ScriptExportResult;
+    } catch (error) {
+      console.error('Error exporting script:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  async manageCharacters(scriptId: string, change: CharacterChange): Promise<string[]> {
+    try {
+      console.log('Updating characters:', { scriptId, ...change });
+
+      const manageCharactersFn = functions().httpsCallable('manageCharacters');
+      const result = await manageCharactersFn({ scriptId, ...change });
+
+      return result.data?.characters || [];
+    } catch (error) {
+      console.error('Error updating characters:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  listenToProcessingReport(
+    scriptId: string,
+    onUpdate: (report: {
+      qualityReport?: ScriptQualityReport;
+      lineValidation?: ScriptLineValidation;
+      ocr?: ScriptOcrReport;
+      status?: string;
+      lastActivity?: number;
+    }) => void
+  ): () => void {
+    return firestore()
+      .collection('scriptProcessing')
+      .doc(scriptId)
+      .onSnapshot(
+        snapshot => {
+          const data = snapshot.data();
+          onUpdate({
+            qualityReport: data?.qualityReport,
+            lineValidation: data?.lineValidation,
+            ocr: data?.ocr,
+            status: data?.status,
+            // Runs refresh timestamp; the app sets updatedAt when it uploads
+            lastActivity: (data?.timestamp || data?.updatedAt)?.toMillis(),
+          });
+        },
+        error => console.error('Error listening to processing report:', error)
+      );
+  }
+
+  /**
+   * Re-analyses source lines startLine..endLine and replaces what the script
+   * had for them. Returns the number of lines the section now has.
+   */
+  async reprocessScriptSection(scriptId: string, startLine: number, endLine: number): Promise<number> {
+    try {
+      console.log('Reprocessing script section:', { scriptId, startLine, endLine });
+
+      const reprocessFn = functions().httpsCallable('reprocessSection', { timeout: 300000 });
+      const result = await reprocessFn({ scriptId, startLine, endLine });
+
+      return result.data?.processedLines ?? 0;
+    } catch (error) {
+      console.error('Error reprocessing script section:', error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
+  /**
+   * Re-runs processing for a script that failed. Chunks analysed before the
+   * failure are reused, so this only redoes the remaining work. Progress is
+   * reported through the scriptProcessing document as usual.
+   */
+  async retryScriptProcessing(scriptId: string): Promise<void> {
+    try {
+      console.log('Retrying script processing:', scriptId);
+
+      // Processing can run up to the function timeout
+      const retryFn = functions().httpsCallable('retryScriptProcessing', { timeout: 540000 });
+      await retryFn({ scriptId });
     } catch (error) {
-      console.error('Error generating voice lines:', error);
+      console.error('Error retrying script processing:', error);
       throw this.handleFirestoreError(error);
     }
   }
@@ -0,0 +1,316 @@
+import RNFS from 'react-native-fs';
+import { Script } from '../types/script';
+
+/** A script saved on the device for rehearsing without a connection. */
+export interface OfflineScript {
+  scriptId: string;
+  title: string;
+  downloadedAt: number;
+  lastUsedAt: number;
+  sizeBytes: number;
+  /** Voice chosen for each character when the script was downloaded. */
+  characterVoices: Record<string, string>;
+  /** Downloaded file for each voice URL, relative to the script's folder. */
+  files: Record<string, string>;
+  /** The script as downloaded, with remote voice URLs. */
+  script: Script;
+}
+
+/** A voice recording to download. */
+export interface OfflineVoiceFile {
+  url: string;
+  fileName: string;
+  estimatedBytes: number;
+}
+
+export interface OfflineDownloadPlan {
+  characterVoices: Record<string, string>;
+  files: OfflineVoiceFile[];
+  /** Files already on the device from an earlier download. */
+  downloadedCount: number;
+  estimatedBytes: number;
+}
+
+export interface OfflineDownloadProgress {
+  filesDone: number;
+  fileCount: number;
+  bytesWritten: number;
+}
+
+const OFFLINE_DIR = `${RNFS.DocumentDirectoryPath}/offline_scripts`;
+const MANIFEST_FILE = 'script.json';
+
+// Generated voices are 64 kbps MP3, about 8 KB a second, and speech runs at
+// about 15 characters a second
+const BYTES_PER_CHARACTER = 550;
+const CHARACTERS_PER_WORD = 6;
+
+const safeName = (value: string): string => value.replace(/[^A-Za-z0-9_-]+/g, '_');
+
+// Recordings are MP3 or WAV depending on the voice's provider; the stored
+// object's name says which
+const audioExtension = (url: string): string =>
+  url.split(/[?#]/)[0].match(/\.(mp3|wav)$/i)?.[1].toLowerCase() || 'mp3';
+
+class OfflineScriptService {
+  private static instance: OfflineScriptService | null = null;
+  private activeJobs = new Map<string, number>();
+
+  private constructor() {}
+
+  public static getInstance(): OfflineScriptService {
+    if (!OfflineScriptService.instance) {
+      OfflineScriptService.instance = new OfflineScriptService();
+    }
+    return OfflineScriptService.instance;
+  }
+
+  private scriptDir(scriptId: string): string {
+    return `${OFFLINE_DIR}/${safeName(scriptId)}`;
+  }
+
+  private async writeManifest(manifest: OfflineScript): Promise<void> {
+    await RNFS.writeFile(
+      `${this.scriptDir(manifest.scriptId)}/${MANIFEST_FILE}`,
+      JSON.stringify(manifest),
+      'utf8'
+    );
+  }
+
+  /**
+   * Voice files a download needs: each partner line in the voice chosen for
+   * its character (every generated voice when none is chosen), with its cues.
+   */
+  async planDownload(script: Script, characterVoices: Record<string, string>): Promise<OfflineDownloadPlan> {
+    const existing = await this.getOfflineScript(script.id);
+    const files: OfflineVoiceFile[] = [];
+    let downloadedCount = 0;
+
+    (script.analysis?.processedLines || []).forEach(line => {
+      if (line.isAction) return;
+      const chosen = characterVoices[line.characterName];
+      const prefix = `${safeName(line.characterName)}_${line.originalLineNumber}`;
+
+      Object.entries(line.voices || {})
+        .filter(([voice]) => !chosen || voice === chosen)
+        .forEach(([voice, url]) => files.push({
+          url,
+          fileName: `${prefix}_${safeName(voice)}.${audioExtension(url)}`,
+          estimatedBytes: line.text.length * BYTES_PER_CHARACTER,
+        }));
+
+      Object.entries(line.cueVoices || {})
+        .filter(([key]) => !chosen || key.startsWith(`${chosen}_`))
+        .forEach(([key, url]) => {
+          const words = parseInt(key.split('_').pop() || '', 10) || 0;
+          files.push({
+            url,
+            fileName: `${prefix}_cue_${safeName(key)}.${audioExtension(url)}`,
+            estimatedBytes: words * CHARACTERS_PER_WORD * BYTES_PER_CHARACTER,
+          });
+        });
+    });
+
+    const missing = files.filter(file => {
+      if (!existing?.files[file.url]) return true;
+      downloadedCount++;
+      return false;
+    });
+
+    return {
+      characterVoices,
+      files: missing,
+      downloadedCount,
+      estimatedBytes: missing.reduce((total, file) => total + file.estimatedBytes, 0),
+    };
+  }
+
+  /**
+   * Saves the script and the planned voice files. Files from an earlier
+   * download that the script still uses are kept, so updating a download only
+   * fetches new recordings. Stops between files once `isCancelled` is true.
+   */
+  async downloadScript(
+    script: Script,
+    plan: OfflineDownloadPlan,
+    onProgress?: (progress: OfflineDownloadProgress) => void,
+    isCancelled?: () => boolean
+  ): Promise<OfflineScript> {
+    const dir = this.scriptDir(script.id);
+    await RNFS.mkdir(`${dir}/voices`, { NSURLIsExcludedFromBackupKey: true });
+
+    const existing = await this.getOfflineScript(script.id);
+    const files: Record<string, string> = {};
+    let sizeBytes = 0;
+
+    // Keep earlier files whose recordings the script still uses
+    const usedUrls = new Set(
+      (script.analysis?.processedLines || []).flatMap(line => [
+        ...Object.values(line.voices || {}),
+        ...Object.values(line.cueVoices || {}),
+      ])
+    );
+    for (const [url, fileName] of Object.entries(existing?.files || {})) {
+      const path = `${dir}/${fileName}`;
+      if (usedUrls.has(url) && await RNFS.exists(path)) {
+        files[url] = fileName;
+        sizeBytes += Number((await RNFS.stat(path)).size);
+      } else {
+        await RNFS.unlink(path).catch(() => undefined);
+      }
+    }
+
+    // Saved even when a download fails part way, so finished files are kept
+    const saveManifest = async (): Promise<OfflineScript> => {
+      const manifest: OfflineScript = {
+        scriptId: script.id,
+        title: script.title,
+        downloadedAt: Date.now(),
+        lastUsedAt: existing?.lastUsedAt || Date.now(),
+        sizeBytes,
+        characterVoices: plan.characterVoices,
+        files,
+        script,
+      };
+      await this.writeManifest(manifest);
+      return manifest;
+    };
+
+    let bytesWritten = 0;
+    for (let index = 0; index < plan.files.length; index++) {
+      if (isCancelled?.()) break;
+      const file = plan.files[index];
+      const fileName = `voices/${file.fileName}`;
+      const path = `${dir}/${fileName}`;
+
+      const download = RNFS.downloadFile({
+        fromUrl: file.url,
+        toFile: path,
+        progressInterval: 250,
+        progress: ({ bytesWritten: written }) => onProgress?.({
+          filesDone: index,
+          fileCount: plan.files.length,
+          bytesWritten: bytesWritten + written,
+        }),
+      });
+      this.activeJobs.set(script.id, download.jobId);
+
+      try {
+        const result = await download.promise;
+        if (result.statusCode !== 200) {
+          throw new Error(`Download failed with status ${result.statusCode}`);
+        }
+        files[file.url] = fileName;
+        bytesWritten += result.bytesWritten;
+        sizeBytes += result.bytesWritten;
+      } catch (error) {
+        await RNFS.unlink(path).catch(() => undefined);
+        if (isCancelled?.()) break;
+        console.error('Error downloading voice line:', { fileName, error });
+        await saveManifest();
+        throw error;
+      } finally {
+        this.activeJobs.delete(script.id);
+      }
+
+      onProgress?.({ filesDone: index + 1, fileCount: plan.files.length, bytesWritten });
+    }
+
+    return saveManifest();
+  }
+
+  /** Stops the file being downloaded for a script. */
+  cancelDownload(scriptId: string): void {
+    const jobId = this.activeJobs.get(scriptId);
+    if (jobId !== undefined) {
+      RNFS.stopDownload(jobId);
+    }
+  }
+
+  async getOfflineScript(scriptId: string): Promise<OfflineScript | null> {
+    const path = `${this.scriptDir(scriptId)}/${MANIFEST_FILE}`;
+    try {
+      if (!await RNFS.exists(path)) return null;
+      return JSON.parse(await RNFS.readFile(path, 'utf8')) as OfflineScript;
+    } catch (error) {
+      console.error('Error reading offline script:', error);
+      return null;
+    }
+  }
+
+  /** Downloaded scripts, most recently used first. */
+  async getOfflineScripts(): Promise<OfflineScript[]> {
+    if (!await RNFS.exists(OFFLINE_DIR)) return [];
+    const dirs = (await RNFS.readDir(OFFLINE_DIR)).filter(item => item.isDirectory());
+    const manifests = await Promise.all(dirs.map(item => this.getOfflineScript(item.name)));
+    return manifests
+      .filter((manifest): manifest is OfflineScript => manifest !== null)
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  /**
+   * The script with each downloaded recording swapped for its local file.
+   * Recordings generated since the download keep their remote URL.
+   */
+  withLocalVoices(script: Script, offline: OfflineScript): Script {
+    if (!script.analysis) return script;
+    const dir = this.scriptDir(offline.scriptId);
+    const toLocal = (urls?: Record<string, string>) => urls && Object.fromEntries(
+      Object.entries(urls).map(([key, url]) => [key, offline.files[url] ? `${dir}/${offline.files[url]}` : url])
+    );
+
+    return {
+      ...script,
+      analysis: {
+        ...script.analysis,
+        processedLines: script.analysis.processedLines.map(line => ({
+          ...line,
+          voices: toLocal(line.voices),
+          cueVoices: toLocal(line.cueVoices),
+        })),
+      },
+    };
+  }
+
+  async markUsed(scriptId: string): Promise<void> {
+    const manifest = await this.getOfflineScript(scriptId);
+    if (!manifest) return;
+    await this.writeManifest({ ...manifest, lastUsedAt: Date.now() });
+  }
+
+  async removeOfflineScript(scriptId: string): Promise<void> {
+    this.cancelDownload(scriptId);
+    const dir = this.scriptDir(scriptId);
+    if (await RNFS.exists(dir)) {
+      await RNFS.unlink(dir);
+    }
+  }
+
+  /**
+   * Removes scripts not rehearsed within `maxAgeMs`, then the least recently
+   * used until the rest fit in `maxBytes`. Returns the removed script ids.
+   */
+  async evictOfflineScripts({ maxAgeMs, maxBytes }: { maxAgeMs?: number; maxBytes?: number }): Promise<string[]> {
+    const scripts = await this.getOfflineScripts();
+    const removed: string[] = [];
+    let totalBytes = scripts.reduce((total, item) => total + item.sizeBytes, 0);
+
+    // Oldest use first
+    for (const item of [...scripts].reverse()) {
+      const tooOld = maxAgeMs !== undefined && Date.now() - item.lastUsedAt > maxAgeMs;
+      const overLimit = maxBytes !== undefined && totalBytes > maxBytes;
+      if (!tooOld && !overLimit) continue;
+      await this.removeOfflineScript(item.scriptId);
+      totalBytes -= item.sizeBytes;
+      removed.push(item.scriptId);
+    }
+    return removed;
+  }
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default OfflineScriptService.getInstance();
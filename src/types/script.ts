@@ -1,14 +1,90 @@
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 
-export interface DialogueLine {
-  id: string;
-  character: string;
+/** A direction such as "(beat)" inside a speech. */
+export interface ScriptParenthetical {
+  text: string;
+  /** Character offset in the speech text the direction comes before. */
+  position: number;
+}
+
+/** One line of a rehearsal, built from `analysis.processedLines`. */
+export interface RehearsalLine {
+  /** 'action' for action lines. */
+  characterName: string;
   text: string;
+  /** Original line number of the processed line. */
+  lineNumber: number;
+  /** Spoken by the character being rehearsed. */
+  isUser: boolean;
+  isAction?: boolean;
+  isMultiLine?: boolean;
+  /** Line number of the speech this continues. */
+  continuationOf?: number;
+  voices?: Record<string, string>;
+  pageNumber?: number;
+  parentheticals?: ScriptParenthetical[];
+  voiceVolume?: number;
+  /** Shared by speeches spoken at the same time as each other. */
+  dualGroup?: number;
+}
+
+/** A rehearsal line as the script reader shows it. */
+export interface DialogueLine extends RehearsalLine {
+  id: string;
   duration: number;
   timestamp: number;
   status: 'pending' | 'active' | 'completed';
 }
 
+export type WordAlignmentKind = 'match' | 'missed' | 'substituted' | 'added';
+
+/** One word of a spoken line compared with the script. */
+export interface WordAlignment {
+  kind: WordAlignmentKind;
+  /** Script word as printed; absent for added words. */
+  expected?: string;
+  /** Word the recogniser heard; present for substituted and added words. */
+  spoken?: string;
+}
+
+export interface LineAlignment {
+  words: WordAlignment[];
+  /** 1 for a word-perfect line, down to 0. */
+  accuracy: number;
+  expectedWords: number;
+  matched: number;
+  missed: number;
+  substituted: number;
+  added: number;
+}
+
+/** A scored attempt at one of the user's lines during a rehearsal. */
+export interface LineScore extends LineAlignment {
+  lineNumber: number;
+  characterName: string;
+  spoken: string;
+  attemptedAt: number;
+  /** Prompts given before the line was finished. */
+  prompts?: number;
+  /** From the start of listening to the end of the line. */
+  durationMs?: number;
+}
+
+/** 1 shows the full line, 2 first letters, 3 blanks, 4 nothing. */
+export type MemorisationLevel = 1 | 2 | 3 | 4;
+
+export interface LineMastery {
+  level: MemorisationLevel;
+  /** Recent accuracies, oldest first. */
+  history: number[];
+  /** Good attempts in a row at this level. */
+  streak: number;
+  updatedAt: number;
+}
+
+/** Mastery of a character's lines, keyed by original line number. */
+export type ScriptMastery = Record<string, LineMastery>;
+
 export interface ScriptSession {
   id: string;
   scriptId: string;
@@ -17,12 +93,22 @@ export interface ScriptSession {
   startTime: number;
   endTime?: number;
   currentLineIndex: number;
+  /** Line the session is up to, so it can pick up there after the script is edited. */
+  currentLineNumber?: number;
+  lastActiveTime?: number;
   lines: DialogueLine[];
   stats: {
     readerLines: number;
     userLines: number;
     totalDuration: number;
+    /** Rehearsals from PracticeScript also record these. */
+    averageAccuracy?: number;
+    prompts?: number;
+    skipped?: number;
   };
+  lineScores?: LineScore[];
+  /** User lines the rehearsal moved past without hearing them. */
+  skippedLines?: number[];
 }
 
 export interface ScriptCharacter {
@@ -38,6 +124,14 @@ export interface ScriptCharacter {
   }>;
 }
 
+/** A speaking character in a scene and how many lines they have there. */
+export interface SceneCastMember {
+  name: string;
+  lines: number;
+}
+
+export type SceneSetting = 'INT' | 'EXT' | 'INT/EXT';
+
 export interface ScriptScene {
   id: string;
   name: string;
@@ -45,6 +139,11 @@ export interface ScriptScene {
   endLine: number;
   location?: string;
   timeOfDay?: string;
+  sceneNumber?: string;
+  setting?: SceneSetting;
+  cast?: SceneCastMember[];
+  /** Length in eighths of a page. */
+  eighths?: number;
 }
 
 export interface ScriptSetting {
@@ -53,6 +152,15 @@ export interface ScriptSetting {
   value: any;
 }
 
+/** A voice partner lines can be read in; see voices.ts in functions. */
+export interface VoiceCatalogueEntry {
+  id: string;
+  description: string;
+  gender: 'Male' | 'Female';
+  /** 'local' voices come from an offline engine on the server. */
+  provider: 'openai' | 'local';
+}
+
 export interface VoiceSettings {
   voiceId: string;
   pitch: number;
@@ -64,12 +172,18 @@ export interface ScriptAnalysis {
     name: string;
     lines: number;
     firstAppearance: number;
+    aliases?: string[];
     dialogue?: Array<{
       text: string;
       lineNumber: number;
       isMultiLine?: boolean;
       continuationOf?: number;
       voices?: Record<string, string>;
+      sequentialNumber?: number;
+      extensions?: string[];
+      cueName?: string;
+      parentheticals?: ScriptParenthetical[];
+      dualGroup?: number;
     }>;
   }>;
   scenes: Array<{
@@ -78,10 +192,18 @@ export interface ScriptAnalysis {
     endLine: number;
     location?: string;
     timeOfDay?: string;
+    sceneNumber?: string;
+    revisionColors?: string[];
+    setting?: SceneSetting;
+    /** Speaking characters in order of their first line in the scene. */
+    cast?: SceneCastMember[];
+    /** Length in eighths of a page. */
+    eighths?: number;
   }>;
   actionLines: Array<{
     text: string;
     lineNumber: number;
+    sequentialNumber?: number;
   }>;
   processedLines: Array<{
     characterId: string;
@@ -92,6 +214,30 @@ export interface ScriptAnalysis {
     isUser?: boolean;
     isAction?: boolean;
     voices?: Record<string, string>;
+    /** Cue-mode recordings of the line's last words, keyed by cueVoiceKey. */
+    cueVoices?: Record<string, string>;
+    /** Cue extensions such as V.O., O.S. or CONT'D. */
+    extensions?: string[];
+    /** Name printed in the script when the speaker is an alias of characterName. */
+    cueName?: string;
+    /** PDF page the line starts on; absent for formats without pages. */
+    pageNumber?: number;
+    /** Directions given inside the speech, positioned in `text`. */
+    parentheticals?: ScriptParenthetical[];
+    /** Playback volume for generated voices, set for quiet deliveries. */
+    voiceVolume?: number;
+    /**
+     * Shared by speeches spoken at the same time (dual dialogue); the line
+     * number of the first speech in the group.
+     */
+    dualGroup?: number;
+    /**
+     * Source line the parts of a split line came from. The second part's
+     * originalLineNumber sits between its neighbours' and is no source line.
+     */
+    editedFrom?: number;
+    /** Added in the line editor, with no source line behind it. */
+    userInserted?: boolean;
   }>;
   metadata: {
     totalLines: number;
@@ -108,6 +254,47 @@ export interface ScriptProcessingStatus {
   updatedAt: FirebaseFirestoreTypes.Timestamp;
 }
 
+/** Something processing skipped or dropped; see qualityReport.ts in functions. */
+export interface ScriptQualityReport {
+  failedChunks: Array<{
+    chunkIndex: number;
+    startLine: number;
+    endLine: number;
+    error: string;
+  }>;
+  rejectedCharacters: Array<{ name: string; lines: number }>;
+  droppedDialogue: {
+    count: number;
+    items: Array<{ characterName: string; lineNumber: number; text: string }>;
+  };
+  unattributedLines: {
+    count: number;
+    items: Array<{ lineNumber: number; text: string }>;
+  };
+}
+
+export interface ScriptLineValidation {
+  checkedLines: number;
+  mismatchCount: number;
+  mismatches: Array<{
+    sequentialNumber: number;
+    originalLineNumber: number;
+    characterName: string;
+    reason: 'out_of_range' | 'text_mismatch';
+    text: string;
+    sourceText?: string;
+  }>;
+}
+
+/** Pages of a scanned PDF that were OCR'd; see pdfText.ts in functions. */
+export interface ScriptOcrReport {
+  pageCount: number;
+  ocrPageCount: number;
+  lowConfidenceThreshold: number;
+  pages: Array<{ pageNumber: number; confidence: number; lowConfidence: boolean }>;
+  lowConfidencePages: number[];
+}
+
 export interface ScriptMetadata {
   id: string;
   title: string;
@@ -120,16 +307,20 @@ export interface ScriptMetadata {
 
 export interface ScriptContextType {
   currentSession: ScriptSession | null;
-  currentScript: ScriptMetadata | null;
+  currentScript: Script | null;
+  /** Lines loaded so far, a page at a time. */
   lines: DialogueLine[];
+  hasMoreLines: boolean;
   isLoading: boolean;
   error: string | null;
   voiceSettings: Record<string, VoiceSettings>;
   actions: {
+    /** Picks up the character's unfinished session on the script, if there is one. */
     startSession: (scriptId: string, character: string) => Promise<void>;
     pauseSession: () => Promise<void>;
     resumeSession: () => Promise<void>;
     completeCurrentLine: () => Promise<void>;
+    loadMoreLines: () => Promise<void>;
     updateVoiceSettings: (characterId: string, settings: VoiceSettings) => Promise<void>;
   };
 }
@@ -170,6 +361,56 @@ export interface NewScriptData {
   originalFileName?: string;
 }
 
+export type ScriptExportFormat = 'fountain' | 'fdx' | 'sides';
+
+export interface ScriptExportResult {
+  url: string;
+  fileName: string;
+  format: ScriptExportFormat;
+}
+
+export interface CueGenerationResult {
+  success: boolean;
+  cueLines: number;
+  generated: number;
+  failed: number;
+}
+
+/** A partner line in a voice generation job; see voiceJobs.ts in functions. */
+export interface VoiceJobLine {
+  characterName: string;
+  lineNumber: number;
+  voice: string;
+  status: 'ready' | 'failed';
+  url?: string;
+  voiceVolume?: number;
+  error?: string;
+}
+
+/** Voices being generated for a rehearsal, from its start line onwards. */
+export interface VoiceGenerationJob {
+  id: string;
+  practiceCharacter: string;
+  startLine: number;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  /** Lines still to voice, by original line number, in the order they will be. */
+  pending: string[];
+  /** Lines voiced or given up on so far, keyed by original line number. */
+  lines: Record<string, VoiceJobLine>;
+  total: number;
+  ready: number;
+  failed: number;
+  error?: string;
+}
+
+export type CharacterChangeAction = 'rename' | 'merge' | 'alias';
+
+export interface CharacterChange {
+  action: CharacterChangeAction;
+  sources: string[];
+  target: string;
+}
+
 export interface ProcessingStatus {
   status: string;
   progress?: number;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals';
+import { cueText, cueVoiceKey, describeCue, findCueLines } from '../cueMode';
+
+const line = (originalLineNumber: number, characterName: string, isAction?: boolean) =>
+  ({ originalLineNumber, characterName, isAction });
+
+describe('findCueLines', () => {
+  it("finds the last spoken partner line before each of the character's lines", () => {
+    const lines = [
+      line(1, 'HORATIO'),
+      line(2, 'MARCELLUS'),
+      line(3, '', true),
+      line(4, 'HAMLET'),
+      line(5, 'HAMLET'),
+      line(6, 'HORATIO'),
+      line(7, 'HAMLET'),
+    ];
+
+    expect([...findCueLines(lines, 'HAMLET')]).toEqual([2, 6]);
+  });
+
+  it('has no cue for a character who speaks first', () => {
+    expect(findCueLines([line(1, 'HAMLET'), line(2, 'HORATIO')], 'HAMLET').size).toBe(0);
+  });
+});
+
+describe('cueText', () => {
+  it('keeps the last words of a line', () => {
+    expect(cueText('  Who is there?  ', 5)).toBe('Who is there?');
+    expect(cueText('Nay, answer me. Stand and unfold yourself.', 3)).toBe('and unfold yourself.');
+  });
+});
+
+describe('cueVoiceKey', () => {
+  it('matches the keys generateCueLines writes', () => {
+    expect(cueVoiceKey('alloy', 5)).toBe('alloy_5w');
+  });
+});
+
+describe('describeCue', () => {
+  it('names the unit in the singular or plural', () => {
+    expect(describeCue({ enabled: true, unit: 'words', amount: 1, others: 'dim' })).toBe('Last 1 word');
+    expect(describeCue({ enabled: true, unit: 'seconds', amount: 3, others: 'hide' })).toBe('Last 3 seconds');
+  });
+});
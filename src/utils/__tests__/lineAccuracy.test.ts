@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { alignLine, formatAccuracy, scoreLine } from '../lineAccuracy';
+
+describe('alignLine', () => {
+  it('ignores case, punctuation and curly quotes', () => {
+    const result = alignLine('Don’t you DARE, Harry!', "don't you dare harry");
+
+    expect(result.accuracy).toBe(1);
+    expect(result.words.map(word => word.expected)).toEqual(['Don’t', 'you', 'DARE,', 'Harry!']);
+  });
+
+  it('matches digits against spelled-out numbers', () => {
+    expect(alignLine('Give me five minutes.', 'give me 5 minutes').accuracy).toBe(1);
+  });
+
+  it('splits words joined by dashes', () => {
+    const result = alignLine('Wait--what? I—no.', 'wait what i no');
+
+    expect(result.expectedWords).toBe(4);
+    expect(result.accuracy).toBe(1);
+    expect(result.words.map(word => word.expected)).toEqual(['Wait--', 'what?', 'I—', 'no.']);
+  });
+
+  it('carries punctuation-only tokens on a neighbouring word', () => {
+    const result = alignLine('... well -- maybe', 'well maybe');
+
+    expect(result.words.map(word => word.expected)).toEqual(['... well --', 'maybe']);
+  });
+
+  it('prefers a substitution over a missed and an added word', () => {
+    const result = alignLine('the cat sat down', 'the hat sat');
+
+    expect(result.words).toEqual([
+      { kind: 'match', expected: 'the' },
+      { kind: 'substituted', expected: 'cat', spoken: 'hat' },
+      { kind: 'match', expected: 'sat' },
+      { kind: 'missed', expected: 'down' },
+    ]);
+    expect(result.accuracy).toBe(0.5);
+  });
+
+  it('counts added words against the line', () => {
+    const result = alignLine('go now', 'go right now');
+
+    expect(result.added).toBe(1);
+    expect(result.accuracy).toBe(0.5);
+  });
+});
+
+describe('scoreLine', () => {
+  it('keeps the recognition alternative closest to the script', () => {
+    const result = scoreLine('I saw her', ['eyes saw her', 'I saw her']);
+
+    expect(result.spoken).toBe('I saw her');
+    expect(result.accuracy).toBe(1);
+  });
+
+  it('scores silence as nothing said', () => {
+    expect(scoreLine('Hello', []).accuracy).toBe(0);
+  });
+});
+
+describe('formatAccuracy', () => {
+  it('rounds to a whole percentage', () => {
+    expect(formatAccuracy(0.666)).toBe('67%');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals';
+import { isDriedUp, isPromptRequest, promptSpan, promptWords, stripPromptRequest } from '../linePrompt';
+
+const LINE = 'To be, or not to be, that is the question.';
+
+describe('promptWords', () => {
+  it('gives the next words from where the actor got to', () => {
+    expect(promptWords(LINE, 'to be or not', 3)).toBe('to be, that');
+  });
+
+  it('skips words said in place of the script', () => {
+    expect(promptWords(LINE, 'to be or knot to', 2)).toBe('be, that');
+  });
+
+  it('places the actor at the first occurrence of a repeated phrase', () => {
+    expect(promptWords(LINE, 'to be', 2)).toBe('or not');
+  });
+
+  it('starts at the top when nothing was said', () => {
+    expect(promptWords(LINE, '', 2)).toBe('To be,');
+  });
+});
+
+describe('isDriedUp', () => {
+  it('needs more than a word of the line left', () => {
+    expect(isDriedUp(LINE, 'to be or not to be')).toBe(true);
+    expect(isDriedUp(LINE, 'to be or not to be that is the')).toBe(false);
+  });
+});
+
+describe('isPromptRequest', () => {
+  it('hears a call for the line', () => {
+    expect(isPromptRequest('to be or not line', LINE)).toBe(true);
+    expect(isPromptRequest('line please', LINE)).toBe(true);
+    expect(stripPromptRequest('to be or not line?')).toBe('to be or not');
+  });
+
+  it('takes "line" as the script when the script says it next', () => {
+    expect(isPromptRequest('draw a line', 'Draw a line in the sand.')).toBe(false);
+    expect(isPromptRequest('line', 'Draw a line in the sand.', 'draw a')).toBe(false);
+  });
+});
+
+describe('promptSpan', () => {
+  it('gives the word range of the prompt in the line', () => {
+    expect(promptSpan(LINE, 'to be or not', 3)).toEqual({ start: 4, end: 7, total: 10 });
+  });
+
+  it('stops at the end of the line', () => {
+    expect(promptSpan(LINE, 'to be or not to be that is', 5)).toEqual({ start: 8, end: 10, total: 10 });
+  });
+
+  it('offsets the range into a recording of a longer text', () => {
+    const recorded = `Hamlet sighs. ${LINE}`;
+
+    expect(promptSpan(LINE, 'to be', 2, recorded)).toEqual({ start: 4, end: 6, total: 12 });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import { LineScore } from '../../types/script';
+import { countByLevel, linesNeedingWork, maskLine, masteryMoves, updateLineMastery } from '../memorisation';
+
+const score = (accuracy: number, prompts = 0): LineScore => ({
+  lineNumber: 12,
+  characterName: 'HAMLET',
+  spoken: '',
+  attemptedAt: 1000,
+  prompts,
+  accuracy,
+  words: [],
+  expectedWords: 10,
+  matched: 0,
+  missed: 0,
+  substituted: 0,
+  added: 0,
+});
+
+describe('maskLine', () => {
+  it('masks words and keeps punctuation at each level', () => {
+    expect(maskLine("Don't go, Ophelia.", 1)).toBe("Don't go, Ophelia.");
+    expect(maskLine("Don't go, Ophelia.", 2)).toBe('D g, O.');
+    expect(maskLine("Don't go, Ophelia.", 3)).toBe('_____ __, _______.');
+    expect(maskLine("Don't go, Ophelia.", 4)).toBe('');
+  });
+});
+
+describe('updateLineMastery', () => {
+  it('advances after two near-perfect attempts in a row', () => {
+    const first = updateLineMastery(undefined, score(0.9));
+    const second = updateLineMastery(first, score(1));
+
+    expect(first).toEqual({ level: 1, history: [0.9], streak: 1, updatedAt: 1000 });
+    expect(second).toEqual({ level: 2, history: [0.9, 1], streak: 0, updatedAt: 1000 });
+  });
+
+  it('does not count prompted attempts towards advancing', () => {
+    const first = updateLineMastery(undefined, score(1));
+
+    expect(updateLineMastery(first, score(1, 1))).toMatchObject({ level: 1, streak: 0 });
+  });
+
+  it('holds the level between the thresholds', () => {
+    const current = { level: 3 as const, history: [1], streak: 1, updatedAt: 0 };
+
+    expect(updateLineMastery(current, score(0.6))).toMatchObject({ level: 3, streak: 0 });
+  });
+
+  it('falls back below 60% or after more than one prompt', () => {
+    const current = { level: 3 as const, history: [], streak: 0, updatedAt: 0 };
+
+    expect(updateLineMastery(current, score(0.59)).level).toBe(2);
+    expect(updateLineMastery(current, score(1, 2)).level).toBe(2);
+  });
+
+  it('stays within the levels', () => {
+    expect(updateLineMastery(undefined, score(0)).level).toBe(1);
+    expect(updateLineMastery({ level: 4, history: [], streak: 1, updatedAt: 0 }, score(1)).level).toBe(4);
+  });
+
+  it('keeps the last five accuracies', () => {
+    const current = { level: 1 as const, history: [0.1, 0.2, 0.3, 0.4, 0.5], streak: 0, updatedAt: 0 };
+
+    expect(updateLineMastery(current, score(0.7)).history).toEqual([0.2, 0.3, 0.4, 0.5, 0.7]);
+  });
+});
+
+describe('countByLevel', () => {
+  it('counts lines with no mastery as full text', () => {
+    const mastery = { '3': { level: 4 as const, history: [], streak: 0, updatedAt: 0 } };
+
+    expect(countByLevel(mastery, [1, 2, 3])).toEqual({ 1: 2, 2: 0, 3: 0, 4: 1 });
+    expect(linesNeedingWork(mastery, [1, 2, 3])).toEqual([1, 2]);
+  });
+});
+
+describe('masteryMoves', () => {
+  it('moves reassigned lines and drops deleted or action lines', () => {
+    const before = [
+      { characterName: 'HAMLET', originalLineNumber: 1 },
+      { characterName: 'HAMLET', originalLineNumber: 2 },
+      { characterName: 'HAMLET', originalLineNumber: 3 },
+      { characterName: 'HAMLET', originalLineNumber: 4 },
+      { characterName: '', originalLineNumber: 5, isAction: true },
+    ];
+    const after = [
+      { characterName: 'HAMLET', originalLineNumber: 1 },
+      { characterName: 'HORATIO', originalLineNumber: 2 },
+      { characterName: 'HAMLET', originalLineNumber: 3, isAction: true },
+      { characterName: 'HORATIO', originalLineNumber: 5 },
+    ];
+
+    expect(masteryMoves(before, after)).toEqual([
+      { lineNumber: 2, from: 'HAMLET', to: 'HORATIO' },
+      { lineNumber: 3, from: 'HAMLET', to: null },
+      { lineNumber: 4, from: 'HAMLET', to: null },
+    ]);
+  });
+});
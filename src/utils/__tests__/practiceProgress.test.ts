@@ -0,0 +1,132 @@
+import { describe, expect, it } from '@jest/globals';
+import { LineScore, ScriptSession } from '../../types/script';
+import {
+  SessionSummary,
+  accuracyTrend,
+  characterSessions,
+  formatDuration,
+  lineProgress,
+  summariseSession,
+} from '../practiceProgress';
+
+const score = (lineNumber: number, accuracy: number, extra: Partial<LineScore> = {}): LineScore => ({
+  lineNumber,
+  characterName: 'HAMLET',
+  spoken: '',
+  attemptedAt: 1000,
+  accuracy,
+  words: [],
+  expectedWords: 10,
+  matched: 0,
+  missed: 0,
+  substituted: 0,
+  added: 0,
+  ...extra,
+});
+
+const session = (id: string, startTime: number, extra: Partial<ScriptSession> = {}): ScriptSession => ({
+  id,
+  scriptId: 'hamlet',
+  character: 'HAMLET',
+  status: 'completed',
+  startTime,
+  currentLineIndex: 0,
+  lines: [],
+  stats: { readerLines: 0, userLines: 0, totalDuration: 0 },
+  ...extra,
+});
+
+const summary = (startTime: number, accuracy?: number): SessionSummary => ({
+  id: String(startTime),
+  startTime,
+  durationMs: 0,
+  linesAttempted: 1,
+  accuracy,
+  prompts: 0,
+  skipped: 0,
+});
+
+describe('summariseSession', () => {
+  it('prefers the recorded stats over values worked out from the scores', () => {
+    const result = summariseSession(session('a', 1000, {
+      endTime: 61000,
+      stats: { readerLines: 4, userLines: 2, totalDuration: 45000, averageAccuracy: 0.9, skipped: 3 },
+      lineScores: [score(2, 0.5), score(4, 0.7)],
+    }));
+
+    expect(result).toMatchObject({ durationMs: 45000, accuracy: 0.9, skipped: 3, linesAttempted: 2 });
+  });
+
+  it('works the values out from the scores and times without stats', () => {
+    const result = summariseSession(session('a', 1000, {
+      endTime: 61000,
+      lineScores: [score(2, 0.5, { prompts: 2, durationMs: 3000 }), score(4, 0.7, { prompts: 1 })],
+      skippedLines: [6],
+    }));
+
+    expect(result.durationMs).toBe(60000);
+    expect(result.accuracy).toBeCloseTo(0.6);
+    expect(result).toMatchObject({ prompts: 3, skipped: 1, averageLineMs: 3000 });
+  });
+
+  it('leaves accuracy out when no line was attempted', () => {
+    expect(summariseSession(session('a', 1000)).accuracy).toBeUndefined();
+  });
+});
+
+describe('characterSessions', () => {
+  it("keeps the character's sessions that reached their lines, oldest first", () => {
+    const sessions = [
+      session('late', 3000, { lineScores: [score(2, 1)] }),
+      session('empty', 2000),
+      session('ophelia', 1500, { character: 'OPHELIA', lineScores: [score(3, 1)] }),
+      session('skipped', 1000, { skippedLines: [2] }),
+    ];
+
+    expect(characterSessions(sessions, 'HAMLET').map(item => item.id)).toEqual(['skipped', 'late']);
+  });
+});
+
+describe('lineProgress', () => {
+  it('averages every attempt at a line and sorts the worst first', () => {
+    const sessions = [
+      session('a', 1000, { lineScores: [score(2, 1), score(4, 0.4, { prompts: 1 }), score(6, 0.6)] }),
+      session('b', 2000, { lineScores: [score(2, 0.8), score(4, 0.6), score(8, 0.5, { prompts: 2 })] }),
+      session('c', 3000, { character: 'OPHELIA', lineScores: [score(2, 0)] }),
+    ];
+
+    expect(lineProgress(sessions, 'HAMLET')).toEqual([
+      { lineNumber: 8, attempts: 1, accuracy: 0.5, prompts: 2 },
+      { lineNumber: 4, attempts: 2, accuracy: 0.5, prompts: 1 },
+      { lineNumber: 6, attempts: 1, accuracy: 0.6, prompts: 0 },
+      { lineNumber: 2, attempts: 2, accuracy: 0.9, prompts: 0 },
+    ]);
+  });
+});
+
+describe('accuracyTrend', () => {
+  it('compares the first and latest few sessions', () => {
+    const summaries = [0.2, 0.4, 0.6, 0.5, 0.5, 0.6, 0.7, 0.8].map((accuracy, index) => summary(index, accuracy));
+
+    expect(accuracyTrend(summaries)).toBeCloseTo(0.3);
+    expect(accuracyTrend(summaries, 1)).toBeCloseTo(0.6);
+  });
+
+  it('shrinks the window so the first and latest sessions never overlap', () => {
+    expect(accuracyTrend([summary(1, 0.5), summary(2, 0.6), summary(3, 0.9)])).toBeCloseTo(0.4);
+  });
+
+  it('needs two sessions with an accuracy', () => {
+    expect(accuracyTrend([])).toBeUndefined();
+    expect(accuracyTrend([summary(1, 0.5)])).toBeUndefined();
+    expect(accuracyTrend([summary(1, 0.5), summary(2)])).toBeUndefined();
+  });
+});
+
+describe('formatDuration', () => {
+  it('shows seconds, minutes or hours', () => {
+    expect(formatDuration(42400)).toBe('42s');
+    expect(formatDuration(185000)).toBe('3m 5s');
+    expect(formatDuration(2 * 3600000 + 15 * 60000)).toBe('2h 15m');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from '@jest/globals';
+import { RehearsalLine } from '../../types/script';
+import { nextRehearsalStep, toRehearsalLines } from '../rehearsal';
+import { ProcessedLine } from '../scriptLines';
+
+const line = (lineNumber: number, characterName: string, extra: Partial<ProcessedLine> = {}): ProcessedLine => ({
+  characterId: characterName.toLowerCase(),
+  characterName,
+  text: `Line ${lineNumber}`,
+  originalLineNumber: lineNumber,
+  sequentialNumber: lineNumber,
+  ...extra,
+});
+
+const steps = (lines: RehearsalLine[], isRehearsed?: (line: RehearsalLine) => boolean) => {
+  const result = [];
+  let step = nextRehearsalStep(lines, null, isRehearsed);
+  while (step) {
+    result.push(step);
+    step = nextRehearsalStep(lines, step.lastIndex, isRehearsed);
+  }
+  return result;
+};
+
+describe('toRehearsalLines', () => {
+  it('orders lines and marks the rehearsed character', () => {
+    const lines = toRehearsalLines([
+      line(3, 'HAMLET'),
+      line(1, '', { isAction: true }),
+      line(2, 'HORATIO'),
+    ], 'HAMLET');
+
+    expect(lines.map(item => [item.lineNumber, item.characterName, item.isUser])).toEqual([
+      [1, 'action', false],
+      [2, 'HORATIO', false],
+      [3, 'HAMLET', true],
+    ]);
+  });
+});
+
+describe('nextRehearsalStep', () => {
+  it('steps through action, partner and user lines', () => {
+    const lines = toRehearsalLines([
+      line(1, '', { isAction: true }),
+      line(2, 'HORATIO'),
+      line(3, 'HAMLET'),
+    ], 'HAMLET');
+
+    expect(steps(lines).map(step => [step.kind, step.index])).toEqual([
+      ['action', 0],
+      ['partner', 1],
+      ['user', 2],
+    ]);
+  });
+
+  it('covers a dual dialogue group in one step on the user line', () => {
+    const lines = toRehearsalLines([
+      line(1, 'HORATIO'),
+      line(2, 'MARCELLUS', { dualGroup: 2 }),
+      line(3, 'HAMLET', { dualGroup: 2 }),
+      line(4, 'HORATIO'),
+    ], 'HAMLET');
+
+    const [first, dual, last] = steps(lines);
+
+    expect(first).toMatchObject({ kind: 'partner', index: 0, lastIndex: 0 });
+    expect(dual).toMatchObject({ kind: 'dual', index: 2, lastIndex: 2 });
+    expect(dual.overlapping.map(item => item.lineNumber)).toEqual([2]);
+    expect(last).toMatchObject({ kind: 'partner', index: 3 });
+  });
+
+  it('plays a dual group without the user line by line', () => {
+    const lines = toRehearsalLines([
+      line(1, 'MARCELLUS', { dualGroup: 1 }),
+      line(2, 'HORATIO', { dualGroup: 1 }),
+    ], 'HAMLET');
+
+    expect(steps(lines).map(step => [step.kind, step.index])).toEqual([
+      ['partner', 0],
+      ['partner', 1],
+    ]);
+  });
+
+  it('skips lines outside the rehearsal', () => {
+    const lines = toRehearsalLines([line(1, 'HORATIO'), line(2, 'HAMLET'), line(3, 'HORATIO')], 'HAMLET');
+
+    expect(steps(lines, item => item.lineNumber !== 2).map(step => step.index)).toEqual([0, 2]);
+    expect(nextRehearsalStep(lines, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { characterRange, isInRange, lineRange, rangeEnd, sceneRange } from '../rehearsalRange';
+import { ProcessedLine } from '../scriptLines';
+
+const line = (lineNumber: number, characterName: string, sequentialNumber = lineNumber): ProcessedLine => ({
+  characterId: characterName.toLowerCase(),
+  characterName,
+  text: `Line ${lineNumber}`,
+  originalLineNumber: lineNumber,
+  sequentialNumber,
+  ...(characterName ? {} : { isAction: true }),
+});
+
+const scene = (name: string, startLine: number, endLine: number, sceneNumber?: string) =>
+  ({ name, startLine, endLine, ...(sceneNumber ? { sceneNumber } : {}) });
+
+describe('lineRange', () => {
+  it('spans the original line numbers of the selected lines, in either order', () => {
+    const lines = [line(10, 'HAMLET', 1), line(14, 'HORATIO', 2), line(20, 'HAMLET', 3)];
+
+    expect(lineRange(lines, 3, 2)).toEqual({
+      kind: 'lines',
+      spans: [{ startLine: 14, endLine: 20 }],
+      label: 'Lines 2-3',
+    });
+    expect(lineRange(lines, 5, 9)).toBeNull();
+  });
+});
+
+describe('sceneRange', () => {
+  it('labels one scene by its number and several by their count', () => {
+    expect(sceneRange([scene('INT. HALL', 0, 9, '4')])?.label).toBe('Scene 4');
+    expect(sceneRange([scene('EXT. BATTLEMENTS', 10, 19), scene('INT. HALL', 0, 9)])).toEqual({
+      kind: 'scenes',
+      spans: [{ startLine: 0, endLine: 9 }, { startLine: 10, endLine: 19 }],
+      label: '2 scenes',
+    });
+  });
+});
+
+describe('characterRange', () => {
+  it('takes the scenes the character speaks in', () => {
+    const range = characterRange({
+      processedLines: [line(2, 'HAMLET'), line(12, 'HORATIO'), line(22, 'HAMLET')],
+      scenes: [scene('ONE', 0, 9), scene('TWO', 10, 19), scene('THREE', 20, 29)],
+    }, 'HAMLET');
+
+    expect(range?.spans).toEqual([{ startLine: 0, endLine: 9 }, { startLine: 20, endLine: 29 }]);
+    expect(range?.label).toBe("HAMLET's scenes");
+  });
+
+  it('merges speeches with nothing in between when there are no scenes', () => {
+    const range = characterRange({
+      processedLines: [
+        line(1, 'HORATIO'),
+        line(2, 'HAMLET'),
+        line(3, 'HAMLET'),
+        line(4, ''),
+        line(5, 'HORATIO'),
+        line(6, 'HAMLET'),
+      ],
+      scenes: [],
+    }, 'HAMLET');
+
+    expect(range?.spans).toEqual([{ startLine: 1, endLine: 3 }, { startLine: 5, endLine: 6 }]);
+    expect(range?.label).toBe("HAMLET's lines");
+  });
+
+  it('is null for a character with no lines', () => {
+    expect(characterRange({ processedLines: [line(1, 'HORATIO')], scenes: [] }, 'HAMLET')).toBeNull();
+  });
+});
+
+describe('isInRange', () => {
+  it('checks every span, and takes no range as the whole script', () => {
+    const range = sceneRange([scene('ONE', 0, 9), scene('THREE', 20, 29)])!;
+
+    expect([5, 15, 29].map(lineNumber => isInRange(range, lineNumber))).toEqual([true, false, true]);
+    expect(isInRange(null, 15)).toBe(true);
+    expect(rangeEnd(range)).toBe(29);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from '@jest/globals';
+import { ScriptAnalysis } from '../../types/script';
+import {
+  ACTION_CHARACTER,
+  ProcessedLine,
+  deleteLine,
+  insertLine,
+  mergeWithNext,
+  reassignLine,
+  rebuildAnalysis,
+  splitLine,
+  toggleAction,
+} from '../scriptLines';
+
+const line = (
+  originalLineNumber: number,
+  characterName: string,
+  text: string,
+  extra: Partial<ProcessedLine> = {}
+): ProcessedLine => ({
+  characterId: characterName,
+  characterName,
+  text,
+  originalLineNumber,
+  sequentialNumber: 0,
+  ...(characterName === ACTION_CHARACTER ? { isAction: true } : {}),
+  ...extra,
+});
+
+const script = (lines: ProcessedLine[]): ScriptAnalysis => rebuildAnalysis({
+  characters: [{ name: 'HAMLET', lines: 0, firstAppearance: 0, aliases: ['PRINCE'] }],
+  scenes: [{ name: 'INT. HALL - NIGHT', startLine: 0, endLine: 20 }],
+  actionLines: [],
+  processedLines: [],
+  metadata: { totalLines: 0, estimatedDuration: 0, genre: 'Tragedy' },
+}, lines);
+
+const HALL = script([
+  line(2, ACTION_CHARACTER, 'A ghost appears.'),
+  line(4, 'HORATIO', 'Look where it comes!', { voices: { alloy: 'https://example.com/4.mp3' } }),
+  line(6, 'HAMLET', 'Angels and ministers of grace defend us!', {
+    voices: { echo: 'https://example.com/6.mp3' },
+    parentheticals: [{ text: 'whispering', position: 0 }, { text: 'beat', position: 11 }],
+  }),
+  line(8, 'HORATIO', 'It beckons you.'),
+]);
+
+const texts = (analysis: ScriptAnalysis) => analysis.processedLines.map(item => item.text);
+
+describe('rebuildAnalysis', () => {
+  it('numbers lines and rebuilds characters, action, scene cast and totals', () => {
+    expect(HALL.processedLines.map(item => item.sequentialNumber)).toEqual([1, 2, 3, 4]);
+    expect(HALL.characters.map(character => [character.name, character.lines, character.firstAppearance]))
+      .toEqual([['HORATIO', 2, 4], ['HAMLET', 1, 6]]);
+    expect(HALL.characters[1].aliases).toEqual(['PRINCE']);
+    expect(HALL.characters[0].dialogue?.map(item => item.lineNumber)).toEqual([4, 8]);
+    expect(HALL.actionLines).toEqual([{ text: 'A ghost appears.', lineNumber: 2, sequentialNumber: 1 }]);
+    expect(HALL.scenes[0].cast).toEqual([{ name: 'HORATIO', lines: 2 }, { name: 'HAMLET', lines: 1 }]);
+    expect(HALL.metadata).toEqual({ totalLines: 4, estimatedDuration: 1, genre: 'Tragedy' });
+  });
+});
+
+describe('reassignLine', () => {
+  it('gives the line to another character without its recordings', () => {
+    const analysis = reassignLine(HALL, 2, 'MARCELLUS');
+
+    expect(analysis.processedLines[1]).toMatchObject({ characterName: 'MARCELLUS', characterId: 'MARCELLUS' });
+    expect(analysis.processedLines[1].voices).toBeUndefined();
+    expect(analysis.characters.map(character => [character.name, character.lines])).toEqual([
+      ['MARCELLUS', 1],
+      ['HAMLET', 1],
+      ['HORATIO', 1],
+    ]);
+  });
+
+  it('rejects a line that does not exist', () => {
+    expect(() => reassignLine(HALL, 9, 'HAMLET')).toThrow('Line 9 not found');
+  });
+});
+
+describe('toggleAction', () => {
+  it('turns dialogue into action, dropping what only speech has', () => {
+    const analysis = toggleAction(HALL, 3);
+    const toggled = analysis.processedLines[2];
+
+    expect(toggled).toMatchObject({ characterName: ACTION_CHARACTER, isAction: true });
+    expect(toggled.parentheticals).toBeUndefined();
+    expect(toggled.voices).toBeUndefined();
+    expect(analysis.characters.map(character => character.name)).toEqual(['HORATIO']);
+    expect(analysis.actionLines.map(item => item.lineNumber)).toEqual([2, 6]);
+  });
+
+  it('turns action into dialogue for a character', () => {
+    expect(toggleAction(HALL, 1, 'HAMLET').processedLines[0]).toMatchObject({
+      characterName: 'HAMLET',
+      isAction: false,
+    });
+    expect(() => toggleAction(HALL, 1)).toThrow('A character is required');
+  });
+});
+
+describe('splitLine', () => {
+  it('splits a line between its neighbours, sharing out its parentheticals', () => {
+    const analysis = splitLine(HALL, 3, 11);
+    const [first, second] = analysis.processedLines.slice(2, 4);
+
+    expect(texts(analysis)).toEqual([
+      'A ghost appears.',
+      'Look where it comes!',
+      'Angels and',
+      'ministers of grace defend us!',
+      'It beckons you.',
+    ]);
+    expect(first).toMatchObject({ originalLineNumber: 6, editedFrom: 6 });
+    expect(second).toMatchObject({ originalLineNumber: 7, editedFrom: 6, sequentialNumber: 4 });
+    expect(first.parentheticals).toEqual([{ text: 'whispering', position: 0 }]);
+    expect(second.parentheticals).toEqual([{ text: 'beat', position: 0 }]);
+    expect(first.voices).toBeUndefined();
+  });
+
+  it('keeps a split line pointing at the source line it first came from', () => {
+    const analysis = splitLine(splitLine(HALL, 3, 11), 4, 10);
+
+    expect(analysis.processedLines.slice(2, 5).map(item => [item.originalLineNumber, item.editedFrom]))
+      .toEqual([[6, 6], [7, 6], [7.5, 6]]);
+  });
+
+  it('needs text on both sides of the split', () => {
+    expect(() => splitLine(HALL, 3, 0)).toThrow('Both parts of a split line need text');
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('joins the next line on, moving its parentheticals along', () => {
+    const analysis = mergeWithNext(
+      script([line(1, 'HAMLET', 'Go on.'), line(2, 'HAMLET', 'I follow.', {
+        parentheticals: [{ text: 'to the ghost', position: 0 }],
+      })]),
+      1
+    );
+
+    expect(analysis.processedLines).toHaveLength(1);
+    expect(analysis.processedLines[0]).toMatchObject({
+      text: 'Go on. I follow.',
+      originalLineNumber: 1,
+      parentheticals: [{ text: 'to the ghost', position: 7 }],
+    });
+  });
+
+  it('has nothing to merge the last line with', () => {
+    expect(() => mergeWithNext(HALL, 4)).toThrow('There is no following line');
+  });
+});
+
+describe('insertLine', () => {
+  it('inserts a line between two others', () => {
+    const analysis = insertLine(HALL, 2, { text: ' Angels! ', characterName: 'MARCELLUS' });
+
+    expect(analysis.processedLines[2]).toMatchObject({
+      text: 'Angels!',
+      characterName: 'MARCELLUS',
+      originalLineNumber: 5,
+      sequentialNumber: 3,
+      userInserted: true,
+    });
+  });
+
+  it('inserts at the start without a negative line number', () => {
+    const fromZero = script([line(0, 'HAMLET', 'Who is there?')]);
+
+    expect(insertLine(HALL, 0, { text: 'Midnight.', isAction: true }).processedLines[0])
+      .toMatchObject({ originalLineNumber: 1, isAction: true, characterName: ACTION_CHARACTER });
+    expect(insertLine(fromZero, 0, { text: 'Midnight.', isAction: true }).processedLines[0].originalLineNumber)
+      .toBe(0);
+  });
+
+  it('needs a character for dialogue', () => {
+    expect(() => insertLine(HALL, 1, { text: 'Hello?' })).toThrow('A character is required');
+  });
+});
+
+describe('deleteLine', () => {
+  it('removes the line and drops characters left without lines', () => {
+    const analysis = deleteLine(HALL, 3);
+
+    expect(texts(analysis)).toEqual(['A ghost appears.', 'Look where it comes!', 'It beckons you.']);
+    expect(analysis.processedLines.map(item => item.sequentialNumber)).toEqual([1, 2, 3]);
+    expect(analysis.characters.map(character => character.name)).toEqual(['HORATIO']);
+  });
+});
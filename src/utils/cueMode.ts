@@ -0,0 +1,63 @@
+import { ProcessedLine } from './scriptLines';
+
+type CueSource = Pick<ProcessedLine, 'characterName' | 'originalLineNumber' | 'isAction'>;
+
+export type CueUnit = 'words' | 'seconds';
+
+/** What happens to partner lines that are not cues. */
+export type CueOtherLines = 'dim' | 'hide';
+
+/**
+ * Cue-only rehearsal: partner lines are cut to the cue before each of the
+ * practising character's lines, and everything else is skipped.
+ */
+export interface CueSettings {
+  enabled: boolean;
+  unit: CueUnit;
+  /** Cue length, in words or seconds depending on `unit`. */
+  amount: number;
+  others: CueOtherLines;
+}
+
+export const DEFAULT_CUE_SETTINGS: CueSettings = {
+  enabled: false,
+  unit: 'words',
+  amount: 5,
+  others: 'dim',
+};
+
+/** Longest cue that can be requested, matching the generateCueLines function. */
+export const MAX_CUE_WORDS = 30;
+export const MAX_CUE_SECONDS = 10;
+
+/** Key of a cue recording in a line's cueVoices, as written by generateCueLines. */
+export const cueVoiceKey = (voice: string, words: number): string => `${voice}_${words}w`;
+
+/** The last `words` words of a line. */
+export const cueText = (text: string, words: number): string => {
+  const parts = text.trim().split(/\s+/);
+  return parts.length <= words ? text.trim() : parts.slice(-words).join(' ');
+};
+
+/**
+ * Lines that cue the practising character: the last spoken line before each
+ * of theirs, when someone else speaks it. Lines must be in reading order.
+ */
+export const findCueLines = (lines: CueSource[], practiceCharacter: string): Set<number> => {
+  const cues = new Set<number>();
+  let previousSpoken: CueSource | undefined;
+  lines.forEach(line => {
+    if (line.isAction) return;
+    if (line.characterName === practiceCharacter && previousSpoken &&
+        previousSpoken.characterName !== practiceCharacter) {
+      cues.add(previousSpoken.originalLineNumber);
+    }
+    previousSpoken = line;
+  });
+  return cues;
+};
+
+export const describeCue = (settings: CueSettings): string =>
+  `Last ${settings.amount} ${settings.unit === 'words'
+    ? settings.amount === 1 ? 'word' : 'words'
+    : settings.amount === 1 ? 'second' : 'seconds'}`;
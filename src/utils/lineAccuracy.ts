@@ -0,0 +1,144 @@
+import { LineAlignment, WordAlignment } from '../types/script';
+
+/**
+ * Word-level comparison of what the actor said with the scripted line.
+ *
+ * Both sides are reduced to bare lower-case words before aligning, so
+ * punctuation, capitals and curly quotes never count as mistakes. Script words
+ * keep their printed form for display, with any punctuation-only tokens
+ * ("--", "...") carried on a neighbouring word.
+ */
+
+interface ScriptWord {
+  display: string;
+  key: string;
+}
+
+const NUMBER_WORDS: Record<string, string> = {
+  '0': 'zero', '1': 'one', '2': 'two', '3': 'three', '4': 'four', '5': 'five',
+  '6': 'six', '7': 'seven', '8': 'eight', '9': 'nine', '10': 'ten',
+  '11': 'eleven', '12': 'twelve', '20': 'twenty', '100': 'hundred',
+};
+
+// Recognisers write small numbers as digits; scripts usually spell them out
+const normalizeWord = (word: string): string => {
+  const key = word
+    .toLowerCase()
+    .replace(/[‘’`]/g, "'")
+    .replace(/[^a-z0-9']/g, '')
+    .replace(/^'+|'+$/g, '');
+  return NUMBER_WORDS[key] || key;
+};
+
+// Dashes split words even with no space round them ("Wait--what?"). Parts of
+// a token split this way are marked so punctuation rejoins without a space.
+const toTokens = (text: string): Array<{ text: string; joined: boolean }> =>
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(token =>
+      token
+        .split(/([—–]+|--+)/)
+        .filter(Boolean)
+        .map((part, index) => ({ text: part, joined: index > 0 }))
+    );
+
+const toWords = (text: string): string[] =>
+  toTokens(text).map(token => normalizeWord(token.text)).filter(Boolean);
+
+const toScriptWords = (text: string): ScriptWord[] => {
+  const words: ScriptWord[] = [];
+  let pending = '';
+  toTokens(text).forEach(({ text: token, joined }) => {
+    const key = normalizeWord(token);
+    if (!key) {
+      // Punctuation on its own joins the word before it, or the next one at the start
+      if (words.length > 0) {
+        words[words.length - 1].display += joined ? token : ` ${token}`;
+      } else {
+        pending += pending && !joined ? ` ${token}` : token;
+      }
+      return;
+    }
+    words.push({ display: pending && !joined ? `${pending} ${token}` : pending + token, key });
+    pending = '';
+  });
+  return words;
+};
+
+/**
+ * Aligns spoken words against the script with the fewest edits, preferring a
+ * substitution over a missed word plus an added one.
+ */
+export const alignLine = (expected: string, spoken: string): LineAlignment => {
+  const script = toScriptWords(expected);
+  const said = toWords(spoken);
+  const rows = script.length + 1;
+  const cols = said.length + 1;
+
+  // cost[i][j]: edits to turn the first i script words into the first j spoken ones
+  const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (__, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const same = script[i - 1].key === said[j - 1];
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (same ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const words: WordAlignment[] = [];
+  let i = script.length;
+  let j = said.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (script[i - 1].key === said[j - 1] ? 0 : 1)) {
+      const same = script[i - 1].key === said[j - 1];
+      words.push(same
+        ? { kind: 'match', expected: script[i - 1].display }
+        : { kind: 'substituted', expected: script[i - 1].display, spoken: said[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      words.push({ kind: 'missed', expected: script[i - 1].display });
+      i--;
+    } else {
+      words.push({ kind: 'added', spoken: said[j - 1] });
+      j--;
+    }
+  }
+  words.reverse();
+
+  const count = (kind: WordAlignment['kind']) => words.filter(word => word.kind === kind).length;
+  const matched = count('match');
+  const missed = count('missed');
+  const substituted = count('substituted');
+  const added = count('added');
+  const errors = missed + substituted + added;
+
+  return {
+    words,
+    accuracy: script.length === 0 ? (said.length === 0 ? 1 : 0) : Math.max(0, 1 - errors / script.length),
+    expectedWords: script.length,
+    matched,
+    missed,
+    substituted,
+    added,
+  };
+};
+
+/**
+ * Scores each recognition alternative and keeps the closest to the script,
+ * so a misheard top result doesn't count against the actor.
+ */
+export const scoreLine = (expected: string, alternatives: string[]): LineAlignment & { spoken: string } => {
+  const candidates = alternatives.length > 0 ? alternatives : [''];
+  return candidates
+    .map(spoken => ({ ...alignLine(expected, spoken), spoken }))
+    .reduce((best, candidate) => (candidate.accuracy > best.accuracy ? candidate : best));
+};
+
+export const formatAccuracy = (accuracy: number): string => `${Math.round(accuracy * 100)}%`;
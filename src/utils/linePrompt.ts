@@ -0,0 +1,107 @@
+import { alignLine } from './lineAccuracy';
+
+export type PromptDelivery = 'show' | 'speak';
+
+/**
+ * Prompting an actor who dries, the way a reader on book does: after a
+ * pause, or when they call "line?", they get the next few words and carry on.
+ */
+export interface PromptSettings {
+  enabled: boolean;
+  /** Silence in the middle of a line before prompting. */
+  delaySeconds: number;
+  /** How many of the next words to give. */
+  words: number;
+  delivery: PromptDelivery;
+}
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  enabled: true,
+  delaySeconds: 4,
+  words: 3,
+  delivery: 'show',
+};
+
+export const MAX_PROMPT_DELAY_SECONDS = 15;
+export const MAX_PROMPT_WORDS = 10;
+
+/** Prompts given on one line before the rehearsal moves on without it. */
+export const MAX_PROMPTS_PER_LINE = 3;
+
+// Trailing words still missing before a pause counts as drying
+const DRIED_MISSING_WORDS = 2;
+
+const PROMPT_REQUEST = /(?:^|\s)line\s*\??\s*(?:please\s*)?$/i;
+
+const scriptWords = (text: string): string[] =>
+  alignLine(text, '').words.map(word => word.expected || '');
+
+/**
+ * Where the actor has got to in the script: the number of script words in
+ * the shortest start of the line that is closest to what they said, so a
+ * phrase the line repeats places them at its first occurrence.
+ */
+const scriptPosition = (expected: string, heard: string): { position: number; total: number } => {
+  const words = scriptWords(expected);
+  let position = 0;
+  let fewestErrors = Infinity;
+  for (let count = 0; count <= words.length; count++) {
+    const { missed, substituted, added } = alignLine(words.slice(0, count).join(' '), heard);
+    if (missed + substituted + added < fewestErrors) {
+      fewestErrors = missed + substituted + added;
+      position = count;
+    }
+  }
+  return { position, total: words.length };
+};
+
+/** The script words after the actor's position. */
+const remainingWords = (expected: string, heard: string): string[] => {
+  const { position } = scriptPosition(expected, heard);
+  return scriptWords(expected).slice(position);
+};
+
+/**
+ * Whether the actor is calling for a prompt. "Line" said where the script
+ * itself says "line" next is taken as the script.
+ */
+export const isPromptRequest = (heard: string, expected: string, heardBefore = ''): boolean => {
+  if (!PROMPT_REQUEST.test(heard)) return false;
+  const before = `${heardBefore} ${stripPromptRequest(heard)}`.trim();
+  const next = remainingWords(expected, before)[0];
+  return !next || !/^line\b/i.test(next.replace(/^\W+/, ''));
+};
+
+export const stripPromptRequest = (heard: string): string => heard.replace(PROMPT_REQUEST, '').trim();
+
+/** Whether the actor stopped with more than a word or so of the line still to say. */
+export const isDriedUp = (expected: string, heard: string): boolean => {
+  const { position, total } = scriptPosition(expected, heard);
+  return total - position >= DRIED_MISSING_WORDS;
+};
+
+/** The next `count` words of the line from where the actor got to. */
+export const promptWords = (expected: string, heard: string, count: number): string =>
+  remainingWords(expected, heard).slice(0, count).join(' ');
+
+/**
+ * Which words of a recording the next `count` words are, for playing a prompt
+ * from it: word indices from `start` up to `end` of `total`. `recorded` is the
+ * text the recording reads, when the line is only part of it.
+ */
+export const promptSpan = (
+  expected: string,
+  heard: string,
+  count: number,
+  recorded = expected
+): { start: number; end: number; total: number } => {
+  const { position, total } = scriptPosition(expected, heard);
+  const at = recorded.indexOf(expected);
+  const offset = at > 0 ? alignLine(recorded.slice(0, at), '').expectedWords : 0;
+  const recordedTotal = at >= 0 ? alignLine(recorded, '').expectedWords : total;
+  return {
+    start: offset + position,
+    end: offset + Math.min(total, position + count),
+    total: recordedTotal,
+  };
+};
@@ -0,0 +1,106 @@
+import { LineMastery, LineScore, MemorisationLevel, ScriptMastery } from '../types/script';
+
+/**
+ * Progressive memorisation: each of the user's lines is shown less and less
+ * as they get it right, from the full text down to nothing at all.
+ */
+
+export const MEMORISATION_LEVELS: MemorisationLevel[] = [1, 2, 3, 4];
+
+export const LEVEL_LABELS: Record<MemorisationLevel, string> = {
+  1: 'Full text',
+  2: 'First letters',
+  3: 'Blanks',
+  4: 'Off book',
+};
+
+// Accuracies kept per line, and what moves a line up or down a level
+const HISTORY_LENGTH = 5;
+const ADVANCE_ACCURACY = 0.9;
+const ADVANCE_STREAK = 2;
+const FALL_BACK_ACCURACY = 0.6;
+
+const WORD = /[A-Za-z0-9’']+/g;
+
+export const lineKey = (lineNumber: number): string => String(lineNumber);
+
+export const getLineLevel = (mastery: ScriptMastery, lineNumber: number): MemorisationLevel =>
+  mastery[lineKey(lineNumber)]?.level || 1;
+
+/** The line as shown at a level; punctuation stays so the rhythm is still there. */
+export const maskLine = (text: string, level: MemorisationLevel): string => {
+  switch (level) {
+    case 2:
+      return text.replace(WORD, word => word[0]);
+    case 3:
+      return text.replace(WORD, word => '_'.repeat(word.length));
+    case 4:
+      return '';
+    default:
+      return text;
+  }
+};
+
+/**
+ * Records an attempt at a line. It moves up a level after consecutive
+ * near-perfect attempts without prompts, and back down after a poor one.
+ */
+export const updateLineMastery = (current: LineMastery | undefined, score: LineScore): LineMastery => {
+  const history = [...(current?.history || []), score.accuracy].slice(-HISTORY_LENGTH);
+  let level = current?.level || 1;
+  let streak = !score.prompts && score.accuracy >= ADVANCE_ACCURACY ? (current?.streak || 0) + 1 : 0;
+
+  if (streak >= ADVANCE_STREAK) {
+    level = Math.min(4, level + 1) as MemorisationLevel;
+    streak = 0;
+  } else if (score.accuracy < FALL_BACK_ACCURACY || (score.prompts || 0) > 1) {
+    level = Math.max(1, level - 1) as MemorisationLevel;
+  }
+
+  return { level, history, streak, updatedAt: score.attemptedAt };
+};
+
+/** How many of the given lines are at each level. */
+export const countByLevel = (
+  mastery: ScriptMastery,
+  lineNumbers: number[]
+): Record<MemorisationLevel, number> => {
+  const counts: Record<MemorisationLevel, number> = { 1: 0, 2: 0, 3: 0, 4: 0 };
+  lineNumbers.forEach(lineNumber => {
+    counts[getLineLevel(mastery, lineNumber)]++;
+  });
+  return counts;
+};
+
+/** Lines that aren't off book yet. */
+export const linesNeedingWork = (mastery: ScriptMastery, lineNumbers: number[]): number[] =>
+  lineNumbers.filter(lineNumber => getLineLevel(mastery, lineNumber) < 4);
+
+/** A line whose mastery belongs to another character after an edit, or to no one. */
+export interface MasteryMove {
+  lineNumber: number;
+  from: string;
+  to: string | null;
+}
+
+/**
+ * How line mastery has to follow an edit of the script's lines: a line given
+ * to another character takes its mastery along, and a deleted line, or one
+ * turned into action, loses it. Lines keep their original line numbers
+ * through edits, so other mastery stays where it is.
+ */
+export const masteryMoves = (
+  before: Array<{ characterName: string; originalLineNumber: number; isAction?: boolean }>,
+  after: Array<{ characterName: string; originalLineNumber: number; isAction?: boolean }>
+): MasteryMove[] => {
+  const speakers = new Map(after
+    .filter(line => !line.isAction)
+    .map(line => [line.originalLineNumber, line.characterName]));
+  return before
+    .filter(line => !line.isAction && speakers.get(line.originalLineNumber) !== line.characterName)
+    .map(line => ({
+      lineNumber: line.originalLineNumber,
+      from: line.characterName,
+      to: speakers.get(line.originalLineNumber) ?? null,
+    }));
+};
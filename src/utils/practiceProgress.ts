@@ -0,0 +1,88 @@
+import { LineScore, ScriptSession } from '../types/script';
+
+/** One rehearsal as shown on the progress screen. */
+export interface SessionSummary {
+  id: string;
+  startTime: number;
+  durationMs: number;
+  linesAttempted: number;
+  /** Average over the lines attempted; absent when none were. */
+  accuracy?: number;
+  prompts: number;
+  skipped: number;
+  /** Average time from the start of a line to its end. */
+  averageLineMs?: number;
+}
+
+export interface LineProgress {
+  lineNumber: number;
+  attempts: number;
+  accuracy: number;
+  prompts: number;
+}
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+
+export const summariseSession = (session: ScriptSession): SessionSummary => {
+  const scores = session.lineScores || [];
+  const durations = scores.map(score => score.durationMs).filter((ms): ms is number => ms !== undefined);
+  return {
+    id: session.id,
+    startTime: session.startTime,
+    durationMs: session.stats?.totalDuration || (session.endTime ? session.endTime - session.startTime : 0),
+    linesAttempted: scores.length,
+    accuracy: session.stats?.averageAccuracy ?? average(scores.map(score => score.accuracy)),
+    prompts: scores.reduce((total, score) => total + (score.prompts || 0), 0),
+    skipped: session.skippedLines?.length || session.stats?.skipped || 0,
+    averageLineMs: average(durations),
+  };
+};
+
+/** Rehearsals of a character that got as far as one of their lines, oldest first. */
+export const characterSessions = (sessions: ScriptSession[], character: string): SessionSummary[] =>
+  sessions
+    .filter(session => session.character === character)
+    .map(summariseSession)
+    .filter(summary => summary.linesAttempted > 0 || summary.skipped > 0)
+    .sort((a, b) => a.startTime - b.startTime);
+
+/** Every attempt at each line across the sessions, worst first. */
+export const lineProgress = (sessions: ScriptSession[], character: string): LineProgress[] => {
+  const byLine = new Map<number, LineScore[]>();
+  sessions
+    .filter(session => session.character === character)
+    .forEach(session => (session.lineScores || []).forEach(score => {
+      byLine.set(score.lineNumber, [...(byLine.get(score.lineNumber) || []), score]);
+    }));
+
+  return Array.from(byLine.entries())
+    .map(([lineNumber, scores]) => ({
+      lineNumber,
+      attempts: scores.length,
+      accuracy: average(scores.map(score => score.accuracy)) || 0,
+      prompts: scores.reduce((total, score) => total + (score.prompts || 0), 0),
+    }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.prompts - a.prompts);
+};
+
+/**
+ * Change in accuracy between the first and the latest few sessions, so one
+ * off day doesn't swing it.
+ */
+export const accuracyTrend = (summaries: SessionSummary[], window = 3): number | undefined => {
+  const scored = summaries.filter(summary => summary.accuracy !== undefined);
+  if (scored.length < 2) return undefined;
+  const size = Math.min(window, Math.floor(scored.length / 2));
+  const first = average(scored.slice(0, size).map(summary => summary.accuracy!));
+  const latest = average(scored.slice(-size).map(summary => summary.accuracy!));
+  return first !== undefined && latest !== undefined ? latest - first : undefined;
+};
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
@@ -0,0 +1,89 @@
+import { RehearsalLine } from '../types/script';
+import { ProcessedLine } from './scriptLines';
+
+/**
+ * The rehearsal state machine shared by PracticeScript and the script reader:
+ * which line comes next and what happens on it. Partner lines are played, the
+ * user's lines are spoken (or read) by the user, and action lines pass after a
+ * beat.
+ */
+
+export type RehearsalStepKind = 'action' | 'partner' | 'user' | 'dual';
+
+export interface RehearsalStep {
+  kind: RehearsalStepKind;
+  /** Line that is current during the step; for dual dialogue, the user's line. */
+  index: number;
+  /** Last line the step covers; the next step starts after it. */
+  lastIndex: number;
+  /** Partner lines spoken over the user's line in dual dialogue. */
+  overlapping: RehearsalLine[];
+}
+
+/** The script in reading order, with the rehearsed character's lines marked as the user's. */
+export const toRehearsalLines = (lines: ProcessedLine[], character: string): RehearsalLine[] =>
+  lines
+    .map(line => ({
+      characterName: line.isAction ? 'action' : line.characterName,
+      text: line.text,
+      lineNumber: line.originalLineNumber,
+      isUser: !line.isAction && line.characterName === character,
+      isAction: line.isAction,
+      voices: line.voices,
+      pageNumber: line.pageNumber,
+      parentheticals: line.parentheticals,
+      voiceVolume: line.voiceVolume,
+      dualGroup: line.dualGroup,
+    }))
+    .sort((a, b) => a.lineNumber - b.lineNumber);
+
+/** First line from `from` on that the rehearsal plays; `lines.length` when there is none. */
+export const firstRehearsedIndex = (
+  lines: RehearsalLine[],
+  from: number,
+  isRehearsed: (line: RehearsalLine) => boolean = () => true
+): number => {
+  let index = Math.max(0, from);
+  while (index < lines.length && !isRehearsed(lines[index])) {
+    index++;
+  }
+  return index;
+};
+
+/**
+ * The step after the line at `current`, or from the top when `current` is
+ * null. Null at the end of the lines.
+ */
+export const nextRehearsalStep = (
+  lines: RehearsalLine[],
+  current: number | null,
+  isRehearsed?: (line: RehearsalLine) => boolean
+): RehearsalStep | null => {
+  const index = firstRehearsedIndex(lines, current === null ? 0 : current + 1, isRehearsed);
+  const line = lines[index];
+  if (!line) return null;
+
+  // Dual dialogue with the user in it: the user's line is current while the
+  // partner's plays, and the step covers the whole group, whose lines sit
+  // next to each other
+  if (line.dualGroup !== undefined) {
+    let lastIndex = index;
+    while (lines[lastIndex + 1]?.dualGroup === line.dualGroup) {
+      lastIndex++;
+    }
+    const group = lines.slice(index, lastIndex + 1);
+    const userOffset = group.findIndex(item => item.isUser);
+    const overlapping = group.filter(item => !item.isUser && !item.isAction);
+    if (userOffset >= 0 && overlapping.length > 0) {
+      return { kind: 'dual', index: index + userOffset, lastIndex, overlapping };
+    }
+  }
+
+  const kind: RehearsalStepKind = line.isAction ? 'action' : line.isUser ? 'user' : 'partner';
+  return { kind, index, lastIndex: index, overlapping: [] };
+};
+
+/** Rough time to say a line, in seconds, for reading without recordings. */
+export const estimateLineDuration = (text: string): number =>
+  // 1 second per 15 characters, with a floor for very short lines
+  Math.max(text.length / 15, 2.0);
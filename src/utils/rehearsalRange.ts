@@ -0,0 +1,95 @@
+import { ScriptAnalysis } from '../types/script';
+import { ProcessedLine } from './scriptLines';
+
+type Scene = ScriptAnalysis['scenes'][number];
+
+/** Source lines from startLine to endLine, inclusive. */
+export interface LineSpan {
+  startLine: number;
+  endLine: number;
+}
+
+export type RehearsalRangeKind = 'lines' | 'scenes' | 'character';
+
+/**
+ * The part of a script a rehearsal plays. Spans are in original line
+ * numbers, so they survive line edits that renumber the script.
+ */
+export interface RehearsalRange {
+  kind: RehearsalRangeKind;
+  spans: LineSpan[];
+  /** Short description for the controls, e.g. "Lines 12-40". */
+  label: string;
+}
+
+const byReadingOrder = (a: ProcessedLine, b: ProcessedLine) =>
+  a.sequentialNumber - b.sequentialNumber;
+
+export const isInRange = (range: RehearsalRange | null, lineNumber: number): boolean =>
+  !range || range.spans.some(span => lineNumber >= span.startLine && lineNumber <= span.endLine);
+
+/** Last source line a range needs loaded. */
+export const rangeEnd = (range: RehearsalRange): number =>
+  Math.max(...range.spans.map(span => span.endLine));
+
+/**
+ * Lines `from` to `to` as numbered in the practice view (sequential numbers).
+ */
+export const lineRange = (lines: ProcessedLine[], from: number, to: number): RehearsalRange | null => {
+  const [first, last] = from <= to ? [from, to] : [to, from];
+  const selected = lines.filter(line => line.sequentialNumber >= first && line.sequentialNumber <= last);
+  if (selected.length === 0) return null;
+  const lineNumbers = selected.map(line => line.originalLineNumber);
+  return {
+    kind: 'lines',
+    spans: [{ startLine: Math.min(...lineNumbers), endLine: Math.max(...lineNumbers) }],
+    label: `Lines ${first}-${last}`,
+  };
+};
+
+export const sceneRange = (scenes: Scene[]): RehearsalRange | null => {
+  if (scenes.length === 0) return null;
+  const sorted = [...scenes].sort((a, b) => a.startLine - b.startLine);
+  return {
+    kind: 'scenes',
+    spans: sorted.map(scene => ({ startLine: scene.startLine, endLine: scene.endLine })),
+    label: sorted.length === 1
+      ? sorted[0].sceneNumber ? `Scene ${sorted[0].sceneNumber}` : sorted[0].name
+      : `${sorted.length} scenes`,
+  };
+};
+
+/**
+ * Every section the character speaks in: whole scenes when the script has
+ * them, otherwise each of their speeches with the line that cues it.
+ */
+export const characterRange = (
+  analysis: Pick<ScriptAnalysis, 'scenes' | 'processedLines'>,
+  characterName: string
+): RehearsalRange | null => {
+  const lines = [...analysis.processedLines].sort(byReadingOrder);
+  const spoken = lines.filter(line => !line.isAction && line.characterName === characterName);
+  if (spoken.length === 0) return null;
+
+  const scenes = (analysis.scenes || []).filter(scene =>
+    spoken.some(line => line.originalLineNumber >= scene.startLine && line.originalLineNumber <= scene.endLine)
+  );
+  if (scenes.length > 0) {
+    return { ...sceneRange(scenes)!, kind: 'character', label: `${characterName}'s scenes` };
+  }
+
+  const spans: LineSpan[] = [];
+  lines.forEach((line, index) => {
+    if (line.isAction || line.characterName !== characterName) return;
+    const cue = lines[index - 1];
+    const startLine = cue ? cue.originalLineNumber : line.originalLineNumber;
+    const previous = spans[spans.length - 1];
+    // Speeches with nothing in between become one section
+    if (previous && startLine <= previous.endLine) {
+      previous.endLine = line.originalLineNumber;
+    } else {
+      spans.push({ startLine, endLine: line.originalLineNumber });
+    }
+  });
+  return { kind: 'character', spans, label: `${characterName}'s lines` };
+};
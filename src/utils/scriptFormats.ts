@@ -0,0 +1,24 @@
+export const SCRIPT_FORMATS = [
+  { extension: '.pdf', contentType: 'application/pdf' },
+  { extension: '.fountain', contentType: 'text/plain' },
+  { extension: '.spmd', contentType: 'text/plain' },
+  { extension: '.fdx', contentType: 'application/xml' },
+] as const;
+
+export const SUPPORTED_SCRIPT_EXTENSIONS = SCRIPT_FORMATS.map(format => format.extension);
+
+const findFormat = (fileName: string) =>
+  SCRIPT_FORMATS.find(format => fileName.toLowerCase().endsWith(format.extension));
+
+export const isSupportedScriptFile = (fileName: string): boolean => !!findFormat(fileName);
+
+export const getScriptContentType = (fileName: string): string =>
+  findFormat(fileName)?.contentType ?? 'application/octet-stream';
+
+export const getScriptExtension = (fileName: string): string =>
+  findFormat(fileName)?.extension ?? '';
+
+export const stripScriptExtension = (fileName: string): string => {
+  const format = findFormat(fileName);
+  return format ? fileName.slice(0, -format.extension.length) : fileName;
+};
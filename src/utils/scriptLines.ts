@@ -0,0 +1,374 @@
+import { SceneCastMember, ScriptAnalysis, ScriptParenthetical } from '../types/script';
+
+export type ProcessedLine = ScriptAnalysis['processedLines'][number];
+
+export const ACTION_CHARACTER = 'ACTION';
+
+export interface ScriptPageSummary {
+  pageNumber: number;
+  firstLine: ProcessedLine;
+  lineCount: number;
+}
+
+export interface SpeechSegment {
+  text: string;
+  /** True for a parenthetical direction rather than spoken text. */
+  isDirection: boolean;
+}
+
+const byReadingOrder = (a: ProcessedLine, b: ProcessedLine) =>
+  a.sequentialNumber - b.sequentialNumber;
+
+/**
+ * Pages that have lines on them, in reading order. Empty for scripts whose
+ * lines carry no page numbers (Fountain and Final Draft uploads).
+ */
+export const getScriptPages = (lines: ProcessedLine[]): ScriptPageSummary[] => {
+  const pages = new Map<number, ScriptPageSummary>();
+  [...lines].sort(byReadingOrder).forEach(line => {
+    if (line.pageNumber === undefined) return;
+    const page = pages.get(line.pageNumber);
+    if (page) {
+      page.lineCount++;
+    } else {
+      pages.set(line.pageNumber, { pageNumber: line.pageNumber, firstLine: line, lineCount: 1 });
+    }
+  });
+  return Array.from(pages.values()).sort((a, b) => a.pageNumber - b.pageNumber);
+};
+
+/**
+ * Splits a speech into spoken text and its parentheticals, in reading order.
+ * Directions positioned past the end of an edited line are kept at the end.
+ */
+export const splitAtParentheticals = (
+  text: string,
+  parentheticals: ScriptParenthetical[] = []
+): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+  let offset = 0;
+  [...parentheticals]
+    .map(direction => ({ ...direction, position: Math.min(Math.max(direction.position, 0), text.length) }))
+    .sort((a, b) => a.position - b.position)
+    .forEach(direction => {
+      const spoken = text.slice(offset, direction.position).trim();
+      if (spoken) segments.push({ text: spoken, isDirection: false });
+      segments.push({ text: `(${direction.text})`, isDirection: true });
+      offset = direction.position;
+    });
+  const rest = text.slice(offset).trim();
+  if (rest || segments.length === 0) segments.push({ text: rest, isDirection: false });
+  return segments;
+};
+
+// Keeps a line's parentheticals that fall in [start, end) of its text,
+// repositioned relative to `offset`.
+const parentheticalsBetween = (
+  parentheticals: ScriptParenthetical[] | undefined,
+  start: number,
+  end: number,
+  offset = start
+): { parentheticals?: ScriptParenthetical[] } => {
+  const kept = (parentheticals || [])
+    .filter(direction => direction.position >= start && direction.position < end)
+    .map(direction => ({ ...direction, position: Math.max(0, direction.position - offset) }));
+  return kept.length > 0 ? { parentheticals: kept } : {};
+};
+
+/**
+ * Scene length as printed on breakdowns and call sheets, e.g. "1 3/8".
+ */
+export const formatPageEighths = (eighths: number): string => {
+  const pages = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (rest === 0) return `${pages}`;
+  return pages > 0 ? `${pages} ${rest}/8` : `${rest}/8`;
+};
+
+// Speaking characters between two source lines, in order of their first line
+const sceneCast = (lines: ProcessedLine[], startLine: number, endLine: number): SceneCastMember[] => {
+  const cast = new Map<string, SceneCastMember>();
+  [...lines]
+    .sort((a, b) => a.originalLineNumber - b.originalLineNumber)
+    .forEach(line => {
+      if (line.isAction || line.originalLineNumber < startLine || line.originalLineNumber > endLine) return;
+      const member = cast.get(line.characterName) || { name: line.characterName, lines: 0 };
+      member.lines++;
+      cast.set(line.characterName, member);
+    });
+  return Array.from(cast.values());
+};
+
+// Inserted and split lines need an original line number that sorts between
+// their neighbours without colliding with either of them. It points at no
+// source line, so such lines are marked with editedFrom or userInserted.
+// Nothing sorts before the first source line, 0.
+const lineNumberBetween = (before?: ProcessedLine, after?: ProcessedLine): number => {
+  if (before && after) return (before.originalLineNumber + after.originalLineNumber) / 2;
+  if (before) return before.originalLineNumber + 1;
+  if (after) return after.originalLineNumber >= 1 ? after.originalLineNumber - 1 : after.originalLineNumber / 2;
+  return 0;
+};
+
+// Generated audio belongs to the old text/speaker, so edited lines lose it.
+const withoutVoices = (line: ProcessedLine): ProcessedLine => {
+  const { voices, cueVoices, voiceVolume, ...rest } = line;
+  return rest;
+};
+
+/**
+ * Rebuilds everything derived from processedLines: sequential numbers, the
+ * per-character dialogue arrays and line counts, the action lines, each
+ * scene's cast and the metadata totals. Characters left without any dialogue
+ * are dropped.
+ */
+export const rebuildAnalysis = (
+  analysis: ScriptAnalysis,
+  lines: ProcessedLine[]
+): ScriptAnalysis => {
+  const processedLines = lines.map((line, index) => ({
+    ...line,
+    sequentialNumber: index + 1,
+  }));
+
+  const existing = new Map(analysis.characters.map(character => [character.name, character]));
+  const characters = new Map<string, ScriptAnalysis['characters'][number]>();
+
+  processedLines.forEach(line => {
+    if (line.isAction) return;
+
+    let character = characters.get(line.characterName);
+    if (!character) {
+      character = {
+        ...existing.get(line.characterName),
+        name: line.characterName,
+        lines: 0,
+        firstAppearance: line.originalLineNumber,
+        dialogue: [],
+      };
+      characters.set(line.characterName, character);
+    }
+
+    character.dialogue!.push({
+      text: line.text,
+      lineNumber: line.originalLineNumber,
+      sequentialNumber: line.sequentialNumber,
+      ...(line.voices ? { voices: line.voices } : {}),
+      ...(line.extensions ? { extensions: line.extensions } : {}),
+      ...(line.cueName ? { cueName: line.cueName } : {}),
+      ...(line.parentheticals ? { parentheticals: line.parentheticals } : {}),
+      ...(line.dualGroup !== undefined ? { dualGroup: line.dualGroup } : {}),
+    });
+    character.lines++;
+  });
+
+  const actionLines = processedLines
+    .filter(line => line.isAction)
+    .map(line => ({
+      text: line.text,
+      lineNumber: line.originalLineNumber,
+      sequentialNumber: line.sequentialNumber,
+    }));
+
+  return {
+    ...analysis,
+    characters: Array.from(characters.values()),
+    scenes: (analysis.scenes || []).map(scene => ({
+      ...scene,
+      cast: sceneCast(processedLines, scene.startLine, scene.endLine),
+    })),
+    actionLines,
+    processedLines,
+    metadata: {
+      ...analysis.metadata,
+      totalLines: processedLines.length,
+      estimatedDuration: Math.ceil(processedLines.length / 60),
+    },
+  };
+};
+
+const updateLines = (
+  analysis: ScriptAnalysis,
+  update: (lines: ProcessedLine[]) => ProcessedLine[]
+): ScriptAnalysis =>
+  rebuildAnalysis(analysis, update([...analysis.processedLines].sort(byReadingOrder)));
+
+const indexOfLine = (lines: ProcessedLine[], sequentialNumber: number): number => {
+  const index = lines.findIndex(line => line.sequentialNumber === sequentialNumber);
+  if (index === -1) {
+    throw new Error(`Line ${sequentialNumber} not found`);
+  }
+  return index;
+};
+
+export const reassignLine = (
+  analysis: ScriptAnalysis,
+  sequentialNumber: number,
+  characterName: string
+): ScriptAnalysis =>
+  updateLines(analysis, lines => {
+    const index = indexOfLine(lines, sequentialNumber);
+    lines[index] = {
+      ...withoutVoices(lines[index]),
+      characterId: characterName,
+      characterName,
+      isAction: false,
+      isUser: false,
+    };
+    return lines;
+  });
+
+export const updateLineText = (
+  analysis: ScriptAnalysis,
+  sequentialNumber: number,
+  text: string
+): ScriptAnalysis =>
+  updateLines(analysis, lines => {
+    const index = indexOfLine(lines, sequentialNumber);
+    lines[index] = { ...withoutVoices(lines[index]), text };
+    return lines;
+  });
+
+/**
+ * Turns an action line into dialogue for `characterName`, or a dialogue line
+ * into action.
+ */
+export const toggleAction = (
+  analysis: ScriptAnalysis,
+  sequentialNumber: number,
+  characterName?: string
+): ScriptAnalysis =>
+  updateLines(analysis, lines => {
+    const index = indexOfLine(lines, sequentialNumber);
+    const line = lines[index];
+
+    if (line.isAction) {
+      if (!characterName) {
+        throw new Error('A character is required to turn an action line into dialogue');
+      }
+      lines[index] = {
+        ...line,
+        characterId: characterName,
+        characterName,
+        isAction: false,
+        isUser: false,
+      };
+    } else {
+      // Firestore rejects undefined fields, so drop isUser rather than clear it;
+      // action has no one to give directions to or speak over
+      const { isUser, parentheticals, dualGroup, ...rest } = withoutVoices(line);
+      lines[index] = {
+        ...rest,
+        characterId: ACTION_CHARACTER,
+        characterName: ACTION_CHARACTER,
+        isAction: true,
+      };
+    }
+    return lines;
+  });
+
+/**
+ * Splits a line in two at `position`; both halves keep the original speaker.
+ */
+export const splitLine = (
+  analysis: ScriptAnalysis,
+  sequentialNumber: number,
+  position: number
+): ScriptAnalysis =>
+  updateLines(analysis, lines => {
+    const index = indexOfLine(lines, sequentialNumber);
+    const line = lines[index];
+    const first = line.text.slice(0, position).trim();
+    const second = line.text.slice(position).trim();
+
+    if (!first || !second) {
+      throw new Error('Both parts of a split line need text');
+    }
+
+    const { parentheticals, ...rest } = withoutVoices(line);
+    // Neither half matches its source line any more
+    const source = rest.userInserted ? {} : { editedFrom: rest.editedFrom ?? line.originalLineNumber };
+    const secondStart = line.text.indexOf(second, position);
+    lines.splice(
+      index,
+      1,
+      { ...rest, ...source, text: first, ...parentheticalsBetween(parentheticals, 0, position) },
+      {
+        ...rest,
+        ...source,
+        text: second,
+        originalLineNumber: lineNumberBetween(line, lines[index + 1]),
+        ...parentheticalsBetween(parentheticals, position, Infinity, secondStart),
+      }
+    );
+    return lines;
+  });
+
+/**
+ * Merges a line with the one after it. The merged line keeps the first
+ * line's speaker and line number.
+ */
+export const mergeWithNext = (
+  analysis: ScriptAnalysis,
+  sequentialNumber: number
+): ScriptAnalysis =>
+  updateLines(analysis, lines => {
+    const index = indexOfLine(lines, sequentialNumber);
+    const next = lines[index + 1];
+    if (!next) {
+      throw new Error('There is no following line to merge with');
+    }
+
+    const offset = lines[index].text.length + 1;
+    const parentheticals = [
+      ...(lines[index].parentheticals || []),
+      ...(next.parentheticals || []).map(direction => ({ ...direction, position: direction.position + offset })),
+    ];
+    lines.splice(index, 2, {
+      ...withoutVoices(lines[index]),
+      text: `${lines[index].text} ${next.text}`.trim(),
+      ...(parentheticals.length > 0 ? { parentheticals } : {}),
+    });
+    return lines;
+  });
+
+/**
+ * Inserts a new line after `afterSequentialNumber`, or at the start of the
+ * script when it is 0.
+ */
+export const insertLine = (
+  analysis: ScriptAnalysis,
+  afterSequentialNumber: number,
+  line: { text: string; characterName?: string; isAction?: boolean }
+): ScriptAnalysis =>
+  updateLines(analysis, lines => {
+    const index = afterSequentialNumber === 0 ? -1 : indexOfLine(lines, afterSequentialNumber);
+    const characterName = line.isAction ? ACTION_CHARACTER : line.characterName;
+    // A new line sits on the same page as the line it follows
+    const pageNumber = (lines[index] ?? lines[index + 1])?.pageNumber;
+
+    if (!characterName) {
+      throw new Error('A character is required for a dialogue line');
+    }
+
+    lines.splice(index + 1, 0, {
+      characterId: characterName,
+      characterName,
+      text: line.text.trim(),
+      originalLineNumber: lineNumberBetween(lines[index], lines[index + 1]),
+      sequentialNumber: 0,
+      userInserted: true,
+      ...(line.isAction ? { isAction: true } : { isUser: false }),
+      ...(pageNumber !== undefined ? { pageNumber } : {}),
+    });
+    return lines;
+  });
+
+export const deleteLine = (
+  analysis: ScriptAnalysis,
+  sequentialNumber: number
+): ScriptAnalysis =>
+  updateLines(analysis, lines => {
+    lines.splice(indexOfLine(lines, sequentialNumber), 1);
+    return lines;
+  });